@@ -0,0 +1,26 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: { module: 'commonjs' } }],
+    '^.+\\.js$': ['ts-jest', { tsconfig: { module: 'commonjs', allowJs: true } }],
+  },
+  // image-js depends on packages that only ship ES modules
+  transformIgnorePatterns: ['/node_modules/(?!(.*/)?(is-any-array|ml-[a-z-]+)/)'],
+  // Same aliases as tsconfig.json and webpack.config.js
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+    '^@main/(.*)$': '<rootDir>/src/main/$1',
+    '^@renderer/(.*)$': '<rootDir>/src/renderer/$1',
+    '^@common/(.*)$': '<rootDir>/src/common/$1',
+    '^@components/(.*)$': '<rootDir>/src/components/$1',
+    '^@store/(.*)$': '<rootDir>/src/store/$1',
+    '^@services/(.*)$': '<rootDir>/src/services/$1',
+    '^@utils/(.*)$': '<rootDir>/src/utils/$1',
+    '^@assets/(.*)$': '<rootDir>/src/assets/$1',
+    '^@config/(.*)$': '<rootDir>/src/config/$1',
+    '^@i18n/(.*)$': '<rootDir>/src/i18n/$1',
+  },
+};
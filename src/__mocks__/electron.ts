@@ -0,0 +1,21 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let userData: string | null = null;
+
+/**
+ * Stand-in for the Electron API in tests, which run in plain Node. Main process modules
+ * only reach the app for paths, and only when they are called. Each test file gets a user
+ * data folder of its own, so tests never share a database.
+ */
+export const app = {
+  isPackaged: false,
+  getAppPath: () => process.cwd(),
+  getPath: () => {
+    userData ??= fs.mkdtempSync(path.join(os.tmpdir(), 'mediamaster-test-'));
+    return userData;
+  },
+  getVersion: () => '0.0.0',
+  on: () => app,
+};
@@ -13,6 +13,13 @@ export interface FileMetadata {
     // EXIF data (optional)
     dateTimeOriginal?: string;
     createDate?: string;
+    creationDate?: string;          // QuickTime CreationDate written by phones into videos
+    captureDate?: Date;             // Best known capture date, taken from dateSource
+    dateSource?: DateSource;
+    offsetTimeOriginal?: string;    // UTC offset of DateTimeOriginal, e.g. "+03:00"
+    offsetTime?: string;
+    timeZone?: string;              // Zone the file was captured in, IANA name or UTC offset; system time when unset
+    timeZoneSource?: TimeZoneSource;
     make?: string;
     model?: string;
     width?: number;
@@ -23,9 +30,39 @@ export interface FileMetadata {
     exposureTime?: string;
     fNumber?: number;
     focalLength?: number;
+    contentIdentifier?: string;     // Apple Live Photo pairing id
+    location?: GeoLocation;         // Place of geotagged files, when geo tagging is on
+    detectedExtension?: string;     // Extension the file's content calls for, set when its own does not fit
+    video?: VideoMetadata;          // Stream details of videos, when ffprobe is installed
     exif?: Record<string, any>;
 }
 
+/**
+ * Place a file was captured at, looked up offline from its GPS position
+ */
+export interface GeoLocation {
+    country: string;
+    countryCode: string;            // ISO 3166-1 alpha-2, e.g. "TR"
+    region: string;                 // State, province or similar first-level division
+    city?: string;                  // Nearest known city in the country, unset far away from one
+}
+
+/**
+ * Stream details of a video, read with ffprobe
+ */
+export interface VideoMetadata {
+    duration?: number;              // Seconds
+    codec?: string;                 // Video codec as ffprobe names it, e.g. "h264" or "hevc"
+    bitrate?: number;               // Bits per second of the whole file
+    frameRate?: number;             // Average frames per second
+    width?: number;                 // Encoded size, before rotation
+    height?: number;
+    rotation?: number;              // Degrees the picture is turned clockwise when shown
+    audioCodec?: string;
+    audioChannels?: number;
+    creationTime?: string;          // Container creation_time, ISO 8601 in UTC
+}
+
 /**
  * Option for organization pattern
  */
@@ -35,10 +72,452 @@ export interface PatternOption {
     example: string;
 }
 
+/**
+ * Conflict resolution strategy when a destination file already exists
+ */
+export type ConflictStrategy =
+    | 'rename'                 // Give the incoming file a numbered name
+    | 'skip'                   // Leave the incoming file alone
+    | 'overwrite'              // Replace the existing file
+    | 'keep-larger'            // Keep whichever of the two files is larger
+    | 'keep-newer'             // Keep whichever of the two files was modified last
+    | 'keep-both-if-different' // Rename unless the contents are identical, then skip
+    | 'review-folder';         // Put the incoming file in a review folder for a manual decision
+
+/**
+ * Settings for resolving destination name conflicts
+ */
+export interface ConflictOptions {
+    renameTemplate?: string;        // Numbered name, e.g. "{name}_{n}" (default) or "{name} ({n})"
+    reviewFolder?: string;          // Folder under the destination for 'review-folder' conflicts
+}
+
+/**
+ * Filters applied to source files before organizing
+ */
+export interface OrganizeFilters {
+    dateFrom?: string;   // Inclusive start date (YYYY-MM-DD)
+    dateTo?: string;     // Inclusive end date (YYYY-MM-DD)
+    sizeLimit?: string;  // Maximum file size, e.g. "500MB" (plain numbers are MB)
+    fileTypes?: string[]; // Extensions to include
+}
+
+/**
+ * Case applied to file extensions when renaming
+ */
+export type RenameExtensionCase = 'keep' | 'lower' | 'upper';
+
+/**
+ * Where the capture date of a file came from, from most to least trusted
+ */
+export type DateSource = 'dateTimeOriginal' | 'createDate' | 'creationDate' | 'filename' | 'mtime';
+
+/**
+ * Built-in parsers for dates in file names, such as WhatsApp's IMG-20230102-WA0001.jpg
+ */
+export type FilenameDateParserId =
+    | 'whatsapp'
+    | 'pixel'
+    | 'android'
+    | 'screenshot'
+    | 'signal'
+    | 'telegram'
+    | 'generic';
+
+/**
+ * Settings for reading capture dates from file names when the metadata has none
+ */
+export interface FilenameDateOptions {
+    enabled: boolean;
+    parsers: FilenameDateParserId[];
+    customPatterns: string[];       // Regular expressions with year, month and day groups, tried first
+}
+
+/**
+ * Where the time zone of a file came from
+ */
+export type TimeZoneSource = 'metadata' | 'override' | 'gps';
+
+/**
+ * Settings for placing capture dates in the time zone they were taken in, used for files
+ * whose metadata has no UTC offset
+ */
+export interface TimeZoneOptions {
+    override: string;               // IANA zone or UTC offset for every file of the run, empty to work it out
+    inferFromGps: boolean;          // Look up the zone of geotagged files from their position
+}
+
+/**
+ * How a file is recognized as imported before: by content, or by name, size and
+ * modification time, which is faster on slow cards
+ */
+export type ImportMatchMode = 'hash' | 'name-size-date';
+
+/**
+ * Additional organize behaviour toggles
+ */
+export interface OrganizeExtraOptions {
+    createBackup: boolean;
+    skipDuplicates: boolean;
+    verifyCopies?: boolean;         // Compare checksums after every copy, a mismatch fails the file
+    incrementalImport?: boolean;    // Skip files imported from the same volume in an earlier run
+    importMatch?: ImportMatchMode;
+    organizeByType: boolean;
+    organizeByCamera: boolean;
+    customRenamePattern?: string;   // File name template, e.g. "{YYYY}{MM}{DD}_{seq:4}"; empty keeps names
+    renameExtensionCase?: RenameExtensionCase;
+    fixExtensions?: boolean;        // Give files whose content does not match their extension the right one
+}
+
+/**
+ * Settings for grouping captures into events (%e)
+ */
+export interface EventClusteringOptions {
+    gapHours: number;               // Start a new event after this long without captures
+    maxDistanceKm?: number;         // Also split when consecutive captures are further apart, 0 disables
+    name?: string;                  // Name for new events instead of "Event N"
+}
+
+/**
+ * Conditions a file must meet for a routing rule to apply. Empty conditions are ignored,
+ * lists match when any entry matches.
+ */
+export interface RoutingRuleConditions {
+    makes?: string[];               // Camera make contains one of these (case-insensitive)
+    models?: string[];              // Camera model contains one of these (case-insensitive)
+    extensions?: string[];          // File extensions without the dot
+    types?: ('image' | 'video')[];
+    nameContains?: string;          // File name contains this text (case-insensitive)
+    minSizeMb?: number;
+    maxSizeMb?: number;
+    dateFrom?: string;              // Inclusive capture date (YYYY-MM-DD)
+    dateTo?: string;                // Inclusive capture date (YYYY-MM-DD)
+    hasGps?: boolean;               // true: only geotagged files, false: only files without GPS
+    minResolution?: number;         // Shorter side in pixels, e.g. 2160 for 4K
+    maxResolution?: number;
+    minDurationSec?: number;        // Videos only
+    maxDurationSec?: number;        // Videos only
+    codecs?: string[];              // Video codec, e.g. hevc or h264 (case-insensitive)
+    categories?: string[];          // AI category or tag, images are categorized on demand
+}
+
+/**
+ * Sends matching files to their own destination and pattern. Rules are evaluated in
+ * order and the first enabled match wins; unmatched files use the run's own pattern.
+ */
+export interface RoutingRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    conditions: RoutingRuleConditions;
+    destination: string;            // Absolute, or relative to the organize destination; empty for the destination itself
+    pattern: string;                // Organization pattern, e.g. "%Y/%m"
+}
+
+/**
+ * Options for an organize run
+ */
+export interface OrganizeOptions {
+    sourcePath: string;
+    destinationPath: string;
+    operation: 'move' | 'copy';
+    pattern: string;
+    recursive: boolean;
+    conflicts: ConflictStrategy;
+    conflictOptions?: ConflictOptions;
+    filters?: OrganizeFilters;
+    options?: OrganizeExtraOptions;
+    events?: EventClusteringOptions;
+    filenameDates?: FilenameDateOptions;
+    timeZones?: TimeZoneOptions;
+    geoTagging?: boolean;           // Look up the place of geotagged files for %C, %S and %L
+    scanRules?: ScanRules;          // Only .mmignore files apply when unset
+    rules?: RoutingRule[];
+    files?: string[];               // Organize only these files instead of scanning sourcePath
+}
+
+/**
+ * Organize settings kept in a settings profile, without the folders of a single run.
+ * Geo tagging and scan rules are advanced settings of the profile instead.
+ */
+export type OrganizeProfileSettings = Omit<
+    OrganizeOptions,
+    'sourcePath' | 'destinationPath' | 'rules' | 'files' | 'geoTagging' | 'scanRules'
+>;
+
+/**
+ * Summary of an organize run
+ */
+export interface OrganizeResult {
+    taskId?: number;                // Journal entry for the run, used for undo
+    total: number;
+    succeeded: number;
+    skipped: number;
+    errors: number;
+}
+
+/**
+ * A folder whose new media is organized automatically with a settings profile
+ */
+export interface WatchFolder {
+    id: string;
+    path: string;
+    destinationPath: string;
+    profileName: string;            // Profile whose organize settings and rules are used
+    recursive: boolean;
+    enabled: boolean;
+}
+
+/**
+ * A newly mounted volume with camera media, such as a memory card
+ */
+export interface DetectedVolume {
+    volumeId: string;               // Stays the same each time the volume is mounted
+    label: string;
+    mountPath: string;
+    dcimPath: string;
+}
+
+/**
+ * Import of a volume with the organize settings of a profile
+ */
+export interface CardImportRequest {
+    sourcePath: string;
+    destinationPath: string;
+    profileName: string;
+}
+
+/**
+ * A watch folder together with the state of its watcher
+ */
+export interface WatchFolderInfo extends WatchFolder {
+    watching: boolean;
+    pending: number;                // Files waiting to stop growing or for the current run
+    lastRunAt?: string;
+    lastResult?: OrganizeResult;
+    error?: string;
+}
+
+/**
+ * Work a schedule runs
+ */
+export type ScheduledJob =
+    | { kind: 'organize'; profileName: string; sourcePath: string; destinationPath: string }
+    | { kind: 'duplicate-scan'; path: string; recursive: boolean }
+    | { kind: 'cloud-upload'; provider: CloudProvider; path: string; recursive: boolean; folderId?: string }
+    | { kind: 'bit-rot-check'; path: string; recursive: boolean };
+
+export type ScheduledJobKind = ScheduledJob['kind'];
+
+/**
+ * When a schedule runs, in local time
+ */
+export type ScheduleTiming =
+    | { type: 'daily'; time: string }                   // HH:MM
+    | { type: 'weekly'; time: string; days: number[] }  // Days of the week, 0 is Sunday
+    | { type: 'cron'; expression: string };             // Five-field cron expression
+
+/**
+ * A recurring job
+ */
+export interface Schedule {
+    id: string;
+    name: string;
+    job: ScheduledJob;
+    timing: ScheduleTiming;
+    paused: boolean;
+    catchUp: boolean;               // Run once on startup when runs were missed while closed
+    lastRunAt?: string;
+    lastStatus?: TaskStatus;
+    lastTaskId?: number;            // Journal entry of the last run
+    nextRunAt?: string;
+}
+
+export type NewSchedule = Pick<Schedule, 'name' | 'job' | 'timing'> & Partial<Pick<Schedule, 'paused' | 'catchUp'>>;
+
+/**
+ * Result of checking stored hashes against file content
+ */
+export interface IntegrityReport {
+    checked: number;                // Files compared with a stored hash
+    indexed: number;                // Files hashed for the first time or after a change
+    corrupted: string[];            // Content changed while size and modification time did not
+}
+
+/**
+ * Action the organizer will take for a file
+ */
+export type PlannedAction = 'move' | 'copy' | 'skip' | 'rename';
+
+/**
+ * Why the organizer chose an action
+ */
+export type PlanReason =
+    | 'new'                  // Destination is free
+    | 'conflict-renamed'     // Destination taken, file gets a numbered name
+    | 'conflict-skipped'     // Destination taken, file is left alone
+    | 'conflict-overwritten' // Destination taken, existing file is replaced
+    | 'conflict-larger'      // Destination taken by a smaller file, which is replaced
+    | 'conflict-smaller'     // Destination taken by a file at least as large, file is left alone
+    | 'conflict-newer'       // Destination taken by an older file, which is replaced
+    | 'conflict-older'       // Destination taken by a file at least as new, file is left alone
+    | 'conflict-identical'   // Destination taken by a file with the same content, file is left alone
+    | 'conflict-review'      // Destination taken, file goes to the review folder
+    | 'already-in-place'     // Source and destination are the same file
+    | 'duplicate'            // Identical file already in the destination library
+    | 'already-imported'     // Imported from the same volume in an earlier run
+    | 'filtered';            // Excluded by date or size filters
+
+/**
+ * A single planned organize operation
+ */
+export interface PlannedOperation {
+    sourcePath: string;
+    destinationPath: string | null; // Resolved destination, null when filtered out
+    action: PlannedAction;
+    reason: PlanReason;
+    overwrite?: boolean;            // Replace an existing destination file
+    conflictPath?: string;          // Existing file the destination conflicted with
+    rule?: string;                  // Name of the routing rule that picked the destination
+    companionOf?: string;           // Primary file this sidecar or paired file travels with
+    dateSource?: DateSource;        // Where the date used for the destination came from
+    timeZone?: string;              // Zone the date was read in, unset for system time
+    detectedExtension?: string;     // Extension the content calls for, when the file's own does not fit
+}
+
+/**
+ * What scans do with symbolic links: leave them out, or follow them to their target
+ * without visiting a folder twice
+ */
+export type SymlinkPolicy = 'skip' | 'follow';
+
+/**
+ * Files and folders scans leave out. Folders can add their own patterns in a .mmignore
+ * file, written like .gitignore.
+ */
+export interface ScanRules {
+    ignoreGlobs: string[];          // .gitignore-style patterns, e.g. "@eaDir/" or "*.lrdata/"
+    symlinks: SymlinkPolicy;
+    includeHidden: boolean;         // Include files and folders whose name starts with a dot
+    maxDepth: number;               // Levels of subfolders to descend into, 0 for no limit
+}
+
+/**
+ * A file extension added to the supported formats in settings. Its content is not checked.
+ */
+export interface CustomMediaFormat {
+    extension: string;              // Without the dot, e.g. "cr3"
+    type: 'image' | 'video';
+    raw?: boolean;                  // Camera RAW, preferred over JPEGs of the same shot
+}
+
+/**
+ * Options for scanning a folder tree from the renderer
+ */
+export interface ScanOptions {
+    recursive?: boolean;
+    fileTypes?: string[];           // Extensions to include, all supported formats by default
+    scanRules?: ScanRules;          // Only .mmignore files apply when unset
+    scanId?: string;                // Token to cancel the scan with, chosen by the caller
+    readMetadata?: boolean;         // Read the metadata of found files while scanning
+    computeHashes?: boolean;        // Hash found files into the hash index while scanning
+}
+
+/**
+ * Counts of a folder tree walk
+ */
+export interface DirectoryScanProgress {
+    currentFolder: string;          // Folder last opened
+    foldersScanned: number;
+    filesFound: number;
+    errors: number;                 // Folders that could not be read
+}
+
+/**
+ * Batch of results sent while a scan runs
+ */
+export interface ScanProgress extends DirectoryScanProgress {
+    scanId: string;
+    files: string[];                // Files found since the previous batch
+    metadata?: Record<string, FileMetadata>; // Metadata read since the previous batch
+    metadataRead: number;
+    hashed: number;
+}
+
+/**
+ * Totals of a finished or cancelled scan
+ */
+export interface ScanSummary {
+    foldersScanned: number;
+    filesFound: number;
+    metadataRead: number;
+    hashed: number;
+    errors: number;                 // Unreadable folders, files without metadata and failed hashes
+    cancelled: boolean;
+}
+
+/**
+ * Byte-identical files found in a folder tree
+ */
+export interface DuplicateGroup {
+    hash: string;                   // SHA-256 of the shared content
+    size: number;
+    files: string[];
+}
+
+/**
+ * Options for finding visually similar images
+ */
+export interface NearDuplicateOptions {
+    recursive?: boolean;
+    threshold?: number;             // Maximum differing hash bits (of 64) to count as similar
+}
+
+/**
+ * An image in a near-duplicate group
+ */
+export interface NearDuplicateFile {
+    path: string;
+    size: number;
+    width?: number;
+    height?: number;
+    exifFields: number;             // Number of key EXIF fields present
+    similarity: number;             // Similarity to the suggested best copy in percent
+}
+
+/**
+ * Visually similar images that are likely copies of one another
+ */
+export interface NearDuplicateGroup {
+    similarity: number;             // Lowest similarity between linked images in percent
+    bestPath: string;               // Suggested copy to keep
+    files: NearDuplicateFile[];
+}
+
+/**
+ * Result of moving files to the trash
+ */
+export interface TrashResult {
+    trashed: string[];
+    failed: { path: string; error: string }[];
+}
+
 /**
  * Task status
  */
-export type TaskStatus = 'pending' | 'running' | 'completed' | 'cancelled' | 'error';
+export type TaskStatus =
+    | 'pending'
+    | 'running'
+    | 'completed'
+    | 'cancelled'
+    | 'error'
+    | 'undone'
+    | 'partially-undone';       // Undo left files it could not restore, undo can be retried
+
+/**
+ * Kind of work a task records
+ */
+export type TaskKind = ScheduledJobKind | 'conversion';
 
 /**
  * Task information
@@ -60,12 +539,79 @@ export interface Task {
     succeededFiles: number;
     skippedFiles: number;
     errorFiles: number;
+    kind: TaskKind;
+    scheduleId?: string;            // Schedule that started the task
+    summary?: string;               // Outcome of jobs that do not move files
+}
+
+/**
+ * A task that was still running when the application quit or crashed
+ */
+export interface InterruptedTask {
+    id: number;
+    name: string;
+    kind: TaskKind;
+    startedAt?: string;
+    totalFiles: number;
+    remainingFiles: number;         // Files still pending or caught mid-processing
+}
+
+/**
+ * Filter and paging for the task history, newest tasks come first
+ */
+export interface TaskListOptions {
+    kind?: TaskKind;
+    status?: TaskStatus;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * Kind of work run through the job queue
+ */
+export type JobType =
+    | 'organize'
+    | 'plan'
+    | 'duplicate-scan'
+    | 'near-duplicate-scan'
+    | 'bit-rot-check'
+    | 'conversion'
+    | 'ai-categorization'
+    | 'face-recognition'
+    | 'cloud-upload'
+    | 'exif-edit';
+
+export type JobState = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Progress of a job, files for most jobs
+ */
+export interface JobProgress {
+    processed: number;
+    total: number;
+    percentage: number;
+    file?: string;                  // File being processed
+}
+
+/**
+ * A job in the queue, as shown in the jobs drawer
+ */
+export interface JobInfo {
+    id: string;
+    type: JobType;
+    name: string;
+    state: JobState;
+    progress: JobProgress;
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    error?: string;
 }
 
 /**
  * File processing status
  */
-export type FileStatus = 'pending' | 'processing' | 'succeeded' | 'skipped' | 'error';
+export type FileStatus = 'pending' | 'processing' | 'succeeded' | 'skipped' | 'error' | 'undone';
 
 /**
  * File processing information
@@ -83,6 +629,33 @@ export interface FileProcessing {
     exifData?: string;
     status: FileStatus;
     errorMessage?: string;
+    action?: PlannedAction;
+    reason?: PlanReason;
+    conflictPath?: string;
+    dateSource?: DateSource;
+}
+
+/**
+ * A file that could not be restored by an undo
+ */
+export interface UndoIssue {
+    path: string;
+    reason: 'missing'       // Destination file no longer exists
+        | 'modified'        // Destination changed after the run
+        | 'source-exists'   // Something else now occupies the original path
+        | 'overwritten'     // Replaced a library file from before replaced files were kept
+        | 'error';
+    message?: string;
+}
+
+/**
+ * Result of undoing a task
+ */
+export interface UndoResult {
+    taskId: number;
+    restored: number;
+    removedDirectories: number;
+    issues: UndoIssue[];
 }
 
 /**
@@ -426,29 +999,49 @@ export interface ElectronAPI {
     selectFile: (options?: { title?: string; defaultPath?: string; filters?: { name: string; extensions: string[] }[] }) => Promise<string | null>;
 
     // File operations
-    scanDirectory: (dirPath: string, options: { recursive: boolean; fileTypes?: string[] }) => Promise<{ success: boolean; files?: string[]; error?: string }>;
+    scanDirectory: (dirPath: string, options: ScanOptions) => Promise<{ success: boolean; summary?: ScanSummary; error?: string }>;
+    cancelScan: (scanId: string) => Promise<{ success: boolean; error?: string }>;
+    setCustomFormats: (formats: CustomMediaFormat[]) => Promise<{ success: boolean; error?: string }>;
     getFileMetadata: (filePath: string) => Promise<{ success: boolean; metadata?: FileMetadata; error?: string }>;
-    organizeFiles: (options: {
-        sourcePath: string;
-        destinationPath: string;
-        operation: 'move' | 'copy';
-        pattern: string;
-        recursive: boolean;
-        conflicts: 'rename' | 'skip' | 'overwrite';
-        filters?: {
-            dateFrom?: string;
-            dateTo?: string;
-            sizeLimit?: string;
-            fileTypes?: string[];
-        };
-        options?: {
-            createBackup: boolean;
-            skipDuplicates: boolean;
-            organizeByType: boolean;
-            organizeByCamera: boolean;
-            customRenamePattern?: string;
-        };
-    }) => Promise<{ success: boolean; results?: { total: number; succeeded: number; skipped: number; errors: number }; error?: string }>;
+    organizeFiles: (options: OrganizeOptions) => Promise<{ success: boolean; results?: OrganizeResult; error?: string }>;
+    planOrganize: (options: OrganizeOptions) => Promise<{ success: boolean; plan?: PlannedOperation[]; error?: string }>;
+    findDuplicates: (dirPath: string, options?: { recursive?: boolean }) => Promise<{ success: boolean; groups?: DuplicateGroup[]; error?: string }>;
+    findNearDuplicates: (dirPath: string, options?: NearDuplicateOptions) => Promise<{ success: boolean; groups?: NearDuplicateGroup[]; error?: string }>;
+    trashFiles: (paths: string[]) => Promise<{ success: boolean; result?: TrashResult; error?: string }>;
+
+    // Task operations
+    undoTask: (taskId: number) => Promise<{ success: boolean; result?: UndoResult; error?: string }>;
+    listTasks: (options?: TaskListOptions) => Promise<{ success: boolean; tasks?: Task[]; error?: string }>;
+    getTask: (taskId: number) => Promise<{ success: boolean; task?: Task; error?: string }>;
+    getTaskFiles: (taskId: number, status?: FileStatus) => Promise<{ success: boolean; files?: FileProcessing[]; error?: string }>;
+    deleteTask: (taskId: number) => Promise<{ success: boolean; error?: string }>;
+    rerunTask: (taskId: number) => Promise<{ success: boolean; taskId?: number; error?: string }>;
+    retryFailedFiles: (taskId: number) => Promise<{ success: boolean; taskId?: number; error?: string }>;
+
+    // Watch folders
+    listWatchFolders: () => Promise<{ success: boolean; watches?: WatchFolderInfo[]; error?: string }>;
+    saveWatchFolder: (watch: Omit<WatchFolder, 'id'> & { id?: string }) => Promise<{ success: boolean; watch?: WatchFolder; error?: string }>;
+    removeWatchFolder: (id: string) => Promise<{ success: boolean; error?: string }>;
+
+    // Card import
+    importVolume: (request: CardImportRequest) => Promise<{ success: boolean; results?: OrganizeResult; error?: string }>;
+    forgetImports: (sourcePath: string) => Promise<{ success: boolean; forgotten?: number; error?: string }>;
+
+    // Schedules
+    listSchedules: () => Promise<{ success: boolean; schedules?: Schedule[]; error?: string }>;
+    createSchedule: (schedule: NewSchedule) => Promise<{ success: boolean; schedule?: Schedule; error?: string }>;
+    pauseSchedule: (id: string) => Promise<{ success: boolean; schedule?: Schedule; error?: string }>;
+    resumeSchedule: (id: string) => Promise<{ success: boolean; schedule?: Schedule; error?: string }>;
+    deleteSchedule: (id: string) => Promise<{ success: boolean; error?: string }>;
+    setSchedulingEnabled: (enabled: boolean) => Promise<{ success: boolean; error?: string }>;
+
+    // Job queue
+    listJobs: () => Promise<{ success: boolean; jobs?: JobInfo[]; concurrency?: number; error?: string }>;
+    pauseJob: (id: string) => Promise<{ success: boolean; error?: string }>;
+    resumeJob: (id: string) => Promise<{ success: boolean; error?: string }>;
+    cancelJob: (id: string) => Promise<{ success: boolean; error?: string }>;
+    clearFinishedJobs: () => Promise<{ success: boolean; error?: string }>;
+    setJobConcurrency: (concurrency: number) => Promise<{ success: boolean; error?: string }>;
 
     // Format conversion operations
     convertFile: (sourcePath: string, options: {
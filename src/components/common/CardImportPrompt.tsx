@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSelector } from 'react-redux';
+import { RootState, useAppDispatch } from '@/store';
+import { showNotification } from '@store/slices/appSlice';
+import { loadProfiles } from '@store/slices/settingsSlice';
+import { DetectedVolume } from '@common/types';
+import DirectoryPicker from '@components/common/DirectoryPicker';
+import { Button, Card, FormGroup, FormLabel, FormSelect } from '../ui';
+
+// Import icons
+import { BiImport } from 'react-icons/bi';
+
+/**
+ * Offers to import a memory card when one is mounted, with the organize settings of a
+ * chosen profile. Only files not imported from the card before are brought in.
+ */
+const CardImportPrompt: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+
+  const { profiles, currentProfile } = useSelector((state: RootState) => state.settings);
+  const organizeDestination = useSelector((state: RootState) => state.organize.destinationPath);
+
+  // Local state
+  const [volumes, setVolumes] = useState<DetectedVolume[]>([]);
+  const [profileName, setProfileName] = useState(currentProfile);
+  const [destinationPath, setDestinationPath] = useState(organizeDestination);
+
+  // Cards mounted while one is being asked about wait their turn
+  useEffect(() => {
+    const removeMountedListener = window.electronAPI.on(
+      'import:volumeMounted',
+      (volume: DetectedVolume) => {
+        dispatch(loadProfiles());
+        setVolumes((queued) => [...queued, volume]);
+      },
+    );
+
+    return () => removeMountedListener();
+  }, [dispatch]);
+
+  useEffect(() => {
+    setProfileName(currentProfile);
+  }, [currentProfile]);
+
+  useEffect(() => {
+    if (!destinationPath) {
+      setDestinationPath(organizeDestination);
+    }
+  }, [organizeDestination, destinationPath]);
+
+  const volume = volumes[0];
+  if (!volume) {
+    return null;
+  }
+
+  const dismiss = () => setVolumes((queued) => queued.slice(1));
+
+  const handleBrowse = async () => {
+    const selected = await window.electronAPI.selectDirectory({
+      title: t('cardImport.destination'),
+      defaultPath: destinationPath,
+    });
+    if (selected) {
+      setDestinationPath(selected);
+    }
+  };
+
+  // The import runs as a job, the prompt moves on to the next card right away
+  const handleImport = async () => {
+    dismiss();
+    dispatch(
+      showNotification({ type: 'info', message: t('cardImport.started', { label: volume.label }) }),
+    );
+
+    const result = await window.electronAPI.importVolume({
+      sourcePath: volume.dcimPath,
+      destinationPath,
+      profileName,
+    });
+
+    dispatch(
+      showNotification(
+        result.success && result.results
+          ? {
+              type: 'success',
+              message: t('cardImport.complete', {
+                label: volume.label,
+                succeeded: result.results.succeeded,
+                skipped: result.results.skipped,
+              }),
+            }
+          : { type: 'error', message: result.error || t('cardImport.error') },
+      ),
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <Card className="w-full max-w-lg">
+        <h2 className="text-xl font-semibold mb-2">{t('cardImport.title')}</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {t('cardImport.message', { label: volume.label })}
+        </p>
+
+        <FormGroup>
+          <FormLabel htmlFor="cardImportProfile">{t('cardImport.profile')}</FormLabel>
+          <FormSelect
+            id="cardImportProfile"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+          >
+            {profiles.map((profile) => (
+              <option key={profile} value={profile}>
+                {profile}
+              </option>
+            ))}
+          </FormSelect>
+        </FormGroup>
+
+        <DirectoryPicker
+          label={t('cardImport.destination')}
+          value={destinationPath}
+          onChange={setDestinationPath}
+          onBrowse={handleBrowse}
+        />
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="secondary" onClick={dismiss}>
+            {t('cardImport.dismiss')}
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleImport}
+            disabled={!profileName || !destinationPath}
+          >
+            <BiImport className="inline-block mr-2" />
+            {t('cardImport.import')}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default CardImportPrompt;
@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '@/store';
+import { showNotification } from '@store/slices/appSlice';
+import { JobInfo, JobState } from '@common/types';
+import ProgressIndicator from '@components/common/ProgressIndicator';
+
+// Import icons
+import { BiListUl, BiPause, BiPlay, BiStop, BiTrash, BiX } from 'react-icons/bi';
+
+const ACTIVE_STATES: JobState[] = ['queued', 'running', 'paused'];
+
+const STATE_COLORS: Record<JobState, string> = {
+  queued: 'text-gray-500 dark:text-gray-400',
+  running: 'text-blue-600 dark:text-blue-400',
+  paused: 'text-yellow-600 dark:text-yellow-400',
+  completed: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  cancelled: 'text-gray-500 dark:text-gray-400',
+};
+
+/**
+ * Global list of queued, running and finished jobs, with controls to pause, resume and cancel
+ */
+const JobsDrawer: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch();
+
+  const parallelJobs = useSelector(
+    (state: RootState) => state.settings.advancedSettings.parallelJobs,
+  );
+
+  // Local state
+  const [jobs, setJobs] = useState<JobInfo[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const activeCount = jobs.filter((job) => ACTIVE_STATES.includes(job.state)).length;
+
+  // Load the current jobs, then follow the update stream
+  useEffect(() => {
+    window.electronAPI.listJobs().then((result) => {
+      if (result.success) {
+        setJobs(result.jobs || []);
+      }
+    });
+
+    const removeUpdateListener = window.electronAPI.on('jobs:update', (updated: JobInfo[]) =>
+      setJobs(updated),
+    );
+
+    return () => removeUpdateListener();
+  }, []);
+
+  // The worker pool follows the parallel jobs setting
+  useEffect(() => {
+    window.electronAPI.setJobConcurrency(Math.max(1, Math.floor(parallelJobs || 1)));
+  }, [parallelJobs]);
+
+  const runAction = useCallback(
+    async (action: () => Promise<{ success: boolean; error?: string }>) => {
+      const result = await action();
+      if (!result.success) {
+        dispatch(showNotification({ type: 'error', message: result.error || t('jobs.error') }));
+      }
+    },
+    [dispatch, t],
+  );
+
+  return (
+    <>
+      {/* Toggle button */}
+      <button
+        className="fixed bottom-4 right-4 z-20 flex items-center px-4 py-2 rounded-full shadow-lg bg-blue-600 text-white hover:bg-blue-700"
+        onClick={() => setIsOpen(!isOpen)}
+        title={t('jobs.title')}
+      >
+        <BiListUl size={20} className="mr-2" />
+        {activeCount > 0 ? t('jobs.active', { count: activeCount }) : t('jobs.title')}
+      </button>
+
+      {/* Drawer */}
+      {isOpen && (
+        <div className="fixed top-0 right-0 bottom-0 z-30 flex flex-col w-full sm:w-96 bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 shadow-xl">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {t('jobs.title')}
+            </h2>
+            <div className="flex items-center space-x-2">
+              <button
+                className="p-1 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                onClick={() => runAction(() => window.electronAPI.clearFinishedJobs())}
+                title={t('jobs.clearFinished')}
+              >
+                <BiTrash size={20} />
+              </button>
+              <button
+                className="p-1 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                onClick={() => setIsOpen(false)}
+              >
+                <BiX size={24} />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {jobs.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t('jobs.empty')}</p>
+            )}
+
+            {[...jobs].reverse().map((job) => (
+              <div
+                key={job.id}
+                className="p-3 rounded-md border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start justify-between mb-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {job.name}
+                    </div>
+                    <div className={`text-xs ${STATE_COLORS[job.state]}`}>
+                      {t(`jobs.states.${job.state}`)}
+                      {job.progress.total > 0 &&
+                        ` · ${job.progress.processed} / ${job.progress.total}`}
+                    </div>
+                  </div>
+
+                  {ACTIVE_STATES.includes(job.state) && (
+                    <div className="flex flex-shrink-0 ml-2 space-x-1">
+                      {job.state === 'paused' ? (
+                        <button
+                          className="p-1 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                          onClick={() => runAction(() => window.electronAPI.resumeJob(job.id))}
+                          title={t('jobs.resume')}
+                        >
+                          <BiPlay size={18} />
+                        </button>
+                      ) : (
+                        <button
+                          className="p-1 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                          onClick={() => runAction(() => window.electronAPI.pauseJob(job.id))}
+                          title={t('jobs.pause')}
+                        >
+                          <BiPause size={18} />
+                        </button>
+                      )}
+                      <button
+                        className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                        onClick={() => runAction(() => window.electronAPI.cancelJob(job.id))}
+                        title={t('jobs.cancel')}
+                      >
+                        <BiStop size={18} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {job.state !== 'queued' && (
+                  <ProgressIndicator
+                    percentage={job.progress.percentage}
+                    isComplete={job.state === 'completed'}
+                    showPercentage={false}
+                    height={4}
+                  />
+                )}
+
+                {job.progress.file && job.state === 'running' && (
+                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {job.progress.file}
+                  </div>
+                )}
+
+                {job.error && (
+                  <div className="mt-1 text-xs text-red-600 dark:text-red-400">{job.error}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default JobsDrawer;
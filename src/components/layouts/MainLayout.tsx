@@ -3,13 +3,17 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '@/store';
-import { toggleDarkMode } from '@store/slices/appSlice';
+import { showNotification, toggleDarkMode } from '@store/slices/appSlice';
+import JobsDrawer from '@components/common/JobsDrawer';
+import CardImportPrompt from '@components/common/CardImportPrompt';
 
 // Import icons
 import {
   BiCategory, BiCloud,
   BiCog,
+  BiCopyAlt,
   BiFolder,
+  BiHistory,
   BiHome,
   BiImageAlt,
   BiInfoCircle,
@@ -33,6 +37,12 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children, appVersion }) => {
   const [mobileMenuOpen, setMobileMenuOpen] = React.useState(false);
 
   const darkMode = useSelector((state: RootState) => state.app.darkMode);
+  const customFormats = useSelector(
+    (state: RootState) => state.settings.advancedSettings.customFormats,
+  );
+  const enableScheduling = useSelector(
+    (state: RootState) => state.settings.advancedSettings.enableScheduling,
+  );
 
   // Navigation items
   const navItems = [
@@ -42,6 +52,8 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children, appVersion }) => {
     { path: '/categorize', label: t('nav.categorize'), icon: <BiCategory size={24} /> },
     { path: '/facerecognition', label: t('nav.faceRecognition'), icon: <BiUserVoice size={24} /> },
     { path: '/exifedit', label: t('nav.exifEdit'), icon: <BiTag size={24} /> },
+    { path: '/duplicates', label: t('nav.duplicates'), icon: <BiCopyAlt size={24} /> },
+    { path: '/history', label: t('nav.history'), icon: <BiHistory size={24} /> },
     { path: '/sharing', label: t('nav.socialSharing'), icon: <BiShareAlt size={24} /> },
     { path: '/cloud', label: t('nav.cloud'), icon: <BiCloud size={24} /> }
     { path: '/settings', label: t('nav.settings'), icon: <BiCog size={24} /> },
@@ -57,6 +69,46 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children, appVersion }) => {
     }
   }, [darkMode]);
 
+  // The main process loads the saved custom formats at startup and follows later changes.
+  // The first value is only the slice default, sending it would drop the saved formats.
+  const sentCustomFormats = React.useRef(customFormats);
+  React.useEffect(() => {
+    if (customFormats === sentCustomFormats.current) {
+      return;
+    }
+
+    sentCustomFormats.current = customFormats;
+    window.electronAPI.setCustomFormats(
+      (customFormats || []).filter((format) => format.extension.trim()),
+    );
+  }, [customFormats]);
+
+  // Same for the scheduling switch, the main process starts with the saved value
+  const sentEnableScheduling = React.useRef(enableScheduling);
+  React.useEffect(() => {
+    if (enableScheduling === sentEnableScheduling.current) {
+      return;
+    }
+
+    sentEnableScheduling.current = enableScheduling;
+    window.electronAPI.setSchedulingEnabled(enableScheduling);
+  }, [enableScheduling]);
+
+  // Tasks resumed after a crash run in the background, announce when they finish
+  React.useEffect(() => {
+    const removeResumedListener = window.electronAPI.on('tasks:resumed', (data) => {
+      dispatch(
+        showNotification(
+          data.success
+            ? { type: 'success', message: t('tasks.resumed', { name: data.name }) }
+            : { type: 'error', message: t('tasks.resumeFailed', { name: data.name, error: data.error }) },
+        ),
+      );
+    });
+
+    return () => removeResumedListener();
+  }, [dispatch, t]);
+
   // Toggle mobile menu
   const toggleMobileMenu = () => {
     setMobileMenuOpen(!mobileMenuOpen);
@@ -177,6 +229,12 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children, appVersion }) => {
           </div>
         </main>
       </div>
+
+      {/* Jobs of every module */}
+      <JobsDrawer />
+
+      {/* Offer to import memory cards as they are mounted */}
+      <CardImportPrompt />
     </div>
   );
 };
@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch } from 'react-redux';
+import { showNotification } from '@store/slices/appSlice';
+import { NearDuplicateGroup } from '@common/types';
+import DirectoryPicker from '../../common/DirectoryPicker';
+import ProgressIndicator from '../../common/ProgressIndicator';
+import { Button, Card, FormGroup, FormLabel, FormSelect, FormCheckbox } from '../../ui';
+
+// Import icons
+import { BiCheck, BiFolder, BiRefresh, BiSearch, BiStar, BiTrash } from 'react-icons/bi';
+
+// Maximum differing hash bits (of 64) for each sensitivity level
+const THRESHOLDS = {
+  strict: 5,
+  normal: 10,
+  loose: 16,
+};
+
+type Sensitivity = keyof typeof THRESHOLDS;
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Near-duplicate review screen - finds visually similar images and lets the user keep one
+ * copy per group and move the others to the trash
+ */
+const DuplicatesScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch();
+
+  // Local state
+  const [folderPath, setFolderPath] = useState('');
+  const [recursive, setRecursive] = useState(true);
+  const [sensitivity, setSensitivity] = useState<Sensitivity>('normal');
+  const [isScanning, setIsScanning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [groups, setGroups] = useState<NearDuplicateGroup[] | null>(null);
+  // Copy to keep per group, keyed by the suggested best path
+  const [keepSelection, setKeepSelection] = useState<Record<string, string>>({});
+  const [busyGroup, setBusyGroup] = useState<string | null>(null);
+
+  // Handle folder selection
+  const handleSelectFolder = async () => {
+    try {
+      const path = await window.electronAPI.selectDirectory({
+        title: t('duplicates.folder'),
+      });
+
+      if (path) {
+        setFolderPath(path);
+      }
+    } catch (error) {
+      console.error('Error selecting folder:', error);
+    }
+  };
+
+  // Scan the folder for similar images
+  const handleScan = async () => {
+    if (!folderPath) {
+      dispatch(
+        showNotification({
+          type: 'error',
+          message: t('duplicates.noFolderSelected'),
+        }),
+      );
+      return;
+    }
+
+    setIsScanning(true);
+    setProgress(0);
+    setGroups(null);
+
+    const removeProgressListener = window.electronAPI.on('files:nearDuplicateProgress', (data) =>
+      setProgress(data.percentage),
+    );
+
+    try {
+      const result = await window.electronAPI.findNearDuplicates(folderPath, {
+        recursive,
+        threshold: THRESHOLDS[sensitivity],
+      });
+
+      if (!result.success || !result.groups) {
+        throw new Error(result.error || t('duplicates.scanFailed'));
+      }
+
+      setGroups(result.groups);
+      setKeepSelection(
+        Object.fromEntries(result.groups.map((group) => [group.bestPath, group.bestPath])),
+      );
+    } catch (error) {
+      dispatch(
+        showNotification({
+          type: 'error',
+          message: (error as Error).message,
+        }),
+      );
+    } finally {
+      removeProgressListener();
+      setIsScanning(false);
+    }
+  };
+
+  // Remove a reviewed group from the list
+  const dismissGroup = (group: NearDuplicateGroup) => {
+    setGroups((current) => (current || []).filter((item) => item.bestPath !== group.bestPath));
+  };
+
+  // Keep the selected copy and move the rest of the group to the trash
+  const handleTrashOthers = async (group: NearDuplicateGroup) => {
+    const keep = keepSelection[group.bestPath] || group.bestPath;
+    const toTrash = group.files.map((file) => file.path).filter((filePath) => filePath !== keep);
+
+    setBusyGroup(group.bestPath);
+
+    try {
+      const result = await window.electronAPI.trashFiles(toTrash);
+
+      if (!result.success || !result.result) {
+        throw new Error(result.error || t('duplicates.trashFailed'));
+      }
+
+      if (result.result.failed.length > 0) {
+        dispatch(
+          showNotification({
+            type: 'warning',
+            message: t('duplicates.trashPartial', { count: result.result.failed.length }),
+          }),
+        );
+        return;
+      }
+
+      dispatch(
+        showNotification({
+          type: 'success',
+          message: t('duplicates.trashed', { count: result.result.trashed.length }),
+        }),
+      );
+      dismissGroup(group);
+    } catch (error) {
+      dispatch(
+        showNotification({
+          type: 'error',
+          message: (error as Error).message,
+        }),
+      );
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <h1 className="text-2xl font-bold mb-6">{t('duplicates.title')}</h1>
+
+      <Card>
+        <DirectoryPicker
+          label={t('duplicates.folder')}
+          placeholder={t('duplicates.folder')}
+          value={folderPath}
+          onChange={setFolderPath}
+          onBrowse={handleSelectFolder}
+          icon={<BiFolder />}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormGroup>
+            <FormLabel htmlFor="sensitivity">{t('duplicates.sensitivity')}</FormLabel>
+            <FormSelect
+              id="sensitivity"
+              value={sensitivity}
+              onChange={(e) => setSensitivity(e.target.value as Sensitivity)}
+              disabled={isScanning}
+            >
+              {(Object.keys(THRESHOLDS) as Sensitivity[]).map((level) => (
+                <option key={level} value={level}>
+                  {t(`duplicates.sensitivityLevels.${level}`)}
+                </option>
+              ))}
+            </FormSelect>
+          </FormGroup>
+
+          <FormGroup className="flex items-end">
+            <FormCheckbox
+              id="duplicatesRecursive"
+              label={t('duplicates.recursive')}
+              checked={recursive}
+              onChange={(e) => setRecursive(e.target.checked)}
+              disabled={isScanning}
+            />
+          </FormGroup>
+        </div>
+
+        <Button variant="primary" onClick={handleScan} disabled={isScanning}>
+          {isScanning ? (
+            <>
+              <BiRefresh className="inline-block mr-2 spinner" />
+              {t('duplicates.scanning')}
+            </>
+          ) : (
+            <>
+              <BiSearch className="inline-block mr-2" />
+              {t('duplicates.scan')}
+            </>
+          )}
+        </Button>
+
+        {isScanning && (
+          <div className="mt-4">
+            <ProgressIndicator percentage={progress} />
+          </div>
+        )}
+      </Card>
+
+      {groups && (
+        <div className="mt-6">
+          <div className="mb-4 text-gray-700 dark:text-gray-300">
+            {groups.length === 0
+              ? t('duplicates.noGroups')
+              : t('duplicates.groupsFound', { count: groups.length })}
+          </div>
+
+          {groups.map((group) => {
+            const keep = keepSelection[group.bestPath] || group.bestPath;
+
+            return (
+              <Card key={group.bestPath} className="mb-4">
+                <h2 className="text-lg font-semibold mb-3">
+                  {t('duplicates.groupTitle', {
+                    count: group.files.length,
+                    similarity: group.similarity,
+                  })}
+                </h2>
+
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {group.files.map((file) => (
+                    <li key={file.path} className="py-2 flex items-start">
+                      <input
+                        type="radio"
+                        className="mt-1 mr-3"
+                        name={`keep-${group.bestPath}`}
+                        checked={keep === file.path}
+                        onChange={() =>
+                          setKeepSelection({ ...keepSelection, [group.bestPath]: file.path })
+                        }
+                        disabled={busyGroup === group.bestPath}
+                      />
+                      <div className="flex-grow min-w-0">
+                        <div className="break-all text-sm">
+                          {file.path}
+                          {file.path === group.bestPath && (
+                            <span className="ml-2 px-2 py-0.5 rounded text-xs bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300">
+                              <BiStar className="inline-block mr-1" />
+                              {t('duplicates.suggested')}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {file.width && file.height ? `${file.width}×${file.height} · ` : ''}
+                          {formatSize(file.size)} ·{' '}
+                          {t('duplicates.exifFields', { count: file.exifFields })}
+                          {file.path !== group.bestPath &&
+                            ` · ${t('duplicates.similarity', { similarity: file.similarity })}`}
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="mt-3 flex flex-wrap gap-2">
+                  <Button
+                    variant="danger"
+                    onClick={() => handleTrashOthers(group)}
+                    disabled={busyGroup === group.bestPath}
+                  >
+                    <BiTrash className="inline-block mr-2" />
+                    {t('duplicates.trashOthers', { count: group.files.length - 1 })}
+                  </Button>
+
+                  <Button
+                    variant="secondary"
+                    onClick={() => dismissGroup(group)}
+                    disabled={busyGroup === group.bestPath}
+                  >
+                    <BiCheck className="inline-block mr-2" />
+                    {t('duplicates.keepAll')}
+                  </Button>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicatesScreen;
@@ -0,0 +1,356 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch } from 'react-redux';
+import { showNotification } from '@store/slices/appSlice';
+import { FileProcessing, Task, TaskKind, TaskStatus } from '@common/types';
+import { Button, Card, FormGroup, FormLabel, FormSelect } from '../../ui';
+
+// Import icons
+import {
+  BiChevronDown,
+  BiChevronRight,
+  BiRedo,
+  BiRefresh,
+  BiRevision,
+  BiTrash,
+  BiUndo,
+} from 'react-icons/bi';
+
+const TASK_KINDS: TaskKind[] = [
+  'organize',
+  'conversion',
+  'cloud-upload',
+  'duplicate-scan',
+  'bit-rot-check',
+];
+
+// Kinds the history can start again with the same settings
+const RERUNNABLE_KINDS: TaskKind[] = ['organize', 'conversion', 'cloud-upload'];
+
+const STATUS_COLORS: Record<TaskStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  running: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+  cancelled: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  error: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
+  undone: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300',
+  'partially-undone': 'bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300',
+};
+
+const formatDuration = (start?: Date, end?: Date): string => {
+  if (!start || !end) {
+    return '-';
+  }
+
+  const seconds = Math.max(
+    0,
+    Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000),
+  );
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+/**
+ * Task history screen - past organize, conversion, upload and scan runs with their
+ * parameters and failed files, and actions to run them again
+ */
+const HistoryScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch();
+
+  // Local state
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [kindFilter, setKindFilter] = useState<TaskKind | ''>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [failedFiles, setFailedFiles] = useState<FileProcessing[]>([]);
+  const [busyTask, setBusyTask] = useState<number | null>(null);
+
+  const notifyError = useCallback(
+    (message?: string) =>
+      dispatch(showNotification({ type: 'error', message: message || t('history.error') })),
+    [dispatch, t],
+  );
+
+  const loadTasks = useCallback(async () => {
+    setIsLoading(true);
+    const result = await window.electronAPI.listTasks(kindFilter ? { kind: kindFilter } : {});
+    setIsLoading(false);
+
+    if (result.success) {
+      setTasks(result.tasks || []);
+    } else {
+      notifyError(result.error);
+    }
+  }, [kindFilter, notifyError]);
+
+  // Load the history and refresh it whenever a run finishes in the background
+  useEffect(() => {
+    loadTasks();
+
+    const removeListeners = ['files:complete', 'tasks:resumed', 'schedules:runCompleted'].map(
+      (channel) => window.electronAPI.on(channel, () => loadTasks()),
+    );
+
+    return () => removeListeners.forEach((remove) => remove());
+  }, [loadTasks]);
+
+  const toggleTask = async (task: Task) => {
+    if (expandedId === task.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(task.id);
+    setFailedFiles([]);
+
+    if (task.errorFiles > 0) {
+      const result = await window.electronAPI.getTaskFiles(task.id, 'error');
+      if (result.success) {
+        setFailedFiles(result.files || []);
+      } else {
+        notifyError(result.error);
+      }
+    }
+  };
+
+  // Run an action on a task, then refresh the list
+  const runAction = async (
+    task: Task,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string,
+  ) => {
+    setBusyTask(task.id);
+    try {
+      const result = await action();
+
+      if (result.success) {
+        dispatch(showNotification({ type: 'success', message: successMessage }));
+      } else {
+        notifyError(result.error);
+      }
+    } finally {
+      setBusyTask(null);
+      loadTasks();
+    }
+  };
+
+  const handleRerun = (task: Task) =>
+    runAction(
+      task,
+      () => window.electronAPI.rerunTask(task.id),
+      t('history.rerunComplete', { name: task.name }),
+    );
+
+  const handleRetryFailed = (task: Task) =>
+    runAction(
+      task,
+      () => window.electronAPI.retryFailedFiles(task.id),
+      t('history.retryComplete', { count: task.errorFiles }),
+    );
+
+  const handleUndo = (task: Task) => {
+    if (!window.confirm(t('organize.undoConfirm'))) {
+      return;
+    }
+    runAction(task, () => window.electronAPI.undoTask(task.id), t('history.undoComplete'));
+  };
+
+  const handleDelete = (task: Task) => {
+    if (!window.confirm(t('history.deleteConfirm', { name: task.name }))) {
+      return;
+    }
+    if (expandedId === task.id) {
+      setExpandedId(null);
+    }
+    runAction(task, () => window.electronAPI.deleteTask(task.id), t('history.deleted'));
+  };
+
+  const renderParameters = (task: Task) => {
+    const rows = [
+      { label: t('history.source'), value: task.sourcePath },
+      { label: t('history.destination'), value: task.destinationPath },
+      { label: t('history.operation'), value: task.operation },
+      { label: t('history.pattern'), value: task.pattern },
+      {
+        label: t('history.started'),
+        value: task.startedAt && new Date(task.startedAt).toLocaleString(),
+      },
+      {
+        label: t('history.completed'),
+        value: task.completedAt && new Date(task.completedAt).toLocaleString(),
+      },
+      { label: t('history.schedule'), value: task.scheduleId },
+    ].filter((row) => row.value);
+
+    return (
+      <>
+        <dl className="grid grid-cols-1 md:grid-cols-[10rem_1fr] gap-x-4 gap-y-1 text-sm">
+          {rows.map((row) => (
+            <React.Fragment key={row.label}>
+              <dt className="text-gray-500 dark:text-gray-400">{row.label}</dt>
+              <dd className="break-all">{row.value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+
+        <details className="mt-2 text-sm">
+          <summary className="cursor-pointer text-gray-600 dark:text-gray-400">
+            {t('history.allOptions')}
+          </summary>
+          <pre className="mt-2 p-2 rounded bg-gray-50 dark:bg-gray-900 text-xs overflow-x-auto">
+            {JSON.stringify(task.options, null, 2)}
+          </pre>
+        </details>
+      </>
+    );
+  };
+
+  const renderTask = (task: Task) => {
+    const isExpanded = expandedId === task.id;
+    const isBusy = busyTask === task.id;
+    const canRerun = RERUNNABLE_KINDS.includes(task.kind) && task.status !== 'running';
+
+    return (
+      <Card key={task.id} className="mb-3">
+        <div className="flex items-start cursor-pointer" onClick={() => toggleTask(task)}>
+          <div className="mr-2 mt-1 text-gray-500">
+            {isExpanded ? <BiChevronDown /> : <BiChevronRight />}
+          </div>
+          <div className="flex-grow min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium break-all">{task.name}</span>
+              <span className={`px-2 py-0.5 rounded text-xs ${STATUS_COLORS[task.status]}`}>
+                {t(`history.statuses.${task.status}`)}
+              </span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {t(`history.kinds.${task.kind}`)}
+              </span>
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {new Date(task.startedAt || task.createdAt).toLocaleString()} ·{' '}
+              {t('history.duration', {
+                duration: formatDuration(task.startedAt, task.completedAt),
+              })}{' '}
+              ·{' '}
+              {t('history.counts', {
+                total: task.totalFiles,
+                succeeded: task.succeededFiles,
+                skipped: task.skippedFiles,
+                errors: task.errorFiles,
+              })}
+            </div>
+            {task.summary && <div className="text-sm mt-1">{task.summary}</div>}
+          </div>
+        </div>
+
+        {isExpanded && (
+          <div className="mt-4 pl-6">
+            {renderParameters(task)}
+
+            {failedFiles.length > 0 && (
+              <div className="mt-4">
+                <h3 className="text-sm font-semibold mb-2">
+                  {t('history.failedFiles', { count: failedFiles.length })}
+                </h3>
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700 max-h-64 overflow-y-auto">
+                  {failedFiles.map((file) => (
+                    <li key={file.id} className="py-1 text-sm">
+                      <div className="break-all">{file.sourcePath}</div>
+                      <div className="text-xs text-red-600 dark:text-red-400">
+                        {file.errorMessage}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="mt-4 flex flex-wrap gap-2">
+              {canRerun && (
+                <Button variant="primary" onClick={() => handleRerun(task)} disabled={isBusy}>
+                  <BiRedo className="inline-block mr-2" />
+                  {t('history.rerun')}
+                </Button>
+              )}
+
+              {canRerun && task.errorFiles > 0 && (
+                <Button
+                  variant="secondary"
+                  onClick={() => handleRetryFailed(task)}
+                  disabled={isBusy}
+                >
+                  <BiRevision className="inline-block mr-2" />
+                  {t('history.retryFailed', { count: task.errorFiles })}
+                </Button>
+              )}
+
+              {task.kind === 'organize' &&
+                (task.status === 'completed' ||
+                  task.status === 'cancelled' ||
+                  task.status === 'partially-undone') && (
+                  <Button variant="secondary" onClick={() => handleUndo(task)} disabled={isBusy}>
+                    <BiUndo className="inline-block mr-2" />
+                    {t('organize.undo')}
+                  </Button>
+                )}
+
+              {task.status !== 'running' && (
+                <Button variant="danger" onClick={() => handleDelete(task)} disabled={isBusy}>
+                  <BiTrash className="inline-block mr-2" />
+                  {t('history.delete')}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Card>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <h1 className="text-2xl font-bold mb-6">{t('history.title')}</h1>
+
+      <Card className="mb-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <FormGroup>
+            <FormLabel htmlFor="historyKind">{t('history.kind')}</FormLabel>
+            <FormSelect
+              id="historyKind"
+              value={kindFilter}
+              onChange={(e) => setKindFilter(e.target.value as TaskKind | '')}
+            >
+              <option value="">{t('history.allKinds')}</option>
+              {TASK_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {t(`history.kinds.${kind}`)}
+                </option>
+              ))}
+            </FormSelect>
+          </FormGroup>
+
+          <FormGroup>
+            <Button variant="secondary" onClick={loadTasks} disabled={isLoading}>
+              <BiRefresh className={`inline-block mr-2 ${isLoading ? 'spinner' : ''}`} />
+              {t('history.refresh')}
+            </Button>
+          </FormGroup>
+        </div>
+      </Card>
+
+      {tasks.length === 0 && !isLoading && (
+        <div className="text-gray-500 dark:text-gray-400">{t('history.empty')}</div>
+      )}
+
+      {tasks.map(renderTask)}
+    </div>
+  );
+};
+
+export default HistoryScreen;
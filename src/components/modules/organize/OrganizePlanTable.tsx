@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { PlannedAction, PlannedOperation } from '@common/types';
+import { Card, FormCheckbox } from '../../ui';
+
+interface OrganizePlanTableProps {
+  entries: PlannedOperation[];
+}
+
+// Rendering tens of thousands of rows freezes the renderer, cap the visible rows
+const MAX_VISIBLE_ROWS = 500;
+
+const actionStyles: Record<PlannedAction, string> = {
+  move: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  copy: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+  rename: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300',
+  skip: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+/**
+ * Table of planned organize operations returned by a dry run
+ */
+const OrganizePlanTable: React.FC<OrganizePlanTableProps> = ({ entries }) => {
+  const { t } = useTranslation();
+  const [conflictsOnly, setConflictsOnly] = useState(false);
+
+  // Count entries per action for the summary row
+  const counts = useMemo(() => {
+    const result: Record<PlannedAction, number> = { move: 0, copy: 0, rename: 0, skip: 0 };
+    entries.forEach((entry) => {
+      result[entry.action]++;
+    });
+    return result;
+  }, [entries]);
+
+  const filteredEntries = useMemo(
+    () =>
+      conflictsOnly ? entries.filter((entry) => entry.reason.startsWith('conflict')) : entries,
+    [entries, conflictsOnly],
+  );
+
+  const visibleEntries = filteredEntries.slice(0, MAX_VISIBLE_ROWS);
+
+  // Only show the rule column when a routing rule matched something
+  const hasRules = useMemo(() => entries.some((entry) => entry.rule), [entries]);
+
+  return (
+    <Card className="mt-6">
+      <h2 className="text-xl font-semibold mb-4">{t('organize.planTitle')}</h2>
+
+      {/* Summary */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(counts) as PlannedAction[]).map((action) => (
+          <span key={action} className={`px-3 py-1 rounded-full text-sm ${actionStyles[action]}`}>
+            {t(`organize.planActions.${action}`)}: {counts[action]}
+          </span>
+        ))}
+      </div>
+
+      <FormCheckbox
+        id="planConflictsOnly"
+        label={t('organize.planShowConflictsOnly')}
+        checked={conflictsOnly}
+        onChange={(e) => setConflictsOnly(e.target.checked)}
+      />
+
+      {filteredEntries.length === 0 ? (
+        <div className="mt-4 text-center text-gray-500 dark:text-gray-400">
+          {t('organize.planEmpty')}
+        </div>
+      ) : (
+        <>
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4">{t('organize.planSource')}</th>
+                  <th className="py-2 pr-4">{t('organize.planDestination')}</th>
+                  <th className="py-2 pr-4">{t('organize.planAction')}</th>
+                  <th className="py-2 pr-4">{t('organize.planReason')}</th>
+                  <th className="py-2">{t('organize.planDateSource')}</th>
+                  {hasRules && <th className="py-2 pl-4">{t('organize.planRule')}</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEntries.map((entry) => (
+                  <tr
+                    key={entry.sourcePath}
+                    className="border-b border-gray-100 dark:border-gray-700 align-top"
+                  >
+                    <td className="py-2 pr-4 break-all">
+                      {entry.sourcePath}
+                      {entry.companionOf && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {t('organize.planCompanionOf', { file: entry.companionOf })}
+                        </div>
+                      )}
+                      {entry.detectedExtension && (
+                        <div className="text-xs text-yellow-700 dark:text-yellow-400">
+                          {t('organize.planContentMismatch', {
+                            extension: entry.detectedExtension,
+                          })}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 break-all">{entry.destinationPath || '-'}</td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-0.5 rounded ${actionStyles[entry.action]}`}>
+                        {t(`organize.planActions.${entry.action}`)}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4">{t(`organize.planReasons.${entry.reason}`)}</td>
+                    <td className="py-2">
+                      {entry.dateSource ? t(`organize.dateSources.${entry.dateSource}`) : '-'}
+                      {entry.timeZone && (
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          {entry.timeZone}
+                        </span>
+                      )}
+                    </td>
+                    {hasRules && <td className="py-2 pl-4">{entry.rule || '-'}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {filteredEntries.length > visibleEntries.length && (
+            <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+              {t('organize.planShowing', {
+                shown: visibleEntries.length,
+                total: filteredEntries.length,
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default OrganizePlanTable;
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useDispatch, useSelector } from 'react-redux';
-import { RootState } from '@/store';
+import { useSelector } from 'react-redux';
+import { RootState, useAppDispatch } from '@/store';
 import {
     setSourcePath,
     setDestinationPath,
@@ -9,17 +9,32 @@ import {
     setPattern,
     setRecursive,
     setConflicts,
+    setConflictOptions,
     setOptions,
+    setEvents,
+    setFilenameDates,
+    setTimeZones,
     organizeFiles,
+    planOrganize,
+    undoLastRun,
     updateProgress,
+    updatePlanProgress,
+    clearPlan,
     resetProgress,
 } from '@store/slices/organizeSlice';
 import { showNotification } from '@store/slices/appSlice';
-import { PatternOption } from '@common/types';
+import {
+    ConflictStrategy,
+    FilenameDateParserId,
+    ImportMatchMode,
+    PatternOption,
+    RenameExtensionCase,
+} from '@common/types';
 
 // Import components
 import DirectoryPicker from '../../common/DirectoryPicker';
 import ProgressIndicator from '../../common/ProgressIndicator';
+import OrganizePlanTable from './OrganizePlanTable';
 import { Button, Card, FormGroup, FormLabel, FormInput, FormSelect, FormCheckbox } from '../../ui';
 
 // Import icons
@@ -31,14 +46,29 @@ import {
     BiRefresh,
     BiCheckCircle,
     BiErrorCircle,
-    BiInfoCircle,
     BiChevronDown,
     BiChevronUp,
+    BiListCheck,
+    BiUndo,
 } from 'react-icons/bi';
 
+// Time zones offered for the time zone override
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+// Built-in file name date parsers, in the order they are tried
+const FILENAME_DATE_PARSERS: FilenameDateParserId[] = [
+    'whatsapp',
+    'pixel',
+    'android',
+    'screenshot',
+    'signal',
+    'telegram',
+    'generic',
+];
+
 const OrganizeScreen: React.FC = () => {
     const { t } = useTranslation();
-    const dispatch = useDispatch();
+    const dispatch = useAppDispatch();
 
     // Redux state
     const {
@@ -48,9 +78,17 @@ const OrganizeScreen: React.FC = () => {
         pattern,
         recursive,
         conflicts,
+        conflictOptions,
         options,
+        events,
+        filenameDates,
+        timeZones,
         progress,
+        plan,
+        lastTaskId,
+        undo,
     } = useSelector((state: RootState) => state.organize);
+    const organizeRules = useSelector((state: RootState) => state.settings.organizeRules);
 
     // Local state
     const [showAdvanced, setShowAdvanced] = useState(false);
@@ -66,6 +104,17 @@ const OrganizeScreen: React.FC = () => {
         { code: 'custom', description: t('organize.patterns.custom'), example: pattern },
     ];
 
+    // Conflict strategies in the order they are offered
+    const conflictStrategies: { strategy: ConflictStrategy; label: string }[] = [
+        { strategy: 'rename', label: t('organize.rename') },
+        { strategy: 'skip', label: t('organize.skip') },
+        { strategy: 'overwrite', label: t('organize.overwrite') },
+        { strategy: 'keep-larger', label: t('organize.keepLarger') },
+        { strategy: 'keep-newer', label: t('organize.keepNewer') },
+        { strategy: 'keep-both-if-different', label: t('organize.keepBothIfDifferent') },
+        { strategy: 'review-folder', label: t('organize.reviewFolder') },
+    ];
+
     // Effect to update pattern based on selected option
     useEffect(() => {
         const selected = patternOptions.find(option => option.code === selectedPatternOption);
@@ -74,6 +123,11 @@ const OrganizeScreen: React.FC = () => {
         }
     }, [selectedPatternOption, dispatch]);
 
+    // A previewed plan is stale as soon as any setting changes
+    useEffect(() => {
+        dispatch(clearPlan());
+    }, [sourcePath, destinationPath, operation, pattern, recursive, conflicts, conflictOptions, options, events, filenameDates, timeZones, organizeRules, dispatch]);
+
     // Handle source directory selection
     const handleSelectSource = async () => {
         try {
@@ -116,15 +170,34 @@ const OrganizeScreen: React.FC = () => {
         dispatch(setOptions({ [name]: checked }));
     };
 
-    // Start organizing files
-    const handleStartOrganizing = async () => {
-        // Validate inputs
+    // Turn a built-in file name date parser on or off
+    const handleDateParserChange = (parser: FilenameDateParserId, enabled: boolean) => {
+        dispatch(setFilenameDates({
+            parsers: enabled
+              ? [...filenameDates.parsers, parser]
+              : filenameDates.parsers.filter((id) => id !== parser),
+        }));
+    };
+
+    // Let the next incremental import bring in every file of the source volume again
+    const handleForgetImports = async () => {
+        const result = await window.electronAPI.forgetImports(sourcePath);
+
+        dispatch(showNotification(
+          result.success
+            ? { type: 'success', message: t('organize.importsForgotten', { count: result.forgotten }) }
+            : { type: 'error', message: result.error || t('organize.forgetImportsError') },
+        ));
+    };
+
+    // Check that source and destination are set, notifying the user otherwise
+    const validatePaths = (): boolean => {
         if (!sourcePath) {
             dispatch(showNotification({
                 type: 'error',
                 message: t('organize.noSourceSelected'),
             }));
-            return;
+            return false;
         }
 
         if (!destinationPath) {
@@ -132,14 +205,45 @@ const OrganizeScreen: React.FC = () => {
                 type: 'error',
                 message: t('organize.noDestinationSelected'),
             }));
+            return false;
+        }
+
+        return true;
+    };
+
+    // Preview the planned operations without touching any files
+    const handlePreviewPlan = async () => {
+        if (!validatePaths()) {
+            return;
+        }
+
+        const removePlanProgressListener = window.electronAPI.on('files:planProgress', (data) => {
+            dispatch(updatePlanProgress({ processed: data.processed, total: data.total }));
+        });
+
+        try {
+            await dispatch(planOrganize());
+        } finally {
+            removePlanProgressListener();
+        }
+    };
+
+    // Start organizing files
+    const handleStartOrganizing = async () => {
+        if (!validatePaths()) {
             return;
         }
 
         // Reset progress
         dispatch(resetProgress());
 
-        // Set up event listeners for progress updates
+        // Set up event listeners for progress updates. Watch folder runs report on the same
+        // channels and are told apart by their watchId.
         const removeProgressListener = window.electronAPI.on('files:progress', (data) => {
+            if (data.watchId) {
+                return;
+            }
+
             dispatch(updateProgress({
                 currentFile: data.file,
                 processed: data.processed,
@@ -149,6 +253,10 @@ const OrganizeScreen: React.FC = () => {
         });
 
         const removeCompleteListener = window.electronAPI.on('files:complete', (data) => {
+            if (data.watchId) {
+                return;
+            }
+
             dispatch(updateProgress({
                 isRunning: false,
                 total: data.total,
@@ -164,6 +272,10 @@ const OrganizeScreen: React.FC = () => {
         });
 
         const removeErrorListener = window.electronAPI.on('files:error', (data) => {
+            if (data.watchId) {
+                return;
+            }
+
             console.error('Error during file processing:', data);
         });
 
@@ -171,6 +283,22 @@ const OrganizeScreen: React.FC = () => {
         dispatch(organizeFiles() as any);
     };
 
+    // Revert the last completed run using its task journal
+    const handleUndo = async () => {
+        if (!window.confirm(t('organize.undoConfirm'))) {
+            return;
+        }
+
+        const result = await dispatch(undoLastRun());
+
+        if (undoLastRun.fulfilled.match(result)) {
+            dispatch(showNotification({
+                type: result.payload.issues.length > 0 ? 'warning' : 'success',
+                message: t('organize.undoComplete', { count: result.payload.restored }),
+            }));
+        }
+    };
+
     // Cancel organizing operation
     const handleCancel = () => {
         // TODO: Implement cancel operation
@@ -231,6 +359,60 @@ const OrganizeScreen: React.FC = () => {
                     {t('organize.cancel')}
                 </Button>
               )}
+
+              {!progress.isRunning && lastTaskId !== null && (
+                <Button
+                  variant="secondary"
+                  className="mt-4"
+                  onClick={handleUndo}
+                  disabled={undo.isRunning}
+                >
+                    {undo.isRunning ? (
+                      <>
+                          <BiRefresh className="inline-block mr-2 spinner" />
+                          {t('organize.undoing')}
+                      </>
+                    ) : (
+                      <>
+                          <BiUndo className="inline-block mr-2" />
+                          {t('organize.undo')}
+                      </>
+                    )}
+                </Button>
+              )}
+
+              {undo.error && (
+                <div className="mt-4 text-sm text-red-600 dark:text-red-400">
+                    {undo.error}
+                </div>
+              )}
+
+              {undo.result && (
+                <div className="mt-4">
+                    <div className="text-sm text-gray-700 dark:text-gray-300">
+                        {t('organize.undoSummary', {
+                            restored: undo.result.restored,
+                            directories: undo.result.removedDirectories,
+                        })}
+                    </div>
+
+                    {undo.result.issues.length > 0 && (
+                      <div className="mt-2">
+                          <div className="text-sm font-medium text-yellow-700 dark:text-yellow-300">
+                              {t('organize.undoIssues', { count: undo.result.issues.length })}
+                          </div>
+                          <ul className="mt-1 text-sm text-gray-600 dark:text-gray-400 max-h-48 overflow-y-auto">
+                              {undo.result.issues.map((issue) => (
+                                <li key={issue.path} className="break-all">
+                                    {t(`organize.undoReasons.${issue.reason}`)}: {issue.path}
+                                    {issue.message && ` (${issue.message})`}
+                                </li>
+                              ))}
+                          </ul>
+                      </div>
+                    )}
+                </div>
+              )}
           </Card>
         );
     };
@@ -331,45 +513,98 @@ const OrganizeScreen: React.FC = () => {
                           })()}
                       </ul>
                   </div>
+
+                  {/* Event clustering, only relevant when the pattern groups by event */}
+                  {pattern.includes('%e') && (
+                    <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <FormLabel htmlFor="eventGapHours">{t('organize.eventGapHours')}</FormLabel>
+                            <FormInput
+                              id="eventGapHours"
+                              type="number"
+                              min="0.5"
+                              step="0.5"
+                              value={events.gapHours}
+                              onChange={(e) => dispatch(setEvents({ gapHours: parseFloat(e.target.value) || 0 }))}
+                            />
+                        </div>
+
+                        <div>
+                            <FormLabel htmlFor="eventMaxDistanceKm">{t('organize.eventMaxDistanceKm')}</FormLabel>
+                            <FormInput
+                              id="eventMaxDistanceKm"
+                              type="number"
+                              min="0"
+                              value={events.maxDistanceKm || ''}
+                              onChange={(e) => dispatch(setEvents({ maxDistanceKm: parseFloat(e.target.value) || 0 }))}
+                              placeholder={t('organize.eventMaxDistanceOff')}
+                            />
+                        </div>
+
+                        <div>
+                            <FormLabel htmlFor="eventName">{t('organize.eventName')}</FormLabel>
+                            <FormInput
+                              id="eventName"
+                              type="text"
+                              value={events.name}
+                              onChange={(e) => dispatch(setEvents({ name: e.target.value }))}
+                              placeholder={t('organize.eventNamePlaceholder')}
+                            />
+                        </div>
+                    </div>
+                  )}
               </FormGroup>
 
               {/* Conflict Resolution */}
               <FormGroup>
                   <FormLabel>{t('organize.conflicts')}</FormLabel>
                   <div className="flex flex-wrap gap-4">
-                      <button
-                        className={`px-4 py-2 rounded-md ${
-                          conflicts === 'rename'
-                            ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
-                            : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
-                        }`}
-                        onClick={() => dispatch(setConflicts('rename'))}
-                      >
-                          {t('organize.rename')}
-                      </button>
-
-                      <button
-                        className={`px-4 py-2 rounded-md ${
-                          conflicts === 'skip'
-                            ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
-                            : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
-                        }`}
-                        onClick={() => dispatch(setConflicts('skip'))}
-                      >
-                          {t('organize.skip')}
-                      </button>
-
-                      <button
-                        className={`px-4 py-2 rounded-md ${
-                          conflicts === 'overwrite'
-                            ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
-                            : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
-                        }`}
-                        onClick={() => dispatch(setConflicts('overwrite'))}
-                      >
-                          {t('organize.overwrite')}
-                      </button>
+                      {conflictStrategies.map(({ strategy, label }) => (
+                        <button
+                          key={strategy}
+                          className={`px-4 py-2 rounded-md ${
+                            conflicts === strategy
+                              ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300'
+                              : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                          }`}
+                          onClick={() => dispatch(setConflicts(strategy))}
+                        >
+                            {label}
+                        </button>
+                      ))}
                   </div>
+
+                  {/* Numbered names are used by every strategy that can keep both files */}
+                  {['rename', 'keep-both-if-different', 'review-folder'].includes(conflicts) && (
+                    <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <FormLabel htmlFor="renameTemplate">{t('organize.renameTemplate')}</FormLabel>
+                            <FormInput
+                              id="renameTemplate"
+                              type="text"
+                              value={conflictOptions.renameTemplate}
+                              onChange={(e) => dispatch(setConflictOptions({ renameTemplate: e.target.value }))}
+                              placeholder="{name}_{n}"
+                            />
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                {t('organize.renameTemplateHint')}
+                            </p>
+                        </div>
+
+                        {conflicts === 'review-folder' && (
+                          <div>
+                              <FormLabel htmlFor="reviewFolder">{t('organize.reviewFolderName')}</FormLabel>
+                              <FormInput
+                                id="reviewFolder"
+                                type="text"
+                                value={conflictOptions.reviewFolder}
+                                onChange={(e) => dispatch(setConflictOptions({ reviewFolder: e.target.value }))}
+                                placeholder="_Review"
+                              />
+                          </div>
+                        )}
+                    </div>
+                  )}
               </FormGroup>
 
               {/* Basic Options */}
@@ -400,6 +635,14 @@ const OrganizeScreen: React.FC = () => {
                         onChange={handleOptionChange}
                       />
 
+                      <FormCheckbox
+                        id="verifyCopies"
+                        name="verifyCopies"
+                        label={t('organize.verifyCopies')}
+                        checked={options.verifyCopies}
+                        onChange={handleOptionChange}
+                      />
+
                       <FormCheckbox
                         id="organizeByType"
                         name="organizeByType"
@@ -418,6 +661,79 @@ const OrganizeScreen: React.FC = () => {
                   </div>
               </FormGroup>
 
+              {/* Incremental Import */}
+              <FormGroup>
+                  <FormCheckbox
+                    id="incrementalImport"
+                    name="incrementalImport"
+                    label={t('organize.incrementalImport')}
+                    checked={options.incrementalImport}
+                    onChange={handleOptionChange}
+                  />
+                  {options.incrementalImport && (
+                    <div className="flex flex-wrap items-center gap-4 mt-2">
+                        <FormSelect
+                          id="importMatch"
+                          className="w-auto"
+                          value={options.importMatch}
+                          onChange={(e) => dispatch(setOptions({ importMatch: e.target.value as ImportMatchMode }))}
+                        >
+                            <option value="name-size-date">{t('organize.importMatches.name-size-date')}</option>
+                            <option value="hash">{t('organize.importMatches.hash')}</option>
+                        </FormSelect>
+                        <Button variant="secondary" onClick={handleForgetImports} disabled={!sourcePath}>
+                            {t('organize.forgetImports')}
+                        </Button>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {t('organize.incrementalImportHint')}
+                  </p>
+              </FormGroup>
+
+              {/* File Names */}
+              <FormGroup>
+                  <FormLabel htmlFor="customRenamePattern">{t('organize.renamePattern')}</FormLabel>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="md:col-span-2">
+                          <FormInput
+                            id="customRenamePattern"
+                            type="text"
+                            value={options.customRenamePattern}
+                            onChange={(e) => dispatch(setOptions({ customRenamePattern: e.target.value }))}
+                            placeholder={t('organize.renamePatternPlaceholder')}
+                          />
+                      </div>
+
+                      <FormSelect
+                        id="renameExtensionCase"
+                        value={options.renameExtensionCase}
+                        onChange={(e) => dispatch(setOptions({ renameExtensionCase: e.target.value as RenameExtensionCase }))}
+                      >
+                          <option value="keep">{t('organize.extensionCases.keep')}</option>
+                          <option value="lower">{t('organize.extensionCases.lower')}</option>
+                          <option value="upper">{t('organize.extensionCases.upper')}</option>
+                      </FormSelect>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {t('organize.renamePatternHint')}
+                  </p>
+              </FormGroup>
+
+              {/* Extensions that do not match the content */}
+              <FormGroup>
+                  <FormCheckbox
+                    id="fixExtensions"
+                    name="fixExtensions"
+                    label={t('organize.fixExtensions')}
+                    checked={options.fixExtensions}
+                    onChange={handleOptionChange}
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {t('organize.fixExtensionsHint')}
+                  </p>
+              </FormGroup>
+
               {/* Advanced Options Toggle */}
               <button
                 className="flex items-center text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 mt-2"
@@ -430,16 +746,101 @@ const OrganizeScreen: React.FC = () => {
               {/* Advanced Options */}
               {showAdvanced && (
                 <div className="mt-4 p-4 border border-gray-200 dark:border-gray-700 rounded-md bg-gray-50 dark:bg-gray-800">
-                    {/* Advanced options will be added here */}
-                    <div className="text-center text-gray-500 dark:text-gray-400">
-                        <BiInfoCircle className="inline-block mr-2" />
-                        Advanced options are available in the settings screen
-                    </div>
+                    {/* Dates from file names */}
+                    <FormCheckbox
+                      id="filenameDatesEnabled"
+                      label={t('organize.filenameDates')}
+                      checked={filenameDates.enabled}
+                      onChange={(e) => dispatch(setFilenameDates({ enabled: e.target.checked }))}
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {t('organize.filenameDatesHint')}
+                    </p>
+
+                    {filenameDates.enabled && (
+                      <>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-4">
+                              {FILENAME_DATE_PARSERS.map((parser) => (
+                                <FormCheckbox
+                                  key={parser}
+                                  id={`filenameDateParser-${parser}`}
+                                  label={t(`organize.filenameDateParsers.${parser}`)}
+                                  checked={filenameDates.parsers.includes(parser)}
+                                  onChange={(e) => handleDateParserChange(parser, e.target.checked)}
+                                />
+                              ))}
+                          </div>
+
+                          <FormGroup className="mt-4">
+                              <FormLabel htmlFor="filenameDatePatterns">{t('organize.filenameDatePatterns')}</FormLabel>
+                              <textarea
+                                id="filenameDatePatterns"
+                                className="w-full h-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white font-mono text-sm"
+                                value={filenameDates.customPatterns.join('\n')}
+                                onChange={(e) => dispatch(setFilenameDates({ customPatterns: e.target.value.split('\n') }))}
+                                placeholder="(?<day>\d{2})\.(?<month>\d{2})\.(?<year>\d{4})"
+                              />
+                              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                  {t('organize.filenameDatePatternsHint')}
+                              </p>
+                          </FormGroup>
+                      </>
+                    )}
+
+                    {/* Time zone of capture dates */}
+                    <FormGroup className="mt-6">
+                        <FormLabel htmlFor="timeZoneOverride">{t('organize.timeZoneOverride')}</FormLabel>
+                        <FormInput
+                          id="timeZoneOverride"
+                          type="text"
+                          list="timeZoneOptions"
+                          value={timeZones.override}
+                          onChange={(e) => dispatch(setTimeZones({ override: e.target.value }))}
+                          placeholder={t('organize.timeZoneOverridePlaceholder')}
+                        />
+                        <datalist id="timeZoneOptions">
+                            {TIME_ZONES.map((zone) => (
+                              <option key={zone} value={zone} />
+                            ))}
+                        </datalist>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {t('organize.timeZoneOverrideHint')}
+                        </p>
+                    </FormGroup>
+
+                    <FormCheckbox
+                      id="timeZoneFromGps"
+                      label={t('organize.timeZoneFromGps')}
+                      checked={timeZones.inferFromGps}
+                      onChange={(e) => dispatch(setTimeZones({ inferFromGps: e.target.checked }))}
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {t('organize.timeZoneFromGpsHint')}
+                    </p>
                 </div>
               )}
 
-              {/* Action Button */}
-              <div className="mt-6">
+              {/* Action Buttons */}
+              <div className="mt-6 flex flex-col md:flex-row gap-4">
+                  <Button
+                    variant="secondary"
+                    className="w-full md:w-auto"
+                    onClick={handlePreviewPlan}
+                    disabled={progress.isRunning || plan.isLoading}
+                  >
+                      {plan.isLoading ? (
+                        <>
+                            <BiRefresh className="inline-block mr-2 spinner" />
+                            {t('organize.planning', { processed: plan.processed, total: plan.total })}
+                        </>
+                      ) : (
+                        <>
+                            <BiListCheck className="inline-block mr-2" />
+                            {t('organize.previewPlan')}
+                        </>
+                      )}
+                  </Button>
+
                   <Button
                     variant="primary"
                     className="w-full md:w-auto"
@@ -461,6 +862,19 @@ const OrganizeScreen: React.FC = () => {
               </div>
           </Card>
 
+          {/* Dry-run Plan */}
+          {plan.error && (
+            <Card className="mt-6">
+                <div className="text-red-600 dark:text-red-400">
+                    <BiErrorCircle className="inline-block mr-2" />
+                    {plan.error}
+                </div>
+            </Card>
+          )}
+          {!plan.isLoading && plan.entries && (
+            <OrganizePlanTable entries={plan.entries} />
+          )}
+
           {/* Progress Section */}
           {renderProgress()}
       </div>
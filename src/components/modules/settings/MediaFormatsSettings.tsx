@@ -0,0 +1,81 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { CustomMediaFormat } from '@common/types';
+import { Button, FormCheckbox, FormGroup, FormInput, FormSelect } from '../../ui';
+
+// Import icons
+import { BiPlus, BiTrash } from 'react-icons/bi';
+
+interface MediaFormatsSettingsProps {
+  formats: CustomMediaFormat[];
+  onChange: (formats: CustomMediaFormat[]) => void;
+}
+
+/**
+ * Extensions added to the supported formats, for cameras and apps the built-in list
+ * does not know yet
+ */
+const MediaFormatsSettings: React.FC<MediaFormatsSettingsProps> = ({ formats, onChange }) => {
+  const { t } = useTranslation();
+
+  const updateFormat = (index: number, changes: Partial<CustomMediaFormat>) =>
+    onChange(formats.map((format, i) => (i === index ? { ...format, ...changes } : format)));
+
+  const handleAdd = () => onChange([...formats, { extension: '', type: 'image', raw: false }]);
+
+  const handleRemove = (index: number) => onChange(formats.filter((_, i) => i !== index));
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        {t('settings.mediaFormats.help')}
+      </p>
+
+      {formats.map((format, index) => (
+        <FormGroup key={index}>
+          <div className="flex items-center gap-4">
+            <FormInput
+              id={`customFormatExtension-${index}`}
+              className="w-32"
+              value={format.extension}
+              onChange={(e) =>
+                updateFormat(index, {
+                  extension: e.target.value.trim().replace(/^\./, '').toLowerCase(),
+                })
+              }
+              placeholder="x3f"
+            />
+            <FormSelect
+              id={`customFormatType-${index}`}
+              className="w-40"
+              value={format.type}
+              onChange={(e) =>
+                updateFormat(index, { type: e.target.value as CustomMediaFormat['type'] })
+              }
+            >
+              <option value="image">{t('settings.mediaFormats.image')}</option>
+              <option value="video">{t('settings.mediaFormats.video')}</option>
+            </FormSelect>
+            <FormCheckbox
+              id={`customFormatRaw-${index}`}
+              label={t('settings.mediaFormats.raw')}
+              checked={Boolean(format.raw)}
+              disabled={format.type !== 'image'}
+              onChange={(e) => updateFormat(index, { raw: e.target.checked })}
+            />
+            <Button variant="danger" onClick={() => handleRemove(index)}>
+              <BiTrash />
+            </Button>
+          </div>
+        </FormGroup>
+      ))}
+
+      <Button variant="secondary" onClick={handleAdd}>
+        <BiPlus className="inline-block mr-2" />
+        {t('settings.mediaFormats.add')}
+      </Button>
+    </div>
+  );
+};
+
+export default MediaFormatsSettings;
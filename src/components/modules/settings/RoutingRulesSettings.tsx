@@ -0,0 +1,332 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { v4 as uuidv4 } from 'uuid';
+import { RootState } from '@/store';
+import { setOrganizeRules } from '@store/slices/settingsSlice';
+import { RoutingRule, RoutingRuleConditions } from '@common/types';
+import { Button, FormCheckbox, FormGroup, FormInput, FormLabel, FormSelect } from '../../ui';
+
+// Import icons
+import { BiChevronDown, BiChevronUp, BiPlus, BiTrash } from 'react-icons/bi';
+
+// Condition lists edited as comma separated text
+type ListCondition = 'makes' | 'models' | 'extensions' | 'categories' | 'codecs';
+
+const LIST_CONDITIONS: ListCondition[] = ['makes', 'models', 'extensions', 'categories', 'codecs'];
+
+/**
+ * Editor for the ordered routing rules of the current settings profile. Each rule sends
+ * matching files to its own destination and pattern.
+ */
+const RoutingRulesSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch();
+
+  // Redux state
+  const { organizeRules } = useSelector((state: RootState) => state.settings);
+
+  const saveRules = (rules: RoutingRule[]) => dispatch(setOrganizeRules(rules));
+
+  const updateRule = (id: string, changes: Partial<RoutingRule>) =>
+    saveRules(organizeRules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+
+  const updateConditions = (rule: RoutingRule, changes: Partial<RoutingRuleConditions>) =>
+    updateRule(rule.id, { conditions: { ...rule.conditions, ...changes } });
+
+  // Add an empty rule at the end of the list
+  const handleAddRule = () => {
+    saveRules([
+      ...organizeRules,
+      {
+        id: uuidv4(),
+        name: t('routingRules.newRuleName', { number: organizeRules.length + 1 }),
+        enabled: true,
+        conditions: {},
+        destination: '',
+        pattern: '%Y/%m',
+      },
+    ]);
+  };
+
+  // Rules are evaluated top to bottom, so order matters
+  const handleMoveRule = (index: number, offset: number) => {
+    const rules = [...organizeRules];
+    const [rule] = rules.splice(index, 1);
+    rules.splice(index + offset, 0, rule);
+    saveRules(rules);
+  };
+
+  const handleToggleType = (rule: RoutingRule, type: 'image' | 'video', checked: boolean) => {
+    const types = (rule.conditions.types || []).filter((item) => item !== type);
+    updateConditions(rule, { types: checked ? [...types, type] : types });
+  };
+
+  const parseOptionalNumber = (value: string): number | undefined =>
+    value === '' ? undefined : parseFloat(value) || 0;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {t('routingRules.description')}
+      </p>
+
+      {organizeRules.length === 0 && (
+        <div className="mb-4 text-center text-gray-500 dark:text-gray-400">
+          {t('routingRules.noRules')}
+        </div>
+      )}
+
+      {organizeRules.map((rule, index) => (
+        <div
+          key={rule.id}
+          className="mb-4 p-4 border border-gray-200 dark:border-gray-700 rounded-md"
+        >
+          <div className="flex items-center gap-2 mb-4">
+            <span className="text-sm text-gray-500 dark:text-gray-400">#{index + 1}</span>
+            <FormInput
+              type="text"
+              className="flex-grow"
+              value={rule.name}
+              onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+              placeholder={t('routingRules.name')}
+            />
+            <FormCheckbox
+              id={`ruleEnabled-${rule.id}`}
+              label={t('routingRules.enabled')}
+              checked={rule.enabled}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+            />
+            <Button
+              variant="secondary"
+              onClick={() => handleMoveRule(index, -1)}
+              disabled={index === 0}
+            >
+              <BiChevronUp />
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => handleMoveRule(index, 1)}
+              disabled={index === organizeRules.length - 1}
+            >
+              <BiChevronDown />
+            </Button>
+            <Button
+              variant="danger"
+              onClick={() => saveRules(organizeRules.filter((item) => item.id !== rule.id))}
+            >
+              <BiTrash />
+            </Button>
+          </div>
+
+          {/* Where matching files go */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormGroup>
+              <FormLabel htmlFor={`ruleDestination-${rule.id}`}>
+                {t('routingRules.destination')}
+              </FormLabel>
+              <FormInput
+                id={`ruleDestination-${rule.id}`}
+                type="text"
+                value={rule.destination}
+                onChange={(e) => updateRule(rule.id, { destination: e.target.value })}
+                placeholder={t('routingRules.destinationPlaceholder')}
+              />
+            </FormGroup>
+
+            <FormGroup>
+              <FormLabel htmlFor={`rulePattern-${rule.id}`}>{t('routingRules.pattern')}</FormLabel>
+              <FormInput
+                id={`rulePattern-${rule.id}`}
+                type="text"
+                value={rule.pattern}
+                onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                placeholder="%Y/%m"
+              />
+            </FormGroup>
+          </div>
+
+          {/* Conditions */}
+          <h4 className="font-medium mb-2">{t('routingRules.conditions')}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {LIST_CONDITIONS.map((condition) => (
+              <FormGroup key={condition}>
+                <FormLabel htmlFor={`rule-${condition}-${rule.id}`}>
+                  {t(`routingRules.${condition}`)}
+                </FormLabel>
+                <FormInput
+                  id={`rule-${condition}-${rule.id}`}
+                  type="text"
+                  value={(rule.conditions[condition] || []).join(',')}
+                  onChange={(e) =>
+                    updateConditions(rule, {
+                      [condition]: e.target.value ? e.target.value.split(',') : undefined,
+                    })
+                  }
+                  placeholder={t('routingRules.listPlaceholder')}
+                />
+              </FormGroup>
+            ))}
+
+            <FormGroup>
+              <FormLabel htmlFor={`ruleNameContains-${rule.id}`}>
+                {t('routingRules.nameContains')}
+              </FormLabel>
+              <FormInput
+                id={`ruleNameContains-${rule.id}`}
+                type="text"
+                value={rule.conditions.nameContains || ''}
+                onChange={(e) =>
+                  updateConditions(rule, { nameContains: e.target.value || undefined })
+                }
+              />
+            </FormGroup>
+
+            <FormGroup>
+              <FormLabel>{t('routingRules.types')}</FormLabel>
+              <div className="flex gap-4">
+                {(['image', 'video'] as const).map((type) => (
+                  <FormCheckbox
+                    key={type}
+                    id={`ruleType-${type}-${rule.id}`}
+                    label={t(`routingRules.typeOptions.${type}`)}
+                    checked={(rule.conditions.types || []).includes(type)}
+                    onChange={(e) => handleToggleType(rule, type, e.target.checked)}
+                  />
+                ))}
+              </div>
+            </FormGroup>
+
+            <FormGroup>
+              <FormLabel htmlFor={`ruleMinSize-${rule.id}`}>
+                {t('routingRules.sizeRange')}
+              </FormLabel>
+              <div className="flex gap-2">
+                <FormInput
+                  id={`ruleMinSize-${rule.id}`}
+                  type="number"
+                  min="0"
+                  value={rule.conditions.minSizeMb ?? ''}
+                  onChange={(e) =>
+                    updateConditions(rule, { minSizeMb: parseOptionalNumber(e.target.value) })
+                  }
+                  placeholder={t('routingRules.minSizeMb')}
+                />
+                <FormInput
+                  type="number"
+                  min="0"
+                  value={rule.conditions.maxSizeMb ?? ''}
+                  onChange={(e) =>
+                    updateConditions(rule, { maxSizeMb: parseOptionalNumber(e.target.value) })
+                  }
+                  placeholder={t('routingRules.maxSizeMb')}
+                />
+              </div>
+            </FormGroup>
+
+            <FormGroup>
+              <FormLabel htmlFor={`ruleMinResolution-${rule.id}`}>
+                {t('routingRules.resolutionRange')}
+              </FormLabel>
+              <div className="flex gap-2">
+                <FormInput
+                  id={`ruleMinResolution-${rule.id}`}
+                  type="number"
+                  min="0"
+                  value={rule.conditions.minResolution ?? ''}
+                  onChange={(e) =>
+                    updateConditions(rule, { minResolution: parseOptionalNumber(e.target.value) })
+                  }
+                  placeholder={t('routingRules.minResolution')}
+                />
+                <FormInput
+                  type="number"
+                  min="0"
+                  value={rule.conditions.maxResolution ?? ''}
+                  onChange={(e) =>
+                    updateConditions(rule, { maxResolution: parseOptionalNumber(e.target.value) })
+                  }
+                  placeholder={t('routingRules.maxResolution')}
+                />
+              </div>
+            </FormGroup>
+
+            <FormGroup>
+              <FormLabel htmlFor={`ruleMinDuration-${rule.id}`}>
+                {t('routingRules.durationRange')}
+              </FormLabel>
+              <div className="flex gap-2">
+                <FormInput
+                  id={`ruleMinDuration-${rule.id}`}
+                  type="number"
+                  min="0"
+                  value={rule.conditions.minDurationSec ?? ''}
+                  onChange={(e) =>
+                    updateConditions(rule, { minDurationSec: parseOptionalNumber(e.target.value) })
+                  }
+                  placeholder={t('routingRules.minDurationSec')}
+                />
+                <FormInput
+                  type="number"
+                  min="0"
+                  value={rule.conditions.maxDurationSec ?? ''}
+                  onChange={(e) =>
+                    updateConditions(rule, { maxDurationSec: parseOptionalNumber(e.target.value) })
+                  }
+                  placeholder={t('routingRules.maxDurationSec')}
+                />
+              </div>
+            </FormGroup>
+
+            <FormGroup>
+              <FormLabel htmlFor={`ruleDateFrom-${rule.id}`}>
+                {t('routingRules.dateRange')}
+              </FormLabel>
+              <div className="flex gap-2">
+                <FormInput
+                  id={`ruleDateFrom-${rule.id}`}
+                  type="date"
+                  value={rule.conditions.dateFrom || ''}
+                  onChange={(e) =>
+                    updateConditions(rule, { dateFrom: e.target.value || undefined })
+                  }
+                />
+                <FormInput
+                  type="date"
+                  value={rule.conditions.dateTo || ''}
+                  onChange={(e) => updateConditions(rule, { dateTo: e.target.value || undefined })}
+                />
+              </div>
+            </FormGroup>
+
+            <FormGroup>
+              <FormLabel htmlFor={`ruleGps-${rule.id}`}>{t('routingRules.gps')}</FormLabel>
+              <FormSelect
+                id={`ruleGps-${rule.id}`}
+                value={
+                  rule.conditions.hasGps === undefined ? 'any' : String(rule.conditions.hasGps)
+                }
+                onChange={(e) =>
+                  updateConditions(rule, {
+                    hasGps: e.target.value === 'any' ? undefined : e.target.value === 'true',
+                  })
+                }
+              >
+                <option value="any">{t('routingRules.gpsOptions.any')}</option>
+                <option value="true">{t('routingRules.gpsOptions.with')}</option>
+                <option value="false">{t('routingRules.gpsOptions.without')}</option>
+              </FormSelect>
+            </FormGroup>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="secondary" onClick={handleAddRule}>
+        <BiPlus className="inline-block mr-2" />
+        {t('routingRules.addRule')}
+      </Button>
+    </div>
+  );
+};
+
+export default RoutingRulesSettings;
@@ -0,0 +1,525 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '@/store';
+import { showNotification } from '@store/slices/appSlice';
+import {
+  CloudProvider,
+  NewSchedule,
+  Schedule,
+  ScheduledJob,
+  ScheduledJobKind,
+  ScheduleTiming,
+} from '@common/types';
+import { Button, FormCheckbox, FormGroup, FormInput, FormLabel, FormSelect } from '../../ui';
+
+// Import icons
+import { BiFolder, BiPause, BiPlay, BiPlus, BiTrash } from 'react-icons/bi';
+
+const JOB_KINDS: ScheduledJobKind[] = [
+  'organize',
+  'duplicate-scan',
+  'bit-rot-check',
+  'cloud-upload',
+];
+
+const PROVIDERS: { id: CloudProvider; name: string }[] = [
+  { id: 'google-drive', name: 'Google Drive' },
+  { id: 'dropbox', name: 'Dropbox' },
+  { id: 'onedrive', name: 'OneDrive' },
+];
+
+// Sunday first, like the schedule timing
+const WEEK_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+// Translation keys of the day names, by day number
+const DAY_KEYS = [
+  'schedules.days.0',
+  'schedules.days.1',
+  'schedules.days.2',
+  'schedules.days.3',
+  'schedules.days.4',
+  'schedules.days.5',
+  'schedules.days.6',
+] as const;
+
+// Used when the settings have no default time for new schedules
+const FALLBACK_TIME = '03:00';
+
+/**
+ * Fields of the new schedule form, covering every kind of job
+ */
+interface ScheduleForm {
+  name: string;
+  kind: ScheduledJobKind;
+  path: string; // Folder that is organized, scanned, checked or uploaded
+  destinationPath: string;
+  profileName: string;
+  recursive: boolean;
+  provider: CloudProvider;
+  folderId: string;
+  timingType: ScheduleTiming['type'];
+  time: string;
+  days: number[];
+  expression: string;
+  catchUp: boolean;
+}
+
+const emptyForm = (time: string, profileName: string): ScheduleForm => ({
+  name: '',
+  kind: 'organize',
+  path: '',
+  destinationPath: '',
+  profileName,
+  recursive: true,
+  provider: 'google-drive',
+  folderId: '',
+  timingType: 'daily',
+  time,
+  days: [1],
+  expression: '',
+  catchUp: true,
+});
+
+const toJob = (form: ScheduleForm): ScheduledJob => {
+  switch (form.kind) {
+    case 'organize':
+      return {
+        kind: 'organize',
+        profileName: form.profileName,
+        sourcePath: form.path,
+        destinationPath: form.destinationPath,
+      };
+    case 'cloud-upload':
+      return {
+        kind: 'cloud-upload',
+        provider: form.provider,
+        path: form.path,
+        recursive: form.recursive,
+        folderId: form.folderId.trim() || undefined,
+      };
+    default:
+      return { kind: form.kind, path: form.path, recursive: form.recursive };
+  }
+};
+
+const toTiming = (form: ScheduleForm): ScheduleTiming => {
+  switch (form.timingType) {
+    case 'daily':
+      return { type: 'daily', time: form.time };
+    case 'weekly':
+      return { type: 'weekly', time: form.time, days: form.days };
+    case 'cron':
+      return { type: 'cron', expression: form.expression.trim() };
+  }
+};
+
+/**
+ * Manages recurring jobs: organizing with a profile, duplicate scans, integrity checks and
+ * cloud uploads
+ */
+const SchedulesSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch();
+
+  // Redux state
+  const { profiles, currentProfile, advancedSettings } = useSelector(
+    (state: RootState) => state.settings,
+  );
+  const defaultTime = advancedSettings.scheduleTime || FALLBACK_TIME;
+
+  // Local state
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [form, setForm] = useState<ScheduleForm>(() => emptyForm(defaultTime, currentProfile));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const notifyError = useCallback(
+    (message?: string) =>
+      dispatch(showNotification({ type: 'error', message: message || t('schedules.error') })),
+    [dispatch, t],
+  );
+
+  const loadSchedules = useCallback(async () => {
+    const result = await window.electronAPI.listSchedules();
+    if (result.success) {
+      setSchedules(result.schedules || []);
+    } else {
+      notifyError(result.error);
+    }
+  }, [notifyError]);
+
+  // Load the list and refresh it whenever a scheduled run starts or finishes
+  useEffect(() => {
+    loadSchedules();
+
+    const removeListeners = ['schedules:runStarted', 'schedules:runCompleted'].map((channel) =>
+      window.electronAPI.on(channel, () => loadSchedules()),
+    );
+
+    return () => removeListeners.forEach((remove) => remove());
+  }, [loadSchedules]);
+
+  const updateForm = (changes: Partial<ScheduleForm>) => setForm({ ...form, ...changes });
+
+  const handleBrowse = async (field: 'path' | 'destinationPath') => {
+    const selected = await window.electronAPI.selectDirectory({
+      title: t(field === 'path' ? 'schedules.selectFolder' : 'schedules.selectDestination'),
+      defaultPath: form[field] || undefined,
+    });
+
+    if (selected) {
+      updateForm({ [field]: selected });
+    }
+  };
+
+  const toggleDay = (day: number) =>
+    updateForm({
+      days: form.days.includes(day)
+        ? form.days.filter((selected) => selected !== day)
+        : [...form.days, day].sort((a, b) => a - b),
+    });
+
+  const handleAdd = async () => {
+    if (
+      !form.name.trim() ||
+      !form.path ||
+      (form.kind === 'organize' && (!form.destinationPath || !form.profileName))
+    ) {
+      notifyError(t('schedules.missingFields'));
+      return;
+    }
+
+    const schedule: NewSchedule = {
+      name: form.name.trim(),
+      job: toJob(form),
+      timing: toTiming(form),
+      catchUp: form.catchUp,
+    };
+
+    setIsSaving(true);
+    try {
+      const result = await window.electronAPI.createSchedule(schedule);
+      if (!result.success) {
+        notifyError(result.error);
+        return;
+      }
+
+      setForm(emptyForm(defaultTime, form.profileName));
+      dispatch(showNotification({ type: 'success', message: t('schedules.added') }));
+      await loadSchedules();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTogglePaused = async (schedule: Schedule) => {
+    const result = schedule.paused
+      ? await window.electronAPI.resumeSchedule(schedule.id)
+      : await window.electronAPI.pauseSchedule(schedule.id);
+
+    if (result.success) {
+      await loadSchedules();
+    } else {
+      notifyError(result.error);
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    if (!window.confirm(t('schedules.deleteConfirm', { name: schedule.name }))) {
+      return;
+    }
+
+    const result = await window.electronAPI.deleteSchedule(schedule.id);
+    if (result.success) {
+      await loadSchedules();
+    } else {
+      notifyError(result.error);
+    }
+  };
+
+  const describeTiming = (timing: ScheduleTiming): string => {
+    switch (timing.type) {
+      case 'daily':
+        return t('schedules.everyDay', { time: timing.time });
+      case 'weekly':
+        return t('schedules.everyWeek', {
+          days: timing.days.map((day) => t(DAY_KEYS[day])).join(', '),
+          time: timing.time,
+        });
+      case 'cron':
+        return t('schedules.cronTiming', { expression: timing.expression });
+    }
+  };
+
+  const describeJob = (job: ScheduledJob): string =>
+    job.kind === 'organize'
+      ? `${job.sourcePath} → ${job.destinationPath} (${job.profileName})`
+      : job.path;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{t('schedules.description')}</p>
+
+      {!advancedSettings.enableScheduling && (
+        <div className="mb-4 p-3 rounded-md bg-yellow-50 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200 text-sm">
+          {t('schedules.schedulingOff')}
+        </div>
+      )}
+
+      {schedules.length === 0 && (
+        <div className="mb-4 text-center text-gray-500 dark:text-gray-400">
+          {t('schedules.noSchedules')}
+        </div>
+      )}
+
+      {schedules.map((schedule) => (
+        <div
+          key={schedule.id}
+          className="mb-4 p-4 border border-gray-200 dark:border-gray-700 rounded-md"
+        >
+          <div className="flex items-start gap-4">
+            <div className="flex-grow min-w-0">
+              <div className="font-medium break-all">
+                {schedule.name}{' '}
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {t(`history.kinds.${schedule.job.kind}`)}
+                </span>
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400 break-all">
+                {describeJob(schedule.job)}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                {describeTiming(schedule.timing)}
+              </div>
+
+              {/* Run state */}
+              <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                {schedule.paused || !schedule.nextRunAt
+                  ? t('schedules.paused')
+                  : t('schedules.nextRun', {
+                      date: new Date(schedule.nextRunAt).toLocaleString(),
+                    })}
+                {schedule.lastRunAt && schedule.lastStatus && (
+                  <div>
+                    {t('schedules.lastRun', {
+                      date: new Date(schedule.lastRunAt).toLocaleString(),
+                      status: t(`history.statuses.${schedule.lastStatus}`),
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button
+                variant="secondary"
+                onClick={() => handleTogglePaused(schedule)}
+                title={t(schedule.paused ? 'schedules.resume' : 'schedules.pause')}
+              >
+                {schedule.paused ? <BiPlay /> : <BiPause />}
+              </Button>
+              <Button variant="danger" onClick={() => handleDelete(schedule)}>
+                <BiTrash />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {/* New schedule */}
+      <h4 className="font-medium mb-2">{t('schedules.addTitle')}</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormGroup>
+          <FormLabel htmlFor="scheduleName">{t('schedules.name')}</FormLabel>
+          <FormInput
+            id="scheduleName"
+            type="text"
+            value={form.name}
+            onChange={(e) => updateForm({ name: e.target.value })}
+          />
+        </FormGroup>
+
+        <FormGroup>
+          <FormLabel htmlFor="scheduleKind">{t('schedules.job')}</FormLabel>
+          <FormSelect
+            id="scheduleKind"
+            value={form.kind}
+            onChange={(e) => updateForm({ kind: e.target.value as ScheduledJobKind })}
+          >
+            {JOB_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {t(`history.kinds.${kind}`)}
+              </option>
+            ))}
+          </FormSelect>
+        </FormGroup>
+
+        <FormGroup>
+          <FormLabel htmlFor="schedulePath">{t('schedules.folder')}</FormLabel>
+          <div className="flex gap-2">
+            <FormInput
+              id="schedulePath"
+              type="text"
+              className="flex-grow"
+              value={form.path}
+              onChange={(e) => updateForm({ path: e.target.value })}
+            />
+            <Button variant="secondary" onClick={() => handleBrowse('path')}>
+              <BiFolder />
+            </Button>
+          </div>
+        </FormGroup>
+
+        {form.kind === 'organize' ? (
+          <>
+            <FormGroup>
+              <FormLabel htmlFor="scheduleDestination">{t('schedules.destination')}</FormLabel>
+              <div className="flex gap-2">
+                <FormInput
+                  id="scheduleDestination"
+                  type="text"
+                  className="flex-grow"
+                  value={form.destinationPath}
+                  onChange={(e) => updateForm({ destinationPath: e.target.value })}
+                />
+                <Button variant="secondary" onClick={() => handleBrowse('destinationPath')}>
+                  <BiFolder />
+                </Button>
+              </div>
+            </FormGroup>
+
+            <FormGroup>
+              <FormLabel htmlFor="scheduleProfile">{t('watchFolders.profile')}</FormLabel>
+              <FormSelect
+                id="scheduleProfile"
+                value={form.profileName}
+                onChange={(e) => updateForm({ profileName: e.target.value })}
+              >
+                <option value="">{t('watchFolders.selectProfile')}</option>
+                {profiles.map((profile) => (
+                  <option key={profile} value={profile}>
+                    {profile}
+                  </option>
+                ))}
+              </FormSelect>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {t('watchFolders.profileHint')}
+              </p>
+            </FormGroup>
+          </>
+        ) : (
+          <FormGroup>
+            <FormLabel>{t('watchFolders.options')}</FormLabel>
+            <FormCheckbox
+              id="scheduleRecursive"
+              label={t('watchFolders.recursive')}
+              checked={form.recursive}
+              onChange={(e) => updateForm({ recursive: e.target.checked })}
+            />
+          </FormGroup>
+        )}
+
+        {form.kind === 'cloud-upload' && (
+          <>
+            <FormGroup>
+              <FormLabel htmlFor="scheduleProvider">{t('schedules.provider')}</FormLabel>
+              <FormSelect
+                id="scheduleProvider"
+                value={form.provider}
+                onChange={(e) => updateForm({ provider: e.target.value as CloudProvider })}
+              >
+                {PROVIDERS.map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.name}
+                  </option>
+                ))}
+              </FormSelect>
+            </FormGroup>
+
+            <FormGroup>
+              <FormLabel htmlFor="scheduleFolderId">{t('schedules.cloudFolder')}</FormLabel>
+              <FormInput
+                id="scheduleFolderId"
+                type="text"
+                value={form.folderId}
+                onChange={(e) => updateForm({ folderId: e.target.value })}
+              />
+            </FormGroup>
+          </>
+        )}
+
+        <FormGroup>
+          <FormLabel htmlFor="scheduleTiming">{t('schedules.timing')}</FormLabel>
+          <FormSelect
+            id="scheduleTiming"
+            value={form.timingType}
+            onChange={(e) => updateForm({ timingType: e.target.value as ScheduleTiming['type'] })}
+          >
+            <option value="daily">{t('schedules.daily')}</option>
+            <option value="weekly">{t('schedules.weekly')}</option>
+            <option value="cron">{t('schedules.cron')}</option>
+          </FormSelect>
+        </FormGroup>
+
+        {form.timingType === 'cron' ? (
+          <FormGroup>
+            <FormLabel htmlFor="scheduleExpression">{t('schedules.expression')}</FormLabel>
+            <FormInput
+              id="scheduleExpression"
+              type="text"
+              value={form.expression}
+              onChange={(e) => updateForm({ expression: e.target.value })}
+              placeholder="0 3 * * 1-5"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {t('schedules.expressionHelp')}
+            </p>
+          </FormGroup>
+        ) : (
+          <FormGroup>
+            <FormLabel htmlFor="scheduleTime">{t('schedules.time')}</FormLabel>
+            <FormInput
+              id="scheduleTime"
+              type="time"
+              value={form.time}
+              onChange={(e) => updateForm({ time: e.target.value })}
+            />
+          </FormGroup>
+        )}
+
+        {form.timingType === 'weekly' && (
+          <FormGroup>
+            <FormLabel>{t('schedules.weekDays')}</FormLabel>
+            <div className="flex flex-wrap gap-4">
+              {WEEK_DAYS.map((day) => (
+                <FormCheckbox
+                  key={day}
+                  id={`scheduleDay-${day}`}
+                  label={t(DAY_KEYS[day])}
+                  checked={form.days.includes(day)}
+                  onChange={() => toggleDay(day)}
+                />
+              ))}
+            </div>
+          </FormGroup>
+        )}
+
+        <FormGroup>
+          <FormCheckbox
+            id="scheduleCatchUp"
+            label={t('schedules.catchUp')}
+            checked={form.catchUp}
+            onChange={(e) => updateForm({ catchUp: e.target.checked })}
+          />
+        </FormGroup>
+      </div>
+
+      <Button variant="secondary" onClick={handleAdd} disabled={isSaving}>
+        <BiPlus className="inline-block mr-2" />
+        {t('schedules.add')}
+      </Button>
+    </div>
+  );
+};
+
+export default SchedulesSettings;
@@ -11,6 +11,8 @@ import {
     resetAdvancedSettings,
 } from '@store/slices/settingsSlice';
 import { setLanguage, showNotification } from '@store/slices/appSlice';
+import { getOrganizeProfileSettings } from '@store/slices/organizeSlice';
+import { ScanRules, SymlinkPolicy } from '@common/types';
 import { Button, Card, FormGroup, FormLabel, FormInput, FormSelect, FormCheckbox } from '../../ui';
 
 // Import icons
@@ -37,6 +39,10 @@ import FaceRecognitionSettings from '@components/modules/settings/FaceRecognitio
 import ExifEditingSettings from '@components/modules/settings/ExifEditingSettings';
 import SocialSharingSettings from '@components/modules/settings/SocialSharingSettings';
 import CloudStorageSettings from '@components/modules/settings/CloudStorageSettings';
+import RoutingRulesSettings from '@components/modules/settings/RoutingRulesSettings';
+import WatchFoldersSettings from '@components/modules/settings/WatchFoldersSettings';
+import SchedulesSettings from '@components/modules/settings/SchedulesSettings';
+import MediaFormatsSettings from '@components/modules/settings/MediaFormatsSettings';
 
 const SettingsScreen: React.FC = () => {
     const { t, i18n } = useTranslation();
@@ -47,11 +53,13 @@ const SettingsScreen: React.FC = () => {
         profiles,
         currentProfile,
         advancedSettings,
+        organizeRules,
         isLoading,
         error
     } = useSelector((state: RootState) => state.settings);
 
     const darkMode = useSelector((state: RootState) => state.app.darkMode);
+    const organize = useSelector((state: RootState) => state.organize);
 
     // Local state
     const [newProfileName, setNewProfileName] = useState('');
@@ -92,6 +100,8 @@ const SettingsScreen: React.FC = () => {
                 profileName: newProfileName,
                 config: {
                     advancedSettings: localSettings,
+                    organizeRules,
+                    organizeSettings: getOrganizeProfileSettings(organize),
                 },
             }));
 
@@ -121,6 +131,8 @@ const SettingsScreen: React.FC = () => {
                 profileName: currentProfile,
                 config: {
                     advancedSettings: localSettings,
+                    organizeRules,
+                    organizeSettings: getOrganizeProfileSettings(organize),
                 },
             }));
 
@@ -150,6 +162,14 @@ const SettingsScreen: React.FC = () => {
         });
     };
 
+    // Handle changing one of the scan rules
+    const handleScanRuleChange = <K extends keyof ScanRules>(key: K, value: ScanRules[K]) => {
+        handleSettingChange('scanRules', {
+            ...localSettings.scanRules,
+            [key]: value,
+        });
+    };
+
     // Handle changing language
     const handleLanguageChange = (lang: string) => {
         i18n.changeLanguage(lang);
@@ -237,6 +257,36 @@ const SettingsScreen: React.FC = () => {
               >
                   {t('settings.advanced')}
               </button>
+              <button
+                className={`px-4 py-2 font-medium ${
+                  activeTab === 'rules'
+                    ? 'border-b-2 border-blue-500 dark:border-blue-400 text-blue-600 dark:text-blue-400'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
+                }`}
+                onClick={() => setActiveTab('rules')}
+              >
+                  {t('settings.routingRules')}
+              </button>
+              <button
+                className={`px-4 py-2 font-medium ${
+                  activeTab === 'watch'
+                    ? 'border-b-2 border-blue-500 dark:border-blue-400 text-blue-600 dark:text-blue-400'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
+                }`}
+                onClick={() => setActiveTab('watch')}
+              >
+                  {t('settings.watchFolders')}
+              </button>
+              <button
+                className={`px-4 py-2 font-medium ${
+                  activeTab === 'schedules'
+                    ? 'border-b-2 border-blue-500 dark:border-blue-400 text-blue-600 dark:text-blue-400'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
+                }`}
+                onClick={() => setActiveTab('schedules')}
+              >
+                  {t('settings.schedules')}
+              </button>
           </div>
 
           {/* General Settings */}
@@ -273,6 +323,94 @@ const SettingsScreen: React.FC = () => {
                         </button>
                     </div>
                 </FormGroup>
+
+                {/* Parallel jobs */}
+                <FormGroup>
+                    <FormLabel htmlFor="parallelJobs">{t('settings.parallelJobs')}</FormLabel>
+                    <FormInput
+                      id="parallelJobs"
+                      type="number"
+                      min={1}
+                      max={16}
+                      className="w-32"
+                      value={localSettings.parallelJobs}
+                      onChange={(e) => handleSettingChange('parallelJobs', Math.max(1, parseInt(e.target.value, 10) || 1))}
+                    />
+                </FormGroup>
+
+                {/* Geo tagging */}
+                <FormGroup>
+                    <FormCheckbox
+                      id="enableGeoTagging"
+                      label={t('settings.geoTagging')}
+                      checked={localSettings.enableGeoTagging}
+                      onChange={(e) => handleSettingChange('enableGeoTagging', e.target.checked)}
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {t('settings.geoTaggingHelp')}
+                    </p>
+                </FormGroup>
+
+                {/* Scan rules */}
+                <h3 className="text-lg font-medium mt-6 mb-4">{t('settings.scanRules.title')}</h3>
+
+                <FormGroup>
+                    <FormLabel htmlFor="ignoreGlobs">{t('settings.scanRules.ignoreGlobs')}</FormLabel>
+                    <textarea
+                      id="ignoreGlobs"
+                      className="w-full h-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white font-mono text-sm"
+                      value={localSettings.scanRules.ignoreGlobs.join('\n')}
+                      onChange={(e) => handleScanRuleChange('ignoreGlobs', e.target.value.split('\n'))}
+                      placeholder="@eaDir/"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {t('settings.scanRules.ignoreGlobsHelp')}
+                    </p>
+                </FormGroup>
+
+                <FormGroup>
+                    <FormLabel htmlFor="symlinks">{t('settings.scanRules.symlinks')}</FormLabel>
+                    <FormSelect
+                      id="symlinks"
+                      className="w-64"
+                      value={localSettings.scanRules.symlinks}
+                      onChange={(e) => handleScanRuleChange('symlinks', e.target.value as SymlinkPolicy)}
+                    >
+                        <option value="skip">{t('settings.scanRules.symlinksSkip')}</option>
+                        <option value="follow">{t('settings.scanRules.symlinksFollow')}</option>
+                    </FormSelect>
+                </FormGroup>
+
+                <FormGroup>
+                    <FormCheckbox
+                      id="includeHidden"
+                      label={t('settings.scanRules.includeHidden')}
+                      checked={localSettings.scanRules.includeHidden}
+                      onChange={(e) => handleScanRuleChange('includeHidden', e.target.checked)}
+                    />
+                </FormGroup>
+
+                <FormGroup>
+                    <FormLabel htmlFor="maxDepth">{t('settings.scanRules.maxDepth')}</FormLabel>
+                    <FormInput
+                      id="maxDepth"
+                      type="number"
+                      min={0}
+                      className="w-32"
+                      value={localSettings.scanRules.maxDepth}
+                      onChange={(e) => handleScanRuleChange('maxDepth', Math.max(0, parseInt(e.target.value, 10) || 0))}
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {t('settings.scanRules.maxDepthHelp')}
+                    </p>
+                </FormGroup>
+
+                {/* Custom media formats */}
+                <h3 className="text-lg font-medium mt-6 mb-4">{t('settings.mediaFormats.title')}</h3>
+                <MediaFormatsSettings
+                  formats={localSettings.customFormats}
+                  onChange={(formats) => handleSettingChange('customFormats', formats)}
+                />
             </Card>
           )}
 
@@ -299,6 +437,58 @@ const SettingsScreen: React.FC = () => {
             </Card>
           )}
 
+          {/* Routing Rules */}
+          {activeTab === 'rules' && (
+            <Card>
+                <h2 className="text-xl font-semibold mb-4">{t('settings.routingRules')}</h2>
+                <RoutingRulesSettings />
+            </Card>
+          )}
+
+          {/* Watch Folders */}
+          {activeTab === 'watch' && (
+            <Card>
+                <h2 className="text-xl font-semibold mb-4">{t('settings.watchFolders')}</h2>
+                <WatchFoldersSettings />
+            </Card>
+          )}
+
+          {/* Schedules */}
+          {activeTab === 'schedules' && (
+            <Card>
+                <h2 className="text-xl font-semibold mb-4">{t('settings.schedules')}</h2>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                    <FormGroup>
+                        <FormCheckbox
+                          id="enableScheduling"
+                          label={t('settings.scheduling')}
+                          checked={localSettings.enableScheduling}
+                          onChange={(e) => handleSettingChange('enableScheduling', e.target.checked)}
+                        />
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            {t('settings.schedulingHelp')}
+                        </p>
+                    </FormGroup>
+
+                    <FormGroup>
+                        <FormLabel htmlFor="scheduleTime">{t('settings.scheduleTime')}</FormLabel>
+                        <FormInput
+                          id="scheduleTime"
+                          type="time"
+                          value={localSettings.scheduleTime}
+                          onChange={(e) => handleSettingChange('scheduleTime', e.target.value)}
+                        />
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            {t('settings.scheduleTimeHelp')}
+                        </p>
+                    </FormGroup>
+                </div>
+
+                <SchedulesSettings />
+            </Card>
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-4 mt-6">
               <Button
@@ -0,0 +1,282 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '@/store';
+import { showNotification } from '@store/slices/appSlice';
+import { WatchFolder, WatchFolderInfo } from '@common/types';
+import { Button, FormCheckbox, FormGroup, FormInput, FormLabel, FormSelect } from '../../ui';
+
+// Import icons
+import { BiFolder, BiPlus, BiTrash } from 'react-icons/bi';
+
+type NewWatchFolder = Omit<WatchFolder, 'id'>;
+
+const emptyWatch: NewWatchFolder = {
+  path: '',
+  destinationPath: '',
+  profileName: '',
+  recursive: true,
+  enabled: true,
+};
+
+/**
+ * Manages the folders that are organized automatically when new media appears in them
+ */
+const WatchFoldersSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const dispatch = useDispatch();
+
+  // Redux state
+  const { profiles, currentProfile } = useSelector((state: RootState) => state.settings);
+
+  // Local state
+  const [watches, setWatches] = useState<WatchFolderInfo[]>([]);
+  const [newWatch, setNewWatch] = useState<NewWatchFolder>({
+    ...emptyWatch,
+    profileName: currentProfile,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const notifyError = useCallback(
+    (message?: string) =>
+      dispatch(showNotification({ type: 'error', message: message || t('watchFolders.error') })),
+    [dispatch, t],
+  );
+
+  const loadWatches = useCallback(async () => {
+    const result = await window.electronAPI.listWatchFolders();
+    if (result.success) {
+      setWatches(result.watches || []);
+    } else {
+      notifyError(result.error);
+    }
+  }, [notifyError]);
+
+  // Load the list and refresh it whenever a watch folder run completes
+  useEffect(() => {
+    loadWatches();
+
+    const removeCompleteListener = window.electronAPI.on('files:complete', (data) => {
+      if (data.watchId) {
+        loadWatches();
+      }
+    });
+
+    return () => removeCompleteListener();
+  }, [loadWatches]);
+
+  const handleBrowse = async (field: 'path' | 'destinationPath') => {
+    const selected = await window.electronAPI.selectDirectory({
+      title: t(field === 'path' ? 'watchFolders.selectFolder' : 'watchFolders.selectDestination'),
+      defaultPath: newWatch[field] || undefined,
+    });
+
+    if (selected) {
+      setNewWatch({ ...newWatch, [field]: selected });
+    }
+  };
+
+  const saveWatch = async (watch: NewWatchFolder & { id?: string }): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      const result = await window.electronAPI.saveWatchFolder(watch);
+      if (!result.success) {
+        notifyError(result.error);
+        return false;
+      }
+
+      await loadWatches();
+      return true;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newWatch.path || !newWatch.destinationPath || !newWatch.profileName) {
+      notifyError(t('watchFolders.missingFields'));
+      return;
+    }
+
+    if (await saveWatch(newWatch)) {
+      setNewWatch({ ...emptyWatch, profileName: newWatch.profileName });
+      dispatch(showNotification({ type: 'success', message: t('watchFolders.added') }));
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    const result = await window.electronAPI.removeWatchFolder(id);
+    if (result.success) {
+      await loadWatches();
+    } else {
+      notifyError(result.error);
+    }
+  };
+
+  // Strip the runtime state before saving a watch folder
+  const toWatchFolder = ({
+    id,
+    path,
+    destinationPath,
+    profileName,
+    recursive,
+    enabled,
+  }: WatchFolderInfo): WatchFolder => ({
+    id,
+    path,
+    destinationPath,
+    profileName,
+    recursive,
+    enabled,
+  });
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {t('watchFolders.description')}
+      </p>
+
+      {watches.length === 0 && (
+        <div className="mb-4 text-center text-gray-500 dark:text-gray-400">
+          {t('watchFolders.noWatches')}
+        </div>
+      )}
+
+      {watches.map((watch) => (
+        <div
+          key={watch.id}
+          className="mb-4 p-4 border border-gray-200 dark:border-gray-700 rounded-md"
+        >
+          <div className="flex items-start gap-4">
+            <div className="flex-grow min-w-0">
+              <div className="font-medium break-all">{watch.path}</div>
+              <div className="text-sm text-gray-600 dark:text-gray-400 break-all">
+                → {watch.destinationPath}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                {t('watchFolders.profile')}: {watch.profileName}
+              </div>
+
+              {/* Watcher state */}
+              <div className="mt-2 text-sm">
+                {watch.error ? (
+                  <span className="text-red-600 dark:text-red-400">{watch.error}</span>
+                ) : (
+                  <span className="text-gray-600 dark:text-gray-400">
+                    {watch.watching
+                      ? t('watchFolders.watching', { pending: watch.pending })
+                      : t('watchFolders.paused')}
+                  </span>
+                )}
+                {watch.lastRunAt && watch.lastResult && (
+                  <div className="text-gray-600 dark:text-gray-400">
+                    {t('watchFolders.lastRun', {
+                      date: new Date(watch.lastRunAt).toLocaleString(),
+                      succeeded: watch.lastResult.succeeded,
+                      skipped: watch.lastResult.skipped,
+                      errors: watch.lastResult.errors,
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <FormCheckbox
+                id={`watchRecursive-${watch.id}`}
+                label={t('watchFolders.recursive')}
+                checked={watch.recursive}
+                disabled={isSaving}
+                onChange={(e) =>
+                  saveWatch({ ...toWatchFolder(watch), recursive: e.target.checked })
+                }
+              />
+              <FormCheckbox
+                id={`watchEnabled-${watch.id}`}
+                label={t('watchFolders.enabled')}
+                checked={watch.enabled}
+                disabled={isSaving}
+                onChange={(e) => saveWatch({ ...toWatchFolder(watch), enabled: e.target.checked })}
+              />
+              <Button variant="danger" onClick={() => handleRemove(watch.id)}>
+                <BiTrash />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {/* New watch folder */}
+      <h4 className="font-medium mb-2">{t('watchFolders.addTitle')}</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormGroup>
+          <FormLabel htmlFor="watchPath">{t('watchFolders.folder')}</FormLabel>
+          <div className="flex gap-2">
+            <FormInput
+              id="watchPath"
+              type="text"
+              className="flex-grow"
+              value={newWatch.path}
+              onChange={(e) => setNewWatch({ ...newWatch, path: e.target.value })}
+            />
+            <Button variant="secondary" onClick={() => handleBrowse('path')}>
+              <BiFolder />
+            </Button>
+          </div>
+        </FormGroup>
+
+        <FormGroup>
+          <FormLabel htmlFor="watchDestination">{t('watchFolders.destination')}</FormLabel>
+          <div className="flex gap-2">
+            <FormInput
+              id="watchDestination"
+              type="text"
+              className="flex-grow"
+              value={newWatch.destinationPath}
+              onChange={(e) => setNewWatch({ ...newWatch, destinationPath: e.target.value })}
+            />
+            <Button variant="secondary" onClick={() => handleBrowse('destinationPath')}>
+              <BiFolder />
+            </Button>
+          </div>
+        </FormGroup>
+
+        <FormGroup>
+          <FormLabel htmlFor="watchProfile">{t('watchFolders.profile')}</FormLabel>
+          <FormSelect
+            id="watchProfile"
+            value={newWatch.profileName}
+            onChange={(e) => setNewWatch({ ...newWatch, profileName: e.target.value })}
+          >
+            <option value="">{t('watchFolders.selectProfile')}</option>
+            {profiles.map((profile) => (
+              <option key={profile} value={profile}>
+                {profile}
+              </option>
+            ))}
+          </FormSelect>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {t('watchFolders.profileHint')}
+          </p>
+        </FormGroup>
+
+        <FormGroup>
+          <FormLabel>{t('watchFolders.options')}</FormLabel>
+          <FormCheckbox
+            id="watchNewRecursive"
+            label={t('watchFolders.recursive')}
+            checked={newWatch.recursive}
+            onChange={(e) => setNewWatch({ ...newWatch, recursive: e.target.checked })}
+          />
+        </FormGroup>
+      </div>
+
+      <Button variant="secondary" onClick={handleAdd} disabled={isSaving}>
+        <BiPlus className="inline-block mr-2" />
+        {t('watchFolders.add')}
+      </Button>
+    </div>
+  );
+};
+
+export default WatchFoldersSettings;
@@ -7,6 +7,8 @@ export default {
         "categorize": "Categorize",
         "faceRecognition": "Face Recognition",
         "exifEdit": "EXIF Edit",
+        "duplicates": "Similar Images",
+        "history": "History",
         "socialSharing": "Social Sharing",
         "cloud": "Cloud Storage",
         "settings": "Settings",
@@ -55,10 +57,56 @@ export default {
         "rename": "Rename",
         "skip": "Skip",
         "overwrite": "Overwrite",
+        "keepLarger": "Keep Larger",
+        "keepNewer": "Keep Newer",
+        "keepBothIfDifferent": "Keep Both If Different",
+        "reviewFolder": "Move to Review Folder",
+        "renameTemplate": "Rename Template",
+        "renameTemplateHint": "{name} is the original name and {n} the counter, e.g. {name} ({n})",
+        "reviewFolderName": "Review Folder",
+        "renamePattern": "File Name Template",
+        "renamePatternPlaceholder": "Keep original names, or e.g. {YYYY}{MM}{DD}_{seq:4}",
+        "renamePatternHint": "Tokens: {YYYY} {YY} {MM} {DD} {hh} {mm} {ss}, {name} original name, {camera} camera model, {seq:4} global counter, {folderseq:4} counter per folder, {hash:8} content hash. Counters continue across runs.",
+        "extensionCases": {
+            "keep": "Keep extension case",
+            "lower": "Lowercase extension",
+            "upper": "Uppercase extension"
+        },
+        "fixExtensions": "Fix extensions that do not match the content",
+        "fixExtensionsHint": "Files such as a .jpg that is really HEIC get the extension their content calls for. Mismatches are shown in the preview either way.",
         "options": "Options",
         "recursive": "Include Subdirectories",
         "backup": "Create Backup",
         "skipDuplicates": "Skip Duplicates",
+        "verifyCopies": "Verify Files After Copying",
+        "incrementalImport": "Only Import New Files",
+        "incrementalImportHint": "Remembers which files were imported from each card or drive, so importing it again skips them even after they were deleted from the library",
+        "importMatch": "Recognize Imported Files By",
+        "importMatches": {
+            "name-size-date": "Name, size and date",
+            "hash": "File content (slower)"
+        },
+        "forgetImports": "Forget Imported Files",
+        "importsForgotten": "Forgot {{count}} imported files",
+        "forgetImportsError": "Imported files could not be forgotten",
+        "filenameDates": "Read Dates from File Names",
+        "filenameDatesHint": "Used for files without EXIF or video dates, such as WhatsApp images and screenshots, before falling back to the modification time",
+        "filenameDateParsers": {
+            "whatsapp": "WhatsApp (IMG-20230102-WA0001)",
+            "pixel": "Google Pixel (PXL_20230102_101010)",
+            "android": "Android camera (IMG_20230102_101010)",
+            "screenshot": "Screenshots",
+            "signal": "Signal (signal-2023-01-02-101010)",
+            "telegram": "Telegram (photo_2023-01-02_10-10-10)",
+            "generic": "Any other date in the name"
+        },
+        "filenameDatePatterns": "Custom File Name Patterns",
+        "filenameDatePatternsHint": "One regular expression per line with the named groups year, month and day, and optionally hour, minute and second. Tried before the built-in patterns.",
+        "timeZoneOverride": "Time zone",
+        "timeZoneOverridePlaceholder": "Work out from metadata and location",
+        "timeZoneOverrideHint": "Where these files were captured, e.g. Asia/Tokyo or +09:00. Used for files whose metadata has no UTC offset, so their dates and folders follow the local time of the trip.",
+        "timeZoneFromGps": "Find the time zone of geotagged files from their location",
+        "timeZoneFromGpsHint": "Uses a bundled offline map of time zones. Files without location or time zone fall back to this computer's time zone.",
         "byType": "Organize by File Type",
         "byCamera": "Organize by Camera Model",
         "advancedOptions": "Advanced Options",
@@ -88,11 +136,297 @@ export default {
             "%M - Minute (e.g., 00-59)",
             "%c - Camera model",
             "%t - File type (e.g., Photos, Videos)",
+            "%R - Resolution (e.g., 4K, 1080p)",
+            "%V - Video codec (e.g., HEVC, H264)",
+            "%C - Country (needs Geo Tagging in settings)",
+            "%S - State or region (e.g., Bavaria)",
+            "%L - City (e.g., Munich)",
             "%e - Event (based on time gaps)"
         ],
         "previewPattern": "Preview: {pattern}",
+        "eventGapHours": "New event after a gap of (hours)",
+        "eventMaxDistanceKm": "Split events further apart than (km)",
+        "eventMaxDistanceOff": "Off",
+        "eventName": "Event name",
+        "eventNamePlaceholder": "e.g. Summer Trip (optional)",
         "noSourceSelected": "Please select a source directory",
-        "noDestinationSelected": "Please select a destination directory"
+        "noDestinationSelected": "Please select a destination directory",
+        "previewPlan": "Preview Plan",
+        "planning": "Planning... {{processed}} of {{total}} files",
+        "planTitle": "Planned Operations",
+        "planSource": "Source",
+        "planDestination": "Destination",
+        "planAction": "Action",
+        "planReason": "Reason",
+        "planRule": "Rule",
+        "planDateSource": "Date From",
+        "dateSources": {
+            "dateTimeOriginal": "EXIF original date",
+            "createDate": "EXIF create date",
+            "creationDate": "Video creation date",
+            "filename": "File name",
+            "mtime": "Modification time"
+        },
+        "planCompanionOf": "Travels with {{file}}",
+        "planContentMismatch": "Content does not match the extension, it is .{{extension}}",
+        "planShowConflictsOnly": "Show conflicts only",
+        "planShowing": "Showing {{shown}} of {{total}} planned operations",
+        "planEmpty": "No files match the current settings",
+        "planActions": {
+            "move": "Move",
+            "copy": "Copy",
+            "rename": "Rename",
+            "skip": "Skip"
+        },
+        "planReasons": {
+            "new": "New file",
+            "conflict-renamed": "Destination exists, will be renamed",
+            "conflict-skipped": "Destination exists, will be skipped",
+            "conflict-overwritten": "Destination exists, will be overwritten",
+            "conflict-larger": "Destination is smaller, will be replaced",
+            "conflict-smaller": "Destination is larger or equal, will be skipped",
+            "conflict-newer": "Destination is older, will be replaced",
+            "conflict-older": "Destination is newer or equal, will be skipped",
+            "conflict-identical": "Destination has identical content, will be skipped",
+            "conflict-review": "Destination exists, will go to the review folder",
+            "already-in-place": "Already in place",
+            "duplicate": "Identical file already in library",
+            "already-imported": "Imported from this volume before",
+            "filtered": "Excluded by filters"
+        },
+        "undo": "Undo Run",
+        "undoing": "Undoing...",
+        "undoConfirm": "Move the files from this run back to where they came from?",
+        "undoComplete": "Restored {{count}} files",
+        "undoSummary": "Restored {{restored}} files and removed {{directories}} empty folders",
+        "undoIssues": "{{count}} files could not be restored",
+        "undoReasons": {
+            "missing": "File no longer exists",
+            "modified": "File changed after the run",
+            "source-exists": "Original location is taken",
+            "overwritten": "Replaced a library file that was not kept",
+            "error": "Error"
+        }
+    },
+
+    // Near-duplicates Screen
+    "duplicates": {
+        "title": "Similar Images",
+        "folder": "Folder to scan",
+        "recursive": "Include subfolders",
+        "sensitivity": "Sensitivity",
+        "sensitivityLevels": {
+            "strict": "Strict - resized or re-encoded copies only",
+            "normal": "Normal - also lightly edited copies",
+            "loose": "Loose - also crops and stronger edits"
+        },
+        "scan": "Find Similar Images",
+        "scanning": "Scanning...",
+        "scanFailed": "Failed to find similar images",
+        "noFolderSelected": "Please select a folder to scan",
+        "noGroups": "No similar images found",
+        "groupsFound": "{{count}} groups of similar images found",
+        "groupTitle": "{{count}} images, {{similarity}}% similar",
+        "suggested": "Suggested",
+        "similarity": "{{similarity}}% similar",
+        "exifFields": "{{count}} EXIF fields",
+        "trashOthers": "Keep selected, trash {{count}}",
+        "keepAll": "Keep all",
+        "trashed": "Moved {{count}} files to the trash",
+        "trashPartial": "{{count}} files could not be moved to the trash",
+        "trashFailed": "Failed to move files to the trash"
+    },
+
+    // Routing Rules
+    "routingRules": {
+        "description": "Rules are checked from top to bottom when organizing. The first enabled rule whose conditions all match decides the destination and pattern of a file; other files use the organize screen's pattern.",
+        "noRules": "No routing rules yet",
+        "addRule": "Add Rule",
+        "newRuleName": "Rule {{number}}",
+        "name": "Rule name",
+        "enabled": "Enabled",
+        "destination": "Destination",
+        "destinationPlaceholder": "e.g. Screenshots, relative to the organize destination",
+        "pattern": "Pattern",
+        "conditions": "Conditions",
+        "makes": "Camera make",
+        "models": "Camera model",
+        "extensions": "Extensions",
+        "categories": "AI categories",
+        "codecs": "Video codec",
+        "listPlaceholder": "Comma separated, empty matches all",
+        "nameContains": "File name contains",
+        "types": "File type",
+        "typeOptions": {
+            "image": "Images",
+            "video": "Videos"
+        },
+        "sizeRange": "Size (MB)",
+        "minSizeMb": "Min",
+        "maxSizeMb": "Max",
+        "resolutionRange": "Resolution (shorter side in pixels, 2160 for 4K)",
+        "minResolution": "Min",
+        "maxResolution": "Max",
+        "durationRange": "Video length (seconds)",
+        "minDurationSec": "Min",
+        "maxDurationSec": "Max",
+        "dateRange": "Capture date",
+        "gps": "Location",
+        "gpsOptions": {
+            "any": "Any",
+            "with": "Geotagged only",
+            "without": "Without location only"
+        }
+    },
+
+    "watchFolders": {
+        "description": "New media that appears in a watched folder is organized automatically once the file has stopped growing, using the organize settings and routing rules saved in the chosen profile.",
+        "noWatches": "No folders are being watched.",
+        "addTitle": "Add Watch Folder",
+        "folder": "Watched folder",
+        "destination": "Destination folder",
+        "selectFolder": "Select folder to watch",
+        "selectDestination": "Select destination folder",
+        "profile": "Profile",
+        "selectProfile": "Select a profile",
+        "profileHint": "Profiles store the organize settings that were active on the Organize screen when the profile was saved.",
+        "options": "Options",
+        "recursive": "Include subfolders",
+        "enabled": "Enabled",
+        "add": "Add Watch Folder",
+        "added": "Watch folder added",
+        "missingFields": "Choose a folder, a destination and a profile",
+        "watching": "Watching, {{pending}} files waiting",
+        "paused": "Not watching",
+        "lastRun": "Last run {{date}}: {{succeeded}} organized, {{skipped}} skipped, {{errors}} errors",
+        "error": "Watch folder could not be saved"
+    },
+
+    "schedules": {
+        "description": "Jobs that run on their own at set times. Runs missed while the application was closed can happen once when it starts again.",
+        "schedulingOff": "Scheduling is turned off, none of these jobs run until it is enabled and the settings are saved.",
+        "noSchedules": "No jobs are scheduled.",
+        "addTitle": "Add Schedule",
+        "name": "Name",
+        "job": "Job",
+        "folder": "Folder",
+        "destination": "Destination folder",
+        "selectFolder": "Select folder",
+        "selectDestination": "Select destination folder",
+        "provider": "Cloud service",
+        "cloudFolder": "Cloud folder ID (optional)",
+        "timing": "Repeat",
+        "daily": "Every day",
+        "weekly": "Every week",
+        "cron": "Cron expression",
+        "time": "Time",
+        "weekDays": "Days",
+        "expression": "Expression",
+        "expressionHelp": "Five fields: minute, hour, day of month, month, day of week",
+        "catchUp": "Run once on startup when runs were missed",
+        "add": "Add Schedule",
+        "added": "Schedule added",
+        "missingFields": "Enter a name and choose the folders, and a profile for organizing",
+        "everyDay": "Every day at {{time}}",
+        "everyWeek": "Every {{days}} at {{time}}",
+        "cronTiming": "Cron: {{expression}}",
+        "nextRun": "Next run {{date}}",
+        "paused": "Paused",
+        "lastRun": "Last run {{date}}: {{status}}",
+        "pause": "Pause",
+        "resume": "Resume",
+        "deleteConfirm": "Delete the schedule {{name}}? Tasks it already ran stay in the history.",
+        "error": "Schedules could not be updated",
+        "days": {
+            "0": "Sunday",
+            "1": "Monday",
+            "2": "Tuesday",
+            "3": "Wednesday",
+            "4": "Thursday",
+            "5": "Friday",
+            "6": "Saturday"
+        }
+    },
+
+    "tasks": {
+        "resumed": "Resumed task finished: {{name}}",
+        "resumeFailed": "Resumed task {{name}} failed: {{error}}"
+    },
+
+    // History Screen
+    "history": {
+        "title": "Task History",
+        "kind": "Task Type",
+        "allKinds": "All tasks",
+        "refresh": "Refresh",
+        "empty": "No tasks have run yet",
+        "duration": "took {{duration}}",
+        "counts": "{{total}} files: {{succeeded}} succeeded, {{skipped}} skipped, {{errors}} errors",
+        "source": "Source",
+        "destination": "Destination",
+        "operation": "Operation",
+        "pattern": "Pattern",
+        "started": "Started",
+        "completed": "Finished",
+        "schedule": "Schedule",
+        "allOptions": "All settings",
+        "failedFiles": "{{count}} failed files",
+        "rerun": "Re-run with Same Settings",
+        "rerunComplete": "Finished running {{name}} again",
+        "retryFailed": "Retry {{count}} Failed Files",
+        "retryComplete": "Retried {{count}} failed files",
+        "undoComplete": "Task undone",
+        "delete": "Delete",
+        "deleteConfirm": "Remove {{name}} from the history? It can no longer be undone afterwards, and the library files it replaced are deleted.",
+        "deleted": "Task removed from the history",
+        "error": "Task history could not be loaded",
+        "kinds": {
+            "organize": "Organize",
+            "conversion": "Conversion",
+            "cloud-upload": "Cloud upload",
+            "duplicate-scan": "Duplicate scan",
+            "bit-rot-check": "Integrity check"
+        },
+        "statuses": {
+            "pending": "Pending",
+            "running": "Running",
+            "completed": "Completed",
+            "cancelled": "Cancelled",
+            "error": "Failed",
+            "undone": "Undone",
+            "partially-undone": "Partly undone"
+        }
+    },
+
+    "jobs": {
+        "title": "Jobs",
+        "active": "{{count}} jobs",
+        "empty": "No jobs yet",
+        "pause": "Pause",
+        "resume": "Resume",
+        "cancel": "Cancel",
+        "clearFinished": "Clear finished jobs",
+        "error": "Job could not be changed",
+        "states": {
+            "queued": "Queued",
+            "running": "Running",
+            "paused": "Paused",
+            "completed": "Completed",
+            "failed": "Failed",
+            "cancelled": "Cancelled"
+        }
+    },
+
+    "cardImport": {
+        "title": "Memory Card Detected",
+        "message": "{{label}} contains camera media. Import its new files?",
+        "profile": "Settings Profile",
+        "destination": "Destination",
+        "import": "Import",
+        "dismiss": "Not Now",
+        "started": "Importing {{label}}",
+        "complete": "Imported {{succeeded}} new files from {{label}}, {{skipped}} skipped",
+        "error": "Import failed"
     },
 
     // Settings Screen
@@ -108,7 +442,30 @@ export default {
         "language": "Language",
         "darkMode": "Dark Mode",
         "advanced": "Advanced Features",
+        "routingRules": "Routing Rules",
+        "watchFolders": "Watch Folders",
+        "schedules": "Schedules",
         "geoTagging": "Enable Geo Tagging",
+        "geoTaggingHelp": "Look up the country, region and city of geotagged files for the %C, %S and %L pattern tokens. Place names come from a dataset bundled with the app, no internet connection is needed.",
+        "scanRules": {
+            "title": "Scanning",
+            "ignoreGlobs": "Ignored Files and Folders",
+            "ignoreGlobsHelp": "One pattern per line, written like .gitignore. A trailing slash matches folders only, patterns with a slash are relative to the scanned folder and ! includes a path again. Folders can add their own patterns in a .mmignore file.",
+            "symlinks": "Symbolic Links",
+            "symlinksSkip": "Skip",
+            "symlinksFollow": "Follow (each folder once)",
+            "includeHidden": "Include hidden files and folders",
+            "maxDepth": "Maximum Folder Depth",
+            "maxDepthHelp": "Levels of subfolders recursive scans descend into, 0 for no limit"
+        },
+        "mediaFormats": {
+            "title": "Additional Media Formats",
+            "help": "Extensions to scan and organize besides the built-in formats, e.g. for new camera RAW formats. Their content is not checked.",
+            "image": "Image",
+            "video": "Video",
+            "raw": "Camera RAW",
+            "add": "Add Format"
+        },
         "aiCategorization": "AI Categorization",
         "enableAiCategorization": "Enable AI Categorization",
         "aiModelType": "AI Model Type",
@@ -131,6 +488,8 @@ export default {
         "cloudService": "Cloud Service",
         "scheduling": "Enable Scheduling",
         "scheduleTime": "Schedule Time",
+        "schedulingHelp": "Scheduled jobs only run while this is on and the settings are saved",
+        "scheduleTimeHelp": "Time new daily and weekly schedules start with",
         "exifEdit": "Enable EXIF Editing",
         "exifCommands": "EXIF Edit Commands",
         "formatConversion": "Format Conversion",
@@ -7,6 +7,8 @@ export default {
     'categorize': 'Kategorize Et',
     'faceRecognition': 'Yüz Tanıma',
     'socialSharing': 'Sosyal Paylaşım',
+    'duplicates': 'Benzer Görseller',
+    'history': 'Geçmiş',
     "cloud": "Bulut Depolama",
     'settings': 'Ayarlar',
     'about': 'Hakkında',
@@ -54,10 +56,56 @@ export default {
     'rename': 'Yeniden Adlandır',
     'skip': 'Atla',
     'overwrite': 'Üzerine Yaz',
+    'keepLarger': 'Büyük Olanı Koru',
+    'keepNewer': 'Yeni Olanı Koru',
+    'keepBothIfDifferent': 'Farklıysa İkisini de Koru',
+    'reviewFolder': 'İnceleme Klasörüne Taşı',
+    'renameTemplate': 'Yeniden Adlandırma Şablonu',
+    'renameTemplateHint': '{name} özgün ad, {n} sayaçtır, ör. {name} ({n})',
+    'reviewFolderName': 'İnceleme Klasörü',
+    'renamePattern': 'Dosya Adı Şablonu',
+    'renamePatternPlaceholder': 'Özgün adları koru veya ör. {YYYY}{MM}{DD}_{seq:4}',
+    'renamePatternHint': 'Belirteçler: {YYYY} {YY} {MM} {DD} {hh} {mm} {ss}, {name} özgün ad, {camera} kamera modeli, {seq:4} genel sayaç, {folderseq:4} klasör başına sayaç, {hash:8} içerik özeti. Sayaçlar çalıştırmalar arasında devam eder.',
+    'extensionCases': {
+      'keep': 'Uzantıyı olduğu gibi bırak',
+      'lower': 'Uzantıyı küçük harf yap',
+      'upper': 'Uzantıyı büyük harf yap',
+    },
+    'fixExtensions': 'İçerikle uyuşmayan uzantıları düzelt',
+    'fixExtensionsHint': 'Aslında HEIC olan bir .jpg gibi dosyalar içeriklerine uygun uzantıyı alır. Uyuşmazlıklar her durumda önizlemede gösterilir.',
     'options': 'Seçenekler',
     'recursive': 'Alt Dizinleri Dahil Et',
     'backup': 'Yedek Oluştur',
     'skipDuplicates': 'Kopyaları Atla',
+    'verifyCopies': 'Kopyaladıktan Sonra Doğrula',
+    'incrementalImport': 'Yalnızca Yeni Dosyaları İçe Aktar',
+    'incrementalImportHint': 'Her karttan veya sürücüden hangi dosyaların içe aktarıldığını hatırlar, böylece kütüphaneden silinmiş olsalar bile tekrar içe aktarmada atlanırlar',
+    'importMatch': 'İçe Aktarılan Dosyaları Tanıma Yöntemi',
+    'importMatches': {
+      'name-size-date': 'Ad, boyut ve tarih',
+      'hash': 'Dosya içeriği (daha yavaş)',
+    },
+    'forgetImports': 'İçe Aktarılanları Unut',
+    'importsForgotten': '{{count}} içe aktarılan dosya unutuldu',
+    'forgetImportsError': 'İçe aktarılan dosyalar unutulamadı',
+    'filenameDates': 'Tarihleri Dosya Adlarından Oku',
+    'filenameDatesHint': 'WhatsApp görselleri ve ekran görüntüleri gibi EXIF veya video tarihi olmayan dosyalar için, değiştirilme zamanına geri dönmeden önce kullanılır',
+    'filenameDateParsers': {
+      'whatsapp': 'WhatsApp (IMG-20230102-WA0001)',
+      'pixel': 'Google Pixel (PXL_20230102_101010)',
+      'android': 'Android kamera (IMG_20230102_101010)',
+      'screenshot': 'Ekran görüntüleri',
+      'signal': 'Signal (signal-2023-01-02-101010)',
+      'telegram': 'Telegram (photo_2023-01-02_10-10-10)',
+      'generic': 'Addaki diğer tarihler',
+    },
+    'filenameDatePatterns': 'Özel Dosya Adı Kalıpları',
+    'filenameDatePatternsHint': 'Her satırda year, month ve day, isteğe bağlı olarak hour, minute ve second adlı grupları olan bir düzenli ifade. Yerleşik kalıplardan önce denenir.',
+    'timeZoneOverride': 'Saat dilimi',
+    'timeZoneOverridePlaceholder': 'Meta veriden ve konumdan belirle',
+    'timeZoneOverrideHint': 'Bu dosyaların çekildiği yer, örn. Asia/Tokyo veya +09:00. Meta verisinde UTC farkı olmayan dosyalar için kullanılır, böylece tarihleri ve klasörleri gezinin yerel saatine göre olur.',
+    'timeZoneFromGps': 'Konum bilgisi olan dosyaların saat dilimini konumlarından bul',
+    'timeZoneFromGpsHint': 'Uygulamayla gelen çevrimdışı saat dilimi haritasını kullanır. Konumu veya saat dilimi olmayan dosyalar bu bilgisayarın saat dilimini kullanır.',
     'byType': 'Dosya Türüne Göre Düzenle',
     'byCamera': 'Kamera Modeline Göre Düzenle',
     'advancedOptions': 'Gelişmiş Seçenekler',
@@ -87,11 +135,297 @@ export default {
       '%M - Dakika (örn., 00-59)',
       '%c - Kamera modeli',
       '%t - Dosya türü (örn., Fotoğraflar, Videolar)',
+      '%R - Çözünürlük (örn., 4K, 1080p)',
+      '%V - Video kodeki (örn., HEVC, H264)',
+      '%C - Ülke (ayarlarda Coğrafi Etiketleme gerekir)',
+      '%S - Eyalet veya bölge (örn., Bavyera)',
+      '%L - Şehir (örn., Münih)',
       '%e - Etkinlik (zaman farklarına dayalı)',
     ],
     'previewPattern': 'Önizleme: {pattern}',
+    'eventGapHours': 'Şu kadar aradan sonra yeni etkinlik (saat)',
+    'eventMaxDistanceKm': 'Şundan uzak etkinlikleri ayır (km)',
+    'eventMaxDistanceOff': 'Kapalı',
+    'eventName': 'Etkinlik adı',
+    'eventNamePlaceholder': 'örn. Yaz Tatili (isteğe bağlı)',
     'noSourceSelected': 'Lütfen bir kaynak dizini seçin',
     'noDestinationSelected': 'Lütfen bir hedef dizini seçin',
+    'previewPlan': 'Planı Önizle',
+    'planning': 'Planlanıyor... {{processed}} / {{total}} dosya',
+    'planTitle': 'Planlanan İşlemler',
+    'planSource': 'Kaynak',
+    'planDestination': 'Hedef',
+    'planAction': 'İşlem',
+    'planReason': 'Neden',
+    'planRule': 'Kural',
+    'planDateSource': 'Tarih Kaynağı',
+    'dateSources': {
+      'dateTimeOriginal': 'EXIF orijinal tarih',
+      'createDate': 'EXIF oluşturma tarihi',
+      'creationDate': 'Video oluşturma tarihi',
+      'filename': 'Dosya adı',
+      'mtime': 'Değiştirilme zamanı',
+    },
+    'planCompanionOf': '{{file}} ile birlikte taşınır',
+    'planContentMismatch': 'İçerik uzantıyla uyuşmuyor, dosya .{{extension}}',
+    'planShowConflictsOnly': 'Yalnızca çakışmaları göster',
+    'planShowing': '{{total}} planlanan işlemden {{shown}} tanesi gösteriliyor',
+    'planEmpty': 'Mevcut ayarlarla eşleşen dosya yok',
+    'planActions': {
+      'move': 'Taşı',
+      'copy': 'Kopyala',
+      'rename': 'Yeniden Adlandır',
+      'skip': 'Atla',
+    },
+    'planReasons': {
+      'new': 'Yeni dosya',
+      'conflict-renamed': 'Hedef mevcut, yeniden adlandırılacak',
+      'conflict-skipped': 'Hedef mevcut, atlanacak',
+      'conflict-overwritten': 'Hedef mevcut, üzerine yazılacak',
+      'conflict-larger': 'Hedef daha küçük, değiştirilecek',
+      'conflict-smaller': 'Hedef daha büyük veya eşit, atlanacak',
+      'conflict-newer': 'Hedef daha eski, değiştirilecek',
+      'conflict-older': 'Hedef daha yeni veya aynı, atlanacak',
+      'conflict-identical': 'Hedefin içeriği aynı, atlanacak',
+      'conflict-review': 'Hedef mevcut, inceleme klasörüne gidecek',
+      'already-in-place': 'Zaten yerinde',
+      'duplicate': 'Aynı dosya kütüphanede zaten var',
+      'already-imported': 'Bu birimden daha önce içe aktarıldı',
+      'filtered': 'Filtrelerle hariç tutuldu',
+    },
+    'undo': 'İşlemi Geri Al',
+    'undoing': 'Geri alınıyor...',
+    'undoConfirm': 'Bu işlemdeki dosyalar geldikleri yere geri taşınsın mı?',
+    'undoComplete': '{{count}} dosya geri yüklendi',
+    'undoSummary': '{{restored}} dosya geri yüklendi ve {{directories}} boş klasör kaldırıldı',
+    'undoIssues': '{{count}} dosya geri yüklenemedi',
+    'undoReasons': {
+      'missing': 'Dosya artık mevcut değil',
+      'modified': 'Dosya işlemden sonra değiştirildi',
+      'source-exists': 'Orijinal konum dolu',
+      'overwritten': 'Saklanmayan bir kitaplık dosyasının yerini aldı',
+      'error': 'Hata',
+    },
+  },
+
+  // Near-duplicates Screen
+  'duplicates': {
+    'title': 'Benzer Görseller',
+    'folder': 'Taranacak klasör',
+    'recursive': 'Alt klasörleri dahil et',
+    'sensitivity': 'Hassasiyet',
+    'sensitivityLevels': {
+      'strict': 'Sıkı - yalnızca yeniden boyutlandırılmış veya kodlanmış kopyalar',
+      'normal': 'Normal - hafif düzenlenmiş kopyalar da',
+      'loose': 'Gevşek - kırpmalar ve güçlü düzenlemeler de',
+    },
+    'scan': 'Benzer Görselleri Bul',
+    'scanning': 'Taranıyor...',
+    'scanFailed': 'Benzer görseller bulunamadı',
+    'noFolderSelected': 'Lütfen taranacak bir klasör seçin',
+    'noGroups': 'Benzer görsel bulunamadı',
+    'groupsFound': '{{count}} benzer görsel grubu bulundu',
+    'groupTitle': '{{count}} görsel, %{{similarity}} benzer',
+    'suggested': 'Önerilen',
+    'similarity': '%{{similarity}} benzer',
+    'exifFields': '{{count}} EXIF alanı',
+    'trashOthers': 'Seçileni tut, {{count}} dosyayı çöpe at',
+    'keepAll': 'Hepsini tut',
+    'trashed': '{{count}} dosya çöp kutusuna taşındı',
+    'trashPartial': '{{count}} dosya çöp kutusuna taşınamadı',
+    'trashFailed': 'Dosyalar çöp kutusuna taşınamadı',
+  },
+
+  // Routing Rules
+  'routingRules': {
+    'description': 'Düzenleme sırasında kurallar yukarıdan aşağıya kontrol edilir. Tüm koşulları eşleşen ilk etkin kural dosyanın hedefini ve desenini belirler; diğer dosyalar düzenleme ekranındaki deseni kullanır.',
+    'noRules': 'Henüz yönlendirme kuralı yok',
+    'addRule': 'Kural Ekle',
+    'newRuleName': 'Kural {{number}}',
+    'name': 'Kural adı',
+    'enabled': 'Etkin',
+    'destination': 'Hedef',
+    'destinationPlaceholder': 'ör. Screenshots, düzenleme hedefine göre',
+    'pattern': 'Desen',
+    'conditions': 'Koşullar',
+    'makes': 'Kamera markası',
+    'models': 'Kamera modeli',
+    'extensions': 'Uzantılar',
+    'categories': 'Yapay zeka kategorileri',
+    'codecs': 'Video kodeki',
+    'listPlaceholder': 'Virgülle ayrılmış, boş bırakılırsa hepsi eşleşir',
+    'nameContains': 'Dosya adı içerir',
+    'types': 'Dosya türü',
+    'typeOptions': {
+      'image': 'Görüntüler',
+      'video': 'Videolar',
+    },
+    'sizeRange': 'Boyut (MB)',
+    'minSizeMb': 'En az',
+    'maxSizeMb': 'En çok',
+    'resolutionRange': 'Çözünürlük (kısa kenar piksel, 4K için 2160)',
+    'minResolution': 'En az',
+    'maxResolution': 'En çok',
+    'durationRange': 'Video süresi (saniye)',
+    'minDurationSec': 'En az',
+    'maxDurationSec': 'En çok',
+    'dateRange': 'Çekim tarihi',
+    'gps': 'Konum',
+    'gpsOptions': {
+      'any': 'Hepsi',
+      'with': 'Yalnızca konumlu',
+      'without': 'Yalnızca konumsuz',
+    },
+  },
+
+  'watchFolders': {
+    'description': 'Bir izlenen klasörde beliren yeni medya, dosyanın büyümesi durduğunda seçilen profilde kayıtlı düzenleme ayarları ve yönlendirme kurallarıyla otomatik olarak düzenlenir.',
+    'noWatches': 'İzlenen klasör yok.',
+    'addTitle': 'İzlenen Klasör Ekle',
+    'folder': 'İzlenen klasör',
+    'destination': 'Hedef klasör',
+    'selectFolder': 'İzlenecek klasörü seçin',
+    'selectDestination': 'Hedef klasörü seçin',
+    'profile': 'Profil',
+    'selectProfile': 'Bir profil seçin',
+    'profileHint': 'Profiller, kaydedildikleri sırada Düzenle ekranında etkin olan düzenleme ayarlarını saklar.',
+    'options': 'Seçenekler',
+    'recursive': 'Alt klasörleri dahil et',
+    'enabled': 'Etkin',
+    'add': 'İzlenen Klasör Ekle',
+    'added': 'İzlenen klasör eklendi',
+    'missingFields': 'Bir klasör, bir hedef ve bir profil seçin',
+    'watching': 'İzleniyor, {{pending}} dosya bekliyor',
+    'paused': 'İzlenmiyor',
+    'lastRun': 'Son çalışma {{date}}: {{succeeded}} düzenlendi, {{skipped}} atlandı, {{errors}} hata',
+    'error': 'İzlenen klasör kaydedilemedi',
+  },
+
+  'schedules': {
+    'description': 'Belirlenen zamanlarda kendiliğinden çalışan işler. Uygulama kapalıyken kaçırılan çalışmalar, uygulama yeniden açıldığında bir kez yapılabilir.',
+    'schedulingOff': 'Zamanlama kapalı, etkinleştirilip ayarlar kaydedilene kadar bu işlerin hiçbiri çalışmaz.',
+    'noSchedules': 'Zamanlanmış iş yok.',
+    'addTitle': 'Zamanlama Ekle',
+    'name': 'Ad',
+    'job': 'İş',
+    'folder': 'Klasör',
+    'destination': 'Hedef klasör',
+    'selectFolder': 'Klasör seçin',
+    'selectDestination': 'Hedef klasörü seçin',
+    'provider': 'Bulut hizmeti',
+    'cloudFolder': 'Bulut klasör kimliği (isteğe bağlı)',
+    'timing': 'Tekrar',
+    'daily': 'Her gün',
+    'weekly': 'Her hafta',
+    'cron': 'Cron ifadesi',
+    'time': 'Saat',
+    'weekDays': 'Günler',
+    'expression': 'İfade',
+    'expressionHelp': 'Beş alan: dakika, saat, ayın günü, ay, haftanın günü',
+    'catchUp': 'Kaçırılan çalışmaları açılışta bir kez yap',
+    'add': 'Zamanlama Ekle',
+    'added': 'Zamanlama eklendi',
+    'missingFields': 'Bir ad girin, klasörleri ve düzenleme için bir profil seçin',
+    'everyDay': 'Her gün {{time}}',
+    'everyWeek': 'Her {{days}} {{time}}',
+    'cronTiming': 'Cron: {{expression}}',
+    'nextRun': 'Sonraki çalışma {{date}}',
+    'paused': 'Duraklatıldı',
+    'lastRun': 'Son çalışma {{date}}: {{status}}',
+    'pause': 'Duraklat',
+    'resume': 'Devam et',
+    'deleteConfirm': '{{name}} zamanlaması silinsin mi? Çalıştırdığı görevler geçmişte kalır.',
+    'error': 'Zamanlamalar güncellenemedi',
+    'days': {
+      '0': 'Pazar',
+      '1': 'Pazartesi',
+      '2': 'Salı',
+      '3': 'Çarşamba',
+      '4': 'Perşembe',
+      '5': 'Cuma',
+      '6': 'Cumartesi',
+    },
+  },
+
+  'tasks': {
+    'resumed': 'Devam ettirilen görev tamamlandı: {{name}}',
+    'resumeFailed': 'Devam ettirilen görev {{name}} başarısız oldu: {{error}}',
+  },
+
+  // History Screen
+  'history': {
+    'title': 'Görev Geçmişi',
+    'kind': 'Görev Türü',
+    'allKinds': 'Tüm görevler',
+    'refresh': 'Yenile',
+    'empty': 'Henüz çalışan görev yok',
+    'duration': '{{duration}} sürdü',
+    'counts': '{{total}} dosya: {{succeeded}} başarılı, {{skipped}} atlandı, {{errors}} hata',
+    'source': 'Kaynak',
+    'destination': 'Hedef',
+    'operation': 'İşlem',
+    'pattern': 'Desen',
+    'started': 'Başlangıç',
+    'completed': 'Bitiş',
+    'schedule': 'Zamanlama',
+    'allOptions': 'Tüm ayarlar',
+    'failedFiles': '{{count}} başarısız dosya',
+    'rerun': 'Aynı Ayarlarla Yeniden Çalıştır',
+    'rerunComplete': '{{name}} yeniden çalıştırıldı',
+    'retryFailed': '{{count}} Başarısız Dosyayı Yeniden Dene',
+    'retryComplete': '{{count}} başarısız dosya yeniden denendi',
+    'undoComplete': 'Görev geri alındı',
+    'delete': 'Sil',
+    'deleteConfirm': '{{name}} geçmişten kaldırılsın mı? Bundan sonra geri alınamaz ve değiştirdiği kütüphane dosyalarının kopyaları silinir.',
+    'deleted': 'Görev geçmişten kaldırıldı',
+    'error': 'Görev geçmişi yüklenemedi',
+    'kinds': {
+      'organize': 'Düzenleme',
+      'conversion': 'Dönüştürme',
+      'cloud-upload': 'Bulut yükleme',
+      'duplicate-scan': 'Kopya taraması',
+      'bit-rot-check': 'Bütünlük kontrolü',
+    },
+    'statuses': {
+      'pending': 'Bekliyor',
+      'running': 'Çalışıyor',
+      'completed': 'Tamamlandı',
+      'cancelled': 'İptal edildi',
+      'error': 'Başarısız',
+      'undone': 'Geri alındı',
+      'partially-undone': 'Kısmen geri alındı',
+    },
+  },
+
+  'jobs': {
+    'title': 'İşler',
+    'active': '{{count}} iş',
+    'empty': 'Henüz iş yok',
+    'pause': 'Duraklat',
+    'resume': 'Devam et',
+    'cancel': 'İptal et',
+    'clearFinished': 'Biten işleri temizle',
+    'error': 'İş değiştirilemedi',
+    'states': {
+      'queued': 'Sırada',
+      'running': 'Çalışıyor',
+      'paused': 'Duraklatıldı',
+      'completed': 'Tamamlandı',
+      'failed': 'Başarısız',
+      'cancelled': 'İptal edildi',
+    },
+  },
+
+  'cardImport': {
+    'title': 'Hafıza Kartı Algılandı',
+    'message': '{{label}} kamera medyası içeriyor. Yeni dosyaları içe aktarılsın mı?',
+    'profile': 'Ayar Profili',
+    'destination': 'Hedef',
+    'import': 'İçe Aktar',
+    'dismiss': 'Şimdi Değil',
+    'started': '{{label}} içe aktarılıyor',
+    'complete': '{{label}} kartından {{succeeded}} yeni dosya içe aktarıldı, {{skipped}} atlandı',
+    'error': 'İçe aktarma başarısız',
   },
 
   // Settings Screen
@@ -107,7 +441,30 @@ export default {
     'language': 'Dil',
     'darkMode': 'Karanlık Mod',
     'advanced': 'Gelişmiş Özellikler',
+    'routingRules': 'Yönlendirme Kuralları',
+    'watchFolders': 'İzlenen Klasörler',
+    'schedules': 'Zamanlanmış İşler',
     'geoTagging': 'Coğrafi Etiketlemeyi Etkinleştir',
+    'geoTaggingHelp': 'Konum bilgisi olan dosyaların ülke, bölge ve şehrini %C, %S ve %L desen belirteçleri için bulur. Yer adları uygulamayla birlikte gelen bir veri kümesinden alınır, internet bağlantısı gerekmez.',
+    'scanRules': {
+      'title': 'Tarama',
+      'ignoreGlobs': 'Yok Sayılan Dosya ve Klasörler',
+      'ignoreGlobsHelp': 'Her satıra bir desen, .gitignore gibi yazılır. Sondaki eğik çizgi yalnızca klasörlerle eşleşir, eğik çizgi içeren desenler taranan klasöre göredir ve ! bir yolu yeniden dahil eder. Klasörler kendi desenlerini bir .mmignore dosyasına ekleyebilir.',
+      'symlinks': 'Sembolik Bağlantılar',
+      'symlinksSkip': 'Atla',
+      'symlinksFollow': 'Takip et (her klasör bir kez)',
+      'includeHidden': 'Gizli dosya ve klasörleri dahil et',
+      'maxDepth': 'En Fazla Klasör Derinliği',
+      'maxDepthHelp': 'Alt klasörleri tarayan taramaların ineceği seviye sayısı, sınırsız için 0',
+    },
+    'mediaFormats': {
+      'title': 'Ek Medya Biçimleri',
+      'help': 'Yerleşik biçimlerin yanında taranıp düzenlenecek uzantılar, ör. yeni kamera RAW biçimleri için. İçerikleri denetlenmez.',
+      'image': 'Görüntü',
+      'video': 'Video',
+      'raw': 'Kamera RAW',
+      'add': 'Biçim Ekle',
+    },
     'aiCategorization': 'Yapay Zeka Kategorilendirme',
     'enableAiCategorization': 'Yapay Zeka Kategorilendirmeyi Etkinleştir',
     'aiModelType': 'Yapay Zeka Model Tipi',
@@ -130,6 +487,8 @@ export default {
     'cloudService': 'Bulut Hizmeti',
     'scheduling': 'Zamanlama Etkinleştir',
     'scheduleTime': 'Zaman Planı',
+    'schedulingHelp': 'Zamanlanmış işler yalnızca bu açıkken ve ayarlar kaydedildiğinde çalışır',
+    'scheduleTimeHelp': 'Yeni günlük ve haftalık zamanlamaların başlangıç saati',
     'exifEdit': 'EXIF Düzenlemeyi Etkinleştir',
     'exifCommands': 'EXIF Düzenleme Komutları',
     'formatConversion': 'Format Dönüşümünü Etkinleştir',
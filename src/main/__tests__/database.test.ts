@@ -0,0 +1,60 @@
+import * as fs from 'fs/promises';
+import { app } from 'electron';
+import {
+  allAsync,
+  closeDatabase,
+  initializeDatabase,
+  insertAsync,
+  runAsync,
+  runBatchAsync,
+} from '@main/database';
+
+describe('database writes', () => {
+  const values = async () =>
+    (await allAsync<{ value: string }>('SELECT value FROM samples ORDER BY id')).map(
+      (row) => row.value,
+    );
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    await runAsync('CREATE TABLE samples (id INTEGER PRIMARY KEY, value TEXT UNIQUE)');
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    await fs.rm(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await runAsync('DELETE FROM samples');
+  });
+
+  it('writes every row of a batch', async () => {
+    await runBatchAsync('INSERT INTO samples (value) VALUES (?)', [['a'], ['b'], ['c']]);
+
+    expect(await values()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('writes none of the rows of a batch that fails', async () => {
+    await expect(
+      runBatchAsync('INSERT INTO samples (value) VALUES (?)', [['a'], ['b'], ['a']]),
+    ).rejects.toThrow('UNIQUE');
+
+    expect(await values()).toEqual([]);
+  });
+
+  it('keeps writes made while a batch is open out of its rollback', async () => {
+    const rows = Array.from({ length: 500 }, (_, index) => [`row ${index}`]);
+    const batch = expect(
+      runBatchAsync('INSERT INTO samples (value) VALUES (?)', [...rows, ['row 0']]),
+    ).rejects.toThrow('UNIQUE');
+
+    // Let the batch open its transaction before writing next to it
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const id = await insertAsync('INSERT INTO samples (value) VALUES (?)', ['outside']);
+
+    await batch;
+    expect(id).toBeGreaterThan(0);
+    expect(await values()).toEqual(['outside']);
+  });
+});
@@ -0,0 +1,28 @@
+import * as fs from 'fs/promises';
+import { app } from 'electron';
+import { loadJobConcurrency } from '@main/job-handlers';
+import { ConfigManager, DEFAULT_PROFILE } from '@main/services/config-manager';
+import { jobManager } from '@main/services/job-manager';
+
+describe('loadJobConcurrency', () => {
+  afterEach(async () => {
+    jobManager.setConcurrency(1);
+    await fs.rm(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  it('runs jobs one at a time until settings are saved', async () => {
+    await loadJobConcurrency();
+
+    expect(jobManager.getConcurrency()).toBe(1);
+  });
+
+  it('applies the saved number of parallel jobs without the window', async () => {
+    await new ConfigManager().saveConfig(DEFAULT_PROFILE, {
+      advancedSettings: { parallelJobs: 3 },
+    });
+
+    await loadJobConcurrency();
+
+    expect(jobManager.getConcurrency()).toBe(3);
+  });
+});
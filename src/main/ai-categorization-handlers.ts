@@ -6,6 +6,7 @@ import {
   CategorizationOptions,
   CategorizationResult
 } from './services/ai-categorization';
+import { jobManager } from './services/job-manager';
 
 /**
  * Sets up IPC handlers for AI categorization functionality
@@ -57,33 +58,40 @@ export function registerAiCategorizationHandlers(): void {
       const results: CategorizationResult[] = [];
       let processed = 0;
 
-      for (const imagePath of imagePaths) {
-        try {
-          // Process the image
-          const result = await aiCategorizationService.categorizeImage(imagePath);
-          results.push(result);
+      await jobManager.run('ai-categorization', `Categorize ${imagePaths.length} images`, async (job) => {
+        for (const imagePath of imagePaths) {
+          await job.checkpoint();
 
-          // Update progress
-          processed++;
+          try {
+            // Process the image
+            const result = await aiCategorizationService.categorizeImage(imagePath);
+            results.push(result);
 
-          // Notify progress if we have a valid sender
-          if (sender) {
-            sender.webContents.send('ai:progress', {
-              processed,
-              total: imagePaths.length,
-              percentage: Math.floor((processed / imagePaths.length) * 100),
-              currentFile: imagePath
+            // Update progress
+            processed++;
+
+            const percentage = Math.floor((processed / imagePaths.length) * 100);
+            job.reportProgress({ processed, total: imagePaths.length, percentage, file: imagePath });
+
+            // Notify progress if we have a valid sender
+            if (sender) {
+              sender.webContents.send('ai:progress', {
+                processed,
+                total: imagePaths.length,
+                percentage,
+                currentFile: imagePath
+              });
+            }
+          } catch (error) {
+            log.error(`Error processing ${imagePath} during batch categorization:`, error);
+            results.push({
+              filePath: imagePath,
+              tags: [],
+              error: (error as Error).message
             });
           }
-        } catch (error) {
-          log.error(`Error processing ${imagePath} during batch categorization:`, error);
-          results.push({
-            filePath: imagePath,
-            tags: [],
-            error: (error as Error).message
-          });
         }
-      }
+      });
 
       // Notify completion if we have a valid sender
       if (sender) {
@@ -1,8 +1,8 @@
 import { ipcMain, BrowserWindow } from 'electron';
-import * as path from 'path';
 import log from 'electron-log';
 import { cloudStorageService } from './services/cloud-storage';
-import { CloudProvider, CloudFile, UploadOptions } from '@common/types';
+import { jobManager } from './services/job-manager';
+import { CloudProvider, UploadOptions } from '@common/types';
 
 /**
  * Sets up IPC handlers for cloud storage functionality
@@ -193,85 +193,18 @@ export function registerCloudStorageHandlers(): void {
     const sender = BrowserWindow.fromWebContents(_event.sender);
 
     try {
-      const results: CloudFile[] = [];
-      let processed = 0;
-      let failed = 0;
-
-      for (const filePath of filePaths) {
-        try {
-          // Process file name if needed
-          const fileName = options.preserveDirectoryStructure && options.basePath ?
-            path.basename(filePath) :
-            filePath.replace(options.basePath || '', '').replace(/^[\/\\]/, '');
-
-          // Create folder structure if needed
-          let targetFolderId = options.folderId;
-
-          if (options.preserveDirectoryStructure && options.basePath) {
-            const relativePath = path.dirname(filePath.replace(options.basePath, ''));
-            if (relativePath !== '.' && relativePath !== '/') {
-              // Create folders for the path
-              const folders = relativePath.split(/[\/\\]/).filter(Boolean);
-              let currentFolderId = options.folderId;
-
-              for (const folder of folders) {
-                try {
-                  // Try to find if folder exists
-                  const files = await cloudStorageService.listFiles(provider, currentFolderId);
-                  const existingFolder = files.find(f => f.isFolder && f.name === folder);
-
-                  if (existingFolder) {
-                    currentFolderId = existingFolder.id;
-                  } else {
-                    // Create folder
-                    const newFolder = await cloudStorageService.createFolder(provider, folder, currentFolderId);
-                    currentFolderId = newFolder.id;
-                  }
-                } catch (error) {
-                  log.error(`Error creating folder structure for ${filePath}:`, error);
-                  throw error;
-                }
-              }
-
-              targetFolderId = currentFolderId;
-            }
-          }
-
-          // Upload file
-          const uploadOptions = {
-            ...options,
-            folderId: targetFolderId,
-            fileName: path.basename(fileName)
-          };
-
-          const file = await cloudStorageService.uploadFile(provider, filePath, uploadOptions);
-          results.push(file);
-
-          // Update progress
-          processed++;
-
-          // Notify progress
-          if (sender) {
-            sender.webContents.send('cloud:progress', {
-              file: filePath,
-              processed,
-              total: filePaths.length,
-              percentage: Math.floor((processed / filePaths.length) * 100),
-            });
-          }
-        } catch (error) {
-          log.error(`Error uploading file ${filePath}:`, error);
-          failed++;
-
-          // Notify error
-          if (sender) {
-            sender.webContents.send('cloud:error', {
-              file: filePath,
-              error: (error as Error).message,
-            });
-          }
-        }
-      }
+      const { results, processed, failed } = await jobManager.run(
+        'cloud-upload',
+        `Upload ${filePaths.length} files`,
+        (job) => cloudStorageService.uploadFiles(provider, filePaths, options, {
+          onProgress: (progress) => {
+            job.reportProgress(progress);
+            sender?.webContents.send('cloud:progress', progress);
+          },
+          onError: (file, error) => sender?.webContents.send('cloud:error', { file, error: error.message }),
+          checkpoint: job.checkpoint
+        })
+      );
 
       // Notify completion
       if (sender) {
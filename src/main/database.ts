@@ -11,6 +11,10 @@ import log from 'electron-log';
 type Database = sqlite3.Database;
 let db: Database | null = null;
 
+// Writes run one after another, so a write never lands inside an open batch transaction
+// and gets rolled back with it
+let writeQueue: Promise<unknown> = Promise.resolve();
+
 /**
  * Initialize the SQLite database for the application
  */
@@ -35,6 +39,9 @@ export async function initializeDatabase(): Promise<void> {
         // Enable foreign keys
         await runAsync('PRAGMA foreign_keys = ON');
 
+        // Write-ahead logging keeps per-file journal inserts fast
+        await runAsync('PRAGMA journal_mode = WAL');
+
         // Create tables if they don't exist
         await createTables();
 
@@ -48,23 +55,88 @@ export async function initializeDatabase(): Promise<void> {
 /**
  * Run a SQL query with optional parameters
  */
-export async function runAsync(sql: string, params: any[] = []): Promise<void> {
+export async function runAsync(sql: string, params: unknown[] = []): Promise<void> {
+    if (!db) {
+        throw new Error('Database not initialized');
+    }
+
+    const database = db;
+    return queueWrite(() => run(database, sql, params).then(() => undefined));
+}
+
+/**
+ * Run an INSERT statement and return the id of the new row
+ */
+export async function insertAsync(sql: string, params: unknown[] = []): Promise<number> {
+    if (!db) {
+        throw new Error('Database not initialized');
+    }
+
+    const database = db;
+    return queueWrite(() => run(database, sql, params));
+}
+
+/**
+ * Run one statement for many rows with a single prepared statement inside a transaction,
+ * so either all rows are written or none are
+ */
+export async function runBatchAsync(sql: string, rows: unknown[][]): Promise<void> {
     if (!db) {
         throw new Error('Database not initialized');
     }
 
-    return new Promise<void>((resolve, reject) => {
-        db!.run(sql, params, function(err) {
+    // SQLite has no nested transactions, other writes wait until the batch is committed
+    const database = db;
+    return queueWrite(() => runBatch(database, sql, rows));
+}
+
+/**
+ * Start a write once the writes queued before it have finished
+ */
+function queueWrite<T>(write: () => Promise<T>): Promise<T> {
+    const result = writeQueue.then(write);
+    writeQueue = result.catch(() => undefined);
+    return result;
+}
+
+/**
+ * Run a statement right away, outside the write queue
+ * @returns The id of the last inserted row
+ */
+function run(database: Database, sql: string, params: unknown[] = []): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+        database.run(sql, params, function(err) {
             if (err) return reject(err);
-            resolve();
+            resolve(this.lastID);
         });
     });
 }
 
+async function runBatch(database: Database, sql: string, rows: unknown[][]): Promise<void> {
+    await run(database, 'BEGIN TRANSACTION');
+
+    const statement = database.prepare(sql);
+    try {
+        for (const params of rows) {
+            await new Promise<void>((resolve, reject) => {
+                statement.run(params, (err) => (err ? reject(err) : resolve()));
+            });
+        }
+        await new Promise<void>((resolve, reject) => {
+            statement.finalize((err) => (err ? reject(err) : resolve()));
+        });
+        await run(database, 'COMMIT');
+    } catch (error) {
+        statement.finalize();
+        await run(database, 'ROLLBACK');
+        throw error;
+    }
+}
+
 /**
  * Get a single row from a SQL query
  */
-export async function getAsync<T>(sql: string, params: any[] = []): Promise<T | undefined> {
+export async function getAsync<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
     if (!db) {
         throw new Error('Database not initialized');
     }
@@ -80,7 +152,7 @@ export async function getAsync<T>(sql: string, params: any[] = []): Promise<T |
 /**
  * Get all rows from a SQL query
  */
-export async function allAsync<T>(sql: string, params: any[] = []): Promise<T[]> {
+export async function allAsync<T>(sql: string, params: unknown[] = []): Promise<T[]> {
     if (!db) {
         throw new Error('Database not initialized');
     }
@@ -138,6 +210,122 @@ async function createTables(): Promise<void> {
         )
     `);
 
+    // Directories created by a task, removed again on undo when empty
+    await runAsync(`
+        CREATE TABLE IF NOT EXISTS task_directories (
+                                             id INTEGER PRIMARY KEY AUTOINCREMENT,
+                                             task_id INTEGER NOT NULL,
+                                             path TEXT NOT NULL,
+                                             FOREIGN KEY (task_id) REFERENCES tasks(id)
+        )
+    `);
+
+    // Events detected for the %e token, kept so later runs reuse the same folders
+    await runAsync(`
+        CREATE TABLE IF NOT EXISTS events (
+                                             id INTEGER PRIMARY KEY AUTOINCREMENT,
+                                             destination_root TEXT NOT NULL,
+                                             name TEXT NOT NULL,
+                                             start_time INTEGER NOT NULL,
+                                             end_time INTEGER NOT NULL,
+                                             latitude REAL,
+                                             longitude REAL,
+                                             created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    // Content hashes of media files, reused while a file's size and mtime are unchanged
+    await runAsync(`
+        CREATE TABLE IF NOT EXISTS file_hashes (
+                                             path TEXT PRIMARY KEY,
+                                             size INTEGER NOT NULL,
+                                             mtime INTEGER NOT NULL,
+                                             sha256 TEXT NOT NULL,
+                                             updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    // Files brought in by incremental imports, so the same card only yields its new files
+    await runAsync(`
+        CREATE TABLE IF NOT EXISTS imported_files (
+                                             volume_id TEXT NOT NULL,
+                                             match_key TEXT NOT NULL,
+                                             source_path TEXT NOT NULL,
+                                             imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                                             PRIMARY KEY (volume_id, match_key)
+        )
+    `);
+
+    // Perceptual hashes of images for near-duplicate detection
+    await runAsync(`
+        CREATE TABLE IF NOT EXISTS perceptual_hashes (
+                                             path TEXT PRIMARY KEY,
+                                             size INTEGER NOT NULL,
+                                             mtime INTEGER NOT NULL,
+                                             dhash TEXT NOT NULL,
+                                             phash TEXT NOT NULL,
+                                             width INTEGER,
+                                             height INTEGER,
+                                             updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    // Counters for the {seq} and {folderseq} rename tokens, kept across runs
+    await runAsync(`
+        CREATE TABLE IF NOT EXISTS sequence_counters (
+                                             scope TEXT PRIMARY KEY,
+                                             value INTEGER NOT NULL,
+                                             updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    // Folders organized automatically when new media appears in them
+    await runAsync(`
+        CREATE TABLE IF NOT EXISTS watch_folders (
+                                             id TEXT PRIMARY KEY,
+                                             path TEXT NOT NULL,
+                                             destination_path TEXT NOT NULL,
+                                             profile_name TEXT NOT NULL,
+                                             recursive BOOLEAN DEFAULT 1,
+                                             enabled BOOLEAN DEFAULT 1,
+                                             created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    // Recurring jobs, job and timing are stored as JSON
+    await runAsync(`
+        CREATE TABLE IF NOT EXISTS schedules (
+                                             id TEXT PRIMARY KEY,
+                                             name TEXT NOT NULL,
+                                             job TEXT NOT NULL,
+                                             timing TEXT NOT NULL,
+                                             paused BOOLEAN DEFAULT 0,
+                                             catch_up BOOLEAN DEFAULT 1,
+                                             last_run_at TIMESTAMP,
+                                             last_status TEXT,
+                                             last_task_id INTEGER,
+                                             next_run_at TIMESTAMP,
+                                             created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    // Columns added after the first release
+    await addColumnIfMissing('files', 'action', 'TEXT');
+    await addColumnIfMissing('files', 'destination_size', 'INTEGER');
+    await addColumnIfMissing('files', 'destination_mtime', 'INTEGER');
+    await addColumnIfMissing('files', 'reason', 'TEXT');
+    await addColumnIfMissing('files', 'conflict_path', 'TEXT');
+    await addColumnIfMissing('files', 'date_source', 'TEXT');
+    await addColumnIfMissing('files', 'replaced_path', 'TEXT');
+    await addColumnIfMissing('tasks', 'kind', "TEXT NOT NULL DEFAULT 'organize'");
+    await addColumnIfMissing('tasks', 'schedule_id', 'TEXT');
+    await addColumnIfMissing('tasks', 'summary', 'TEXT');
+
+    await runAsync('CREATE INDEX IF NOT EXISTS idx_files_task_id ON files(task_id)');
+    await runAsync('CREATE INDEX IF NOT EXISTS idx_files_task_source ON files(task_id, source_path)');
+    await runAsync('CREATE INDEX IF NOT EXISTS idx_events_destination_root ON events(destination_root)');
+    await runAsync('CREATE INDEX IF NOT EXISTS idx_file_hashes_size_sha256 ON file_hashes(size, sha256)');
+
     // Settings table
     await runAsync(`
         CREATE TABLE IF NOT EXISTS settings (
@@ -151,6 +339,17 @@ async function createTables(): Promise<void> {
     `);
 }
 
+/**
+ * Add a column to an existing table if an older database does not have it yet
+ */
+async function addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+    const columns = await allAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+
+    if (!columns.some((existing) => existing.name === column)) {
+        await runAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+}
+
 /**
  * Close the database connection
  */
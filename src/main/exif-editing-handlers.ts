@@ -6,6 +6,7 @@ import {
   ExifEditOperation,
   ExifBackupOptions
 } from './services/exif-editor';
+import { jobManager } from './services/job-manager';
 
 /**
  * Sets up IPC handlers for EXIF editing functionality
@@ -98,34 +99,41 @@ export function registerExifEditingHandlers(): void {
       const filePaths = Object.keys(fileOperations);
       const totalFiles = filePaths.length;
 
-      for (const filePath of filePaths) {
-        try {
-          const fileOps = fileOperations[filePath];
-
-          // Process all operations for this file
-          for (const op of fileOps) {
-            await exifEditorService.editExif(op, options);
-            processed++;
-
-            // Notify progress if we have a valid sender
-            if (sender) {
-              sender.webContents.send('exif:progress', {
-                processed,
-                total: totalOperations,
-                percentage: Math.floor((processed / totalOperations) * 100),
-                currentFile: filePath
-              });
+      await jobManager.run('exif-edit', `Edit metadata of ${totalFiles} files`, async (job) => {
+        for (const filePath of filePaths) {
+          await job.checkpoint();
+
+          try {
+            const fileOps = fileOperations[filePath];
+
+            // Process all operations for this file
+            for (const op of fileOps) {
+              await exifEditorService.editExif(op, options);
+              processed++;
+
+              const percentage = Math.floor((processed / totalOperations) * 100);
+              job.reportProgress({ processed, total: totalOperations, percentage, file: filePath });
+
+              // Notify progress if we have a valid sender
+              if (sender) {
+                sender.webContents.send('exif:progress', {
+                  processed,
+                  total: totalOperations,
+                  percentage,
+                  currentFile: filePath
+                });
+              }
             }
-          }
 
-          // If all operations succeeded, add to editedFiles
-          result.editedFiles.push(filePath);
-        } catch (error) {
-          result.failedFiles[filePath] = (error as Error).message;
-          result.success = false;
-          processed += fileOperations[filePath].length;
+            // If all operations succeeded, add to editedFiles
+            result.editedFiles.push(filePath);
+          } catch (error) {
+            result.failedFiles[filePath] = (error as Error).message;
+            result.success = false;
+            processed += fileOperations[filePath].length;
+          }
         }
-      }
+      });
 
       // Notify completion if we have a valid sender
       if (sender) {
@@ -7,6 +7,7 @@ import {
   FaceRecognitionResult,
   Person
 } from './services/face-recognition';
+import { jobManager } from './services/job-manager';
 
 /**
  * Sets up IPC handlers for face recognition functionality
@@ -58,36 +59,43 @@ export function registerFaceRecognitionHandlers(): void {
       const results: FaceRecognitionResult[] = [];
       let processed = 0;
 
-      for (const imagePath of imagePaths) {
-        try {
-          // Process the image
-          const result = await faceRecognitionService.detectFaces(imagePath);
-          results.push(result);
-
-          // Update progress
-          processed++;
-
-          // Notify progress if we have a valid sender
-          if (sender) {
-            sender.webContents.send('face:progress', {
-              processed,
-              total: imagePaths.length,
-              percentage: Math.floor((processed / imagePaths.length) * 100),
-              currentFile: imagePath
+      await jobManager.run('face-recognition', `Detect faces in ${imagePaths.length} images`, async (job) => {
+        for (const imagePath of imagePaths) {
+          await job.checkpoint();
+
+          try {
+            // Process the image
+            const result = await faceRecognitionService.detectFaces(imagePath);
+            results.push(result);
+
+            // Update progress
+            processed++;
+
+            const percentage = Math.floor((processed / imagePaths.length) * 100);
+            job.reportProgress({ processed, total: imagePaths.length, percentage, file: imagePath });
+
+            // Notify progress if we have a valid sender
+            if (sender) {
+              sender.webContents.send('face:progress', {
+                processed,
+                total: imagePaths.length,
+                percentage,
+                currentFile: imagePath
+              });
+            }
+          } catch (error) {
+            log.error(`Error processing ${imagePath} during batch processing:`, error);
+            results.push({
+              filePath: imagePath,
+              fileHash: '',
+              imageWidth: 0,
+              imageHeight: 0,
+              faces: [],
+              error: (error as Error).message
             });
           }
-        } catch (error) {
-          log.error(`Error processing ${imagePath} during batch processing:`, error);
-          results.push({
-            filePath: imagePath,
-            fileHash: '',
-            imageWidth: 0,
-            imageHeight: 0,
-            faces: [],
-            error: (error as Error).message
-          });
         }
-      }
+      });
 
       // Notify completion if we have a valid sender
       if (sender) {
@@ -1,41 +1,85 @@
-import { ipcMain, BrowserWindow } from 'electron';
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import { promisify } from 'util';
-import { exec } from 'child_process';
+import { ipcMain, BrowserWindow, shell } from 'electron';
 import log from 'electron-log';
-import { FileMetadata } from '../common/types';
-
-const execPromise = promisify(exec);
-
-// Define supported file extensions
-const supportedImageFormats = [
-    'jpg', 'jpeg', 'png', 'gif', 'tiff', 'tif', 'bmp', 'heic', 'webp', 'raw', 'cr2', 'nef', 'arw'
-];
-const supportedVideoFormats = [
-    'mp4', 'mov', 'avi', 'mkv', 'm4v', '3gp', 'wmv', 'flv', 'webm'
-];
-const supportedFormats = [...supportedImageFormats, ...supportedVideoFormats];
+import { v4 as uuidv4 } from 'uuid';
+import { CustomMediaFormat, NearDuplicateOptions, OrganizeOptions, ScanOptions, TrashResult } from '../common/types';
+import { getFileMetadata } from './utils/media-files';
+import { formatRegistry } from './utils/file-formats';
+import { fileOrganizerService } from './services/file-organizer';
+import { hashIndexService } from './services/hash-index';
+import { nearDuplicateService } from './services/near-duplicates';
+import { jobManager } from './services/job-manager';
+import { mediaScannerService } from './services/media-scanner';
+import { ConfigManager, DEFAULT_PROFILE } from './services/config-manager';
+
+// Scans started from the renderer by their scan id, so they can be cancelled
+const activeScans = new Map<string, AbortController>();
+
+/**
+ * Apply the custom formats saved in settings, so scheduled and watch folder runs that start
+ * before the window loads, or without one, know them. The renderer sends later changes.
+ */
+export async function loadCustomFormats(): Promise<void> {
+    try {
+        const formats = await new ConfigManager().loadCustomFormats(DEFAULT_PROFILE);
+        formatRegistry.setCustomFormats(formats);
+        log.info(`Custom media formats: ${formats.map((format) => format.extension).join(', ') || 'none'}`);
+    } catch (error) {
+        log.error('Error loading custom media formats:', error);
+    }
+}
 
 export function registerFileSystemHandlers() {
-    // Scan directory for media files
-    ipcMain.handle('files:scanDirectory', async (_event, dirPath, options) => {
-        const { recursive = false, fileTypes = supportedFormats } = options || {};
+    // Scan a folder tree, streaming the files found and their stage results in batches
+    ipcMain.handle('files:scanDirectory', async (_event, dirPath: string, options: ScanOptions) => {
+        const sender = BrowserWindow.fromWebContents(_event.sender);
+        const { scanId = uuidv4(), recursive = false } = options || {};
+        const controller = new AbortController();
+        activeScans.set(scanId, controller);
 
         try {
             log.info(`Scanning directory: ${dirPath}, recursive: ${recursive}`);
 
-            const results: string[] = [];
-            await scanDirectoryRecursive(dirPath, fileTypes, recursive, results);
+            const summary = await mediaScannerService.scan(
+                dirPath,
+                options || {},
+                (batch) => sender?.webContents.send('files:scanProgress', { ...batch, scanId }),
+                controller.signal,
+            );
 
-            log.info(`Scan complete. Found ${results.length} files.`);
-            return { success: true, files: results };
+            log.info(`Scan complete. Found ${summary.filesFound} files.`);
+            return { success: true, summary };
         } catch (error) {
             log.error('Error scanning directory:', error);
             return {
                 success: false,
                 error: (error as Error).message
             };
+        } finally {
+            activeScans.delete(scanId);
+        }
+    });
+
+    // Stop a running scan, it then resolves with what was found so far
+    ipcMain.handle('files:cancelScan', async (_event, scanId: string) => {
+        const controller = activeScans.get(scanId);
+        if (!controller) {
+            return { success: false, error: `Scan not found: ${scanId}` };
+        }
+
+        log.info(`Cancelling scan ${scanId}`);
+        controller.abort();
+        return { success: true };
+    });
+
+    // Apply changes of the custom formats setting
+    ipcMain.handle('files:setCustomFormats', async (_event, formats: CustomMediaFormat[]) => {
+        try {
+            formatRegistry.setCustomFormats(formats || []);
+            log.info(`Custom media formats: ${formats?.map((format) => format.extension).join(', ') || 'none'}`);
+            return { success: true };
+        } catch (error) {
+            log.error('Error setting custom media formats:', error);
+            return { success: false, error: (error as Error).message };
         }
     });
 
@@ -44,33 +88,7 @@ export function registerFileSystemHandlers() {
         try {
             log.debug(`Getting metadata for file: ${filePath}`);
 
-            // Get basic file stats
-            const stats = await fs.stat(filePath);
-
-            // Basic metadata
-            const metadata: FileMetadata = {
-                path: filePath,
-                name: path.basename(filePath),
-                extension: path.extname(filePath).slice(1).toLowerCase(),
-                size: stats.size,
-                createdAt: stats.birthtime,
-                modifiedAt: stats.mtime,
-                type: getFileType(filePath),
-            };
-
-            // Try to get EXIF data (using exiftool if available)
-            try {
-                const exifData = await getExifData(filePath);
-                if (exifData) {
-                    // Merge EXIF data with basic metadata
-                    return {
-                        success: true,
-                        metadata: { ...metadata, ...exifData }
-                    };
-                }
-            } catch (exifError) {
-                log.warn(`Could not extract EXIF data from ${filePath}:`, exifError);
-            }
+            const metadata = await getFileMetadata(filePath);
 
             return { success: true, metadata };
         } catch (error) {
@@ -82,78 +100,144 @@ export function registerFileSystemHandlers() {
         }
     });
 
-    // Organize files
-    ipcMain.handle('files:organize', async (_event, options) => {
+    // Plan an organize run without touching the disk
+    ipcMain.handle('files:planOrganize', async (_event, options: OrganizeOptions) => {
         const sender = BrowserWindow.fromWebContents(_event.sender);
-        if (!sender) {
-            return { success: false, error: 'Window not found' };
+
+        try {
+            log.info(`Planning organize run for ${options.sourcePath} -> ${options.destinationPath}`);
+
+            const plan = await jobManager.run('plan', `Preview ${options.sourcePath}`, (job) =>
+                fileOrganizerService.plan(options, {
+                    onProgress: (progress) => {
+                        job.reportProgress(progress);
+                        sender?.webContents.send('files:planProgress', progress);
+                    },
+                    checkpoint: job.checkpoint,
+                }),
+            );
+
+            return { success: true, plan };
+        } catch (error) {
+            log.error('Error planning organize run:', error);
+            return {
+                success: false,
+                error: (error as Error).message
+            };
+        }
+    });
+
+    // Find groups of byte-identical files in a folder tree
+    ipcMain.handle('files:findDuplicates', async (_event, dirPath: string, options) => {
+        const sender = BrowserWindow.fromWebContents(_event.sender);
+        const { recursive = true } = options || {};
+
+        try {
+            log.info(`Finding duplicates in ${dirPath}, recursive: ${recursive}`);
+
+            const groups = await jobManager.run('duplicate-scan', `Find duplicates in ${dirPath}`, (job) =>
+                hashIndexService.findDuplicates(
+                    dirPath,
+                    recursive,
+                    (progress) => {
+                        job.reportProgress(progress);
+                        sender?.webContents.send('files:duplicateProgress', progress);
+                    },
+                    job.checkpoint,
+                ),
+            );
+
+            return { success: true, groups };
+        } catch (error) {
+            log.error('Error finding duplicates:', error);
+            return {
+                success: false,
+                error: (error as Error).message
+            };
         }
+    });
+
+    // Find groups of visually similar images in a folder tree
+    ipcMain.handle('files:findNearDuplicates', async (_event, dirPath: string, options: NearDuplicateOptions) => {
+        const sender = BrowserWindow.fromWebContents(_event.sender);
 
         try {
-            // Create required directories
-            await fs.mkdir(options.destinationPath, { recursive: true });
+            log.info(`Finding near-duplicates in ${dirPath}`);
+
+            const groups = await jobManager.run('near-duplicate-scan', `Find similar images in ${dirPath}`, (job) =>
+                nearDuplicateService.findNearDuplicates(
+                    dirPath,
+                    options,
+                    (progress) => {
+                        job.reportProgress(progress);
+                        sender?.webContents.send('files:nearDuplicateProgress', progress);
+                    },
+                    job.checkpoint,
+                ),
+            );
+
+            return { success: true, groups };
+        } catch (error) {
+            log.error('Error finding near-duplicates:', error);
+            return {
+                success: false,
+                error: (error as Error).message
+            };
+        }
+    });
 
-            // FIX: Directly scan the directory instead of using ipcMain.handle
-            // Get file list
-            let files: string[] = [];
+    // Move files to the system trash so they can still be recovered
+    ipcMain.handle('files:trash', async (_event, paths: string[]) => {
+        const result: TrashResult = { trashed: [], failed: [] };
+
+        for (const filePath of paths) {
             try {
-                const { recursive = false, fileTypes = options.filters?.fileTypes } = options;
-                files = await scanDirectoryForFiles(options.sourcePath, fileTypes || supportedFormats, recursive);
+                await shell.trashItem(filePath);
+                result.trashed.push(filePath);
             } catch (error) {
-                return { success: false, error: `Failed to scan directory: ${(error as Error).message}` };
+                log.error(`Error moving ${filePath} to trash:`, error);
+                result.failed.push({ path: filePath, error: (error as Error).message });
             }
+        }
 
-            // Process files
-            const total = files.length;
-            let processed = 0;
-            let succeeded = 0;
-            let skipped = 0;
-            let errors = 0;
-
-            for (const file of files) {
-                try {
-                    processed++;
+        log.info(`Moved ${result.trashed.length} files to trash, ${result.failed.length} failed`);
+        return { success: true, result };
+    });
 
-                    // Notify progress
-                    sender.webContents.send('files:progress', {
-                        file,
-                        processed,
-                        total,
-                        percentage: Math.floor((processed / total) * 100),
-                    });
+    // Organize files
+    ipcMain.handle('files:organize', async (_event, options: OrganizeOptions) => {
+        const sender = BrowserWindow.fromWebContents(_event.sender);
+        if (!sender) {
+            return { success: false, error: 'Window not found' };
+        }
 
-                    // Process the file (placeholder for actual implementation)
-                    // TODO: Implement file organization logic based on options
+        try {
+            log.info(`Organizing ${options.sourcePath} -> ${options.destinationPath} (${options.operation}, pattern: ${options.pattern})`);
 
-                    succeeded++;
-                } catch (error) {
-                    log.error(`Error processing file ${file}:`, error);
-                    errors++;
+            const results = await jobManager.run('organize', `Organize ${options.sourcePath}`, (job) =>
+                fileOrganizerService.organize(options, {
+                    // Notify progress
+                    onProgress: (progress) => {
+                        job.reportProgress(progress);
+                        sender.webContents.send('files:progress', progress);
+                    },
 
                     // Notify error
-                    sender.webContents.send('files:error', {
+                    onError: (file, error) => sender.webContents.send('files:error', {
                         file,
-                        error: (error as Error).message,
-                    });
-                }
-            }
+                        error: error.message,
+                    }),
+
+                    checkpoint: job.checkpoint,
+                }),
+            );
 
             // Notify completion
-            sender.webContents.send('files:complete', {
-                total,
-                succeeded,
-                skipped,
-                errors,
-            });
+            sender.webContents.send('files:complete', results);
 
             return {
                 success: true,
-                results: {
-                    total,
-                    succeeded,
-                    skipped,
-                    errors,
-                },
+                results,
             };
         } catch (error) {
             log.error('Error organizing files:', error);
@@ -164,111 +248,3 @@ export function registerFileSystemHandlers() {
         }
     });
 }
-
-// Separate function to scan directory for files (fixed)
-async function scanDirectoryForFiles(
-    dirPath: string,
-    fileTypes: string[] = supportedFormats,
-    recursive: boolean = false
-): Promise<string[]> {
-    const results: string[] = [];
-    await scanDirectoryRecursive(dirPath, fileTypes, recursive, results);
-    return results;
-}
-
-// Helper function to scan directory recursively
-async function scanDirectoryRecursive(
-    dirPath: string,
-    fileTypes: string[],
-    recursive: boolean,
-    results: string[]
-): Promise<void> {
-    try {
-        const entries = await fs.readdir(dirPath, { withFileTypes: true });
-
-        for (const entry of entries) {
-            const fullPath = path.join(dirPath, entry.name);
-
-            if (entry.isDirectory() && recursive) {
-                await scanDirectoryRecursive(fullPath, fileTypes, recursive, results);
-            } else if (entry.isFile()) {
-                const extension = path.extname(entry.name).slice(1).toLowerCase();
-                if (fileTypes.includes(extension)) {
-                    results.push(fullPath);
-                }
-            }
-        }
-    } catch (error) {
-        log.error(`Error scanning directory ${dirPath}:`, error);
-        throw error;
-    }
-}
-
-// Helper function to determine file type
-function getFileType(filePath: string): 'image' | 'video' | 'unknown' {
-    const extension = path.extname(filePath).slice(1).toLowerCase();
-
-    if (supportedImageFormats.includes(extension)) {
-        return 'image';
-    }
-
-    if (supportedVideoFormats.includes(extension)) {
-        return 'video';
-    }
-
-    return 'unknown';
-}
-
-// Helper function to get EXIF data using exiftool
-async function getExifData(filePath: string): Promise<Record<string, any> | null> {
-    try {
-        // Check if exiftool is available
-        try {
-            await execPromise('exiftool -ver');
-        } catch (error) {
-            // ExifTool not available
-            return null;
-        }
-
-        // Run exiftool to get metadata in JSON format
-        const { stdout } = await execPromise(`exiftool -json -charset UTF8 "${filePath}"`);
-        const jsonData = JSON.parse(stdout);
-
-        if (Array.isArray(jsonData) && jsonData.length > 0) {
-            const exif = jsonData[0];
-
-            // Extract relevant EXIF fields
-            return {
-                // Date fields
-                dateTimeOriginal: exif.DateTimeOriginal,
-                createDate: exif.CreateDate,
-
-                // Camera info
-                make: exif.Make,
-                model: exif.Model,
-
-                // Image details
-                width: exif.ImageWidth,
-                height: exif.ImageHeight,
-
-                // Geo data
-                latitude: exif.GPSLatitude,
-                longitude: exif.GPSLongitude,
-
-                // Other metadata
-                iso: exif.ISO,
-                exposureTime: exif.ExposureTime,
-                fNumber: exif.FNumber,
-                focalLength: exif.FocalLength,
-
-                // Full exif data
-                exif,
-            };
-        }
-
-        return null;
-    } catch (error) {
-        log.error(`Error getting EXIF data for ${filePath}:`, error);
-        return null;
-    }
-}
\ No newline at end of file
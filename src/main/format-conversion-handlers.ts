@@ -1,7 +1,8 @@
-import { ipcMain } from 'electron';
+import { ipcMain, BrowserWindow } from 'electron';
 import * as path from 'path';
 import log from 'electron-log';
 import { formatConversionService, ConversionOptions } from './services/format-conversion';
+import { jobManager } from './services/job-manager';
 
 /**
  * Sets up IPC handlers for format conversion functionality
@@ -39,34 +40,29 @@ export function registerFormatConversionHandlers(): void {
    * Convert multiple files
    */
   ipcMain.handle('conversion:convertFiles', async (_event, filePaths: string[], options: Partial<ConversionOptions>) => {
+    const sender = BrowserWindow.fromWebContents(_event.sender);
+
     try {
       log.info(`Converting ${filePaths.length} files to format: ${options.targetFormat}`);
 
-      const results = {
+      const { converted, failed, targetPaths } = await jobManager.run(
+        'conversion',
+        `Convert ${filePaths.length} files to ${options.targetFormat}`,
+        (job) => formatConversionService.convertFiles(filePaths, options, {
+          onProgress: (progress) => {
+            job.reportProgress(progress);
+            sender?.webContents.send('conversion:progress', progress);
+          },
+          checkpoint: job.checkpoint
+        })
+      );
+
+      return {
         success: true,
-        converted: 0,
-        failed: 0,
-        targetPaths: [] as string[]
+        converted,
+        failed,
+        targetPaths
       };
-
-      for (const sourcePath of filePaths) {
-        try {
-          const sourceExt = path.extname(sourcePath);
-          const targetExt = `.${options.targetFormat}`;
-
-          // Create target path by replacing extension
-          const targetPath = sourcePath.replace(sourceExt, targetExt);
-
-          const result = await formatConversionService.convertFile(sourcePath, targetPath, options);
-          results.converted++;
-          results.targetPaths.push(result);
-        } catch (error) {
-          log.error(`Failed to convert file ${sourcePath}:`, error);
-          results.failed++;
-        }
-      }
-
-      return results;
     } catch (error) {
       log.error('Error in batch file conversion:', error);
       return {
@@ -0,0 +1,92 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import log from 'electron-log';
+import { CardImportRequest, OrganizeExtraOptions } from '@common/types';
+import { ConfigManager } from '@main/services/config-manager';
+import { fileOrganizerService } from '@main/services/file-organizer';
+import { importMemoryService } from '@main/services/import-memory';
+import { jobManager } from '@main/services/job-manager';
+import { volumeMonitorService } from '@main/services/volume-monitor';
+
+const configManager = new ConfigManager();
+
+// Cards are not inserted for a particular window, so every window can offer the import
+const broadcast = (channel: string, payload: unknown) =>
+  BrowserWindow.getAllWindows().forEach((window) => window.webContents.send(channel, payload));
+
+/**
+ * Sets up IPC handlers for importing memory cards
+ */
+export function registerImportHandlers(): void {
+  /**
+   * Import the new files of a card with the organize settings of a profile
+   */
+  ipcMain.handle('import:start', async (_event, request: CardImportRequest) => {
+    try {
+      log.info(
+        `Importing ${request.sourcePath} -> ${request.destinationPath} with profile ${request.profileName}`,
+      );
+
+      const options = await configManager.loadOrganizeOptions(
+        request.profileName,
+        request.sourcePath,
+        request.destinationPath,
+      );
+
+      const results = await jobManager.run('organize', `Import ${request.sourcePath}`, (job) =>
+        fileOrganizerService.organize(
+          {
+            ...options,
+            recursive: true,
+            options: { ...options.options, incrementalImport: true } as OrganizeExtraOptions,
+          },
+          {
+            onProgress: (progress) => job.reportProgress(progress),
+            checkpoint: job.checkpoint,
+          },
+        ),
+      );
+
+      return { success: true, results };
+    } catch (error) {
+      log.error('Error importing card:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Forget which files were imported from the volume a folder is on
+   */
+  ipcMain.handle('import:forget', async (_event, sourcePath: string) => {
+    try {
+      const forgotten = await importMemoryService.forget(sourcePath);
+      return { success: true, forgotten };
+    } catch (error) {
+      log.error('Error forgetting imported files:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+}
+
+/**
+ * Start offering to import memory cards as they are mounted
+ */
+export async function startVolumeMonitor(): Promise<void> {
+  try {
+    await volumeMonitorService.start((volume) => broadcast('import:volumeMounted', volume));
+  } catch (error) {
+    log.error('Failed to start watching for memory cards:', error);
+  }
+}
+
+/**
+ * Stop watching for memory cards
+ */
+export function cleanupVolumeMonitor(): void {
+  volumeMonitorService.stop();
+}
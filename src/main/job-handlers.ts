@@ -0,0 +1,127 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import log from 'electron-log';
+import { jobManager } from '@main/services/job-manager';
+import { ConfigManager, DEFAULT_PROFILE } from '@main/services/config-manager';
+
+// Jobs are shown in every window, whichever window started them
+const broadcast = (channel: string, payload: unknown) =>
+  BrowserWindow.getAllWindows().forEach((window) => window.webContents.send(channel, payload));
+
+/**
+ * Apply the number of parallel jobs saved in settings, so scheduled and watch folder runs that
+ * start before the window loads, or without one, follow it. The renderer sends later changes.
+ */
+export async function loadJobConcurrency(): Promise<void> {
+  try {
+    const concurrency = await new ConfigManager().loadParallelJobs(DEFAULT_PROFILE);
+    jobManager.setConcurrency(concurrency);
+    log.info(`Running up to ${concurrency} jobs in parallel`);
+  } catch (error) {
+    log.error('Error loading the number of parallel jobs:', error);
+  }
+}
+
+/**
+ * Sets up IPC handlers for the job queue
+ */
+export function registerJobHandlers(): void {
+  jobManager.onUpdate((jobs) => broadcast('jobs:update', jobs));
+
+  /**
+   * List queued, running and recently finished jobs
+   */
+  ipcMain.handle('jobs:list', async () => {
+    try {
+      return { success: true, jobs: jobManager.list(), concurrency: jobManager.getConcurrency() };
+    } catch (error) {
+      log.error('Error listing jobs:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Hold a job until it is resumed
+   */
+  ipcMain.handle('jobs:pause', async (_event, id: string) => {
+    try {
+      jobManager.pause(id);
+      return { success: true };
+    } catch (error) {
+      log.error('Error pausing job:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Continue a paused job
+   */
+  ipcMain.handle('jobs:resume', async (_event, id: string) => {
+    try {
+      jobManager.resume(id);
+      return { success: true };
+    } catch (error) {
+      log.error('Error resuming job:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Cancel a job, a running job stops before its next file
+   */
+  ipcMain.handle('jobs:cancel', async (_event, id: string) => {
+    try {
+      jobManager.cancel(id);
+      return { success: true };
+    } catch (error) {
+      log.error('Error cancelling job:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Remove finished jobs from the list
+   */
+  ipcMain.handle('jobs:clear', async () => {
+    try {
+      jobManager.clearFinished();
+      return { success: true };
+    } catch (error) {
+      log.error('Error clearing jobs:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Set how many jobs run at the same time
+   */
+  ipcMain.handle('jobs:setConcurrency', async (_event, concurrency: number) => {
+    try {
+      log.info(`Running up to ${concurrency} jobs in parallel`);
+
+      jobManager.setConcurrency(concurrency);
+
+      return { success: true };
+    } catch (error) {
+      log.error('Error setting job concurrency:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+}
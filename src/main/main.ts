@@ -3,7 +3,13 @@ import * as path from 'path';
 import * as url from 'url';
 import log from 'electron-log';
 import { setupIpcHandlers } from './ipc-handlers';
-import { registerFileSystemHandlers } from './filesystem-handlers';
+import { loadCustomFormats, registerFileSystemHandlers } from './filesystem-handlers';
+import { offerTaskResume, registerTaskHandlers } from './task-handlers';
+import { cleanupWatchFolders, registerWatchFolderHandlers, startWatchFolders } from './watch-folder-handlers';
+import { cleanupScheduler, registerSchedulerHandlers, startScheduler } from './scheduler-handlers';
+import { loadJobConcurrency, registerJobHandlers } from './job-handlers';
+import { cleanupVolumeMonitor, registerImportHandlers, startVolumeMonitor } from './import-handlers';
+import { initializeDatabase } from './database';
 import { cleanupFormatConversion, registerFormatConversionHandlers } from '@main/format-conversion-handlers';
 import { cleanupAiCategorization, registerAiCategorizationHandlers } from '@main/ai-categorization-handlers';
 import { cleanupFaceRecognition, registerFaceRecognitionHandlers } from '@main/face-recognition-handlers';
@@ -75,9 +81,20 @@ app.on('ready', async () => {
     log.info('Application starting...');
 
     // Initialize services
-    // await initializeDatabase();
+    try {
+      await initializeDatabase();
+    } catch (error) {
+      log.error('Failed to initialize database:', error);
+    }
+    await loadCustomFormats();
+    await loadJobConcurrency();
     setupIpcHandlers();
     registerFileSystemHandlers();
+    registerTaskHandlers();
+    registerWatchFolderHandlers();
+    registerSchedulerHandlers();
+    registerJobHandlers();
+    registerImportHandlers();
     registerFormatConversionHandlers();
     registerAiCategorizationHandlers();
     registerFaceRecognitionHandlers();
@@ -93,6 +110,14 @@ app.on('ready', async () => {
       log.error('Failed to initialize ExifTool:', error);
     }
 
+    // Tasks still marked as running were cut off by a quit or crash
+    await offerTaskResume(mainWindow);
+
+    // Watchers, schedules and card detection report to the window, so they start once it exists
+    await startWatchFolders();
+    await startScheduler();
+    await startVolumeMonitor();
+
     log.info('Application started successfully');
   } catch (error) {
     log.error('Failed to start application:', error);
@@ -141,6 +166,18 @@ app.on('will-quit', () => {
 
   cleanupCloudStorage();
 
+  // Stop watching folders
+  cleanupWatchFolders();
+
+  // Stop running schedules
+  cleanupScheduler();
+
+  // Stop watching for memory cards
+  cleanupVolumeMonitor();
+
+  // Stop the ExifTool processes kept running for metadata
+  exifToolManager.shutdown();
+
   registerExifEditingHandlers();
 });
 
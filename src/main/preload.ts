@@ -1,6 +1,18 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import { ExifBackupOptions, ExifEditOperation } from '@main/services/exif-editor';
-import { CloudProvider, UploadOptions } from '@common/types';
+import {
+    CardImportRequest,
+    CloudProvider,
+    CustomMediaFormat,
+    FileStatus,
+    NearDuplicateOptions,
+    NewSchedule,
+    OrganizeOptions,
+    ScanOptions,
+    TaskListOptions,
+    UploadOptions,
+    WatchFolder,
+} from '@common/types';
 
 // Define the API exposed to the renderer process
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -14,31 +26,55 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('dialog:selectFile', options),
 
     // File operations
-    scanDirectory: (dirPath: string, options: { recursive: boolean; fileTypes?: string[] }) =>
+    scanDirectory: (dirPath: string, options: ScanOptions) =>
       ipcRenderer.invoke('files:scanDirectory', dirPath, options),
+    cancelScan: (scanId: string) => ipcRenderer.invoke('files:cancelScan', scanId),
+    setCustomFormats: (formats: CustomMediaFormat[]) => ipcRenderer.invoke('files:setCustomFormats', formats),
     getFileMetadata: (filePath: string) =>
       ipcRenderer.invoke('files:getMetadata', filePath),
-    organizeFiles: (options: {
-        sourcePath: string;
-        destinationPath: string;
-        operation: 'move' | 'copy';
-        pattern: string;
-        recursive: boolean;
-        conflicts: 'rename' | 'skip' | 'overwrite';
-        filters?: {
-            dateFrom?: string;
-            dateTo?: string;
-            sizeLimit?: string;
-            fileTypes?: string[];
-        };
-        options?: {
-            createBackup: boolean;
-            skipDuplicates: boolean;
-            organizeByType: boolean;
-            organizeByCamera: boolean;
-            customRenamePattern?: string;
-        };
-    }) => ipcRenderer.invoke('files:organize', options),
+    organizeFiles: (options: OrganizeOptions) => ipcRenderer.invoke('files:organize', options),
+    planOrganize: (options: OrganizeOptions) => ipcRenderer.invoke('files:planOrganize', options),
+    findDuplicates: (dirPath: string, options?: { recursive?: boolean }) =>
+      ipcRenderer.invoke('files:findDuplicates', dirPath, options),
+    findNearDuplicates: (dirPath: string, options?: NearDuplicateOptions) =>
+      ipcRenderer.invoke('files:findNearDuplicates', dirPath, options),
+    trashFiles: (paths: string[]) => ipcRenderer.invoke('files:trash', paths),
+
+    // Task operations
+    undoTask: (taskId: number) => ipcRenderer.invoke('tasks:undo', taskId),
+    listTasks: (options?: TaskListOptions) => ipcRenderer.invoke('tasks:list', options),
+    getTask: (taskId: number) => ipcRenderer.invoke('tasks:get', taskId),
+    getTaskFiles: (taskId: number, status?: FileStatus) =>
+      ipcRenderer.invoke('tasks:files', taskId, status),
+    deleteTask: (taskId: number) => ipcRenderer.invoke('tasks:delete', taskId),
+    rerunTask: (taskId: number) => ipcRenderer.invoke('tasks:rerun', taskId),
+    retryFailedFiles: (taskId: number) => ipcRenderer.invoke('tasks:retryFailed', taskId),
+
+    // Watch folders
+    listWatchFolders: () => ipcRenderer.invoke('watch:list'),
+    saveWatchFolder: (watch: Omit<WatchFolder, 'id'> & { id?: string }) =>
+      ipcRenderer.invoke('watch:save', watch),
+    removeWatchFolder: (id: string) => ipcRenderer.invoke('watch:remove', id),
+
+    // Card import
+    importVolume: (request: CardImportRequest) => ipcRenderer.invoke('import:start', request),
+    forgetImports: (sourcePath: string) => ipcRenderer.invoke('import:forget', sourcePath),
+
+    // Schedules
+    listSchedules: () => ipcRenderer.invoke('schedules:list'),
+    createSchedule: (schedule: NewSchedule) => ipcRenderer.invoke('schedules:create', schedule),
+    pauseSchedule: (id: string) => ipcRenderer.invoke('schedules:pause', id),
+    resumeSchedule: (id: string) => ipcRenderer.invoke('schedules:resume', id),
+    deleteSchedule: (id: string) => ipcRenderer.invoke('schedules:delete', id),
+    setSchedulingEnabled: (enabled: boolean) => ipcRenderer.invoke('schedules:setEnabled', enabled),
+
+    // Job queue
+    listJobs: () => ipcRenderer.invoke('jobs:list'),
+    pauseJob: (id: string) => ipcRenderer.invoke('jobs:pause', id),
+    resumeJob: (id: string) => ipcRenderer.invoke('jobs:resume', id),
+    cancelJob: (id: string) => ipcRenderer.invoke('jobs:cancel', id),
+    clearFinishedJobs: () => ipcRenderer.invoke('jobs:clear'),
+    setJobConcurrency: (concurrency: number) => ipcRenderer.invoke('jobs:setConcurrency', concurrency),
 
     // Format conversion operations
     convertFile: (sourcePath: string, options: {
@@ -245,6 +281,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
             'files:progress',
             'files:complete',
             'files:error',
+            'files:planProgress',
+            'files:scanProgress',
+            'files:duplicateProgress',
+            'files:nearDuplicateProgress',
             'config:changed',
             'conversion:progress',
             'conversion:complete',
@@ -261,6 +301,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
             'cloud:progress',
             'cloud:complete',
             'cloud:error',
+            'schedules:runStarted',
+            'schedules:runCompleted',
+            'tasks:resumed',
+            'jobs:update',
+            'import:volumeMounted',
         ];
 
         if (validChannels.includes(channel)) {
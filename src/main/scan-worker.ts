@@ -0,0 +1,5 @@
+import { parentPort, workerData } from 'worker_threads';
+import { runScanWorker, ScanWorkerData } from '@main/utils/scan-pipeline';
+
+// Entry of the scan worker thread, the scan itself lives in scan-pipeline to be testable
+runScanWorker(workerData as ScanWorkerData, parentPort!);
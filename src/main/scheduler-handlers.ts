@@ -0,0 +1,148 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import log from 'electron-log';
+import { NewSchedule } from '@common/types';
+import { ConfigManager, DEFAULT_PROFILE } from '@main/services/config-manager';
+import { schedulerService } from '@main/services/scheduler';
+
+// Scheduled runs are not started from a window, so every window hears about them
+const broadcast = (channel: string, payload: unknown) =>
+  BrowserWindow.getAllWindows().forEach((window) => window.webContents.send(channel, payload));
+
+/**
+ * Sets up IPC handlers for schedules
+ */
+export function registerSchedulerHandlers(): void {
+  /**
+   * List schedules, next run first
+   */
+  ipcMain.handle('schedules:list', async () => {
+    try {
+      return { success: true, schedules: schedulerService.list() };
+    } catch (error) {
+      log.error('Error listing schedules:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Add a recurring job
+   */
+  ipcMain.handle('schedules:create', async (_event, schedule: NewSchedule) => {
+    try {
+      log.info(`Creating ${schedule.job.kind} schedule '${schedule.name}'`);
+
+      const created = await schedulerService.create(schedule);
+
+      return { success: true, schedule: created };
+    } catch (error) {
+      log.error('Error creating schedule:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Stop a schedule from running until it is resumed
+   */
+  ipcMain.handle('schedules:pause', async (_event, id: string) => {
+    try {
+      log.info(`Pausing schedule ${id}`);
+
+      const schedule = await schedulerService.setPaused(id, true);
+
+      return { success: true, schedule };
+    } catch (error) {
+      log.error('Error pausing schedule:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Let a paused schedule run again from its next due time
+   */
+  ipcMain.handle('schedules:resume', async (_event, id: string) => {
+    try {
+      log.info(`Resuming schedule ${id}`);
+
+      const schedule = await schedulerService.setPaused(id, false);
+
+      return { success: true, schedule };
+    } catch (error) {
+      log.error('Error resuming schedule:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Turn all scheduled runs on or off, following the scheduling setting
+   */
+  ipcMain.handle('schedules:setEnabled', async (_event, enabled: boolean) => {
+    try {
+      await schedulerService.setEnabled(enabled);
+
+      return { success: true };
+    } catch (error) {
+      log.error('Error turning scheduling on or off:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Delete a schedule, the tasks it ran stay in the history
+   */
+  ipcMain.handle('schedules:delete', async (_event, id: string) => {
+    try {
+      log.info(`Deleting schedule ${id}`);
+
+      await schedulerService.remove(id);
+
+      return { success: true };
+    } catch (error) {
+      log.error('Error deleting schedule:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+}
+
+/**
+ * Load the persisted schedules, catch up on missed runs and start the scheduler
+ */
+export async function startScheduler(): Promise<void> {
+  try {
+    // Follows the saved setting until the renderer sends a change
+    await schedulerService.setEnabled(
+      await new ConfigManager().loadSchedulingEnabled(DEFAULT_PROFILE),
+    );
+
+    await schedulerService.start({
+      onRunStart: (schedule) => broadcast('schedules:runStarted', schedule),
+      onRunComplete: (schedule) => broadcast('schedules:runCompleted', schedule),
+    });
+  } catch (error) {
+    log.error('Failed to start scheduler:', error);
+  }
+}
+
+/**
+ * Stop the scheduler
+ */
+export function cleanupScheduler(): void {
+  schedulerService.stop();
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs/promises';
+import { app } from 'electron';
+import { EventClusteringOptions, FileMetadata } from '@common/types';
+import { closeDatabase, initializeDatabase } from '@main/database';
+import { EventCandidate, eventClusteringService } from '@main/services/event-clustering';
+
+const capture = (
+  filePath: string,
+  captureDate: Date,
+  position?: { latitude: number; longitude: number },
+): EventCandidate => ({
+  filePath,
+  metadata: {
+    path: filePath,
+    name: filePath,
+    extension: 'jpg',
+    size: 1,
+    createdAt: captureDate,
+    modifiedAt: captureDate,
+    type: 'image',
+    captureDate,
+    ...position,
+  } as FileMetadata,
+});
+
+const at = (day: number, hour: number, minute = 0) => new Date(2024, 6, day, hour, minute);
+
+// Paris and Lyon are about 390 km apart
+const PARIS = { latitude: 48.8566, longitude: 2.3522 };
+const LYON = { latitude: 45.764, longitude: 4.8357 };
+
+describe('EventClusteringService', () => {
+  let library = 0;
+  let root: string;
+
+  const assign = (
+    candidates: EventCandidate[],
+    options: Partial<EventClusteringOptions> = {},
+    persist = true,
+  ) => eventClusteringService.assignEvents(candidates, root, { gapHours: 4, ...options }, persist);
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    await fs.rm(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  // Events are remembered per destination, every test gets a library of its own
+  beforeEach(() => {
+    root = `/libraries/${++library}`;
+  });
+
+  it('starts a new event after a gap longer than the threshold', async () => {
+    const events = await assign([
+      capture('a.jpg', at(14, 10)),
+      capture('b.jpg', at(14, 13)),
+      capture('c.jpg', at(14, 18)),
+    ]);
+
+    expect(Object.fromEntries(events)).toEqual({
+      'a.jpg': '2024-07-14 Event 1',
+      'b.jpg': '2024-07-14 Event 1',
+      'c.jpg': '2024-07-14 Event 2',
+    });
+  });
+
+  it('sorts captures by time before clustering', async () => {
+    const events = await assign([
+      capture('late.jpg', at(14, 12)),
+      capture('early.jpg', at(14, 9)),
+      capture('middle.jpg', at(14, 10, 30)),
+    ]);
+
+    expect(new Set(events.values())).toEqual(new Set(['2024-07-14 Event 1']));
+  });
+
+  it('splits captures further apart than the distance threshold', async () => {
+    const events = await assign(
+      [capture('paris.jpg', at(14, 10), PARIS), capture('lyon.jpg', at(14, 11), LYON)],
+      { maxDistanceKm: 100 },
+    );
+
+    expect(events.get('paris.jpg')).not.toBe(events.get('lyon.jpg'));
+  });
+
+  it('uses the given name and numbers it when it is taken', async () => {
+    const events = await assign([capture('a.jpg', at(14, 10)), capture('b.jpg', at(15, 10))], {
+      name: 'Holiday',
+    });
+
+    expect(events.get('a.jpg')).toBe('Holiday');
+    expect(events.get('b.jpg')).toBe('Holiday 2');
+  });
+
+  it('adds later captures to an event stored by an earlier run', async () => {
+    await assign([capture('a.jpg', at(14, 10))]);
+
+    const events = await assign([capture('b.jpg', at(14, 12)), capture('c.jpg', at(15, 10))]);
+
+    expect(events.get('b.jpg')).toBe('2024-07-14 Event 1');
+    expect(events.get('c.jpg')).toBe('2024-07-15 Event 1');
+  });
+
+  it('remembers the range an event was extended to', async () => {
+    await assign([capture('a.jpg', at(14, 10))]);
+    await assign([capture('b.jpg', at(14, 13))]);
+
+    // Within the gap of the extended end, but not of the first capture
+    const events = await assign([capture('c.jpg', at(14, 16))]);
+
+    expect(events.get('c.jpg')).toBe('2024-07-14 Event 1');
+  });
+
+  it('stores nothing on dry runs', async () => {
+    await assign([capture('a.jpg', at(14, 10))], {}, false);
+
+    const events = await assign([capture('b.jpg', at(14, 20))]);
+
+    expect(events.get('b.jpg')).toBe('2024-07-14 Event 1');
+  });
+});
@@ -0,0 +1,165 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { app } from 'electron';
+import { OrganizeOptions } from '@common/types';
+import { closeDatabase, initializeDatabase } from '@main/database';
+import { fileOrganizerService } from '@main/services/file-organizer';
+import { taskJournalService } from '@main/services/task-journal';
+import { getPartialPath } from '@main/utils/file-transfer';
+
+jest.mock('@main/utils/media-files');
+
+describe('FileOrganizerService resume', () => {
+  let root: string;
+  let source: string;
+  let destination: string;
+  let options: OrganizeOptions;
+
+  const write = async (filePath: string, content: string) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  };
+
+  const read = (filePath: string) => fs.readFile(filePath, 'utf8');
+
+  const exists = (filePath: string) =>
+    fs.access(filePath).then(
+      () => true,
+      () => false,
+    );
+
+  const sourceFile = (name: string) => path.join(source, name);
+  const libraryFile = (name: string) => path.join(destination, '2024', name);
+
+  /**
+   * Journal a task the way a run leaves it when the app quits: every file pending, and the
+   * given files caught mid-transfer to the library
+   */
+  const interrupt = async (files: string[], processing: string[] = []): Promise<number> => {
+    const taskId = await taskJournalService.createTask(options, files.length);
+    await taskJournalService.addPendingFiles(taskId, files.map(sourceFile));
+
+    for (const name of processing) {
+      await taskJournalService.markProcessing(taskId, {
+        sourcePath: sourceFile(name),
+        destinationPath: libraryFile(name),
+        action: options.operation,
+        reason: 'new',
+      });
+    }
+
+    return taskId;
+  };
+
+  const statuses = async (taskId: number) =>
+    Object.fromEntries(
+      (await taskJournalService.getTaskFiles(taskId)).map((file) => [file.fileName, file.status]),
+    );
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    await fs.rm(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'resume-'));
+    source = path.join(root, 'card');
+    destination = path.join(root, 'library');
+    options = {
+      sourcePath: source,
+      destinationPath: destination,
+      operation: 'move',
+      pattern: '%Y',
+      recursive: false,
+      conflicts: 'rename',
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('lists interrupted tasks with the files they have left', async () => {
+    await write(sourceFile('a.jpg'), 'a');
+    await write(sourceFile('b.jpg'), 'b');
+    const taskId = await interrupt(['a.jpg', 'b.jpg'], ['a.jpg']);
+
+    expect(await taskJournalService.getInterruptedTasks()).toContainEqual(
+      expect.objectContaining({ id: taskId, totalFiles: 2, remainingFiles: 2 }),
+    );
+
+    await taskJournalService.cancelTask(taskId);
+    expect(await taskJournalService.getInterruptedTasks()).not.toContainEqual(
+      expect.objectContaining({ id: taskId }),
+    );
+  });
+
+  it('organizes the pending files and completes the task', async () => {
+    await write(sourceFile('a.jpg'), 'a');
+    await write(sourceFile('b.jpg'), 'b');
+    const taskId = await interrupt(['a.jpg', 'b.jpg']);
+
+    const result = await fileOrganizerService.resume(taskId);
+
+    expect(result).toMatchObject({ taskId, total: 2, succeeded: 2, errors: 0 });
+    expect(await read(libraryFile('a.jpg'))).toBe('a');
+    expect(await read(libraryFile('b.jpg'))).toBe('b');
+    expect((await taskJournalService.getTask(taskId)).status).toBe('completed');
+  });
+
+  it('records a move that finished before the quit without moving it again', async () => {
+    await write(libraryFile('a.jpg'), 'a');
+    await write(sourceFile('b.jpg'), 'b');
+    const taskId = await interrupt(['a.jpg', 'b.jpg'], ['a.jpg']);
+
+    const result = await fileOrganizerService.resume(taskId);
+
+    expect(result).toMatchObject({ succeeded: 2, errors: 0 });
+    expect(await exists(libraryFile('a_1.jpg'))).toBe(false);
+    expect(await statuses(taskId)).toEqual({ 'a.jpg': 'succeeded', 'b.jpg': 'succeeded' });
+  });
+
+  it('removes the source of a move across filesystems that was cut off after copying', async () => {
+    await write(sourceFile('a.jpg'), 'a');
+    await write(libraryFile('a.jpg'), 'a');
+    const taskId = await interrupt(['a.jpg'], ['a.jpg']);
+
+    await fileOrganizerService.resume(taskId);
+
+    expect(await exists(sourceFile('a.jpg'))).toBe(false);
+    expect(await read(libraryFile('a.jpg'))).toBe('a');
+    expect(await exists(libraryFile('a_1.jpg'))).toBe(false);
+  });
+
+  it('throws away a partial copy and copies the file again', async () => {
+    options.operation = 'copy';
+    await write(sourceFile('a.jpg'), 'complete');
+    await write(libraryFile('a.jpg'), 'comp');
+    await write(getPartialPath(libraryFile('b.jpg')), 'hal');
+    await write(sourceFile('b.jpg'), 'half');
+    const taskId = await interrupt(['a.jpg', 'b.jpg'], ['a.jpg', 'b.jpg']);
+
+    const result = await fileOrganizerService.resume(taskId);
+
+    expect(result).toMatchObject({ succeeded: 2, errors: 0 });
+    expect(await read(libraryFile('a.jpg'))).toBe('complete');
+    expect(await read(libraryFile('b.jpg'))).toBe('half');
+    expect(await exists(getPartialPath(libraryFile('b.jpg')))).toBe(false);
+    expect(await read(sourceFile('a.jpg'))).toBe('complete');
+  });
+
+  it('fails files that disappeared while the task was interrupted', async () => {
+    await write(sourceFile('b.jpg'), 'b');
+    const taskId = await interrupt(['a.jpg', 'b.jpg'], ['a.jpg']);
+
+    const result = await fileOrganizerService.resume(taskId);
+
+    expect(result).toMatchObject({ succeeded: 1, errors: 1 });
+    expect(await statuses(taskId)).toEqual({ 'a.jpg': 'error', 'b.jpg': 'succeeded' });
+  });
+});
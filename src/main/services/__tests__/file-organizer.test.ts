@@ -0,0 +1,295 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConflictStrategy, OrganizeOptions, PlannedOperation } from '@common/types';
+import { fileOrganizerService } from '@main/services/file-organizer';
+
+// Dry runs only read the disk, the database is never opened
+jest.mock('@main/database', () => ({}));
+
+jest.mock('@main/utils/media-files');
+
+// Content hashes are computed directly instead of through the hash cache
+jest.mock('@main/services/hash-index', () => {
+  const { createHash } = jest.requireActual('crypto');
+  const { readFile } = jest.requireActual('fs/promises');
+
+  return {
+    hashIndexService: {
+      getHash: async (filePath: string) =>
+        createHash('sha256')
+          .update(await readFile(filePath))
+          .digest('hex'),
+    },
+  };
+});
+
+describe('FileOrganizerService conflict strategies', () => {
+  let root: string;
+  let source: string;
+  let destination: string;
+  let incoming: string;
+  let existing: string;
+
+  const write = async (filePath: string, content: string, modified?: Date) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    if (modified) {
+      await fs.utimes(filePath, modified, modified);
+    }
+  };
+
+  const plan = async (
+    conflicts: ConflictStrategy,
+    extra: Partial<OrganizeOptions> = {},
+  ): Promise<PlannedOperation[]> =>
+    fileOrganizerService.plan({
+      sourcePath: source,
+      destinationPath: destination,
+      operation: 'move',
+      pattern: '%Y',
+      recursive: false,
+      conflicts,
+      files: [incoming],
+      ...extra,
+    });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'organizer-'));
+    source = path.join(root, 'card');
+    destination = path.join(root, 'library');
+    incoming = path.join(source, 'photo.jpg');
+    existing = path.join(destination, '2024', 'photo.jpg');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('plans files whose destination is free as they are, whatever the strategy', async () => {
+    await write(incoming, 'new');
+
+    expect(await plan('skip')).toEqual([
+      expect.objectContaining({ destinationPath: existing, action: 'move', reason: 'new' }),
+    ]);
+  });
+
+  describe('with a file already at the destination', () => {
+    it('rename gives the incoming file a numbered name', async () => {
+      await write(incoming, 'new');
+      await write(existing, 'old');
+      await write(path.join(destination, '2024', 'photo_1.jpg'), 'older');
+
+      expect(await plan('rename')).toEqual([
+        expect.objectContaining({
+          destinationPath: path.join(destination, '2024', 'photo_2.jpg'),
+          action: 'rename',
+          reason: 'conflict-renamed',
+          conflictPath: existing,
+        }),
+      ]);
+    });
+
+    it('rename numbers names with the configured template', async () => {
+      await write(incoming, 'new');
+      await write(existing, 'old');
+
+      const [operation] = await plan('rename', {
+        conflictOptions: { renameTemplate: '{name} ({n})' },
+      });
+      expect(operation.destinationPath).toBe(path.join(destination, '2024', 'photo (1).jpg'));
+    });
+
+    it('skip leaves the incoming file alone', async () => {
+      await write(incoming, 'new');
+      await write(existing, 'old');
+
+      expect(await plan('skip')).toEqual([
+        expect.objectContaining({
+          action: 'skip',
+          reason: 'conflict-skipped',
+          conflictPath: existing,
+        }),
+      ]);
+    });
+
+    it('overwrite replaces the existing file', async () => {
+      await write(incoming, 'new');
+      await write(existing, 'old');
+
+      expect(await plan('overwrite', { operation: 'copy' })).toEqual([
+        expect.objectContaining({
+          destinationPath: existing,
+          action: 'copy',
+          reason: 'conflict-overwritten',
+          overwrite: true,
+        }),
+      ]);
+    });
+
+    it('keep-larger replaces a smaller file', async () => {
+      await write(incoming, 'larger content');
+      await write(existing, 'small');
+
+      expect(await plan('keep-larger')).toEqual([
+        expect.objectContaining({
+          destinationPath: existing,
+          action: 'move',
+          reason: 'conflict-larger',
+          overwrite: true,
+        }),
+      ]);
+    });
+
+    it('keep-larger keeps a file at least as large', async () => {
+      await write(incoming, 'same');
+      await write(existing, 'size');
+
+      expect(await plan('keep-larger')).toEqual([
+        expect.objectContaining({ action: 'skip', reason: 'conflict-smaller' }),
+      ]);
+    });
+
+    it('keep-newer replaces an older file', async () => {
+      await write(incoming, 'new', new Date(2024, 5, 1));
+      await write(existing, 'old', new Date(2024, 0, 1));
+
+      expect(await plan('keep-newer')).toEqual([
+        expect.objectContaining({
+          destinationPath: existing,
+          reason: 'conflict-newer',
+          overwrite: true,
+        }),
+      ]);
+    });
+
+    it('keep-newer keeps a file at least as new', async () => {
+      await write(incoming, 'old', new Date(2024, 0, 1));
+      await write(existing, 'new', new Date(2024, 5, 1));
+
+      expect(await plan('keep-newer')).toEqual([
+        expect.objectContaining({ action: 'skip', reason: 'conflict-older' }),
+      ]);
+    });
+
+    it('keep-both-if-different skips identical content', async () => {
+      await write(incoming, 'same bytes');
+      await write(existing, 'same bytes');
+
+      expect(await plan('keep-both-if-different')).toEqual([
+        expect.objectContaining({ action: 'skip', reason: 'conflict-identical' }),
+      ]);
+    });
+
+    it('keep-both-if-different renames different content of the same size', async () => {
+      await write(incoming, 'bytes one');
+      await write(existing, 'bytes two');
+
+      expect(await plan('keep-both-if-different')).toEqual([
+        expect.objectContaining({
+          destinationPath: path.join(destination, '2024', 'photo_1.jpg'),
+          reason: 'conflict-renamed',
+        }),
+      ]);
+    });
+
+    it('review-folder puts the incoming file in the review folder', async () => {
+      await write(incoming, 'new');
+      await write(existing, 'old');
+
+      expect(await plan('review-folder')).toEqual([
+        expect.objectContaining({
+          destinationPath: path.join(destination, '_Review', '2024', 'photo.jpg'),
+          action: 'move',
+          reason: 'conflict-review',
+          conflictPath: existing,
+        }),
+      ]);
+
+      const [custom] = await plan('review-folder', { conflictOptions: { reviewFolder: 'Check' } });
+      expect(custom.destinationPath).toBe(path.join(destination, 'Check', '2024', 'photo.jpg'));
+    });
+
+    it('review-folder refuses a review folder outside the destination', async () => {
+      await write(incoming, 'new');
+      await write(existing, 'old');
+      const onError = jest.fn();
+
+      const operations = await fileOrganizerService.plan(
+        {
+          sourcePath: source,
+          destinationPath: destination,
+          operation: 'move',
+          pattern: '%Y',
+          recursive: false,
+          conflicts: 'review-folder',
+          conflictOptions: { reviewFolder: '../elsewhere' },
+          files: [incoming],
+        },
+        { onError },
+      );
+
+      expect(operations).toEqual([]);
+      expect(onError).toHaveBeenCalledWith(
+        incoming,
+        expect.objectContaining({ message: expect.stringContaining('inside the destination') }),
+      );
+    });
+  });
+
+  it('treats destinations claimed earlier in the same run as taken', async () => {
+    const second = path.join(source, 'more', 'photo.jpg');
+    await write(incoming, 'first');
+    await write(second, 'second');
+
+    const operations = await plan('skip', { files: [incoming, second] });
+
+    expect(operations.map(({ action, reason }) => [action, reason])).toEqual([
+      ['move', 'new'],
+      ['skip', 'conflict-skipped'],
+    ]);
+  });
+
+  it('picks the given files the way a scan would, by content when they have no extension', async () => {
+    const recovered = path.join(source, 'FILE0001');
+    const notes = path.join(source, 'notes');
+    const text = path.join(source, 'notes.txt');
+    await fs.mkdir(source, { recursive: true });
+    await fs.writeFile(recovered, Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]));
+    await write(notes, 'shopping list');
+    await write(text, 'shopping list');
+
+    const operations = await plan('skip', { files: [recovered, notes, text] });
+
+    expect(operations.map((operation) => operation.sourcePath)).toEqual([recovered]);
+  });
+
+  it('keeps sidecars and RAW+JPEG pairs with their primary file under its new name', async () => {
+    const raw = path.join(source, 'IMG_1.CR2');
+    const jpg = path.join(source, 'IMG_1.JPG');
+    await write(raw, 'raw');
+    await write(jpg, 'jpg');
+    await write(path.join(source, 'IMG_1.xmp'), 'xmp');
+    await write(path.join(destination, '2024', 'IMG_1.CR2'), 'older raw');
+
+    const operations = await plan('rename', { files: [jpg, raw] });
+
+    expect(operations).toEqual([
+      expect.objectContaining({
+        sourcePath: raw,
+        destinationPath: path.join(destination, '2024', 'IMG_1_1.CR2'),
+        reason: 'conflict-renamed',
+      }),
+      expect.objectContaining({
+        sourcePath: jpg,
+        destinationPath: path.join(destination, '2024', 'IMG_1_1.JPG'),
+        companionOf: raw,
+      }),
+      expect.objectContaining({
+        sourcePath: path.join(source, 'IMG_1.xmp'),
+        destinationPath: path.join(destination, '2024', 'IMG_1_1.xmp'),
+        companionOf: raw,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { app } from 'electron';
+import { closeDatabase, initializeDatabase } from '@main/database';
+import { hashIndexService } from '@main/services/hash-index';
+
+jest.mock('@main/utils/media-files');
+
+describe('HashIndexService', () => {
+  let root: string;
+
+  const write = async (name: string, content: string): Promise<string> => {
+    const filePath = path.join(root, name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  // Rewrite a file in place without changing its size or modification time, like bit rot
+  const decay = async (filePath: string, content: string) => {
+    const { atimeMs, mtimeMs } = await fs.stat(filePath);
+    await fs.writeFile(filePath, content);
+    await fs.utimes(filePath, atimeMs / 1000, mtimeMs / 1000);
+  };
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    await fs.rm(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'hash-index-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  describe('getHash', () => {
+    it('hashes a file once while its size and modification time stay the same', async () => {
+      const file = await write('a.jpg', 'pixels');
+      const hashFile = jest.spyOn(hashIndexService, 'hashFile');
+
+      const first = await hashIndexService.getHash(file);
+      const second = await hashIndexService.getHash(file);
+
+      expect(second).toBe(first);
+      expect(hashFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('hashes a file again once it was modified', async () => {
+      const file = await write('a.jpg', 'pixels');
+      const before = await hashIndexService.getHash(file);
+
+      await fs.writeFile(file, 'edited pixels');
+
+      expect(await hashIndexService.getHash(file)).not.toBe(before);
+    });
+  });
+
+  describe('findDuplicates', () => {
+    it('groups byte-identical files and leaves out same-size files with other content', async () => {
+      const a = await write('a.jpg', 'same');
+      const b = await write('nested/b.jpg', 'same');
+      await write('c.jpg', 'diff');
+      await write('d.jpg', 'unique size');
+
+      const groups = await hashIndexService.findDuplicates(root);
+
+      expect(groups).toEqual([{ hash: expect.any(String), size: 4, files: [a, b] }]);
+    });
+
+    it('only hashes files that share a size with another file', async () => {
+      await write('a.jpg', 'one');
+      await write('b.jpg', 'three');
+      const hashFile = jest.spyOn(hashIndexService, 'hashFile');
+
+      expect(await hashIndexService.findDuplicates(root)).toEqual([]);
+      expect(hashFile).not.toHaveBeenCalled();
+    });
+
+    it('ignores the backups the organizer keeps in the library', async () => {
+      await write('a.jpg', 'same');
+      await write('.mediamaster/backup/a.jpg', 'same');
+
+      expect(await hashIndexService.findDuplicates(root)).toEqual([]);
+    });
+  });
+
+  describe('LibraryIndex', () => {
+    it('finds a byte-identical copy already in the library', async () => {
+      const existing = await write('library/a.jpg', 'pixels');
+      const incoming = await write('card/copy.jpg', 'pixels');
+      const other = await write('card/other.jpg', 'elpixs');
+
+      const index = await hashIndexService.createLibraryIndex(path.join(root, 'library'));
+
+      expect(await index.findDuplicate(incoming, 6)).toBe(existing);
+      expect(await index.findDuplicate(other, 6)).toBeNull();
+    });
+
+    it('matches files planned into the library by the content of their source', async () => {
+      const planned = await write('card/a.jpg', 'pixels');
+      const incoming = await write('card/b.jpg', 'pixels');
+      const index = await hashIndexService.createLibraryIndex(path.join(root, 'library'));
+
+      index.add(6, path.join(root, 'library', 'a.jpg'), planned);
+
+      expect(await index.findDuplicate(incoming, 6)).toBe(path.join(root, 'library', 'a.jpg'));
+      expect(await index.findDuplicate(planned, 6)).toBeNull();
+    });
+  });
+
+  describe('verifyIntegrity', () => {
+    it('indexes new files and reports content that changed without a modification', async () => {
+      const intact = await write('a.jpg', 'pixels');
+      const decayed = await write('b.jpg', 'pixels');
+
+      expect(await hashIndexService.verifyIntegrity(root)).toEqual({
+        checked: 0,
+        indexed: 2,
+        corrupted: [],
+      });
+
+      await decay(decayed, 'pixelz');
+      await fs.writeFile(intact, 'edited');
+
+      expect(await hashIndexService.verifyIntegrity(root)).toEqual({
+        checked: 1,
+        indexed: 1,
+        corrupted: [decayed],
+      });
+    });
+  });
+});
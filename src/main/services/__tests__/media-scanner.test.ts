@@ -0,0 +1,155 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { app } from 'electron';
+import { closeDatabase, initializeDatabase } from '@main/database';
+import { MediaScanBatch, mediaScannerService } from '@main/services/media-scanner';
+import { hashIndexService } from '@main/services/hash-index';
+
+// The scan worker only exists in the webpack build, this one serves the same scan over a
+// message channel in the test process
+jest.mock('worker_threads', () => {
+  const actual = jest.requireActual('worker_threads');
+  const { EventEmitter } = jest.requireActual('events');
+
+  class InProcessWorker extends EventEmitter {
+    private readonly channel = new actual.MessageChannel();
+
+    constructor(_script: string, { workerData }: { workerData: unknown }) {
+      super();
+      this.channel.port2.on('message', (message: unknown) => this.emit('message', message));
+      jest.requireActual('@main/utils/scan-pipeline').runScanWorker(workerData, this.channel.port1);
+    }
+
+    public postMessage(message: unknown): void {
+      this.channel.port2.postMessage(message);
+    }
+
+    public async terminate(): Promise<number> {
+      this.channel.port1.close();
+      this.channel.port2.close();
+      return 0;
+    }
+  }
+
+  return { ...actual, Worker: InProcessWorker };
+});
+
+describe('MediaScannerService', () => {
+  let root: string;
+
+  const write = async (name: string, content: string): Promise<string> => {
+    const filePath = path.join(root, name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+  const scan = async (options: Parameters<typeof mediaScannerService.scan>[1]) => {
+    const batches: MediaScanBatch[] = [];
+    const summary = await mediaScannerService.scan(root, options, (batch) => batches.push(batch));
+    return { batches, summary };
+  };
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    await fs.rm(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'media-scanner-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('streams the files found with their metadata', async () => {
+    const photo = await write('IMG_0001.jpg', 'pixels');
+    const nested = await write('trip/IMG_0002.png', 'more pixels');
+    await write('notes.txt', 'not media');
+    await write('trip/.mmignore', '*.png');
+
+    const { batches, summary } = await scan({ recursive: true, readMetadata: true });
+
+    expect(batches.flatMap((batch) => batch.files)).toEqual([photo]);
+    const metadata = Object.assign({}, ...batches.map((batch) => batch.metadata));
+    expect(metadata[photo]).toMatchObject({ path: photo, size: 6, type: 'image' });
+    expect(metadata[photo].exif).toBeUndefined();
+    expect(metadata[nested]).toBeUndefined();
+    expect(summary).toEqual({
+      foldersScanned: 2,
+      filesFound: 1,
+      metadataRead: 1,
+      hashed: 0,
+      errors: 0,
+      cancelled: false,
+    });
+  });
+
+  it('hashes the files found into the hash index', async () => {
+    const first = await write('a.jpg', 'first');
+    const second = await write('b.jpg', 'second');
+    const hashFile = jest.spyOn(hashIndexService, 'hashFile');
+
+    const { batches, summary } = await scan({ computeHashes: true });
+
+    expect(batches[batches.length - 1].hashed).toBe(2);
+    expect(summary).toMatchObject({ filesFound: 2, metadataRead: 0, hashed: 2, errors: 0 });
+    expect(await hashIndexService.getHash(first)).toBe(sha256('first'));
+    expect(await hashIndexService.getHash(second)).toBe(sha256('second'));
+    expect(hashFile).not.toHaveBeenCalled();
+  });
+
+  it('keeps the hash index up to date with files changed since the last scan', async () => {
+    const kept = await write('a.jpg', 'kept');
+    const changed = await write('b.jpg', 'before');
+    await scan({ computeHashes: true });
+    const storeHashes = jest.spyOn(hashIndexService, 'storeHashes');
+
+    await write('b.jpg', 'after the edit');
+    await scan({ computeHashes: true });
+
+    expect(storeHashes).toHaveBeenCalledWith({ [changed]: expect.anything() });
+    expect(await hashIndexService.getStoredHashes([kept, changed])).toMatchObject({
+      [kept]: { sha256: sha256('kept') },
+      [changed]: { sha256: sha256('after the edit') },
+    });
+  });
+
+  it('stops without waiting for the batch being processed when cancelled', async () => {
+    await write('a.jpg', 'pixels');
+    const controller = new AbortController();
+    jest.spyOn(hashIndexService, 'getStoredHashes').mockImplementation(async () => {
+      controller.abort();
+      return {};
+    });
+    const storeHashes = jest.spyOn(hashIndexService, 'storeHashes');
+    const onBatch = jest.fn();
+
+    const summary = await mediaScannerService.scan(
+      root,
+      { computeHashes: true },
+      onBatch,
+      controller.signal,
+    );
+
+    expect(summary).toMatchObject({ filesFound: 0, hashed: 0, cancelled: true });
+    expect(onBatch).not.toHaveBeenCalled();
+    expect(storeHashes).not.toHaveBeenCalled();
+  });
+
+  it('fails when the folder cannot be read', async () => {
+    await fs.rm(root, { recursive: true });
+
+    await expect(scan({ readMetadata: true })).rejects.toThrow('ENOENT');
+  });
+});
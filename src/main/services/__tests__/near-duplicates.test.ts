@@ -0,0 +1,93 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { app } from 'electron';
+import { Image, ImageKind } from 'image-js';
+import { closeDatabase, initializeDatabase } from '@main/database';
+import { nearDuplicateService } from '@main/services/near-duplicates';
+
+jest.mock('@main/utils/media-files');
+
+// Square greyscale image drawn from a function of the position, both coordinates from 0 to 1
+const draw = (size: number, shade: (x: number, y: number) => number): Image => {
+  const data = new Uint8Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      data[y * size + x] = Math.round(shade(x / size, y / size));
+    }
+  }
+  return new Image(size, size, data, { kind: 'GREY' as ImageKind });
+};
+
+const waves = (x: number, y: number) => 127 + 120 * Math.sin(6 * x) * Math.cos(4 * y);
+const stripes = (x: number, y: number) => 127 + 120 * Math.cos(9 * x + 3 * y);
+
+describe('NearDuplicateService', () => {
+  let root: string;
+
+  const save = async (name: string, image: Image): Promise<string> => {
+    const filePath = path.join(root, name);
+    await image.save(filePath);
+    return filePath;
+  };
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    await fs.rm(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'near-duplicates-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('groups resized and re-encoded copies and suggests the largest to keep', async () => {
+    const original = await save('original.png', draw(128, waves));
+    const small = await save('small.jpg', draw(128, waves).resize({ width: 48 }));
+    await save('other.png', draw(128, stripes));
+
+    const groups = await nearDuplicateService.findNearDuplicates(root);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].bestPath).toBe(original);
+    expect(groups[0].similarity).toBeGreaterThanOrEqual(90);
+    expect(groups[0].files).toEqual([
+      expect.objectContaining({ path: original, width: 128, height: 128, similarity: 100 }),
+      expect.objectContaining({ path: small, width: 48, height: 48 }),
+    ]);
+  });
+
+  it('leaves images that look different alone', async () => {
+    await save('waves.png', draw(64, waves));
+    await save('stripes.png', draw(64, stripes));
+
+    expect(await nearDuplicateService.findNearDuplicates(root)).toEqual([]);
+  });
+
+  it('only groups images within the threshold', async () => {
+    await save('original.png', draw(64, waves));
+    // A brighter spot, like a retouched detail
+    const spot = (x: number, y: number) => ((x - 0.3) ** 2 + (y - 0.3) ** 2 < 0.01 ? 20 : 0);
+    await save(
+      'retouched.png',
+      draw(64, (x, y) => waves(x, y) + spot(x, y)),
+    );
+
+    expect(await nearDuplicateService.findNearDuplicates(root)).toHaveLength(1);
+    expect(await nearDuplicateService.findNearDuplicates(root, { threshold: 4 })).toEqual([]);
+  });
+
+  it('skips files that cannot be decoded', async () => {
+    await save('original.png', draw(64, waves));
+    await fs.writeFile(path.join(root, 'broken.jpg'), 'not an image');
+
+    expect(await nearDuplicateService.findNearDuplicates(root)).toEqual([]);
+  });
+});
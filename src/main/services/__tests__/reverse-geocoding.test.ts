@@ -0,0 +1,34 @@
+import { reverseGeocodingService } from '@main/services/reverse-geocoding';
+
+// Looks places up in the datasets bundled in resources/geo
+describe('ReverseGeocodingService', () => {
+  const find = (latitude: number, longitude: number) =>
+    reverseGeocodingService.findLocation({ latitude, longitude });
+
+  it('names the country, region and nearest city of a position', async () => {
+    expect(await find(48.137, 11.575)).toEqual({
+      country: 'Germany',
+      countryCode: 'DE',
+      region: 'Bavaria',
+      city: 'Munich',
+    });
+  });
+
+  it('knows small towns', async () => {
+    expect(await find(46.369, 14.114)).toMatchObject({ countryCode: 'SI', city: 'Bled' });
+  });
+
+  it('takes the city from the country the position is in, not the nearest across a border', async () => {
+    // Frankfurt (Oder) and Słubice face each other across the Oder
+    expect(await find(52.34, 14.54)).toMatchObject({
+      countryCode: 'DE',
+      region: 'Brandenburg',
+      city: 'Frankfurt (Oder)',
+    });
+    expect(await find(52.345, 14.575)).toMatchObject({ countryCode: 'PL', city: 'Słubice' });
+  });
+
+  it('finds nothing out at sea', async () => {
+    expect(await find(0, -30)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { app } from 'electron';
+import { Schedule } from '@common/types';
+import { allAsync, closeDatabase, initializeDatabase, runAsync } from '@main/database';
+import { SchedulerService } from '@main/services/scheduler';
+import { taskJournalService } from '@main/services/task-journal';
+
+jest.mock('@main/utils/media-files');
+// Cloud uploads are not scheduled here
+jest.mock('@main/services/cloud-storage', () => ({ cloudStorageService: {} }));
+
+describe('SchedulerService', () => {
+  let root: string;
+  let scheduler: SchedulerService;
+
+  // Pretend the application was closed when the schedule was due
+  const makeDue = (schedule: Schedule, minutesAgo: number) =>
+    runAsync('UPDATE schedules SET next_run_at = ? WHERE id = ?', [
+      new Date(Date.now() - minutesAgo * 60 * 1000).toISOString(),
+      schedule.id,
+    ]);
+
+  // Start a fresh scheduler, as on startup, and wait until the given number of runs finished
+  const startAndRun = (runs: number): Promise<Schedule[]> =>
+    new Promise((resolve) => {
+      const completed: Schedule[] = [];
+      scheduler = new SchedulerService();
+      scheduler.setEnabled(true);
+      scheduler.start({
+        onRunComplete: (schedule) => {
+          completed.push(schedule);
+          if (completed.length === runs) {
+            resolve(completed);
+          }
+        },
+      });
+    });
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    await fs.rm(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'scheduler-'));
+    await fs.writeFile(path.join(root, 'a.jpg'), 'a');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    scheduler.stop();
+    await runAsync('DELETE FROM schedules');
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('runs the other due schedules and moves on when a job throws', async () => {
+    const setup = new SchedulerService();
+    const job = { kind: 'duplicate-scan' as const, path: root, recursive: true };
+    const timing = { type: 'daily' as const, time: '03:00' };
+    const broken = await setup.create({ name: 'Broken', job, timing });
+    const working = await setup.create({ name: 'Working', job, timing });
+    await makeDue(broken, 20);
+    await makeDue(working, 10);
+
+    // The history cannot record the task, so not even the failure is journaled
+    jest
+      .spyOn(taskJournalService, 'createJobTask')
+      .mockRejectedValueOnce(new Error('database is locked'));
+
+    const [first, second] = await startAndRun(2);
+
+    expect(first).toMatchObject({ id: broken.id, lastStatus: 'error', lastTaskId: undefined });
+    expect(second).toMatchObject({ id: working.id, lastStatus: 'completed' });
+
+    const rows = await allAsync<{ id: string; last_status: string; next_run_at: string }>(
+      'SELECT id, last_status, next_run_at FROM schedules ORDER BY next_run_at',
+    );
+    expect(rows.map((row) => row.last_status).sort()).toEqual(['completed', 'error']);
+    for (const row of rows) {
+      expect(new Date(row.next_run_at).getTime()).toBeGreaterThan(Date.now());
+    }
+  });
+});
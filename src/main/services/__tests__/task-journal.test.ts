@@ -0,0 +1,163 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { app } from 'electron';
+import { OrganizeOptions } from '@common/types';
+import { closeDatabase, initializeDatabase } from '@main/database';
+import { fileOrganizerService } from '@main/services/file-organizer';
+import { taskJournalService } from '@main/services/task-journal';
+
+jest.mock('@main/utils/media-files');
+
+describe('TaskJournalService undo', () => {
+  let root: string;
+  let source: string;
+  let destination: string;
+
+  const write = async (filePath: string, content: string) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  };
+
+  const read = (filePath: string) => fs.readFile(filePath, 'utf8');
+
+  const exists = (filePath: string) =>
+    fs.access(filePath).then(
+      () => true,
+      () => false,
+    );
+
+  // Files are passed in directly, scanning runs in a worker that needs the compiled build
+  const organize = async (extra: Partial<OrganizeOptions> = {}): Promise<number> => {
+    const files = (await fs.readdir(source)).map((name) => path.join(source, name));
+    const result = await fileOrganizerService.organize({
+      sourcePath: source,
+      destinationPath: destination,
+      operation: 'move',
+      pattern: '%Y/%m',
+      recursive: false,
+      conflicts: 'rename',
+      files,
+      ...extra,
+    });
+    return result.taskId as number;
+  };
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    await fs.rm(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'undo-'));
+    source = path.join(root, 'card');
+    destination = path.join(root, 'library');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('moves files back to their source and removes the directories the run created', async () => {
+    await write(path.join(source, 'a.jpg'), 'a');
+    await write(path.join(source, 'b.jpg'), 'b');
+    const taskId = await organize();
+
+    expect(await read(path.join(destination, '2024', '01', 'a.jpg'))).toBe('a');
+
+    const result = await taskJournalService.undoTask(taskId);
+
+    expect(result).toMatchObject({ restored: 2, issues: [] });
+    expect(await read(path.join(source, 'a.jpg'))).toBe('a');
+    expect(await read(path.join(source, 'b.jpg'))).toBe('b');
+    expect(await exists(path.join(destination, '2024'))).toBe(false);
+    expect((await taskJournalService.getTask(taskId)).status).toBe('undone');
+  });
+
+  it('removes copies and leaves the originals alone', async () => {
+    await write(path.join(source, 'a.jpg'), 'a');
+    const taskId = await organize({ operation: 'copy' });
+
+    await taskJournalService.undoTask(taskId);
+
+    expect(await read(path.join(source, 'a.jpg'))).toBe('a');
+    expect(await exists(path.join(destination, '2024', '01', 'a.jpg'))).toBe(false);
+  });
+
+  it('puts back the library file an overwrite replaced', async () => {
+    const existing = path.join(destination, '2024', '01', 'a.jpg');
+    await write(existing, 'old');
+    await write(path.join(source, 'a.jpg'), 'new');
+    const taskId = await organize({ conflicts: 'overwrite' });
+
+    expect(await read(existing)).toBe('new');
+
+    await taskJournalService.undoTask(taskId);
+
+    expect(await read(existing)).toBe('old');
+    expect(await read(path.join(source, 'a.jpg'))).toBe('new');
+    expect(await exists(path.join(destination, '.mediamaster'))).toBe(false);
+  });
+
+  it('deletes the files a task replaced when it is removed from the history', async () => {
+    const existing = path.join(destination, '2024', '01', 'a.jpg');
+    await write(existing, 'old');
+    await write(path.join(destination, '.mediamaster', 'backup', 'b.jpg'), 'b');
+    await write(path.join(source, 'a.jpg'), 'new');
+    const taskId = await organize({ conflicts: 'overwrite' });
+
+    await taskJournalService.deleteTask(taskId);
+
+    expect(await read(existing)).toBe('new');
+    expect(await fs.readdir(path.join(destination, '.mediamaster'))).toEqual(['backup']);
+    await expect(taskJournalService.getTask(taskId)).rejects.toThrow('not found');
+  });
+
+  it('reports files that changed after the run and leaves them in place', async () => {
+    await write(path.join(source, 'a.jpg'), 'a');
+    const taskId = await organize();
+    const moved = path.join(destination, '2024', '01', 'a.jpg');
+    await fs.writeFile(moved, 'edited');
+
+    const result = await taskJournalService.undoTask(taskId);
+
+    expect(result.issues).toEqual([{ path: moved, reason: 'modified' }]);
+    expect(await read(moved)).toBe('edited');
+  });
+
+  it('keeps a partly undone task undoable and retries only the files left', async () => {
+    await write(path.join(source, 'a.jpg'), 'a');
+    await write(path.join(source, 'b.jpg'), 'b');
+    const taskId = await organize();
+    const blocker = path.join(source, 'a.jpg');
+    await write(blocker, 'other');
+
+    const first = await taskJournalService.undoTask(taskId);
+
+    expect(first).toMatchObject({
+      restored: 1,
+      issues: [{ path: blocker, reason: 'source-exists' }],
+    });
+    expect((await taskJournalService.getTask(taskId)).status).toBe('partially-undone');
+
+    await fs.unlink(blocker);
+    const second = await taskJournalService.undoTask(taskId);
+
+    expect(second).toMatchObject({ restored: 1, issues: [] });
+    expect(await read(path.join(source, 'a.jpg'))).toBe('a');
+    expect(await read(path.join(source, 'b.jpg'))).toBe('b');
+    expect((await taskJournalService.getTask(taskId)).status).toBe('undone');
+  });
+
+  it('refuses to undo a task twice', async () => {
+    await write(path.join(source, 'a.jpg'), 'a');
+    const taskId = await organize();
+    await taskJournalService.undoTask(taskId);
+
+    await expect(taskJournalService.undoTask(taskId)).rejects.toThrow('already been undone');
+  });
+});
@@ -0,0 +1,28 @@
+import { timeZoneLookupService } from '@main/services/time-zone-lookup';
+
+// Looks zones up in the dataset bundled in resources/timezones
+describe('TimeZoneLookupService', () => {
+  const find = (latitude: number, longitude: number) =>
+    timeZoneLookupService.findTimeZone({ latitude, longitude });
+
+  it('finds the zone a position lies in', async () => {
+    expect(await find(41.0086, 28.9802)).toBe('Europe/Istanbul');
+    expect(await find(40.7128, -74.006)).toBe('America/New_York');
+    expect(await find(-33.8688, 151.2093)).toBe('Australia/Sydney');
+  });
+
+  it('tells zones apart along a border', async () => {
+    // Across the Bug, Poland is two hours behind Belarus in winter
+    expect(await find(52.07, 23.55)).toBe('Europe/Warsaw');
+    expect(await find(52.1, 23.75)).toBe('Europe/Minsk');
+  });
+
+  it('uses the zone of the nearest place beyond the coastal waters', async () => {
+    expect(await find(0, -30)).toBe('America/Noronha');
+  });
+
+  it('uses the nautical zone on the open sea', async () => {
+    // Between the Marquesas and the Line Islands
+    expect(await find(0, -140)).toBe('Etc/GMT+9');
+  });
+});
@@ -0,0 +1,119 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { app } from 'electron';
+import { OrganizeOptions, WatchFolder } from '@common/types';
+import { closeDatabase, initializeDatabase } from '@main/database';
+import { ConfigManager } from '@main/services/config-manager';
+import { fileOrganizerService } from '@main/services/file-organizer';
+import { watchFolderService } from '@main/services/watch-folders';
+
+jest.mock('@main/utils/media-files');
+
+// Files only count as complete after a few seconds without changes
+jest.setTimeout(30000);
+
+// Long enough for a file to pass the stability checks and be organized
+const SETTLE_MS = 8000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('WatchFolderService', () => {
+  let root: string;
+  let watched: string;
+  let library: string;
+  let folder: WatchFolder;
+
+  const exists = (filePath: string) =>
+    fs.access(filePath).then(
+      () => true,
+      () => false,
+    );
+
+  const saveProfile = (name: string, operation: OrganizeOptions['operation']) =>
+    new ConfigManager().saveConfig(name, {
+      organizeSettings: {
+        operation,
+        pattern: '%Y',
+        recursive: false,
+        conflicts: 'rename',
+        options: {
+          createBackup: false,
+          skipDuplicates: false,
+          organizeByType: false,
+          organizeByCamera: false,
+        },
+      },
+    });
+
+  const watch = async (profileName: string) => {
+    folder = await watchFolderService.save({
+      path: watched,
+      destinationPath: library,
+      profileName,
+      recursive: false,
+      enabled: true,
+    });
+  };
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    await saveProfile('move', 'move');
+    await saveProfile('copy', 'copy');
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    await fs.rm(app.getPath('userData'), { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'watch-'));
+    watched = path.join(root, 'drop');
+    library = path.join(root, 'library');
+    await fs.mkdir(watched);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await watchFolderService.remove(folder.id);
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('organizes media already in the folder when watching starts', async () => {
+    await fs.writeFile(path.join(watched, 'a.jpg'), 'a');
+
+    await watch('move');
+    await wait(SETTLE_MS);
+
+    expect(await fs.readFile(path.join(library, '2024', 'a.jpg'), 'utf8')).toBe('a');
+    expect(await exists(path.join(watched, 'a.jpg'))).toBe(false);
+  });
+
+  it('organizes new files once they stop changing', async () => {
+    await watch('move');
+    await fs.writeFile(path.join(watched, 'b.jpg'), 'b');
+    await wait(SETTLE_MS);
+
+    expect(await fs.readFile(path.join(library, '2024', 'b.jpg'), 'utf8')).toBe('b');
+  });
+
+  it('copies each original only once, even when it is found again', async () => {
+    const original = path.join(watched, 'a.jpg');
+    await fs.writeFile(original, 'a');
+    const organize = jest.spyOn(fileOrganizerService, 'organize');
+
+    await watch('copy');
+    await wait(SETTLE_MS);
+
+    // A change event without new content, and a scan when the folder is enabled again
+    await fs.chmod(original, 0o600);
+    await watchFolderService.save({ ...folder, enabled: false });
+    await watch('copy');
+    await wait(SETTLE_MS);
+
+    expect(await fs.readdir(path.join(library, '2024'))).toEqual(['a.jpg']);
+    expect(await exists(original)).toBe(true);
+    expect(organize).toHaveBeenCalledTimes(1);
+  });
+});
@@ -4,7 +4,46 @@ import * as fs from 'fs/promises';
 import { OAuth2Client } from 'google-auth-library';
 import axios from 'axios';
 import log from 'electron-log';
-import { CloudProvider, CloudStorageConfig, CloudFile, UploadOptions } from '@common/types';
+import { CloudProvider, CloudStorageConfig, CloudFile, OrganizeResult, UploadOptions } from '@common/types';
+import { taskJournalService, UnfinishedFile } from './task-journal';
+import { Checkpoint } from './job-manager';
+
+/**
+ * Progress information for a batch upload
+ */
+export interface UploadProgress {
+  file: string;
+  processed: number;
+  total: number;
+  percentage: number;
+}
+
+/**
+ * Callbacks used to report batch upload progress to the caller
+ */
+export interface UploadCallbacks {
+  onProgress?: (progress: UploadProgress) => void;
+  onError?: (file: string, error: Error) => void;
+  checkpoint?: Checkpoint; // Called before each file, lets a job pause or cancel the batch
+}
+
+/**
+ * Outcome of a batch upload
+ */
+export interface UploadBatchResult {
+  taskId: number;
+  results: CloudFile[];
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Options a batch upload task is journaled with
+ */
+interface UploadTaskOptions {
+  provider: CloudProvider;
+  options: UploadOptions;
+}
 
 /**
  * Cloud Storage Service for handling cloud storage operations
@@ -619,6 +658,185 @@ export class CloudStorageService {
     }
   }
 
+  /**
+   * Upload a batch of files, journaled as a task so it can be resumed when the application
+   * quits midway
+   */
+  public async uploadFiles(
+    provider: CloudProvider,
+    filePaths: string[],
+    options: UploadOptions,
+    callbacks: UploadCallbacks = {}
+  ): Promise<UploadBatchResult> {
+    const taskId = await taskJournalService.createJobTask(
+      `Upload ${filePaths.length} files to ${this.configs[provider].name}`,
+      'cloud-upload',
+      options.basePath || path.dirname(filePaths[0] || ''),
+      { provider, options } as UploadTaskOptions
+    );
+    await taskJournalService.addPendingFiles(taskId, filePaths);
+
+    return this.runUploads(taskId, provider, filePaths, options, callbacks, {
+      taskId,
+      total: filePaths.length,
+      succeeded: 0,
+      skipped: 0,
+      errors: 0
+    });
+  }
+
+  /**
+   * Continue a batch upload that was cut off. A file caught mid-upload counts as uploaded
+   * when a file with its name and size is already in the target folder.
+   */
+  public async resumeUploads(taskId: number, callbacks: UploadCallbacks = {}): Promise<UploadBatchResult> {
+    const { provider, options } = await taskJournalService.getTaskOptions<UploadTaskOptions>(taskId);
+    const remaining: string[] = [];
+
+    await this.initialize();
+
+    for (const file of await taskJournalService.getUnfinishedFiles(taskId)) {
+      if (file.status === 'pending' || !(await this.isUploaded(taskId, provider, file, options))) {
+        remaining.push(file.sourcePath);
+      }
+    }
+
+    log.info(`Resuming upload task ${taskId}, ${remaining.length} files left`);
+
+    const result = await taskJournalService.getFinishedCounts(taskId);
+    return this.runUploads(taskId, provider, remaining, options, callbacks, result);
+  }
+
+  private async runUploads(
+    taskId: number,
+    provider: CloudProvider,
+    filePaths: string[],
+    options: UploadOptions,
+    callbacks: UploadCallbacks,
+    result: OrganizeResult
+  ): Promise<UploadBatchResult> {
+    const results: CloudFile[] = [];
+    let processed = 0;
+    let failed = 0;
+
+    for (const filePath of filePaths) {
+      try {
+        await callbacks.checkpoint?.();
+      } catch (error) {
+        await taskJournalService.cancelTask(taskId);
+        throw error;
+      }
+
+      try {
+        await taskJournalService.markProcessing(taskId, { sourcePath: filePath });
+
+        const uploadOptions = {
+          ...options,
+          folderId: await this.resolveTargetFolder(provider, filePath, options),
+          fileName: path.basename(filePath)
+        };
+
+        const file = await this.uploadFile(provider, filePath, uploadOptions);
+        results.push(file);
+        processed++;
+        result.succeeded++;
+
+        await taskJournalService.recordFile(taskId, { sourcePath: filePath, status: 'succeeded' });
+
+        callbacks.onProgress?.({
+          file: filePath,
+          processed,
+          total: filePaths.length,
+          percentage: Math.floor((processed / filePaths.length) * 100)
+        });
+      } catch (error) {
+        log.error(`Error uploading file ${filePath}:`, error);
+        failed++;
+        result.errors++;
+        callbacks.onError?.(filePath, error as Error);
+
+        await taskJournalService
+          .recordFile(taskId, {
+            sourcePath: filePath,
+            status: 'error',
+            errorMessage: (error as Error).message
+          })
+          .catch((journalError) => log.error('Failed to journal upload error:', journalError));
+      }
+    }
+
+    await taskJournalService.completeTask(
+      taskId,
+      result,
+      'completed',
+      `${result.succeeded} uploaded to ${this.configs[provider].name}, ${result.errors} failed`
+    );
+
+    return { taskId, results, processed, failed };
+  }
+
+  /**
+   * Check whether a file caught mid-upload made it, putting it back in the queue when not
+   */
+  private async isUploaded(
+    taskId: number,
+    provider: CloudProvider,
+    file: UnfinishedFile,
+    options: UploadOptions
+  ): Promise<boolean> {
+    try {
+      const { size } = await fs.stat(file.sourcePath);
+      const folderId = await this.resolveTargetFolder(provider, file.sourcePath, options);
+      const existing = await this.listFiles(provider, folderId);
+
+      if (existing.some((f) => !f.isFolder && f.name === path.basename(file.sourcePath) && f.size === size)) {
+        await taskJournalService.recordFile(taskId, { sourcePath: file.sourcePath, status: 'succeeded' });
+        return true;
+      }
+    } catch (error) {
+      log.warn(`Could not check the upload of ${file.sourcePath}:`, error);
+    }
+
+    await taskJournalService.markPending(taskId, file.sourcePath);
+    return false;
+  }
+
+  /**
+   * Folder a file is uploaded to, creating the folders of its relative path when the
+   * directory structure is preserved
+   */
+  private async resolveTargetFolder(
+    provider: CloudProvider,
+    filePath: string,
+    options: UploadOptions
+  ): Promise<string | undefined> {
+    if (!options.preserveDirectoryStructure || !options.basePath) {
+      return options.folderId;
+    }
+
+    const relativePath = path.dirname(filePath.replace(options.basePath, ''));
+    if (relativePath === '.' || relativePath === '/') {
+      return options.folderId;
+    }
+
+    let currentFolderId = options.folderId;
+
+    for (const folder of relativePath.split(/[/\\]/).filter(Boolean)) {
+      // Try to find if folder exists
+      const files = await this.listFiles(provider, currentFolderId);
+      const existingFolder = files.find(f => f.isFolder && f.name === folder);
+
+      if (existingFolder) {
+        currentFolderId = existingFolder.id;
+      } else {
+        const newFolder = await this.createFolder(provider, folder, currentFolderId);
+        currentFolderId = newFolder.id;
+      }
+    }
+
+    return currentFolderId;
+  }
+
   /**
    * Create a folder in cloud storage
    */
@@ -2,6 +2,10 @@ import { app } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import log from 'electron-log';
+import { CustomMediaFormat, OrganizeOptions } from '@common/types';
+
+// Profile the settings screen saves to until another one is loaded
+export const DEFAULT_PROFILE = 'default';
 
 export class ConfigManager {
     private configDir: string;
@@ -75,6 +79,82 @@ export class ConfigManager {
         }
     }
 
+    /**
+     * Build organize options from the organize settings, routing rules and geo tagging
+     * setting of a profile
+     * @throws Error when the profile was saved before it kept organize settings
+     */
+    async loadOrganizeOptions(
+        profileName: string,
+        sourcePath: string,
+        destinationPath: string,
+    ): Promise<OrganizeOptions> {
+        const profile = await this.loadConfig(profileName);
+
+        if (!profile.organizeSettings) {
+            throw new Error(
+                `Profile '${profileName}' has no organize settings, save it again from the settings screen`,
+            );
+        }
+
+        return {
+            ...profile.organizeSettings,
+            rules: profile.organizeRules || [],
+            geoTagging: Boolean(profile.advancedSettings?.enableGeoTagging),
+            scanRules: profile.advancedSettings?.scanRules,
+            sourcePath,
+            destinationPath,
+        };
+    }
+
+    /**
+     * Custom media formats saved in the settings of a profile
+     * @returns The formats, none when the profile has not been saved yet
+     */
+    async loadCustomFormats(profileName: string): Promise<CustomMediaFormat[]> {
+        const settings = await this.loadSavedAdvancedSettings(profileName);
+        return settings?.customFormats || [];
+    }
+
+    /**
+     * Whether scheduled jobs may run, as saved in the settings of a profile
+     * @returns False when the profile has not been saved yet
+     */
+    async loadSchedulingEnabled(profileName: string): Promise<boolean> {
+        const settings = await this.loadSavedAdvancedSettings(profileName);
+        return Boolean(settings?.enableScheduling);
+    }
+
+    /**
+     * How many jobs may run at the same time, as saved in the settings of a profile
+     * @returns 1 when the profile has not been saved yet
+     */
+    async loadParallelJobs(profileName: string): Promise<number> {
+        const settings = await this.loadSavedAdvancedSettings(profileName);
+        return Math.max(1, Math.floor(settings?.parallelJobs || 1));
+    }
+
+    /**
+     * Advanced settings of a profile, undefined when the profile has not been saved yet
+     */
+    private async loadSavedAdvancedSettings(
+        profileName: string,
+    ): Promise<
+        | { customFormats?: CustomMediaFormat[]; enableScheduling?: boolean; parallelJobs?: number }
+        | undefined
+    > {
+        const exists = await fs.access(this.getConfigPath(profileName)).then(
+            () => true,
+            () => false,
+        );
+        if (!exists) {
+            return undefined;
+        }
+
+        const profile = await this.loadConfig(profileName);
+        return profile.advancedSettings;
+    }
+
     /**
      * List all available configuration profiles
      */
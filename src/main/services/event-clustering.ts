@@ -0,0 +1,256 @@
+import * as path from 'path';
+import log from 'electron-log';
+import { EventClusteringOptions, FileMetadata } from '@common/types';
+import { allAsync, insertAsync, runAsync } from '@main/database';
+import { getCaptureDate } from '@main/utils/file-metadata';
+import { Coordinates, distanceKm, getCoordinates } from '@main/utils/geo';
+
+/**
+ * A file to place into an event
+ */
+export interface EventCandidate {
+  filePath: string;
+  metadata: FileMetadata;
+}
+
+/**
+ * Files of a single run grouped by capture time
+ */
+interface EventCluster {
+  files: string[];
+  start: number;
+  end: number;
+  coordinates: Coordinates | null; // First known position in the cluster
+  lastCoordinates: Coordinates | null; // Most recent known position, used for splitting
+}
+
+/**
+ * Row of the events table. New events planned in a dry run have no id.
+ */
+interface StoredEvent {
+  id: number | null;
+  name: string;
+  start_time: number;
+  end_time: number;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+const DEFAULT_EVENT_GAP_HOURS = 4;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Local calendar day of a timestamp as YYYY-MM-DD
+ */
+function formatDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Groups captures into events separated by time gaps (and optionally distance) and
+ * remembers the events per destination so later runs add to the same folders
+ */
+export class EventClusteringService {
+  /**
+   * Assign an event name to every candidate file
+   * @param destinationRoot Destination folder of the run, events are scoped to it
+   * @param persist Store new and extended events; false for dry runs
+   * @returns Event name per file path
+   */
+  public async assignEvents(
+    candidates: EventCandidate[],
+    destinationRoot: string,
+    options: EventClusteringOptions,
+    persist: boolean,
+  ): Promise<Map<string, string>> {
+    const root = path.resolve(destinationRoot);
+    const events = await allAsync<StoredEvent>(
+      `SELECT id, name, start_time, end_time, latitude, longitude
+       FROM events
+       WHERE destination_root = ?
+       ORDER BY start_time`,
+      [root],
+    );
+
+    const assignments = new Map<string, string>();
+    const gapMs = this.getGapMs(options);
+
+    for (const cluster of this.cluster(candidates, options)) {
+      let event = this.findMatchingEvent(cluster, events, gapMs, options);
+
+      if (event) {
+        // Extend the stored event so the next run sees the full range
+        if (cluster.start < event.start_time || cluster.end > event.end_time) {
+          event.start_time = Math.min(event.start_time, cluster.start);
+          event.end_time = Math.max(event.end_time, cluster.end);
+
+          if (persist && event.id !== null) {
+            await runAsync('UPDATE events SET start_time = ?, end_time = ? WHERE id = ?', [
+              event.start_time,
+              event.end_time,
+              event.id,
+            ]);
+          }
+        }
+      } else {
+        event = {
+          id: null,
+          name: this.getNewEventName(cluster, events, options),
+          start_time: cluster.start,
+          end_time: cluster.end,
+          latitude: cluster.coordinates?.latitude ?? null,
+          longitude: cluster.coordinates?.longitude ?? null,
+        };
+
+        if (persist) {
+          event.id = await insertAsync(
+            `INSERT INTO events (destination_root, name, start_time, end_time, latitude, longitude)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [root, event.name, event.start_time, event.end_time, event.latitude, event.longitude],
+          );
+        }
+
+        events.push(event);
+      }
+
+      for (const file of cluster.files) {
+        assignments.set(file, event.name);
+      }
+    }
+
+    log.info(`Assigned ${candidates.length} files to ${new Set(assignments.values()).size} events`);
+
+    return assignments;
+  }
+
+  /**
+   * Split candidates into clusters wherever the time gap or the distance between
+   * consecutive captures exceeds the configured thresholds
+   */
+  private cluster(candidates: EventCandidate[], options: EventClusteringOptions): EventCluster[] {
+    const gapMs = this.getGapMs(options);
+    const maxDistanceKm = options.maxDistanceKm || 0;
+
+    const sorted = candidates
+      .map((candidate) => ({
+        filePath: candidate.filePath,
+        time: getCaptureDate(candidate.metadata).getTime(),
+        coordinates: getCoordinates(candidate.metadata),
+      }))
+      .sort((a, b) => a.time - b.time);
+
+    const clusters: EventCluster[] = [];
+    let current: EventCluster | null = null;
+
+    for (const capture of sorted) {
+      const tooLate = current !== null && capture.time - current.end > gapMs;
+      const tooFar =
+        current !== null &&
+        maxDistanceKm > 0 &&
+        capture.coordinates !== null &&
+        current.lastCoordinates !== null &&
+        distanceKm(capture.coordinates, current.lastCoordinates) > maxDistanceKm;
+
+      if (!current || tooLate || tooFar) {
+        current = {
+          files: [],
+          start: capture.time,
+          end: capture.time,
+          coordinates: capture.coordinates,
+          lastCoordinates: capture.coordinates,
+        };
+        clusters.push(current);
+      }
+
+      current.files.push(capture.filePath);
+      current.end = capture.time;
+      current.coordinates = current.coordinates || capture.coordinates;
+      current.lastCoordinates = capture.coordinates || current.lastCoordinates;
+    }
+
+    return clusters;
+  }
+
+  /**
+   * Find a known event the cluster belongs to: its time range touches the event
+   * within the gap threshold and, when both have a position, it is close enough
+   */
+  private findMatchingEvent(
+    cluster: EventCluster,
+    events: StoredEvent[],
+    gapMs: number,
+    options: EventClusteringOptions,
+  ): StoredEvent | null {
+    const maxDistanceKm = options.maxDistanceKm || 0;
+
+    return (
+      events.find((event) => {
+        if (cluster.start > event.end_time + gapMs || cluster.end < event.start_time - gapMs) {
+          return false;
+        }
+
+        if (
+          maxDistanceKm > 0 &&
+          cluster.coordinates &&
+          event.latitude !== null &&
+          event.longitude !== null
+        ) {
+          return (
+            distanceKm(cluster.coordinates, {
+              latitude: event.latitude,
+              longitude: event.longitude,
+            }) <= maxDistanceKm
+          );
+        }
+
+        return true;
+      }) || null
+    );
+  }
+
+  /**
+   * Name a new event, "2024-07-14 Event 3" by default or the user supplied name,
+   * numbered when it is already taken
+   */
+  private getNewEventName(
+    cluster: EventCluster,
+    events: StoredEvent[],
+    options: EventClusteringOptions,
+  ): string {
+    const taken = new Set(events.map((event) => event.name.toLowerCase()));
+    const customName = options.name?.trim();
+
+    if (customName) {
+      let name = customName;
+      let counter = 2;
+
+      while (taken.has(name.toLowerCase())) {
+        name = `${customName} ${counter++}`;
+      }
+
+      return name;
+    }
+
+    const day = formatDay(cluster.start);
+    let counter = events.filter((event) => formatDay(event.start_time) === day).length + 1;
+    let name = `${day} Event ${counter}`;
+
+    while (taken.has(name.toLowerCase())) {
+      name = `${day} Event ${++counter}`;
+    }
+
+    return name;
+  }
+
+  private getGapMs(options: EventClusteringOptions): number {
+    const gapHours = options.gapHours > 0 ? options.gapHours : DEFAULT_EVENT_GAP_HOURS;
+    return gapHours * HOUR_MS;
+  }
+}
+
+// Instance for global usage
+export const eventClusteringService = new EventClusteringService();
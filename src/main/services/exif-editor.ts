@@ -1,12 +1,8 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import log from 'electron-log';
 import { exifToolManager } from '@main/utils/exiftool-setup';
 
-const execPromise = promisify(exec);
-
 /**
  * EXIF field type definition
  */
@@ -305,16 +301,14 @@ export class ExifEditorService {
       }
 
       if (this.exiftoolAvailable) {
-        // Use exiftool for editing
-        let command: string;
-
-        if (operation.operation === 'set') {
-          command = `exiftool -${operation.tag}="${operation.value}" -overwrite_original "${operation.filePath}"`;
-        } else { // remove
-          command = `exiftool -${operation.tag}= -overwrite_original "${operation.filePath}"`;
-        }
-
-        await execPromise(command);
+        // Use exiftool for editing, an empty value removes the tag
+        const value = operation.operation === 'set' ? operation.value : '';
+
+        await exifToolManager.execute([
+          `-${operation.tag}=${value}`,
+          '-overwrite_original',
+          operation.filePath
+        ]);
       } else {
         // Fallback - this is just a placeholder as proper EXIF
         // editing requires exiftool or a comprehensive library
@@ -0,0 +1,1279 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Stats } from 'fs';
+import log from 'electron-log';
+import {
+  FileMetadata,
+  OrganizeFilters,
+  OrganizeOptions,
+  OrganizeResult,
+  PlannedOperation,
+  PlanReason,
+  RoutingRule,
+} from '@common/types';
+import {
+  getFileMetadata,
+  getFilesMetadata,
+  scanDirectoryForFiles,
+  supportedFormats,
+} from '@main/utils/media-files';
+import { CaptureDateOptions, getCaptureDate } from '@main/utils/file-metadata';
+import {
+  getCameraFolderName,
+  getTypeFolderName,
+  PatternContext,
+  resolvePattern,
+} from '@main/utils/organize-pattern';
+import {
+  copyFilePreservingTimestamps,
+  ensureDirectory,
+  getPartialPath,
+  moveFile,
+  pathExists,
+} from '@main/utils/file-transfer';
+import { OVERWRITE_REASONS, taskJournalService, UnfinishedFile } from '@main/services/task-journal';
+import { EventCandidate, eventClusteringService } from '@main/services/event-clustering';
+import { hashIndexService, LibraryIndex } from '@main/services/hash-index';
+import { routingRuleService } from '@main/services/routing-rules';
+import { SequenceSession, sequenceCounterService } from '@main/services/sequence-counters';
+import {
+  parseRenameTemplate,
+  RenameTemplate,
+  RenameValues,
+  renderFileName,
+  replaceExtension,
+  usesRenameToken,
+} from '@main/utils/rename-pattern';
+import { FileGroup, getCompanionName, groupCompanionFiles } from '@main/utils/companion-files';
+import { getFilenameDateParsers } from '@main/utils/filename-dates';
+import { isValidTimeZone } from '@main/utils/time-zones';
+import { Checkpoint } from '@main/services/job-manager';
+import { ImportSession, importMemoryService } from '@main/services/import-memory';
+import { timeZoneLookupService } from '@main/services/time-zone-lookup';
+import { reverseGeocodingService } from '@main/services/reverse-geocoding';
+import { getCoordinates } from '@main/utils/geo';
+import { ScanRuleFilter } from '@main/utils/scan-rules';
+import { isWantedFile } from '@main/utils/file-formats';
+
+/**
+ * Progress information for an organize run
+ */
+export interface OrganizeProgress {
+  file: string;
+  processed: number;
+  total: number;
+  percentage: number;
+}
+
+/**
+ * Callbacks used to report organize progress to the caller
+ */
+export interface OrganizeCallbacks {
+  onProgress?: (progress: OrganizeProgress) => void;
+  onError?: (file: string, error: Error) => void;
+  checkpoint?: Checkpoint; // Called before each file group, lets a job pause or cancel the run
+}
+
+/**
+ * State shared by all files of a single organize or plan run
+ */
+interface RunContext {
+  reserved: Map<string, string>; // Destinations claimed earlier in the run, to their source
+  metadata: Map<string, FileMetadata>; // Metadata read ahead of planning, dropped once planned
+  dates: CaptureDateOptions; // File name dates and time zones used to read capture dates
+  geoTagging: boolean; // Look up the place of geotagged files for %C, %S and %L
+  eventNames: Map<string, string>; // Event of each file for the %e token
+  library: LibraryIndex | null; // Destination library, set when skipping duplicates
+  imports: ImportSession | null; // Earlier imports from the source volume, for incremental imports
+  rename: { template: RenameTemplate; counters: SequenceSession } | null; // File name template
+  groups: FileGroup[]; // Files with the sidecars and paired files that travel with them
+}
+
+const DEFAULT_RENAME_TEMPLATE = '{name}_{n}';
+
+// Groups whose metadata is read ahead together, so exiftool gets the files in batches
+const METADATA_BATCH_SIZE = 200;
+
+const DEFAULT_REVIEW_FOLDER = '_Review';
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+/**
+ * Moves or copies media files into a destination tree built from an organization pattern
+ */
+export class FileOrganizerService {
+  /**
+   * Organize all matching files from the source directory into the destination directory
+   * @param options Organize options from the renderer
+   * @param callbacks Progress and error callbacks
+   * @returns Summary of the run
+   */
+  public async organize(
+    options: OrganizeOptions,
+    callbacks: OrganizeCallbacks = {},
+  ): Promise<OrganizeResult> {
+    return this.run(options, callbacks, null);
+  }
+
+  /**
+   * Continue an organize task that was cut off by a quit or crash. Files caught mid-transfer
+   * are checked first, so a file that made it is not transferred twice.
+   * @param taskId Interrupted task
+   * @param callbacks Progress and error callbacks
+   * @returns Summary of the whole task, including the files finished before the interruption
+   */
+  public async resume(taskId: number, callbacks: OrganizeCallbacks = {}): Promise<OrganizeResult> {
+    const options = await taskJournalService.getTaskOptions<OrganizeOptions>(taskId);
+    const remaining: string[] = [];
+
+    for (const file of await taskJournalService.getUnfinishedFiles(taskId)) {
+      if (file.status === 'pending' || (await this.recheckTransfer(taskId, file, options))) {
+        remaining.push(file.sourcePath);
+      }
+    }
+
+    log.info(`Resuming organize task ${taskId}, ${remaining.length} files left`);
+
+    return this.run({ ...options, files: remaining }, callbacks, taskId);
+  }
+
+  /**
+   * Organize files, journaling each one so the run can be undone or resumed
+   * @param resumeTaskId Task to continue, or null to start a new one
+   */
+  private async run(
+    options: OrganizeOptions,
+    callbacks: OrganizeCallbacks,
+    resumeTaskId: number | null,
+  ): Promise<OrganizeResult> {
+    // Create required directories
+    const createdDirectories = await ensureDirectory(options.destinationPath);
+
+    const files = await this.collectFiles(options);
+    const backupDir = this.getBackupDir(options);
+    const replacedDir = this.getReplacedDir(options);
+    const run = await this.prepareRun(files, options, true);
+    const total = this.countGroupFiles(run.groups);
+
+    let taskId: number;
+    let result: OrganizeResult;
+
+    if (resumeTaskId === null) {
+      // Journal the run so it can be undone later, and every file up front so an
+      // interrupted run knows what is left
+      taskId = await taskJournalService.createTask(options, total);
+      await taskJournalService.addPendingFiles(
+        taskId,
+        run.groups.flatMap((group) => [group.primary, ...group.companions]),
+      );
+      result = { taskId, total, succeeded: 0, skipped: 0, errors: 0 };
+    } else {
+      taskId = resumeTaskId;
+      result = await taskJournalService.getFinishedCounts(taskId);
+    }
+
+    await taskJournalService.recordDirectories(taskId, createdDirectories);
+
+    const recordError = async (
+      file: string,
+      operation: PlannedOperation | null,
+      error: Error,
+    ): Promise<void> => {
+      log.error(`Error processing file ${file}:`, error);
+      result.errors++;
+      callbacks.onError?.(file, error);
+
+      await taskJournalService
+        .recordFile(taskId, {
+          sourcePath: file,
+          destinationPath: operation?.destinationPath,
+          action: operation?.action,
+          reason: operation?.reason,
+          conflictPath: operation?.conflictPath,
+          dateSource: operation?.dateSource,
+          status: 'error',
+          errorMessage: error.message,
+        })
+        .catch((journalError) => log.error('Failed to journal file error:', journalError));
+    };
+
+    const applyOperation = async (operation: PlannedOperation): Promise<void> => {
+      if (operation.conflictPath) {
+        log.info(
+          `Conflict for ${operation.sourcePath} with ${operation.conflictPath}: ${operation.reason}`,
+        );
+      }
+
+      let replacedPath: string | undefined;
+
+      if (operation.action !== 'skip') {
+        // Journaled before the transfer, so an interrupted run can put the replaced file back
+        replacedPath =
+          operation.overwrite && operation.destinationPath
+            ? this.getReplacedPath(operation.destinationPath, options, replacedDir)
+            : undefined;
+        await taskJournalService.markProcessing(taskId, { ...operation, replacedPath });
+
+        // Recorded right away so undo can clean them up even if the run is cut off
+        const created = await this.executeOperation(operation, options, backupDir, replacedPath);
+        await taskJournalService.recordDirectories(taskId, created);
+
+        // The file to replace may have gone since planning, then nothing was kept
+        if (replacedPath && !(await pathExists(replacedPath))) {
+          replacedPath = undefined;
+        }
+      }
+
+      await taskJournalService.recordFile(taskId, {
+        sourcePath: operation.sourcePath,
+        destinationPath: operation.destinationPath,
+        action: operation.action,
+        reason: operation.reason,
+        conflictPath: operation.conflictPath,
+        replacedPath,
+        dateSource: operation.dateSource,
+        status: operation.action === 'skip' ? 'skipped' : 'succeeded',
+      });
+
+      if (operation.action === 'skip') {
+        result.skipped++;
+      } else {
+        result.succeeded++;
+      }
+
+      // A duplicate is in the library already, so it counts as imported too
+      if (
+        run.imports &&
+        !operation.companionOf &&
+        (operation.action !== 'skip' || operation.reason === 'duplicate')
+      ) {
+        await run.imports
+          .remember(operation.sourcePath)
+          .catch((error) =>
+            log.error(`Failed to remember import of ${operation.sourcePath}:`, error),
+          );
+      }
+    };
+
+    // A cancelled run ends as a cancelled task, files it did not reach stay pending
+    const checkpoint = async (): Promise<void> => {
+      try {
+        await callbacks.checkpoint?.();
+      } catch (error) {
+        await taskJournalService.cancelTask(taskId);
+        throw error;
+      }
+    };
+
+    let processed = result.succeeded + result.skipped + result.errors;
+
+    for (const [index, group] of run.groups.entries()) {
+      await checkpoint();
+      await this.readAhead(run, index);
+
+      const groupFiles = [group.primary, ...group.companions];
+      processed += groupFiles.length;
+
+      callbacks.onProgress?.({
+        file: group.primary,
+        processed,
+        total: result.total,
+        percentage: Math.floor((processed / result.total) * 100),
+      });
+
+      let operations: PlannedOperation[];
+
+      try {
+        operations = await this.planGroup(group, options, run);
+      } catch (error) {
+        // Companions cannot be placed without their primary file
+        for (const file of groupFiles) {
+          await recordError(file, null, error as Error);
+        }
+        continue;
+      }
+
+      // The primary file comes first, its companions only follow when it made it
+      let primaryError: Error | null = null;
+
+      for (const operation of operations) {
+        if (primaryError) {
+          await recordError(
+            operation.sourcePath,
+            operation,
+            new Error(`Not transferred, ${group.primary} failed: ${primaryError.message}`),
+          );
+          continue;
+        }
+
+        try {
+          await applyOperation(operation);
+        } catch (error) {
+          await recordError(operation.sourcePath, operation, error as Error);
+          if (!operation.companionOf) {
+            primaryError = error as Error;
+          }
+        }
+      }
+    }
+
+    // Files of a resumed task that could not be picked up again, such as a sidecar whose
+    // primary file was organized before the interruption
+    if (resumeTaskId !== null) {
+      result.errors += await taskJournalService.failUnfinishedFiles(
+        taskId,
+        'Not organized when the interrupted task was resumed',
+      );
+    }
+
+    await taskJournalService.completeTask(taskId, result);
+
+    log.info(
+      `Organize complete: ${result.succeeded} succeeded, ${result.skipped} skipped, ${result.errors} errors`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Work out what an organize run would do without touching the disk
+   * @param options Organize options from the renderer
+   * @param callbacks Progress callback, called once per planned file
+   * @returns One planned operation per candidate file
+   */
+  public async plan(
+    options: OrganizeOptions,
+    callbacks: OrganizeCallbacks = {},
+  ): Promise<PlannedOperation[]> {
+    const files = await this.collectFiles(options);
+    const run = await this.prepareRun(files, options, false);
+    const total = this.countGroupFiles(run.groups);
+    const operations: PlannedOperation[] = [];
+
+    let processed = 0;
+
+    for (const [index, group] of run.groups.entries()) {
+      await callbacks.checkpoint?.();
+      await this.readAhead(run, index);
+      processed += 1 + group.companions.length;
+
+      callbacks.onProgress?.({
+        file: group.primary,
+        processed,
+        total,
+        percentage: Math.floor((processed / total) * 100),
+      });
+
+      try {
+        operations.push(...(await this.planGroup(group, options, run)));
+      } catch (error) {
+        log.error(`Error planning file ${group.primary}:`, error);
+        callbacks.onError?.(group.primary, error as Error);
+      }
+    }
+
+    return operations;
+  }
+
+  /**
+   * Get the list of candidate files for an organize run
+   */
+  private async collectFiles(options: OrganizeOptions): Promise<string[]> {
+    const fileTypes = options.filters?.fileTypes?.length
+      ? options.filters.fileTypes.map((type) => type.toLowerCase().replace(/^\./, ''))
+      : supportedFormats;
+
+    // Watch folders pass the files that appeared instead of the whole folder, the formats
+    // and scan rules still decide which of them a scan would have found
+    if (options.files) {
+      const filter = new ScanRuleFilter(options.sourcePath, options.scanRules);
+      const wanted = new Set(fileTypes);
+      const files: string[] = [];
+
+      for (const file of options.files) {
+        if ((await isWantedFile(file, wanted)) && !(await filter.isExcluded(file))) {
+          files.push(file);
+        }
+      }
+
+      return files;
+    }
+
+    try {
+      return await scanDirectoryForFiles(
+        options.sourcePath,
+        fileTypes,
+        options.recursive,
+        options.scanRules,
+      );
+    } catch (error) {
+      throw new Error(`Failed to scan directory: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Count the files of a run including companions
+   */
+  private countGroupFiles(groups: FileGroup[]): number {
+    return groups.reduce((count, group) => count + 1 + group.companions.length, 0);
+  }
+
+  /**
+   * Set up the shared state of a run. Files are grouped with their companions, and
+   * event clustering needs every file's capture time up front, so metadata is read
+   * here for Live Photo candidates and when the pattern uses %e.
+   * @param persist Store detected events; false for dry runs
+   */
+  private async prepareRun(
+    files: string[],
+    options: OrganizeOptions,
+    persist: boolean,
+  ): Promise<RunContext> {
+    const timeZone = options.timeZones?.override?.trim() || undefined;
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+
+    const run: RunContext = {
+      reserved: new Map<string, string>(),
+      metadata: new Map<string, FileMetadata>(),
+      dates: {
+        dateParsers: getFilenameDateParsers(options.filenameDates),
+        timeZone,
+        findTimeZone: options.timeZones?.inferFromGps
+          ? (position) => timeZoneLookupService.findTimeZone(position)
+          : undefined,
+      },
+      geoTagging: Boolean(options.geoTagging),
+      eventNames: new Map<string, string>(),
+      library: null,
+      imports: null,
+      rename: null,
+      groups: [],
+    };
+
+    // Metadata read here is kept for planning, errors are reported again at that point
+    const readMetadata = async (file: string): Promise<FileMetadata | null> => {
+      if (!run.metadata.has(file)) {
+        try {
+          run.metadata.set(file, await this.readMetadata(file, run));
+        } catch (error) {
+          log.warn(`Could not read metadata for ${file}:`, error);
+          return null;
+        }
+      }
+      return run.metadata.get(file)!;
+    };
+
+    run.groups = await groupCompanionFiles(files, readMetadata);
+
+    // Parsed up front so an invalid template fails the run before any file is touched.
+    // Normalizing the extension alone keeps the original name.
+    const renamePattern = options.options?.customRenamePattern?.trim();
+    const extensionCase = options.options?.renameExtensionCase || 'keep';
+    if (renamePattern || extensionCase !== 'keep') {
+      run.rename = {
+        template: parseRenameTemplate(renamePattern || '{name}'),
+        counters: sequenceCounterService.createSession(persist),
+      };
+    }
+
+    const rules = (options.rules || []).filter((rule) => rule.enabled);
+
+    if (options.options?.skipDuplicates) {
+      // Rules may route files outside the destination, those roots are part of the library too
+      run.library = await hashIndexService.createLibraryIndex(
+        options.destinationPath,
+        ...rules.map((rule) =>
+          routingRuleService.resolveDestination(rule, options.destinationPath),
+        ),
+      );
+    }
+
+    if (options.options?.incrementalImport) {
+      run.imports = await importMemoryService.createSession(
+        options.sourcePath,
+        options.options.importMatch,
+      );
+    }
+
+    if (![options.pattern, ...rules.map((rule) => rule.pattern)].some((p) => p.includes('%e'))) {
+      return run;
+    }
+
+    const candidates: EventCandidate[] = [];
+    await this.preloadMetadata(
+      run.groups.map((group) => group.primary),
+      run,
+    );
+
+    // Companions follow their primary file, so only primaries take part in clustering
+    for (const { primary } of run.groups) {
+      const metadata = await readMetadata(primary);
+
+      if (metadata && this.matchesFilters(metadata, options.filters)) {
+        candidates.push({ filePath: primary, metadata });
+      }
+    }
+
+    run.eventNames = await eventClusteringService.assignEvents(
+      candidates,
+      options.destinationPath,
+      options.events || { gapHours: 0 },
+      persist,
+    );
+
+    return run;
+  }
+
+  /**
+   * Read the metadata of a file, with the place it was taken at when geo tagging is on
+   */
+  private async readMetadata(filePath: string, run: RunContext): Promise<FileMetadata> {
+    return this.addLocation(await getFileMetadata(filePath, run.dates), run);
+  }
+
+  /**
+   * Read the metadata of files not read yet in one go, for exiftool to handle in batches.
+   * Files that cannot be read are left to the per-file read, which reports the error.
+   */
+  private async preloadMetadata(files: string[], run: RunContext): Promise<void> {
+    const missing = files.filter((file) => !run.metadata.has(file));
+
+    for (const [file, metadata] of await getFilesMetadata(missing, run.dates)) {
+      run.metadata.set(file, await this.addLocation(metadata, run));
+    }
+  }
+
+  /**
+   * Read the metadata of the next groups ahead when a run reaches the start of a batch
+   */
+  private async readAhead(run: RunContext, index: number): Promise<void> {
+    if (index % METADATA_BATCH_SIZE === 0) {
+      await this.preloadMetadata(
+        run.groups.slice(index, index + METADATA_BATCH_SIZE).map((group) => group.primary),
+        run,
+      );
+    }
+  }
+
+  private async addLocation(metadata: FileMetadata, run: RunContext): Promise<FileMetadata> {
+    const position = run.geoTagging ? getCoordinates(metadata) : null;
+
+    if (position) {
+      metadata.location = (await reverseGeocodingService.findLocation(position)) || undefined;
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Decide what to do with a file and its companions. Companions share the primary
+   * file's fate and destination folder, and are renamed along with it.
+   * @returns The primary file's operation followed by one per companion
+   */
+  private async planGroup(
+    group: FileGroup,
+    options: OrganizeOptions,
+    run: RunContext,
+  ): Promise<PlannedOperation[]> {
+    const operation = await this.planFile(group.primary, group.companions, options, run);
+    const companionPaths =
+      operation.action === 'skip' || !operation.destinationPath
+        ? null
+        : this.getCompanionPaths(
+            group.primary,
+            operation.destinationPath,
+            group.companions,
+            options,
+          );
+
+    const companions = group.companions.map((companion, index): PlannedOperation => ({
+      ...operation,
+      sourcePath: companion,
+      destinationPath: companionPaths ? companionPaths[index] : null,
+      conflictPath: undefined,
+      detectedExtension: undefined,
+      companionOf: group.primary,
+    }));
+
+    return [operation, ...companions];
+  }
+
+  /**
+   * Destinations of a file's companions when the file itself goes to targetPath
+   */
+  private getCompanionPaths(
+    filePath: string,
+    targetPath: string,
+    companions: string[],
+    options: OrganizeOptions,
+  ): string[] {
+    return companions.map((companion) =>
+      path.join(
+        path.dirname(targetPath),
+        getCompanionName(
+          path.basename(filePath),
+          path.basename(targetPath),
+          path.basename(companion),
+          options.options?.renameExtensionCase,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Decide what to do with a single file
+   * @param companions Files that must be placed next to this one
+   */
+  private async planFile(
+    filePath: string,
+    companions: string[],
+    options: OrganizeOptions,
+    run: RunContext,
+  ): Promise<PlannedOperation> {
+    const metadata = run.metadata.get(filePath) || (await this.readMetadata(filePath, run));
+    run.metadata.delete(filePath);
+
+    if (!this.matchesFilters(metadata, options.filters)) {
+      return { sourcePath: filePath, destinationPath: null, action: 'skip', reason: 'filtered' };
+    }
+
+    // Imported from the same volume before, even if it has since been removed from the library
+    if (run.imports && (await run.imports.isImported(filePath))) {
+      return {
+        sourcePath: filePath,
+        destinationPath: null,
+        action: 'skip',
+        reason: 'already-imported',
+      };
+    }
+
+    const rule = await routingRuleService.findMatchingRule(metadata, options.rules);
+    const operation = await this.planDestination(
+      filePath,
+      companions,
+      metadata,
+      options,
+      run,
+      rule,
+    );
+
+    const planned: PlannedOperation = {
+      ...operation,
+      dateSource: metadata.dateSource,
+      timeZone: metadata.timeZone,
+    };
+    if (metadata.detectedExtension) {
+      log.warn(
+        `Content of ${filePath} does not match its extension, it is .${metadata.detectedExtension}`,
+      );
+      planned.detectedExtension = metadata.detectedExtension;
+    }
+    return rule ? { ...planned, rule: rule.name } : planned;
+  }
+
+  /**
+   * Decide where a file that passed the filters goes
+   * @param rule Routing rule that matched the file, if any
+   */
+  private async planDestination(
+    filePath: string,
+    companions: string[],
+    metadata: FileMetadata,
+    options: OrganizeOptions,
+    run: RunContext,
+    rule: RoutingRule | null,
+  ): Promise<PlannedOperation> {
+    const targetDir = path.join(
+      rule
+        ? routingRuleService.resolveDestination(rule, options.destinationPath)
+        : options.destinationPath,
+      this.resolveTargetDirectory(metadata, options, rule, {
+        eventName: run.eventNames.get(filePath),
+      }),
+    );
+
+    // Byte-identical file already in the library. Checked before naming the file so
+    // skipped duplicates do not use up sequence numbers.
+    if (run.library) {
+      const duplicate = await run.library.findDuplicate(filePath, metadata.size);
+      if (duplicate) {
+        return {
+          sourcePath: filePath,
+          destinationPath: duplicate,
+          action: 'skip',
+          reason: 'duplicate',
+        };
+      }
+    }
+
+    let fileName = run.rename
+      ? await this.buildFileName(filePath, metadata, targetDir, options, run.rename)
+      : metadata.name;
+    if (options.options?.fixExtensions && metadata.detectedExtension) {
+      fileName = replaceExtension(fileName, metadata.detectedExtension);
+    }
+    const targetPath = path.join(targetDir, fileName);
+
+    // Already in place, nothing to do
+    if (path.resolve(targetPath) === path.resolve(filePath)) {
+      return {
+        sourcePath: filePath,
+        destinationPath: targetPath,
+        action: 'skip',
+        reason: 'already-in-place',
+      };
+    }
+
+    const operation = await this.resolveConflicts(
+      filePath,
+      targetPath,
+      companions,
+      options,
+      run.reserved,
+    );
+
+    // Later files in the same run are duplicates of this one once it is transferred
+    if (run.library && operation.action !== 'skip' && operation.destinationPath) {
+      run.library.add(metadata.size, operation.destinationPath, filePath);
+    }
+
+    return operation;
+  }
+
+  /**
+   * Render the file name template for a file, drawing sequence numbers and the content
+   * hash only when the template uses them
+   */
+  private async buildFileName(
+    filePath: string,
+    metadata: FileMetadata,
+    targetDir: string,
+    options: OrganizeOptions,
+    rename: NonNullable<RunContext['rename']>,
+  ): Promise<string> {
+    const { template, counters } = rename;
+    const values: RenameValues = {};
+
+    if (usesRenameToken(template, 'seq')) {
+      values.sequence = await counters.nextGlobal();
+    }
+
+    if (usesRenameToken(template, 'folderseq')) {
+      values.folderSequence = await counters.nextForFolder(targetDir);
+    }
+
+    if (usesRenameToken(template, 'hash')) {
+      values.hash = await hashIndexService.getHash(filePath);
+    }
+
+    return renderFileName(template, metadata, values, options.options?.renameExtensionCase);
+  }
+
+  /**
+   * Pick the final destination for a file according to the conflict strategy. A name
+   * only counts as free when the file's companions are free next to it too.
+   * @param companions Files that will be placed next to this one
+   * @param reserved Destinations already claimed earlier in the same run
+   */
+  private async resolveConflicts(
+    filePath: string,
+    targetPath: string,
+    companions: string[],
+    options: OrganizeOptions,
+    reserved: Map<string, string>,
+  ): Promise<PlannedOperation> {
+    const isPathTaken = async (candidate: string) =>
+      reserved.has(path.resolve(candidate)) || (await pathExists(candidate));
+    const companionPathsFor = (candidate: string) =>
+      this.getCompanionPaths(filePath, candidate, companions, options);
+
+    const isTaken = async (candidate: string) => {
+      for (const destination of [candidate, ...companionPathsFor(candidate)]) {
+        if (await isPathTaken(destination)) {
+          return true;
+        }
+      }
+      return false;
+    };
+    const claim = (destination: string) => {
+      reserved.set(path.resolve(destination), filePath);
+      companionPathsFor(destination).forEach((companionPath, index) =>
+        reserved.set(path.resolve(companionPath), companions[index]),
+      );
+    };
+
+    if (!(await isTaken(targetPath))) {
+      claim(targetPath);
+      return {
+        sourcePath: filePath,
+        destinationPath: targetPath,
+        action: options.operation,
+        reason: 'new',
+      };
+    }
+
+    const skip = (reason: PlanReason): PlannedOperation => ({
+      sourcePath: filePath,
+      destinationPath: targetPath,
+      action: 'skip',
+      reason,
+      conflictPath: targetPath,
+    });
+
+    const replace = (reason: PlanReason): PlannedOperation => {
+      claim(targetPath);
+      return {
+        sourcePath: filePath,
+        destinationPath: targetPath,
+        action: options.operation,
+        reason,
+        overwrite: true,
+        conflictPath: targetPath,
+      };
+    };
+
+    const rename = async (): Promise<PlannedOperation> => {
+      const renamedPath = await this.getAvailablePath(
+        targetPath,
+        isTaken,
+        options.conflictOptions?.renameTemplate,
+      );
+      claim(renamedPath);
+      return {
+        sourcePath: filePath,
+        destinationPath: renamedPath,
+        action: 'rename',
+        reason: 'conflict-renamed',
+        conflictPath: targetPath,
+      };
+    };
+
+    // Only a companion is in the way, there is no file to compare the primary with
+    const compareWithExisting = await isPathTaken(targetPath);
+
+    switch (options.conflicts) {
+      case 'skip':
+        return skip('conflict-skipped');
+      case 'overwrite':
+        return replace('conflict-overwritten');
+      case 'keep-larger': {
+        if (!compareWithExisting) {
+          return rename();
+        }
+        const [incoming, existing] = await this.statConflict(filePath, targetPath, reserved);
+        return incoming.size > existing.size
+          ? replace('conflict-larger')
+          : skip('conflict-smaller');
+      }
+      case 'keep-newer': {
+        if (!compareWithExisting) {
+          return rename();
+        }
+        const [incoming, existing] = await this.statConflict(filePath, targetPath, reserved);
+        return incoming.mtimeMs > existing.mtimeMs
+          ? replace('conflict-newer')
+          : skip('conflict-older');
+      }
+      case 'keep-both-if-different': {
+        if (!compareWithExisting) {
+          return rename();
+        }
+        const existingPath = await this.getExistingContentPath(targetPath, reserved);
+        const [incoming, existing] = await this.statConflict(filePath, targetPath, reserved);
+
+        // Different sizes cannot be identical, only hash when they match
+        const identical =
+          incoming.size === existing.size &&
+          (await hashIndexService.getHash(filePath)) ===
+            (await hashIndexService.getHash(existingPath));
+
+        return identical ? skip('conflict-identical') : rename();
+      }
+      case 'review-folder': {
+        const reviewPath = path.join(
+          this.getReviewDir(options),
+          path.relative(options.destinationPath, targetPath),
+        );
+        const destinationPath = (await isTaken(reviewPath))
+          ? await this.getAvailablePath(
+              reviewPath,
+              isTaken,
+              options.conflictOptions?.renameTemplate,
+            )
+          : reviewPath;
+
+        claim(destinationPath);
+        return {
+          sourcePath: filePath,
+          destinationPath,
+          action: options.operation,
+          reason: 'conflict-review',
+          conflictPath: targetPath,
+        };
+      }
+      case 'rename':
+      default:
+        return rename();
+    }
+  }
+
+  /**
+   * Stat an incoming file and the file it conflicts with
+   */
+  private async statConflict(
+    filePath: string,
+    targetPath: string,
+    reserved: Map<string, string>,
+  ): Promise<[Stats, Stats]> {
+    return Promise.all([
+      fs.stat(filePath),
+      fs.stat(await this.getExistingContentPath(targetPath, reserved)),
+    ]);
+  }
+
+  /**
+   * Where the content of a taken destination can be read. A destination claimed earlier
+   * in a dry run does not exist yet, so its source is used instead.
+   */
+  private async getExistingContentPath(
+    targetPath: string,
+    reserved: Map<string, string>,
+  ): Promise<string> {
+    if (await pathExists(targetPath)) {
+      return targetPath;
+    }
+
+    return reserved.get(path.resolve(targetPath)) || targetPath;
+  }
+
+  /**
+   * Folder that receives conflicting files for manual review
+   */
+  private getReviewDir(options: OrganizeOptions): string {
+    const folder = options.conflictOptions?.reviewFolder?.trim() || DEFAULT_REVIEW_FOLDER;
+    const reviewDir = path.resolve(options.destinationPath, folder);
+    const relative = path.relative(path.resolve(options.destinationPath), reviewDir);
+
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Review folder must be inside the destination: ${folder}`);
+    }
+
+    return reviewDir;
+  }
+
+  /**
+   * Work out what happened to a file whose transfer was cut off
+   * @returns Whether the file still needs to be organized
+   */
+  private async recheckTransfer(
+    taskId: number,
+    file: UnfinishedFile,
+    options: OrganizeOptions,
+  ): Promise<boolean> {
+    const { sourcePath, destinationPath } = file;
+    const entry = {
+      sourcePath,
+      destinationPath,
+      action: file.action || undefined,
+      reason: file.reason || undefined,
+      replacedPath: file.replacedPath || undefined,
+    };
+
+    // The library file was set aside, but the file meant to replace it never arrived
+    const restoreReplaced = async (): Promise<void> => {
+      if (destinationPath && file.replacedPath && (await pathExists(file.replacedPath))) {
+        log.info(`Restoring replaced file ${destinationPath}`);
+        await moveFile(file.replacedPath, destinationPath);
+      }
+    };
+
+    // A copy cut off before it was renamed into place leaves only its temporary file
+    if (destinationPath) {
+      await fs.rm(getPartialPath(destinationPath), { force: true });
+    }
+
+    const sourceStats = await fs.stat(sourcePath).catch(() => null);
+    const destinationStats = destinationPath
+      ? await fs.stat(destinationPath).catch(() => null)
+      : null;
+
+    // The transfer never started
+    if (!destinationPath || !destinationStats) {
+      await restoreReplaced();
+
+      if (sourceStats) {
+        await taskJournalService.markPending(taskId, sourcePath);
+        return true;
+      }
+
+      await taskJournalService.recordFile(taskId, {
+        ...entry,
+        status: 'error',
+        errorMessage: 'File disappeared while the task was interrupted',
+      });
+      return false;
+    }
+
+    // Renamed into place, or a copy and delete that got all the way through
+    if (!sourceStats) {
+      await taskJournalService.recordFile(taskId, { ...entry, status: 'succeeded' });
+      return false;
+    }
+
+    const complete =
+      sourceStats.size === destinationStats.size &&
+      (await hashIndexService.hashFile(sourcePath)) ===
+        (await hashIndexService.hashFile(destinationPath));
+
+    if (complete) {
+      // A move across filesystems was cut off between the copy and removing the source
+      if (options.operation === 'move') {
+        await fs.unlink(sourcePath);
+      }
+
+      await taskJournalService.recordFile(taskId, { ...entry, status: 'succeeded' });
+      return false;
+    }
+
+    // A partial copy, unless the destination is an existing file the transfer was replacing
+    // and that was not set aside first
+    const replacedKept = file.replacedPath !== null && (await pathExists(file.replacedPath));
+    if (replacedKept || !file.reason || !OVERWRITE_REASONS.includes(file.reason)) {
+      log.info(`Removing partial transfer ${destinationPath}`);
+      await fs.unlink(destinationPath);
+    }
+
+    await restoreReplaced();
+    await taskJournalService.markPending(taskId, sourcePath);
+    return true;
+  }
+
+  /**
+   * Carry out a planned move, copy or rename
+   * @param replacedPath Where to move the existing destination file before replacing it
+   * @returns Directories that had to be created for the destination
+   */
+  private async executeOperation(
+    operation: PlannedOperation,
+    options: OrganizeOptions,
+    backupDir: string | null,
+    replacedPath?: string,
+  ): Promise<string[]> {
+    const { sourcePath, destinationPath } = operation;
+    if (!destinationPath) {
+      return [];
+    }
+
+    const createdDirectories = await ensureDirectory(path.dirname(destinationPath));
+
+    if (backupDir) {
+      await this.backupFile(sourcePath, options.sourcePath, backupDir);
+    }
+
+    const setAside = replacedPath !== undefined && (await pathExists(destinationPath));
+    if (setAside) {
+      createdDirectories.push(...(await ensureDirectory(path.dirname(replacedPath))));
+      await moveFile(destinationPath, replacedPath);
+    }
+
+    const transfer = {
+      overwrite: operation.overwrite === true,
+      verify: options.options?.verifyCopies === true,
+    };
+    try {
+      if (options.operation === 'copy') {
+        await copyFilePreservingTimestamps(sourcePath, destinationPath, transfer);
+      } else {
+        await moveFile(sourcePath, destinationPath, transfer);
+      }
+    } catch (error) {
+      // A failed transfer leaves the library as it was
+      if (setAside) {
+        await moveFile(replacedPath, destinationPath, { overwrite: true });
+      }
+      throw error;
+    }
+
+    log.debug(
+      `${options.operation === 'move' ? 'Moved' : 'Copied'} ${sourcePath} -> ${destinationPath}`,
+    );
+
+    return createdDirectories;
+  }
+
+  /**
+   * Build the relative destination folder for a file
+   */
+  private resolveTargetDirectory(
+    metadata: FileMetadata,
+    options: OrganizeOptions,
+    rule: RoutingRule | null,
+    context: PatternContext,
+  ): string {
+    // A rule decides the whole folder layout of the files it matches
+    if (rule) {
+      return resolvePattern(rule.pattern.trim() || options.pattern, metadata, context);
+    }
+
+    const segments: string[] = [];
+
+    if (options.options?.organizeByType) {
+      segments.push(getTypeFolderName(metadata));
+    }
+
+    if (options.options?.organizeByCamera) {
+      segments.push(getCameraFolderName(metadata));
+    }
+
+    segments.push(resolvePattern(options.pattern, metadata, context));
+
+    return path.join(...segments.filter(Boolean));
+  }
+
+  /**
+   * Check a file against the date and size filters
+   */
+  private matchesFilters(metadata: FileMetadata, filters?: OrganizeFilters): boolean {
+    if (!filters) {
+      return true;
+    }
+
+    const sizeLimit = this.parseSizeLimit(filters.sizeLimit);
+    if (sizeLimit !== null && metadata.size > sizeLimit) {
+      return false;
+    }
+
+    if (filters.dateFrom || filters.dateTo) {
+      const date = getCaptureDate(metadata);
+      const day = [
+        date.getFullYear(),
+        (date.getMonth() + 1).toString().padStart(2, '0'),
+        date.getDate().toString().padStart(2, '0'),
+      ].join('-');
+
+      // ISO dates compare correctly as strings
+      if (filters.dateFrom && day < filters.dateFrom) {
+        return false;
+      }
+
+      if (filters.dateTo && day > filters.dateTo) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Parse a size limit such as "500MB" or "2 GB" into bytes. Plain numbers are megabytes.
+   */
+  private parseSizeLimit(sizeLimit?: string): number | null {
+    if (!sizeLimit || !sizeLimit.trim()) {
+      return null;
+    }
+
+    const match = sizeLimit.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/i);
+    if (!match) {
+      log.warn(`Ignoring invalid size limit: ${sizeLimit}`);
+      return null;
+    }
+
+    const unit = (match[2] || 'mb').toLowerCase();
+    return parseFloat(match[1]) * SIZE_UNITS[unit];
+  }
+
+  /**
+   * Find a free file name by numbering it with the rename template, "{name}_{n}" gives
+   * "photo_1.jpg", "photo_2.jpg", ...
+   */
+  private async getAvailablePath(
+    targetPath: string,
+    isTaken: (candidate: string) => Promise<boolean>,
+    template: string = DEFAULT_RENAME_TEMPLATE,
+  ): Promise<string> {
+    const dir = path.dirname(targetPath);
+    const ext = path.extname(targetPath);
+    const base = path.basename(targetPath, ext);
+
+    // Without a counter every candidate would be the same name
+    if (!template.includes('{n}')) {
+      log.warn(`Rename template "${template}" has no {n}, using ${DEFAULT_RENAME_TEMPLATE}`);
+      template = DEFAULT_RENAME_TEMPLATE;
+    }
+
+    const nameFor = (counter: number) =>
+      template
+        .replace(/\{name\}/g, base)
+        .replace(/\{n\}/g, counter.toString())
+        .replace(/[/\\]/g, '_') + ext;
+
+    let counter = 1;
+    let candidate = path.join(dir, nameFor(counter));
+
+    while (await isTaken(candidate)) {
+      counter++;
+      candidate = path.join(dir, nameFor(counter));
+    }
+
+    return candidate;
+  }
+
+  /**
+   * Directory that holds backups of moved originals for this run, if enabled
+   */
+  private getBackupDir(options: OrganizeOptions): string | null {
+    // Copies leave the original in place, so only moves need a backup
+    if (options.operation !== 'move' || !options.options?.createBackup) {
+      return null;
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return path.join(options.destinationPath, '.mediamaster', 'backup', timestamp);
+  }
+
+  /**
+   * Directory that keeps library files replaced by overwrite, keep-larger and keep-newer
+   * during this run, so undo can put them back. Undo empties it, removing the task from
+   * the history deletes it.
+   */
+  private getReplacedDir(options: OrganizeOptions): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return path.join(options.destinationPath, '.mediamaster', 'replaced', timestamp);
+  }
+
+  /**
+   * Where a replaced file is kept, mirroring its place in the destination so files from
+   * different folders cannot collide
+   */
+  private getReplacedPath(filePath: string, options: OrganizeOptions, replacedDir: string): string {
+    const absolute = path.resolve(filePath);
+    const relative = path.relative(path.resolve(options.destinationPath), absolute);
+
+    // Routing rules can send files outside the destination, those keep their full path
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return path.join(replacedDir, '_external', absolute.slice(path.parse(absolute).root.length));
+    }
+
+    return path.join(replacedDir, relative);
+  }
+
+  /**
+   * Copy a file into the backup directory, keeping its path relative to the source root
+   */
+  private async backupFile(filePath: string, sourceRoot: string, backupDir: string): Promise<void> {
+    const backupPath = path.join(backupDir, path.relative(sourceRoot, filePath));
+    await fs.mkdir(path.dirname(backupPath), { recursive: true });
+    await copyFilePreservingTimestamps(filePath, backupPath);
+  }
+}
+
+// Instance for global usage
+export const fileOrganizerService = new FileOrganizerService();
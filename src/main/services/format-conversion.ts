@@ -4,6 +4,9 @@ import * as fs from 'fs/promises';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import log from 'electron-log';
+import { OrganizeResult } from '@common/types';
+import { taskJournalService } from './task-journal';
+import { Checkpoint } from './job-manager';
 
 const execPromise = promisify(exec);
 
@@ -32,6 +35,34 @@ export interface ConversionOptions {
   maintainAspectRatio?: boolean;
 }
 
+/**
+ * Progress information for a batch conversion
+ */
+export interface ConversionProgress {
+  file: string;
+  processed: number;
+  total: number;
+  percentage: number;
+}
+
+/**
+ * Callbacks used to report batch conversion progress to the caller
+ */
+export interface ConversionCallbacks {
+  onProgress?: (progress: ConversionProgress) => void;
+  checkpoint?: Checkpoint; // Called before each file, lets a job pause or cancel the batch
+}
+
+/**
+ * Outcome of a batch conversion
+ */
+export interface ConversionBatchResult {
+  taskId: number;
+  converted: number;
+  failed: number;
+  targetPaths: string[];
+}
+
 /**
  * Maps quality settings to actual numerical values
  */
@@ -141,6 +172,148 @@ export class FormatConversionService {
     }
   }
 
+  /**
+   * Convert a batch of files next to their originals, journaled as a task so it can be
+   * resumed when the application quits midway
+   */
+  public async convertFiles(
+    filePaths: string[],
+    options: Partial<ConversionOptions>,
+    callbacks: ConversionCallbacks = {}
+  ): Promise<ConversionBatchResult> {
+    const taskId = await taskJournalService.createJobTask(
+      `Convert ${filePaths.length} files to ${options.targetFormat}`,
+      'conversion',
+      path.dirname(filePaths[0] || ''),
+      options
+    );
+    await taskJournalService.addPendingFiles(taskId, filePaths);
+
+    return this.runConversions(taskId, filePaths, options, {
+      taskId,
+      total: filePaths.length,
+      succeeded: 0,
+      skipped: 0,
+      errors: 0
+    }, callbacks);
+  }
+
+  /**
+   * Continue a batch conversion that was cut off. A file caught mid-conversion is converted
+   * again unless its original was already deleted after a finished conversion.
+   */
+  public async resumeConversions(
+    taskId: number,
+    callbacks: ConversionCallbacks = {}
+  ): Promise<ConversionBatchResult> {
+    const options = await taskJournalService.getTaskOptions<Partial<ConversionOptions>>(taskId);
+    const remaining: string[] = [];
+
+    for (const file of await taskJournalService.getUnfinishedFiles(taskId)) {
+      const targetPath = this.getTargetPath(file.sourcePath, options);
+      const sourceExists = await fs.access(file.sourcePath).then(() => true, () => false);
+
+      if (file.status === 'pending' || sourceExists) {
+        // Whatever a cut off conversion wrote is incomplete
+        if (file.status === 'processing') {
+          await fs.rm(targetPath, { force: true });
+          await taskJournalService.markPending(taskId, file.sourcePath);
+        }
+        remaining.push(file.sourcePath);
+      } else if (await fs.access(targetPath).then(() => true, () => false)) {
+        await taskJournalService.recordFile(taskId, {
+          sourcePath: file.sourcePath,
+          destinationPath: targetPath,
+          status: 'succeeded'
+        });
+      } else {
+        await taskJournalService.recordFile(taskId, {
+          sourcePath: file.sourcePath,
+          status: 'error',
+          errorMessage: 'File disappeared while the task was interrupted'
+        });
+      }
+    }
+
+    log.info(`Resuming conversion task ${taskId}, ${remaining.length} files left`);
+
+    const result = await taskJournalService.getFinishedCounts(taskId);
+    return this.runConversions(taskId, remaining, options, result, callbacks);
+  }
+
+  private async runConversions(
+    taskId: number,
+    filePaths: string[],
+    options: Partial<ConversionOptions>,
+    result: OrganizeResult,
+    callbacks: ConversionCallbacks
+  ): Promise<ConversionBatchResult> {
+    const batch: ConversionBatchResult = { taskId, converted: 0, failed: 0, targetPaths: [] };
+    let processed = 0;
+
+    for (const sourcePath of filePaths) {
+      try {
+        await callbacks.checkpoint?.();
+      } catch (error) {
+        await taskJournalService.cancelTask(taskId);
+        throw error;
+      }
+
+      const targetPath = this.getTargetPath(sourcePath, options);
+
+      try {
+        await taskJournalService.markProcessing(taskId, { sourcePath, destinationPath: targetPath });
+        await this.convertFile(sourcePath, targetPath, options);
+        await taskJournalService.recordFile(taskId, {
+          sourcePath,
+          destinationPath: targetPath,
+          status: 'succeeded'
+        });
+
+        batch.converted++;
+        batch.targetPaths.push(targetPath);
+        result.succeeded++;
+      } catch (error) {
+        log.error(`Failed to convert file ${sourcePath}:`, error);
+        batch.failed++;
+        result.errors++;
+
+        await taskJournalService
+          .recordFile(taskId, {
+            sourcePath,
+            status: 'error',
+            errorMessage: (error as Error).message
+          })
+          .catch((journalError) => log.error('Failed to journal conversion error:', journalError));
+      }
+
+      processed++;
+      callbacks.onProgress?.({
+        file: sourcePath,
+        processed,
+        total: filePaths.length,
+        percentage: Math.floor((processed / filePaths.length) * 100)
+      });
+    }
+
+    await taskJournalService.completeTask(
+      taskId,
+      result,
+      'completed',
+      `${result.succeeded} converted to ${options.targetFormat}, ${result.errors} failed`
+    );
+
+    return batch;
+  }
+
+  /**
+   * Path of a converted file: next to the original, with the target format's extension
+   */
+  private getTargetPath(sourcePath: string, options: Partial<ConversionOptions>): string {
+    const { dir, name } = path.parse(sourcePath);
+    return path.join(dir, `${name}.${options.targetFormat}`);
+  }
+
   /**
    * Convert an image file from one format to another
    */
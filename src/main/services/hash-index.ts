@@ -0,0 +1,353 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import log from 'electron-log';
+import { DuplicateGroup, IntegrityReport } from '@common/types';
+import { allAsync, getAsync, runAsync, runBatchAsync } from '@main/database';
+import { scanDirectoryForFiles, supportedFormats } from '@main/utils/media-files';
+import { FileHash } from '@main/utils/scan-pipeline';
+import { hashFile, pathExists } from '@main/utils/file-transfer';
+import { Checkpoint } from '@main/services/job-manager';
+
+/**
+ * Progress information while hashing a folder tree
+ */
+export interface HashProgress {
+  file: string;
+  processed: number;
+  total: number;
+  percentage: number;
+}
+
+/**
+ * A file known to be in the library. Until a planned transfer has happened its content
+ * is read from contentPath (the source), afterwards from path.
+ */
+interface LibraryEntry {
+  path: string;
+  contentPath: string;
+  hash?: string;
+}
+
+// Folder the organizer keeps backups in, never treated as part of the library
+const INTERNAL_FOLDER = '.mediamaster';
+
+// Paths looked up per query, well below SQLite's limit of bound parameters
+const LOOKUP_CHUNK_SIZE = 500;
+
+/**
+ * Files of a destination library grouped by size, so a candidate only needs to be
+ * hashed when the library has a file of exactly the same size
+ */
+export class LibraryIndex {
+  private readonly bySize = new Map<number, LibraryEntry[]>();
+
+  constructor(private readonly hashIndex: HashIndexService) {}
+
+  /**
+   * Register a file that is (or will be) part of the library
+   */
+  public add(size: number, filePath: string, contentPath: string = filePath): void {
+    const entries = this.bySize.get(size) || [];
+    entries.push({ path: filePath, contentPath });
+    this.bySize.set(size, entries);
+  }
+
+  /**
+   * Find a byte-identical copy of a file in the library
+   * @returns Path of the existing copy, or null if the file is new
+   */
+  public async findDuplicate(filePath: string, size: number): Promise<string | null> {
+    const entries = this.bySize.get(size);
+    if (!entries) {
+      return null;
+    }
+
+    const resolved = path.resolve(filePath);
+    const candidates = entries.filter(
+      (entry) =>
+        path.resolve(entry.path) !== resolved && path.resolve(entry.contentPath) !== resolved,
+    );
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const hash = await this.hashIndex.getHash(filePath);
+
+    for (const entry of candidates) {
+      if (!entry.hash) {
+        entry.hash = (await this.tryHash(entry.contentPath)) || (await this.tryHash(entry.path));
+        if (!entry.hash) {
+          continue;
+        }
+      }
+
+      if (entry.hash === hash) {
+        return entry.path;
+      }
+    }
+
+    return null;
+  }
+
+  private async tryHash(filePath: string): Promise<string | undefined> {
+    try {
+      return await this.hashIndex.getHash(filePath);
+    } catch {
+      // Expected for whichever of source and destination does not exist (yet)
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Persistent SHA-256 index of media files, keyed by path and invalidated by size and mtime
+ */
+export class HashIndexService {
+  /**
+   * Get the SHA-256 of a file, reusing the stored hash when the file is unchanged
+   */
+  public async getHash(filePath: string): Promise<string> {
+    const resolved = path.resolve(filePath);
+    const stats = await fs.stat(resolved);
+    const mtime = Math.floor(stats.mtimeMs);
+
+    const cached = await getAsync<{ sha256: string }>(
+      'SELECT sha256 FROM file_hashes WHERE path = ? AND size = ? AND mtime = ?',
+      [resolved, stats.size, mtime],
+    );
+    if (cached) {
+      return cached.sha256;
+    }
+
+    const hash = await this.hashFile(resolved);
+
+    await runAsync(
+      `INSERT OR REPLACE INTO file_hashes (path, size, mtime, sha256, updated_at)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [resolved, stats.size, mtime, hash],
+    );
+
+    return hash;
+  }
+
+  /**
+   * Stored hashes of files, for the scan worker to check against the files it finds
+   * @returns Index entries by file path as given, files without one are left out
+   */
+  public async getStoredHashes(filePaths: string[]): Promise<Record<string, FileHash>> {
+    const hashes: Record<string, FileHash> = {};
+
+    for (let start = 0; start < filePaths.length; start += LOOKUP_CHUNK_SIZE) {
+      const chunk = filePaths.slice(start, start + LOOKUP_CHUNK_SIZE);
+      const byResolved = new Map(chunk.map((filePath) => [path.resolve(filePath), filePath]));
+
+      const rows = await allAsync<FileHash & { path: string }>(
+        `SELECT path, size, mtime, sha256 FROM file_hashes
+         WHERE path IN (${chunk.map(() => '?').join(', ')})`,
+        [...byResolved.keys()],
+      );
+      for (const { path: resolved, size, mtime, sha256 } of rows) {
+        hashes[byResolved.get(resolved)!] = { size, mtime, sha256 };
+      }
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Store hashes computed elsewhere, such as by the scan worker
+   */
+  public async storeHashes(hashes: Record<string, FileHash>): Promise<void> {
+    const rows = Object.entries(hashes).map(([filePath, { size, mtime, sha256 }]) => [
+      path.resolve(filePath),
+      size,
+      mtime,
+      sha256,
+    ]);
+
+    if (rows.length > 0) {
+      await runBatchAsync(
+        `INSERT OR REPLACE INTO file_hashes (path, size, mtime, sha256, updated_at)
+         VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+        rows,
+      );
+    }
+  }
+
+  /**
+   * Compute the SHA-256 of a file without loading it into memory
+   */
+  public hashFile(filePath: string): Promise<string> {
+    return hashFile(filePath);
+  }
+
+  /**
+   * Index the media files already in one or more library folders by size
+   */
+  public async createLibraryIndex(...libraryPaths: string[]): Promise<LibraryIndex> {
+    const index = new LibraryIndex(this);
+    const roots = Array.from(new Set(libraryPaths.map((libraryPath) => path.resolve(libraryPath))));
+
+    for (const root of roots) {
+      // Folders inside another root are already covered by its scan
+      const nested = roots.some(
+        (other) => other !== root && !path.relative(other, root).startsWith('..'),
+      );
+
+      // A new destination has no library yet
+      if (nested || !(await pathExists(root))) {
+        continue;
+      }
+
+      for (const file of await this.scanLibrary(root, true)) {
+        try {
+          const stats = await fs.stat(file);
+          index.add(stats.size, file);
+        } catch (error) {
+          log.warn(`Could not stat library file ${file}:`, error);
+        }
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Find groups of byte-identical files in a folder tree
+   * @param onProgress Called once per hashed file
+   * @param checkpoint Called before each hashed file, lets a job pause or cancel the scan
+   */
+  public async findDuplicates(
+    dirPath: string,
+    recursive: boolean = true,
+    onProgress?: (progress: HashProgress) => void,
+    checkpoint?: Checkpoint,
+  ): Promise<DuplicateGroup[]> {
+    const files = await this.scanLibrary(dirPath, recursive);
+
+    // Only files sharing a size can be identical, skip hashing everything else
+    const bySize = new Map<number, string[]>();
+    for (const file of files) {
+      try {
+        const { size } = await fs.stat(file);
+        bySize.set(size, [...(bySize.get(size) || []), file]);
+      } catch (error) {
+        log.warn(`Could not stat ${file}:`, error);
+      }
+    }
+
+    const toHash = Array.from(bySize.entries()).filter(([, group]) => group.length > 1);
+    const total = toHash.reduce((sum, [, group]) => sum + group.length, 0);
+    const groups: DuplicateGroup[] = [];
+    let processed = 0;
+
+    for (const [size, sameSize] of toHash) {
+      const byHash = new Map<string, string[]>();
+
+      for (const file of sameSize) {
+        await checkpoint?.();
+        processed++;
+        onProgress?.({
+          file,
+          processed,
+          total,
+          percentage: Math.floor((processed / total) * 100),
+        });
+
+        try {
+          const hash = await this.getHash(file);
+          byHash.set(hash, [...(byHash.get(hash) || []), file]);
+        } catch (error) {
+          log.warn(`Could not hash ${file}:`, error);
+        }
+      }
+
+      for (const [hash, identical] of byHash) {
+        if (identical.length > 1) {
+          groups.push({ hash, size, files: identical.sort() });
+        }
+      }
+    }
+
+    // Largest wasted space first
+    groups.sort((a, b) => b.size * (b.files.length - 1) - a.size * (a.files.length - 1));
+
+    log.info(`Found ${groups.length} duplicate groups in ${dirPath}`);
+
+    return groups;
+  }
+
+  /**
+   * Re-hash a folder tree and compare with the stored hashes. A file whose content changed
+   * while its size and modification time stayed the same has silently decayed (bit rot).
+   * Files without a usable stored hash are indexed for the next check.
+   * @param onProgress Called once per file
+   * @param checkpoint Called before each file, to pause or cancel the check
+   */
+  public async verifyIntegrity(
+    dirPath: string,
+    recursive: boolean = true,
+    onProgress?: (progress: HashProgress) => void,
+    checkpoint?: Checkpoint,
+  ): Promise<IntegrityReport> {
+    const files = await this.scanLibrary(dirPath, recursive);
+    const report: IntegrityReport = { checked: 0, indexed: 0, corrupted: [] };
+
+    for (const [index, file] of files.entries()) {
+      await checkpoint?.();
+      onProgress?.({
+        file,
+        processed: index + 1,
+        total: files.length,
+        percentage: Math.floor(((index + 1) / files.length) * 100),
+      });
+
+      try {
+        const resolved = path.resolve(file);
+        const stats = await fs.stat(resolved);
+        const mtime = Math.floor(stats.mtimeMs);
+
+        const stored = await getAsync<{ sha256: string }>(
+          'SELECT sha256 FROM file_hashes WHERE path = ? AND size = ? AND mtime = ?',
+          [resolved, stats.size, mtime],
+        );
+
+        if (!stored) {
+          await this.getHash(resolved);
+          report.indexed++;
+          continue;
+        }
+
+        // The stored hash stays, so a corrupted file keeps being reported
+        report.checked++;
+        if ((await this.hashFile(resolved)) !== stored.sha256) {
+          log.warn(`Content of ${resolved} changed without a modification`);
+          report.corrupted.push(resolved);
+        }
+      } catch (error) {
+        log.warn(`Could not verify ${file}:`, error);
+      }
+    }
+
+    log.info(
+      `Integrity check of ${dirPath}: ${report.checked} checked, ${report.indexed} indexed, ` +
+        `${report.corrupted.length} corrupted`,
+    );
+
+    return report;
+  }
+
+  /**
+   * List media files in a folder tree, leaving out the organizer's own backups
+   */
+  private async scanLibrary(dirPath: string, recursive: boolean): Promise<string[]> {
+    const files = await scanDirectoryForFiles(dirPath, supportedFormats, recursive);
+
+    return files.filter(
+      (file) => !path.relative(dirPath, file).split(path.sep).includes(INTERNAL_FOLDER),
+    );
+  }
+}
+
+// Instance for global usage
+export const hashIndexService = new HashIndexService();
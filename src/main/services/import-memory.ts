@@ -0,0 +1,107 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import log from 'electron-log';
+import { ImportMatchMode } from '@common/types';
+import { allAsync, getAsync, runAsync } from '@main/database';
+import { hashFile } from '@main/utils/file-transfer';
+import { getVolumeId } from '@main/utils/volumes';
+
+/**
+ * Files imported earlier from one volume, for a single run
+ */
+export class ImportSession {
+  // Keys are worked out while planning, before a move takes the file off the volume
+  private readonly keys = new Map<string, string>();
+
+  constructor(
+    public readonly volumeId: string,
+    private readonly match: ImportMatchMode,
+    private readonly imported: Set<string>,
+  ) {}
+
+  /**
+   * Whether a file was imported from this volume before
+   */
+  public async isImported(filePath: string): Promise<boolean> {
+    return this.imported.has(await this.getKey(filePath));
+  }
+
+  /**
+   * Remember a file as imported from this volume
+   */
+  public async remember(filePath: string): Promise<void> {
+    const key = await this.getKey(filePath);
+    if (this.imported.has(key)) {
+      return;
+    }
+
+    await runAsync(
+      `INSERT OR IGNORE INTO imported_files (volume_id, match_key, source_path)
+       VALUES (?, ?, ?)`,
+      [this.volumeId, key, filePath],
+    );
+    this.imported.add(key);
+  }
+
+  private async getKey(filePath: string): Promise<string> {
+    let key = this.keys.get(filePath);
+
+    if (!key) {
+      if (this.match === 'hash') {
+        key = `hash:${await hashFile(filePath)}`;
+      } else {
+        // FAT keeps modification times in two-second steps, whole seconds are stable
+        const stats = await fs.stat(filePath);
+        key = `file:${path.basename(filePath)}|${stats.size}|${Math.floor(stats.mtimeMs / 1000)}`;
+      }
+      this.keys.set(filePath, key);
+    }
+
+    return key;
+  }
+}
+
+/**
+ * Remembers which files were imported from which volume, so importing a card again only
+ * brings in new shots, even after some were deleted from the library
+ */
+export class ImportMemoryService {
+  /**
+   * Load what was imported before from the volume a source folder is on
+   */
+  public async createSession(
+    sourcePath: string,
+    match: ImportMatchMode = 'name-size-date',
+  ): Promise<ImportSession> {
+    const volumeId = await getVolumeId(sourcePath);
+    const rows = await allAsync<{ match_key: string }>(
+      'SELECT match_key FROM imported_files WHERE volume_id = ?',
+      [volumeId],
+    );
+
+    log.info(`${rows.length} files imported before from volume ${volumeId}`);
+
+    return new ImportSession(volumeId, match, new Set(rows.map((row) => row.match_key)));
+  }
+
+  /**
+   * Forget the imports from the volume a folder is on, so its files are imported again
+   * @returns Number of files forgotten
+   */
+  public async forget(sourcePath: string): Promise<number> {
+    const volumeId = await getVolumeId(sourcePath);
+    const row = await getAsync<{ count: number }>(
+      'SELECT COUNT(*) AS count FROM imported_files WHERE volume_id = ?',
+      [volumeId],
+    );
+    const count = row?.count || 0;
+
+    await runAsync('DELETE FROM imported_files WHERE volume_id = ?', [volumeId]);
+    log.info(`Forgot ${count} imported files of volume ${volumeId}`);
+
+    return count;
+  }
+}
+
+// Instance for global usage
+export const importMemoryService = new ImportMemoryService();
@@ -0,0 +1,293 @@
+import log from 'electron-log';
+import { v4 as uuidv4 } from 'uuid';
+import { JobInfo, JobProgress, JobState, JobType } from '@common/types';
+
+/**
+ * Thrown from a checkpoint once its job is cancelled, so the work stops before the next file
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Called by long-running work between files. Waits while the job is paused and throws a
+ * JobCancelledError once it is cancelled.
+ */
+export type Checkpoint = () => Promise<void>;
+
+/**
+ * Handle a job's work uses to cooperate with the queue
+ */
+export interface JobContext {
+  id: string;
+  checkpoint: Checkpoint;
+  reportProgress: (progress: JobProgress) => void;
+}
+
+interface Job {
+  info: JobInfo;
+  work: (context: JobContext) => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  started: boolean;
+  cancelled: boolean;
+  wake: (() => void) | null; // Releases a checkpoint waiting while the job is paused
+}
+
+// Finished jobs kept for the jobs drawer, oldest are dropped first
+const MAX_FINISHED_JOBS = 50;
+
+// Progress is sent at most this often, state changes right away
+const PROGRESS_INTERVAL_MS = 250;
+
+const FINISHED_STATES: JobState[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Queue that runs batch work from every module on a shared pool of workers, so jobs can be
+ * paused, resumed and cancelled in one place and report progress on one stream
+ */
+export class JobManager {
+  private readonly jobs = new Map<string, Job>();
+  private concurrency = 1;
+  private active = 0;
+  private listener: ((jobs: JobInfo[]) => void) | null = null;
+  private notifyTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Queue work and wait for it to finish
+   * @param work Should call checkpoint between files and report its progress
+   * @returns What the work returns
+   * @throws JobCancelledError when the job is cancelled, or whatever the work throws
+   */
+  public run<T>(type: JobType, name: string, work: (job: JobContext) => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const job: Job = {
+        info: {
+          id: uuidv4(),
+          type,
+          name,
+          state: 'queued',
+          progress: { processed: 0, total: 0, percentage: 0 },
+          createdAt: new Date().toISOString(),
+        },
+        work,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        started: false,
+        cancelled: false,
+        wake: null,
+      };
+
+      this.jobs.set(job.info.id, job);
+      log.info(`Queued ${type} job ${job.info.id}: ${name}`);
+
+      this.notify(true);
+      this.startNext();
+    });
+  }
+
+  /**
+   * All jobs in the order they were queued
+   */
+  public list(): JobInfo[] {
+    return Array.from(this.jobs.values(), (job) => ({
+      ...job.info,
+      progress: { ...job.info.progress },
+    }));
+  }
+
+  public getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Change how many jobs run at the same time. Running jobs are not interrupted when the
+   * number goes down.
+   */
+  public setConcurrency(concurrency: number): void {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid number of parallel jobs: ${concurrency}`);
+    }
+
+    this.concurrency = concurrency;
+    this.startNext();
+  }
+
+  /**
+   * Hold a job. A queued job is not started, a running job stops at its next checkpoint and
+   * keeps its worker.
+   */
+  public pause(id: string): void {
+    const job = this.getJob(id);
+    if (job.info.state !== 'queued' && job.info.state !== 'running') {
+      throw new Error(`Job ${id} is ${job.info.state} and cannot be paused`);
+    }
+
+    job.info.state = 'paused';
+    log.info(`Paused job ${id}`);
+    this.notify(true);
+  }
+
+  public resume(id: string): void {
+    const job = this.getJob(id);
+    if (job.info.state !== 'paused') {
+      throw new Error(`Job ${id} is not paused`);
+    }
+
+    job.info.state = job.started ? 'running' : 'queued';
+    job.wake?.();
+    log.info(`Resumed job ${id}`);
+
+    this.notify(true);
+    this.startNext();
+  }
+
+  /**
+   * Cancel a job. A job that has not started is dropped, a running job stops at its next
+   * checkpoint.
+   */
+  public cancel(id: string): void {
+    const job = this.getJob(id);
+    if (FINISHED_STATES.includes(job.info.state)) {
+      throw new Error(`Job ${id} already finished`);
+    }
+
+    job.cancelled = true;
+    log.info(`Cancelling job ${id}`);
+
+    if (!job.started) {
+      this.finish(job, 'cancelled');
+      job.reject(new JobCancelledError());
+      return;
+    }
+
+    job.wake?.();
+  }
+
+  /**
+   * Forget finished jobs
+   */
+  public clearFinished(): void {
+    for (const [id, job] of this.jobs) {
+      if (FINISHED_STATES.includes(job.info.state)) {
+        this.jobs.delete(id);
+      }
+    }
+    this.notify(true);
+  }
+
+  /**
+   * Listen for changes to any job
+   */
+  public onUpdate(listener: ((jobs: JobInfo[]) => void) | null): void {
+    this.listener = listener;
+  }
+
+  private getJob(id: string): Job {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Job ${id} not found`);
+    }
+    return job;
+  }
+
+  private startNext(): void {
+    for (const job of this.jobs.values()) {
+      if (this.active >= this.concurrency) {
+        return;
+      }
+
+      if (job.info.state === 'queued' && !job.started) {
+        void this.execute(job);
+      }
+    }
+  }
+
+  private async execute(job: Job): Promise<void> {
+    this.active++;
+    job.started = true;
+    job.info.state = 'running';
+    job.info.startedAt = new Date().toISOString();
+    this.notify(true);
+
+    const context: JobContext = {
+      id: job.info.id,
+      checkpoint: () => this.checkpoint(job),
+      reportProgress: (progress) => {
+        job.info.progress = { ...progress };
+        this.notify(false);
+      },
+    };
+
+    try {
+      const value = await job.work(context);
+      this.finish(job, 'completed');
+      job.resolve(value);
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        this.finish(job, 'cancelled');
+      } else {
+        log.error(`Job ${job.info.id} failed:`, error);
+        job.info.error = (error as Error).message;
+        this.finish(job, 'failed');
+      }
+      job.reject(error as Error);
+    } finally {
+      this.active--;
+      this.startNext();
+    }
+  }
+
+  private async checkpoint(job: Job): Promise<void> {
+    while (job.info.state === 'paused' && !job.cancelled) {
+      await new Promise<void>((resolve) => {
+        job.wake = resolve;
+      });
+      job.wake = null;
+    }
+
+    if (job.cancelled) {
+      throw new JobCancelledError();
+    }
+  }
+
+  private finish(job: Job, state: JobState): void {
+    job.info.state = state;
+    job.info.finishedAt = new Date().toISOString();
+    log.info(`Job ${job.info.id} ${state}`);
+
+    const finished = Array.from(this.jobs.values()).filter((other) =>
+      FINISHED_STATES.includes(other.info.state),
+    );
+    for (const old of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(old.info.id);
+    }
+
+    this.notify(true);
+  }
+
+  /**
+   * Tell the listener about a change, batching progress updates
+   */
+  private notify(immediate: boolean): void {
+    if (immediate && this.notifyTimer) {
+      clearTimeout(this.notifyTimer);
+      this.notifyTimer = null;
+    }
+
+    if (immediate) {
+      this.listener?.(this.list());
+    } else if (!this.notifyTimer) {
+      this.notifyTimer = setTimeout(() => {
+        this.notifyTimer = null;
+        this.listener?.(this.list());
+      }, PROGRESS_INTERVAL_MS);
+    }
+  }
+}
+
+// Instance for global usage
+export const jobManager = new JobManager();
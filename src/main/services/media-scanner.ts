@@ -0,0 +1,99 @@
+import log from 'electron-log';
+import { ScanOptions, ScanProgress, ScanSummary } from '@common/types';
+import { scanDirectoryStream, supportedFormats } from '@main/utils/media-files';
+import { hashIndexService } from '@main/services/hash-index';
+
+/**
+ * Results of one batch, sent to the caller as soon as its stages are done
+ */
+export type MediaScanBatch = Omit<ScanProgress, 'scanId'>;
+
+/**
+ * Streams a folder tree through the scanning stages. The walk, metadata extraction and
+ * hashing run in a worker thread, which carries on walking while a batch is processed.
+ * Here only ExifTool is asked for the tags and the hash index is kept up to date.
+ */
+export class MediaScannerService {
+  /**
+   * Scan a folder tree
+   * @param onBatch Called with the files and results of every batch
+   * @param signal Stops the scan after the batch in progress
+   * @returns Totals of the scan, with cancelled set when the signal stopped it
+   * @throws When the folder itself cannot be read
+   */
+  public async scan(
+    dirPath: string,
+    options: ScanOptions,
+    onBatch: (batch: MediaScanBatch) => void,
+    signal?: AbortSignal,
+  ): Promise<ScanSummary> {
+    const {
+      recursive = false,
+      fileTypes = supportedFormats,
+      readMetadata = false,
+      computeHashes = false,
+    } = options;
+
+    const summary: ScanSummary = {
+      foldersScanned: 0,
+      filesFound: 0,
+      metadataRead: 0,
+      hashed: 0,
+      errors: 0,
+      cancelled: false,
+    };
+    let stageErrors = 0;
+
+    const batches = scanDirectoryStream(dirPath, {
+      fileTypes,
+      recursive,
+      rules: options.scanRules,
+      signal,
+      readMetadata,
+      getStoredHashes: computeHashes
+        ? (files) => hashIndexService.getStoredHashes(files)
+        : undefined,
+    });
+
+    for await (const { files, progress, metadata, hashes, hashed = 0 } of batches) {
+      // Into the hash index, so later duplicate checks only read changed files
+      if (hashes) {
+        await hashIndexService.storeHashes(hashes);
+      }
+
+      summary.foldersScanned = progress.foldersScanned;
+      summary.filesFound = progress.filesFound;
+      if (metadata) {
+        summary.metadataRead += Object.keys(metadata).length;
+        stageErrors += files.length - Object.keys(metadata).length;
+      }
+      summary.hashed += hashed;
+      if (hashes) {
+        stageErrors += files.length - hashed;
+      }
+      summary.errors = progress.errors + stageErrors;
+
+      onBatch({
+        ...progress,
+        errors: summary.errors,
+        files,
+        metadata,
+        metadataRead: summary.metadataRead,
+        hashed: summary.hashed,
+      });
+    }
+
+    summary.cancelled = Boolean(signal?.aborted);
+
+    log.info(
+      `Scan of ${dirPath}${summary.cancelled ? ' cancelled' : ''}: ${summary.filesFound} files in ` +
+        `${summary.foldersScanned} folders, ${summary.metadataRead} with metadata, ` +
+        `${summary.hashed} hashed, ${summary.errors} errors`,
+    );
+
+    return summary;
+  }
+}
+
+// Instance for global usage
+export const mediaScannerService = new MediaScannerService();
@@ -0,0 +1,358 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { promisify } from 'util';
+import { execFile } from 'child_process';
+import log from 'electron-log';
+import { Image } from 'image-js';
+import {
+  FileMetadata,
+  NearDuplicateFile,
+  NearDuplicateGroup,
+  NearDuplicateOptions,
+} from '@common/types';
+import { getAsync, runAsync } from '@main/database';
+import {
+  getFilesMetadata,
+  scanDirectoryForFiles,
+  supportedImageFormats,
+} from '@main/utils/media-files';
+import {
+  computeDHash,
+  computePHash,
+  downsample,
+  HASH_GRID_SIZE,
+  hammingDistance,
+  similarityPercent,
+} from '@main/utils/perceptual-hash';
+import { HashProgress } from '@main/services/hash-index';
+import { Checkpoint } from '@main/services/job-manager';
+
+const execFilePromise = promisify(execFile);
+
+// Formats image-js can decode without external tools
+const NATIVE_FORMATS = ['jpg', 'jpeg', 'png', 'tif', 'tiff'];
+
+const DEFAULT_THRESHOLD = 10;
+
+// EXIF fields that make a copy more complete, originals carry most of them
+const KEY_EXIF_FIELDS: (keyof FileMetadata)[] = [
+  'dateTimeOriginal',
+  'make',
+  'model',
+  'latitude',
+  'longitude',
+  'iso',
+  'exposureTime',
+  'fNumber',
+  'focalLength',
+];
+
+/**
+ * Perceptual hashes and dimensions of a single image
+ */
+interface Fingerprint {
+  path: string;
+  size: number;
+  dhash: string;
+  phash: string;
+  width: number | null;
+  height: number | null;
+}
+
+/**
+ * Finds resized, re-encoded or lightly edited copies of images using perceptual hashes
+ */
+export class NearDuplicateService {
+  private imagemagickAvailable: boolean | null = null;
+
+  /**
+   * Find groups of visually similar images in a folder tree
+   * @param onProgress Called once per fingerprinted image
+   * @param checkpoint Called before each image, lets a job pause or cancel the scan
+   */
+  public async findNearDuplicates(
+    dirPath: string,
+    options: NearDuplicateOptions = {},
+    onProgress?: (progress: HashProgress) => void,
+    checkpoint?: Checkpoint,
+  ): Promise<NearDuplicateGroup[]> {
+    const { recursive = true, threshold = DEFAULT_THRESHOLD } = options;
+    const files = await scanDirectoryForFiles(dirPath, supportedImageFormats, recursive);
+
+    const fingerprints: Fingerprint[] = [];
+    let processed = 0;
+
+    for (const file of files) {
+      await checkpoint?.();
+      processed++;
+      onProgress?.({
+        file,
+        processed,
+        total: files.length,
+        percentage: Math.floor((processed / files.length) * 100),
+      });
+
+      const fingerprint = await this.getFingerprint(file);
+      if (fingerprint) {
+        fingerprints.push(fingerprint);
+      }
+    }
+
+    const groups: NearDuplicateGroup[] = [];
+
+    for (const members of this.groupSimilar(fingerprints, threshold)) {
+      groups.push(await this.buildGroup(members.fingerprints, members.similarity));
+    }
+
+    groups.sort((a, b) => b.files.length - a.files.length || b.similarity - a.similarity);
+
+    log.info(
+      `Found ${groups.length} near-duplicate groups among ${fingerprints.length} images in ${dirPath}`,
+    );
+
+    return groups;
+  }
+
+  /**
+   * Link every pair of images within the threshold and return the connected groups
+   */
+  private groupSimilar(
+    fingerprints: Fingerprint[],
+    threshold: number,
+  ): { fingerprints: Fingerprint[]; similarity: number }[] {
+    const parent = fingerprints.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    // Lowest similarity of any link inside a group, keyed by root
+    const linkSimilarity = new Map<number, number>();
+
+    for (let i = 0; i < fingerprints.length; i++) {
+      for (let j = i + 1; j < fingerprints.length; j++) {
+        const distance = this.distance(fingerprints[i], fingerprints[j]);
+        if (distance > threshold) {
+          continue;
+        }
+
+        const rootI = find(i);
+        const rootJ = find(j);
+        const similarity = Math.min(
+          similarityPercent(distance),
+          linkSimilarity.get(rootI) ?? 100,
+          linkSimilarity.get(rootJ) ?? 100,
+        );
+
+        parent[rootJ] = rootI;
+        linkSimilarity.delete(rootJ);
+        linkSimilarity.set(rootI, similarity);
+      }
+    }
+
+    const members = new Map<number, Fingerprint[]>();
+    fingerprints.forEach((fingerprint, index) => {
+      const root = find(index);
+      members.set(root, [...(members.get(root) || []), fingerprint]);
+    });
+
+    return Array.from(members.entries())
+      .filter(([, group]) => group.length > 1)
+      .map(([root, group]) => ({
+        fingerprints: group,
+        similarity: linkSimilarity.get(root) ?? 100,
+      }));
+  }
+
+  /**
+   * Average differing bits of both hashes
+   */
+  private distance(a: Fingerprint, b: Fingerprint): number {
+    return (hammingDistance(a.dhash, b.dhash) + hammingDistance(a.phash, b.phash)) / 2;
+  }
+
+  /**
+   * Describe a group and suggest the copy to keep: highest resolution, then the most
+   * complete EXIF data, then the largest file
+   */
+  private async buildGroup(
+    fingerprints: Fingerprint[],
+    similarity: number,
+  ): Promise<NearDuplicateGroup> {
+    const files: NearDuplicateFile[] = [];
+    const byPath = new Map(fingerprints.map((fingerprint) => [fingerprint.path, fingerprint]));
+    const metadataByPath = await getFilesMetadata(
+      fingerprints.map((fingerprint) => fingerprint.path),
+    );
+
+    for (const fingerprint of fingerprints) {
+      const metadata = metadataByPath.get(fingerprint.path) || null;
+
+      files.push({
+        path: fingerprint.path,
+        size: fingerprint.size,
+        width: fingerprint.width ?? metadata?.width,
+        height: fingerprint.height ?? metadata?.height,
+        exifFields: metadata
+          ? KEY_EXIF_FIELDS.filter(
+              (field) => metadata![field] !== undefined && metadata![field] !== '',
+            ).length
+          : 0,
+        similarity: 100,
+      });
+    }
+
+    const pixels = (file: NearDuplicateFile) => (file.width || 0) * (file.height || 0);
+    files.sort((a, b) => pixels(b) - pixels(a) || b.exifFields - a.exifFields || b.size - a.size);
+
+    const best = files[0];
+    for (const file of files.slice(1)) {
+      file.similarity = similarityPercent(
+        this.distance(byPath.get(best.path)!, byPath.get(file.path)!),
+      );
+    }
+
+    return {
+      similarity,
+      bestPath: best.path,
+      files,
+    };
+  }
+
+  /**
+   * Get the perceptual hashes of an image, reusing stored hashes while the file is unchanged
+   * @returns null when the image cannot be decoded
+   */
+  private async getFingerprint(filePath: string): Promise<Fingerprint | null> {
+    try {
+      const resolved = path.resolve(filePath);
+      const stats = await fs.stat(resolved);
+      const mtime = Math.floor(stats.mtimeMs);
+
+      const cached = await getAsync<{
+        dhash: string;
+        phash: string;
+        width: number | null;
+        height: number | null;
+      }>(
+        `SELECT dhash, phash, width, height FROM perceptual_hashes
+         WHERE path = ? AND size = ? AND mtime = ?`,
+        [resolved, stats.size, mtime],
+      );
+      if (cached) {
+        return { path: filePath, size: stats.size, ...cached };
+      }
+
+      const decoded = await this.loadGreyGrid(resolved);
+      if (!decoded) {
+        return null;
+      }
+
+      const fingerprint: Fingerprint = {
+        path: filePath,
+        size: stats.size,
+        dhash: computeDHash(decoded.grid),
+        phash: computePHash(decoded.grid),
+        width: decoded.width,
+        height: decoded.height,
+      };
+
+      await runAsync(
+        `INSERT OR REPLACE INTO perceptual_hashes (path, size, mtime, dhash, phash, width, height, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+        [
+          resolved,
+          stats.size,
+          mtime,
+          fingerprint.dhash,
+          fingerprint.phash,
+          fingerprint.width,
+          fingerprint.height,
+        ],
+      );
+
+      return fingerprint;
+    } catch (error) {
+      log.warn(`Could not fingerprint ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Decode an image into a HASH_GRID_SIZE square greyscale grid. ImageMagick is used when
+   * installed since it handles HEIC, RAW and EXIF orientation; image-js covers the
+   * common formats otherwise.
+   */
+  private async loadGreyGrid(
+    filePath: string,
+  ): Promise<{ grid: ArrayLike<number>; width: number | null; height: number | null } | null> {
+    if (await this.isImageMagickAvailable()) {
+      const size = `${HASH_GRID_SIZE}x${HASH_GRID_SIZE}!`;
+      const { stdout } = await execFilePromise(
+        'convert',
+        [
+          `${filePath}[0]`,
+          '-auto-orient',
+          '-print',
+          '%w %h\\n',
+          '-colorspace',
+          'Gray',
+          '-resize',
+          size,
+          '-depth',
+          '8',
+          'gray:-',
+        ],
+        { encoding: 'buffer', maxBuffer: 1024 * 1024 },
+      );
+
+      // Dimensions come first on their own line, followed by the raw pixels
+      const newline = stdout.indexOf(0x0a);
+      const [width, height] = stdout.subarray(0, newline).toString().trim().split(' ').map(Number);
+      const grid = stdout.subarray(newline + 1);
+
+      if (grid.length !== HASH_GRID_SIZE * HASH_GRID_SIZE) {
+        throw new Error(`Unexpected ImageMagick output for ${filePath}`);
+      }
+
+      return { grid, width: width || null, height: height || null };
+    }
+
+    const extension = path.extname(filePath).slice(1).toLowerCase();
+    if (!NATIVE_FORMATS.includes(extension)) {
+      log.debug(`Skipping ${filePath}: ImageMagick is required for .${extension} files`);
+      return null;
+    }
+
+    const image = await Image.load(filePath);
+    const grey = image.grey();
+
+    return {
+      grid: downsample(grey.data, grey.width, grey.height, HASH_GRID_SIZE, HASH_GRID_SIZE),
+      width: image.width,
+      height: image.height,
+    };
+  }
+
+  private async isImageMagickAvailable(): Promise<boolean> {
+    if (this.imagemagickAvailable === null) {
+      try {
+        await execFilePromise('convert', ['-version']);
+        this.imagemagickAvailable = true;
+      } catch {
+        log.warn(
+          'ImageMagick not available, near-duplicate detection limited to JPEG, PNG and TIFF',
+        );
+        this.imagemagickAvailable = false;
+      }
+    }
+
+    return this.imagemagickAvailable;
+  }
+}
+
+// Instance for global usage
+export const nearDuplicateService = new NearDuplicateService();
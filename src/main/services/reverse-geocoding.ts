@@ -0,0 +1,155 @@
+import { app } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import log from 'electron-log';
+import { GeoLocation } from '@common/types';
+import {
+  BoundingBox,
+  Coordinates,
+  distanceKm,
+  getBoundingBox,
+  isInPolygons,
+  PointGrid,
+  Polygon,
+} from '@main/utils/geo';
+
+// Latitude, longitude, name, country code and region of a place, from the bundled dataset
+type Place = [number, number, string, string, string];
+
+const getPosition = ([latitude, longitude]: Place): Coordinates => ({ latitude, longitude });
+
+// Country code, name and outline of a first-level region, from the bundled dataset
+type RegionBoundary = [string, string, Polygon[]];
+
+interface Region {
+  countryCode: string;
+  name: string;
+  polygons: Polygon[];
+  box: BoundingBox;
+}
+
+interface PlaceDataset {
+  places: PointGrid<Place>;
+  regions: Region[];
+  countries: Record<string, string>; // Country names by ISO code
+}
+
+// Files taken further than this from the nearest place are not named after it
+const MAX_CITY_DISTANCE_KM = 50;
+
+/**
+ * Names the place a GPS position is in, offline. Country and region come from bundled
+ * region boundaries (Natural Earth admin-1, simplified to about 500 m), the city from
+ * the nearest place of that country among the bundled GeoNames places of 5000 or more
+ * people.
+ */
+export class ReverseGeocodingService {
+  private dataset: Promise<PlaceDataset> | null = null;
+  private readonly cache = new Map<string, GeoLocation | null>();
+
+  /**
+   * Place of a position
+   * @returns The country, region and city, or null for positions at sea
+   */
+  public async findLocation(position: Coordinates): Promise<GeoLocation | null> {
+    // Rounded to about a kilometer, files of one shoot share a lookup
+    const key = `${position.latitude.toFixed(2)},${position.longitude.toFixed(2)}`;
+    if (this.cache.has(key)) {
+      return this.cache.get(key)!;
+    }
+
+    const { places, regions, countries } = await this.loadDataset();
+    const region = regions.find((candidate) =>
+      isInPolygons(position, candidate.polygons, candidate.box),
+    );
+
+    // Beaches and boats just off the simplified coastline are in no region, the
+    // nearest city still tells where they were
+    const nearest = this.findNearestPlace(position, places, region?.countryCode);
+
+    let location: GeoLocation | null = null;
+    if (region) {
+      location = {
+        country: countries[region.countryCode] || region.countryCode,
+        countryCode: region.countryCode,
+        region: region.name,
+        city: nearest?.[2],
+      };
+    } else if (nearest) {
+      const [, , city, countryCode, placeRegion] = nearest;
+      location = {
+        country: countries[countryCode] || countryCode,
+        countryCode,
+        region: placeRegion,
+        city,
+      };
+    }
+
+    this.cache.set(key, location);
+    return location;
+  }
+
+  /**
+   * Nearest place within naming distance, only from the given country when one is known
+   * so that a file taken across a border river is not named after the city opposite
+   */
+  private findNearestPlace(
+    position: Coordinates,
+    places: PointGrid<Place>,
+    countryCode?: string,
+  ): Place | null {
+    let nearest: Place | null = null;
+    let nearestDistance = MAX_CITY_DISTANCE_KM;
+
+    for (const place of places.findNear(position, MAX_CITY_DISTANCE_KM)) {
+      if (countryCode && place[3] !== countryCode) {
+        continue;
+      }
+
+      const distance = distanceKm(position, { latitude: place[0], longitude: place[1] });
+      if (distance <= nearestDistance) {
+        nearest = place;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }
+
+  private loadDataset(): Promise<PlaceDataset> {
+    if (!this.dataset) {
+      const datasetDir = path.join(
+        app.isPackaged ? process.resourcesPath : path.join(app.getAppPath(), 'resources'),
+        'geo',
+      );
+
+      const readJson = async <T>(name: string): Promise<T> =>
+        JSON.parse(await fs.readFile(path.join(datasetDir, name), 'utf8')) as T;
+
+      this.dataset = Promise.all([
+        readJson<Place[]>('places.json'),
+        readJson<RegionBoundary[]>('regions.json'),
+        readJson<Record<string, string>>('countries.json'),
+      ])
+        .then(([places, boundaries, countries]) => ({
+          places: new PointGrid(places, getPosition),
+          regions: boundaries.map(([countryCode, name, polygons]) => ({
+            countryCode,
+            name,
+            polygons,
+            box: getBoundingBox(polygons),
+          })),
+          countries,
+        }))
+        .catch((error) => {
+          log.error(`Could not load place dataset ${datasetDir}:`, error);
+          return { places: new PointGrid([], getPosition), regions: [], countries: {} };
+        });
+    }
+
+    return this.dataset;
+  }
+}
+
+// Instance for global usage
+export const reverseGeocodingService = new ReverseGeocodingService();
@@ -0,0 +1,182 @@
+import * as path from 'path';
+import log from 'electron-log';
+import { FileMetadata, RoutingRule, RoutingRuleConditions } from '@common/types';
+import { getCaptureDate } from '@main/utils/file-metadata';
+import { getCoordinates } from '@main/utils/geo';
+import { aiCategorizationService } from '@main/services/ai-categorization';
+
+const MB = 1024 * 1024;
+
+/**
+ * Picks the routing rule for a file from an ordered rule list
+ */
+export class RoutingRuleService {
+  /**
+   * Find the first enabled rule whose conditions all match the file
+   * @returns The matching rule, or null when the run's own pattern applies
+   */
+  public async findMatchingRule(
+    metadata: FileMetadata,
+    rules: RoutingRule[] = [],
+  ): Promise<RoutingRule | null> {
+    for (const rule of rules) {
+      if (rule.enabled && (await this.matches(metadata, rule.conditions))) {
+        return rule;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Destination root of a rule, relative roots are resolved against the run's destination
+   */
+  public resolveDestination(rule: RoutingRule, destinationPath: string): string {
+    const destination = rule.destination.trim();
+    return destination ? path.resolve(destinationPath, destination) : destinationPath;
+  }
+
+  /**
+   * Check a file against every condition of a rule. The AI category is checked last
+   * since it may need to categorize the image.
+   */
+  private async matches(
+    metadata: FileMetadata,
+    conditions: RoutingRuleConditions,
+  ): Promise<boolean> {
+    const { types, nameContains, minSizeMb, maxSizeMb } = conditions;
+    const makes = this.cleanList(conditions.makes);
+    const models = this.cleanList(conditions.models);
+    const extensions = this.cleanList(conditions.extensions).map((extension) =>
+      extension.replace(/^\./, ''),
+    );
+    const categories = this.cleanList(conditions.categories);
+    const codecs = this.cleanList(conditions.codecs);
+
+    if (makes.length && !this.containsAny(metadata.make, makes)) {
+      return false;
+    }
+
+    if (models.length && !this.containsAny(metadata.model, models)) {
+      return false;
+    }
+
+    if (extensions.length && !extensions.includes(metadata.extension.toLowerCase())) {
+      return false;
+    }
+
+    if (types?.length && !types.includes(metadata.type as 'image' | 'video')) {
+      return false;
+    }
+
+    if (nameContains?.trim() && !this.containsAny(metadata.name, [nameContains.trim()])) {
+      return false;
+    }
+
+    if (minSizeMb && metadata.size < minSizeMb * MB) {
+      return false;
+    }
+
+    if (maxSizeMb && metadata.size > maxSizeMb * MB) {
+      return false;
+    }
+
+    if (conditions.dateFrom || conditions.dateTo) {
+      const date = getCaptureDate(metadata);
+      const day = [
+        date.getFullYear(),
+        (date.getMonth() + 1).toString().padStart(2, '0'),
+        date.getDate().toString().padStart(2, '0'),
+      ].join('-');
+
+      // ISO dates compare correctly as strings
+      if (
+        (conditions.dateFrom && day < conditions.dateFrom) ||
+        (conditions.dateTo && day > conditions.dateTo)
+      ) {
+        return false;
+      }
+    }
+
+    if (conditions.hasGps !== undefined) {
+      // Same notion of a GPS fix as the geotag tokens, 0,0 is no fix
+      const hasGps = getCoordinates(metadata) !== null;
+      if (hasGps !== conditions.hasGps) {
+        return false;
+      }
+    }
+
+    if (conditions.minResolution || conditions.maxResolution) {
+      if (!metadata.width || !metadata.height) {
+        return false;
+      }
+
+      // The shorter side, so 4K means the same for portrait and landscape clips
+      const resolution = Math.min(metadata.width, metadata.height);
+      if (
+        (conditions.minResolution && resolution < conditions.minResolution) ||
+        (conditions.maxResolution && resolution > conditions.maxResolution)
+      ) {
+        return false;
+      }
+    }
+
+    if (conditions.minDurationSec || conditions.maxDurationSec) {
+      const duration = metadata.video?.duration;
+      if (
+        duration === undefined ||
+        (conditions.minDurationSec && duration < conditions.minDurationSec) ||
+        (conditions.maxDurationSec && duration > conditions.maxDurationSec)
+      ) {
+        return false;
+      }
+    }
+
+    if (codecs.length && !codecs.includes((metadata.video?.codec || '').toLowerCase())) {
+      return false;
+    }
+
+    if (categories.length) {
+      return this.matchesCategory(metadata, categories);
+    }
+
+    return true;
+  }
+
+  /**
+   * Match the primary AI category or any tag of an image against the wanted categories
+   */
+  private async matchesCategory(metadata: FileMetadata, categories: string[]): Promise<boolean> {
+    if (metadata.type !== 'image') {
+      return false;
+    }
+
+    const result = await aiCategorizationService.categorizeImage(metadata.path);
+    if (result.error) {
+      log.warn(`Could not categorize ${metadata.path} for routing: ${result.error}`);
+      return false;
+    }
+
+    const found = [
+      result.primaryCategory,
+      ...result.tags.flatMap((tag) => [tag.category, tag.name]),
+    ].filter((value): value is string => Boolean(value));
+
+    return categories.some((category) => found.some((value) => value.toLowerCase() === category));
+  }
+
+  /**
+   * Trim and lowercase a condition list, dropping blank entries left by the editor
+   */
+  private cleanList(values?: string[]): string[] {
+    return (values || []).map((value) => value.trim().toLowerCase()).filter(Boolean);
+  }
+
+  private containsAny(value: string | undefined, needles: string[]): boolean {
+    const haystack = (value || '').toLowerCase();
+    return needles.some((needle) => haystack.includes(needle.toLowerCase()));
+  }
+}
+
+// Instance for global usage
+export const routingRuleService = new RoutingRuleService();
@@ -0,0 +1,579 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import log from 'electron-log';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  NewSchedule,
+  OrganizeResult,
+  Schedule,
+  ScheduledJob,
+  ScheduleTiming,
+  TaskStatus,
+} from '@common/types';
+import { allAsync, runAsync } from '@main/database';
+import { getNextCronTime, parseCron, timingToCron } from '@main/utils/cron';
+import { scanDirectoryForFiles, supportedFormats } from '@main/utils/media-files';
+import { ConfigManager } from '@main/services/config-manager';
+import { fileOrganizerService } from '@main/services/file-organizer';
+import { hashIndexService } from '@main/services/hash-index';
+import { cloudStorageService } from '@main/services/cloud-storage';
+import { JobCancelledError, JobContext, jobManager } from '@main/services/job-manager';
+import { taskJournalService } from '@main/services/task-journal';
+
+// How often due schedules are looked for
+const TICK_INTERVAL_MS = 30 * 1000;
+
+// Corrupted files listed by name in the summary of a bit-rot check
+const MAX_LISTED_FILES = 5;
+
+/**
+ * Callbacks used to report scheduled runs to the caller
+ */
+export interface SchedulerCallbacks {
+  onRunStart?: (schedule: Schedule) => void;
+  onRunComplete?: (schedule: Schedule) => void;
+}
+
+interface ScheduleRow {
+  id: string;
+  name: string;
+  job: string;
+  timing: string;
+  paused: number;
+  catch_up: number;
+  last_run_at: string | null;
+  last_status: TaskStatus | null;
+  last_task_id: number | null;
+  next_run_at: string | null;
+}
+
+/**
+ * Counters and a readable outcome of a job that does not organize files
+ */
+interface JobOutcome {
+  result: OrganizeResult;
+  summary: string;
+}
+
+/**
+ * Runs recurring jobs (organizing with a profile, duplicate scans, cloud uploads and
+ * bit-rot checks) and records every run in the task history
+ */
+export class SchedulerService {
+  private readonly schedules = new Map<string, Schedule>();
+  private readonly configManager = new ConfigManager();
+  private callbacks: SchedulerCallbacks = {};
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private enabled = false;
+
+  /**
+   * Load the persisted schedules and start checking for due runs. Runs missed while the
+   * application was closed happen once right away for schedules that catch up, as soon as
+   * scheduling is on.
+   */
+  public async start(callbacks: SchedulerCallbacks = {}): Promise<void> {
+    this.callbacks = callbacks;
+
+    const rows = await allAsync<ScheduleRow>(
+      `SELECT id, name, job, timing, paused, catch_up, last_run_at, last_status, last_task_id,
+              next_run_at
+       FROM schedules ORDER BY created_at`,
+    );
+
+    for (const row of rows) {
+      const schedule = this.fromRow(row);
+      this.schedules.set(schedule.id, schedule);
+    }
+
+    await this.skipMissedRuns();
+
+    log.info(`Loaded ${rows.length} schedules, scheduling is ${this.enabled ? 'on' : 'off'}`);
+
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+
+    // Catch up in the background instead of holding up startup
+    this.tick();
+  }
+
+  /**
+   * Turn scheduled runs on or off as a whole. Runs missed while off are handled like runs
+   * missed while the application was closed.
+   */
+  public async setEnabled(enabled: boolean): Promise<void> {
+    if (enabled === this.enabled) {
+      return;
+    }
+
+    this.enabled = enabled;
+    log.info(`Scheduling turned ${enabled ? 'on' : 'off'}`);
+
+    // Before start the schedules are not loaded yet, start catches up itself
+    if (enabled && this.timer) {
+      await this.skipMissedRuns();
+      this.tick();
+    }
+  }
+
+  /**
+   * Stop checking for due runs, used when the application quits
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * All schedules, next run first
+   */
+  public list(): Schedule[] {
+    return Array.from(this.schedules.values()).sort((a, b) =>
+      (a.nextRunAt || '~').localeCompare(b.nextRunAt || '~'),
+    );
+  }
+
+  /**
+   * Add a schedule
+   * @throws Error when the timing or job is invalid
+   */
+  public async create(input: NewSchedule): Promise<Schedule> {
+    const schedule: Schedule = {
+      id: uuidv4(),
+      name: input.name.trim(),
+      job: this.normalizeJob(input.job),
+      timing: input.timing,
+      paused: input.paused ?? false,
+      catchUp: input.catchUp ?? true,
+    };
+
+    await this.validate(schedule);
+
+    if (!schedule.paused) {
+      schedule.nextRunAt = this.getNextRun(schedule.timing, new Date()).toISOString();
+    }
+
+    await runAsync(
+      `INSERT INTO schedules (id, name, job, timing, paused, catch_up, next_run_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        schedule.id,
+        schedule.name,
+        JSON.stringify(schedule.job),
+        JSON.stringify(schedule.timing),
+        schedule.paused ? 1 : 0,
+        schedule.catchUp ? 1 : 0,
+        schedule.nextRunAt || null,
+      ],
+    );
+
+    this.schedules.set(schedule.id, schedule);
+    log.info(`Created schedule '${schedule.name}', next run at ${schedule.nextRunAt}`);
+
+    return schedule;
+  }
+
+  /**
+   * Pause or resume a schedule. A resumed schedule continues from now, without catching up
+   * on runs missed while it was paused.
+   */
+  public async setPaused(id: string, paused: boolean): Promise<Schedule> {
+    const schedule = this.getSchedule(id);
+
+    schedule.paused = paused;
+    schedule.nextRunAt = paused
+      ? undefined
+      : this.getNextRun(schedule.timing, new Date()).toISOString();
+
+    await runAsync('UPDATE schedules SET paused = ?, next_run_at = ? WHERE id = ?', [
+      paused ? 1 : 0,
+      schedule.nextRunAt || null,
+      id,
+    ]);
+
+    return schedule;
+  }
+
+  /**
+   * Forget a schedule. Tasks it already ran stay in the history.
+   */
+  public async remove(id: string): Promise<void> {
+    await runAsync('DELETE FROM schedules WHERE id = ?', [id]);
+    this.schedules.delete(id);
+  }
+
+  private getSchedule(id: string): Schedule {
+    const schedule = this.schedules.get(id);
+    if (!schedule) {
+      throw new Error(`Schedule ${id} not found`);
+    }
+    return schedule;
+  }
+
+  private fromRow(row: ScheduleRow): Schedule {
+    return {
+      id: row.id,
+      name: row.name,
+      job: JSON.parse(row.job),
+      timing: JSON.parse(row.timing),
+      paused: Boolean(row.paused),
+      catchUp: Boolean(row.catch_up),
+      lastRunAt: row.last_run_at || undefined,
+      lastStatus: row.last_status || undefined,
+      lastTaskId: row.last_task_id ?? undefined,
+      nextRunAt: row.next_run_at || undefined,
+    };
+  }
+
+  private normalizeJob(job: ScheduledJob): ScheduledJob {
+    if (job.kind === 'organize') {
+      return {
+        ...job,
+        sourcePath: path.resolve(job.sourcePath),
+        destinationPath: path.resolve(job.destinationPath),
+      };
+    }
+    return { ...job, path: path.resolve(job.path) };
+  }
+
+  private async validate(schedule: Schedule): Promise<void> {
+    if (!schedule.name) {
+      throw new Error('A schedule needs a name');
+    }
+
+    // Throws for malformed times and cron expressions
+    this.getNextRun(schedule.timing, new Date());
+
+    const { job } = schedule;
+    const folder = job.kind === 'organize' ? job.sourcePath : job.path;
+    const stats = await fs.stat(folder).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Folder does not exist: ${folder}`);
+    }
+
+    if (job.kind === 'organize') {
+      if (!job.profileName.trim()) {
+        throw new Error('An organize schedule needs a settings profile');
+      }
+      await this.configManager.loadOrganizeOptions(
+        job.profileName,
+        job.sourcePath,
+        job.destinationPath,
+      );
+    }
+  }
+
+  /**
+   * Move missed runs of schedules that do not catch up to their next due time, the others
+   * stay due and run once on the next tick
+   */
+  private async skipMissedRuns(): Promise<void> {
+    const now = new Date();
+
+    for (const schedule of this.schedules.values()) {
+      if (schedule.paused) {
+        continue;
+      }
+
+      const missed = !schedule.nextRunAt || new Date(schedule.nextRunAt) <= now;
+      if (missed && schedule.nextRunAt && schedule.catchUp) {
+        log.info(
+          `Schedule '${schedule.name}' missed its run at ${schedule.nextRunAt}, catching up`,
+        );
+      } else if (missed) {
+        await this.updateNextRun(schedule, now);
+      }
+    }
+  }
+
+  private getNextRun(timing: ScheduleTiming, after: Date): Date {
+    return getNextCronTime(parseCron(timingToCron(timing)), after);
+  }
+
+  private async updateNextRun(schedule: Schedule, after: Date): Promise<void> {
+    schedule.nextRunAt = this.getNextRun(schedule.timing, after).toISOString();
+    await runAsync('UPDATE schedules SET next_run_at = ? WHERE id = ?', [
+      schedule.nextRunAt,
+      schedule.id,
+    ]);
+  }
+
+  /**
+   * Run every due schedule, one at a time so jobs do not compete for the disk
+   */
+  private async tick(): Promise<void> {
+    if (this.running || !this.enabled) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const now = new Date();
+      const due = this.list().filter(
+        (schedule) => !schedule.paused && schedule.nextRunAt && new Date(schedule.nextRunAt) <= now,
+      );
+
+      for (const schedule of due) {
+        // Deleted or paused while an earlier job ran
+        if (this.schedules.get(schedule.id) === schedule && !schedule.paused) {
+          await this.run(schedule);
+        }
+      }
+    } catch (error) {
+      log.error('Error running schedules:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Run a schedule and move it on to its next run, whether or not the job got through
+   */
+  private async run(schedule: Schedule): Promise<void> {
+    const startedAt = new Date();
+    log.info(`Running schedule '${schedule.name}' (${schedule.job.kind})`);
+    this.callbacks.onRunStart?.(schedule);
+
+    let outcome: { taskId?: number; status: TaskStatus };
+    try {
+      outcome =
+        schedule.job.kind === 'organize' || schedule.job.kind === 'cloud-upload'
+          ? await this.runJournaledJob(schedule, schedule.job)
+          : await this.runJob(schedule);
+    } catch (error) {
+      // Not even the failure made it into the history
+      log.error(`Schedule '${schedule.name}' failed:`, error);
+      outcome = { status: 'error' };
+    }
+
+    schedule.lastRunAt = startedAt.toISOString();
+    schedule.lastStatus = outcome.status;
+    schedule.lastTaskId = outcome.taskId;
+    schedule.nextRunAt = this.getNextRun(schedule.timing, new Date()).toISOString();
+
+    try {
+      // Deleting the row of a schedule removed during the run is a no-op
+      await runAsync(
+        `UPDATE schedules SET last_run_at = ?, last_status = ?, last_task_id = ?, next_run_at = ?
+         WHERE id = ?`,
+        [
+          schedule.lastRunAt,
+          outcome.status,
+          outcome.taskId ?? null,
+          schedule.nextRunAt,
+          schedule.id,
+        ],
+      );
+    } catch (error) {
+      // The next run still moves on until the application restarts
+      log.error(`Could not save the run of schedule '${schedule.name}':`, error);
+    }
+
+    this.callbacks.onRunComplete?.(schedule);
+  }
+
+  /**
+   * Run a job whose service journals the task itself, file by file, so it can be resumed
+   */
+  private async runJournaledJob(
+    schedule: Schedule,
+    job: Extract<ScheduledJob, { kind: 'organize' | 'cloud-upload' }>,
+  ): Promise<{ taskId?: number; status: TaskStatus }> {
+    try {
+      const { taskId, errors } =
+        job.kind === 'organize'
+          ? await this.organize(job, schedule.name)
+          : await this.uploadToCloud(job, schedule);
+
+      await taskJournalService.linkSchedule(taskId, schedule.id);
+
+      // Failed uploads keep the next run from skipping their files as unchanged
+      return { taskId, status: job.kind === 'cloud-upload' && errors > 0 ? 'error' : 'completed' };
+    } catch (error) {
+      // The service ended its task as cancelled, if it got as far as starting one
+      if (error instanceof JobCancelledError) {
+        log.info(`Scheduled job '${schedule.name}' was cancelled`);
+        return { status: 'cancelled' };
+      }
+
+      // Failed before the service created its task, keep the failure in the history anyway
+      log.error(`Scheduled job '${schedule.name}' failed:`, error);
+
+      const taskId = await taskJournalService.createJobTask(
+        schedule.name,
+        job.kind,
+        job.kind === 'organize' ? job.sourcePath : job.path,
+        job,
+        schedule.id,
+      );
+      await this.failTask(taskId, error as Error);
+
+      return { taskId, status: 'error' };
+    }
+  }
+
+  /**
+   * Organize with the current settings of the profile
+   */
+  private async organize(
+    job: Extract<ScheduledJob, { kind: 'organize' }>,
+    name: string,
+  ): Promise<{ taskId: number; errors: number }> {
+    const options = await this.configManager.loadOrganizeOptions(
+      job.profileName,
+      job.sourcePath,
+      job.destinationPath,
+    );
+    const result = await jobManager.run('organize', name, (context) =>
+      fileOrganizerService.organize(options, {
+        onProgress: context.reportProgress,
+        checkpoint: context.checkpoint,
+      }),
+    );
+
+    return { taskId: result.taskId as number, errors: result.errors };
+  }
+
+  /**
+   * Run a job that does not organize files, journaled as a task with a summary
+   */
+  private async runJob(schedule: Schedule): Promise<{ taskId: number; status: TaskStatus }> {
+    const job = schedule.job as Extract<ScheduledJob, { kind: 'duplicate-scan' | 'bit-rot-check' }>;
+    const taskId = await taskJournalService.createJobTask(
+      schedule.name,
+      job.kind,
+      job.path,
+      job,
+      schedule.id,
+    );
+
+    try {
+      const outcome = await jobManager.run(job.kind, schedule.name, (context) =>
+        job.kind === 'duplicate-scan'
+          ? this.scanDuplicates(job.path, job.recursive, context)
+          : this.checkIntegrity(job.path, job.recursive, context),
+      );
+
+      const status: TaskStatus = outcome.result.errors > 0 ? 'error' : 'completed';
+      await taskJournalService.completeTask(taskId, outcome.result, status, outcome.summary);
+
+      return { taskId, status };
+    } catch (error) {
+      log.error(`Scheduled job '${schedule.name}' failed:`, error);
+
+      return { taskId, status: await this.failTask(taskId, error as Error) };
+    }
+  }
+
+  /**
+   * End a task that did not get through, as cancelled when its job was cancelled
+   * @returns Status the task ended with
+   */
+  private async failTask(taskId: number, error: Error): Promise<TaskStatus> {
+    const status: TaskStatus = error instanceof JobCancelledError ? 'cancelled' : 'error';
+
+    await taskJournalService.completeTask(
+      taskId,
+      { total: 0, succeeded: 0, skipped: 0, errors: 0 },
+      status,
+      error.message,
+    );
+
+    return status;
+  }
+
+  private async scanDuplicates(
+    dirPath: string,
+    recursive: boolean,
+    context: JobContext,
+  ): Promise<JobOutcome> {
+    let hashed = 0;
+    const groups = await hashIndexService.findDuplicates(
+      dirPath,
+      recursive,
+      (progress) => {
+        hashed = progress.total;
+        context.reportProgress(progress);
+      },
+      context.checkpoint,
+    );
+
+    const copies = groups.reduce((sum, group) => sum + group.files.length - 1, 0);
+    const wasted = groups.reduce((sum, group) => sum + group.size * (group.files.length - 1), 0);
+
+    return {
+      result: { total: hashed, succeeded: hashed, skipped: 0, errors: 0 },
+      summary:
+        `${groups.length} duplicate groups, ${copies} redundant copies using ` +
+        `${(wasted / 1024 ** 2).toFixed(1)} MB`,
+    };
+  }
+
+  /**
+   * Upload media changed since the last successful run, or everything on the first run
+   */
+  private async uploadToCloud(
+    job: Extract<ScheduledJob, { kind: 'cloud-upload' }>,
+    schedule: Schedule,
+  ): Promise<{ taskId: number; errors: number }> {
+    await cloudStorageService.initialize();
+
+    const since =
+      schedule.lastStatus === 'completed' && schedule.lastRunAt
+        ? new Date(schedule.lastRunAt).getTime()
+        : 0;
+    const changed: string[] = [];
+
+    for (const file of await scanDirectoryForFiles(job.path, supportedFormats, job.recursive)) {
+      const stats = await fs.stat(file).catch(() => null);
+      if (stats && stats.mtimeMs >= since) {
+        changed.push(file);
+      }
+    }
+
+    const { taskId, failed } = await jobManager.run('cloud-upload', schedule.name, (context) =>
+      cloudStorageService.uploadFiles(
+        job.provider,
+        changed,
+        { folderId: job.folderId },
+        { onProgress: context.reportProgress, checkpoint: context.checkpoint },
+      ),
+    );
+
+    return { taskId, errors: failed };
+  }
+
+  private async checkIntegrity(
+    dirPath: string,
+    recursive: boolean,
+    context: JobContext,
+  ): Promise<JobOutcome> {
+    const report = await hashIndexService.verifyIntegrity(
+      dirPath,
+      recursive,
+      context.reportProgress,
+      context.checkpoint,
+    );
+    const corrupted = report.corrupted.length;
+
+    let summary = `${report.checked} verified, ${report.indexed} newly indexed, ${corrupted} corrupted`;
+    if (corrupted > 0) {
+      const listed = report.corrupted.slice(0, MAX_LISTED_FILES).join(', ');
+      summary += `: ${listed}${corrupted > MAX_LISTED_FILES ? ', ...' : ''}`;
+    }
+
+    return {
+      result: {
+        total: report.checked + report.indexed,
+        succeeded: report.checked + report.indexed - corrupted,
+        skipped: 0,
+        errors: corrupted,
+      },
+      summary,
+    };
+  }
+}
+
+// Instance for global usage
+export const schedulerService = new SchedulerService();
@@ -0,0 +1,71 @@
+import * as path from 'path';
+import { getAsync, runAsync } from '@main/database';
+
+// Scope of the counter shared by all destinations
+const GLOBAL_SCOPE = 'global';
+
+/**
+ * Sequence counters of a single organize or plan run. Counters start from their stored
+ * value; a dry run counts in memory only so it shows the numbers a real run would use.
+ */
+export class SequenceSession {
+  private readonly values = new Map<string, number>();
+
+  constructor(private readonly persist: boolean) {}
+
+  /**
+   * Next value of the global counter
+   */
+  public nextGlobal(): Promise<number> {
+    return this.next(GLOBAL_SCOPE);
+  }
+
+  /**
+   * Next value of the counter of a destination folder
+   */
+  public nextForFolder(folderPath: string): Promise<number> {
+    return this.next(`folder:${path.resolve(folderPath)}`);
+  }
+
+  private async next(scope: string): Promise<number> {
+    let value = this.values.get(scope);
+
+    if (value === undefined) {
+      const stored = await getAsync<{ value: number }>(
+        'SELECT value FROM sequence_counters WHERE scope = ?',
+        [scope],
+      );
+      value = stored?.value ?? 0;
+    }
+
+    value++;
+    this.values.set(scope, value);
+
+    // Stored on every step so an interrupted run never hands out a number twice
+    if (this.persist) {
+      await runAsync(
+        `INSERT OR REPLACE INTO sequence_counters (scope, value, updated_at)
+         VALUES (?, ?, CURRENT_TIMESTAMP)`,
+        [scope, value],
+      );
+    }
+
+    return value;
+  }
+}
+
+/**
+ * Persistent counters for sequence numbers in file names
+ */
+export class SequenceCounterService {
+  /**
+   * Start counting for a run
+   * @param persist Store the new values; false for dry runs
+   */
+  public createSession(persist: boolean): SequenceSession {
+    return new SequenceSession(persist);
+  }
+}
+
+// Instance for global usage
+export const sequenceCounterService = new SequenceCounterService();
@@ -0,0 +1,783 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import log from 'electron-log';
+import {
+  DateSource,
+  FileProcessing,
+  FileStatus,
+  InterruptedTask,
+  OrganizeOptions,
+  OrganizeResult,
+  PlannedAction,
+  PlanReason,
+  Task,
+  TaskKind,
+  TaskListOptions,
+  TaskStatus,
+  UndoIssue,
+  UndoResult,
+} from '@common/types';
+import { allAsync, getAsync, insertAsync, runAsync, runBatchAsync } from '@main/database';
+import { moveFile, pathExists } from '@main/utils/file-transfer';
+
+/**
+ * A file entry to record in a task's journal
+ */
+export interface JournalFileEntry {
+  sourcePath: string;
+  destinationPath?: string | null;
+  action?: PlannedAction;
+  reason?: PlanReason; // Why the organizer chose the action, including conflict decisions
+  conflictPath?: string; // Existing file the destination conflicted with
+  replacedPath?: string; // Where the existing file was moved before it was replaced
+  dateSource?: DateSource; // Where the date used for the destination came from
+  status: FileStatus;
+  errorMessage?: string;
+}
+
+/**
+ * A file a task had not finished when it was interrupted
+ */
+export interface UnfinishedFile {
+  sourcePath: string;
+  destinationPath: string | null;
+  action: PlannedAction | null;
+  reason: PlanReason | null;
+  replacedPath: string | null;
+  status: 'pending' | 'processing'; // Processing files may have been transferred partly or fully
+}
+
+/**
+ * Raw row of the tasks table
+ */
+interface TaskRow {
+  id: number;
+  name: string;
+  status: TaskStatus;
+  source_path: string;
+  destination_path: string;
+  operation: 'move' | 'copy';
+  pattern: string;
+  options: string;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  total_files: number;
+  processed_files: number;
+  succeeded_files: number;
+  skipped_files: number;
+  error_files: number;
+  kind: TaskKind;
+  schedule_id: string | null;
+  summary: string | null;
+}
+
+/**
+ * Raw row of the files table shown in the task history
+ */
+interface FileRow {
+  id: number;
+  task_id: number;
+  source_path: string;
+  destination_path: string | null;
+  file_name: string;
+  extension: string;
+  size: number;
+  status: FileStatus;
+  error_message: string | null;
+  action: PlannedAction | null;
+  reason: PlanReason | null;
+  conflict_path: string | null;
+  date_source: DateSource | null;
+}
+
+// Folder in the destination where the organizer keeps backups and replaced files
+const INTERNAL_FOLDER = '.mediamaster';
+
+// Conflict decisions that replace an existing destination file
+export const OVERWRITE_REASONS: PlanReason[] = [
+  'conflict-overwritten',
+  'conflict-larger',
+  'conflict-newer',
+];
+
+// Tasks listed when the caller does not ask for a page size
+const DEFAULT_TASK_LIMIT = 100;
+
+/**
+ * SQLite stores CURRENT_TIMESTAMP as UTC without a zone marker
+ */
+const parseTimestamp = (value: string | null): Date | undefined =>
+  value ? new Date(`${value.replace(' ', 'T')}Z`) : undefined;
+
+/**
+ * Raw row of the files table used for undo
+ */
+interface JournalFileRow {
+  id: number;
+  source_path: string;
+  destination_path: string | null;
+  action: PlannedAction | null;
+  reason: PlanReason | null;
+  replaced_path: string | null;
+  destination_size: number | null;
+  destination_mtime: number | null;
+}
+
+/**
+ * Records every file an organize task touches so the task can be undone later
+ */
+export class TaskJournalService {
+  /**
+   * Create a task record for an organize run
+   * @returns The id of the new task
+   */
+  public async createTask(options: OrganizeOptions, totalFiles: number): Promise<number> {
+    const name = `Organize ${path.basename(options.sourcePath)} -> ${path.basename(options.destinationPath)}`;
+
+    return insertAsync(
+      `INSERT INTO tasks (name, status, source_path, destination_path, operation, pattern, options,
+                          started_at, total_files)
+       VALUES (?, 'running', ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, ?)`,
+      [
+        name,
+        options.sourcePath,
+        options.destinationPath,
+        options.operation,
+        options.pattern,
+        JSON.stringify(options),
+        totalFiles,
+      ],
+    );
+  }
+
+  /**
+   * Create a task record for a scheduled job that does not organize files
+   * @returns The id of the new task
+   */
+  public async createJobTask(
+    name: string,
+    kind: TaskKind,
+    sourcePath: string,
+    options: object,
+    scheduleId?: string,
+  ): Promise<number> {
+    return insertAsync(
+      `INSERT INTO tasks (name, status, source_path, destination_path, operation, pattern, options,
+                          started_at, kind, schedule_id)
+       VALUES (?, 'running', ?, '', '', '', ?, CURRENT_TIMESTAMP, ?, ?)`,
+      [name, sourcePath, JSON.stringify(options), kind, scheduleId || null],
+    );
+  }
+
+  /**
+   * Mark a task as started by a schedule
+   */
+  public async linkSchedule(taskId: number, scheduleId: string): Promise<void> {
+    await runAsync('UPDATE tasks SET schedule_id = ? WHERE id = ?', [scheduleId, taskId]);
+  }
+
+  /**
+   * Add the files a task is about to process in one transaction, so an interrupted task
+   * knows what is left
+   */
+  public async addPendingFiles(taskId: number, files: string[]): Promise<void> {
+    await runBatchAsync(
+      `INSERT INTO files (task_id, source_path, file_name, extension, size, status)
+       VALUES (?, ?, ?, ?, 0, 'pending')`,
+      files.map((file) => [
+        taskId,
+        file,
+        path.basename(file),
+        path.extname(file).slice(1).toLowerCase(),
+      ]),
+    );
+  }
+
+  /**
+   * Mark a file as being processed right before its transfer starts, so a crash leaves
+   * a trace of which destination may hold a partial file
+   */
+  public async markProcessing(
+    taskId: number,
+    entry: Omit<JournalFileEntry, 'status' | 'errorMessage'>,
+  ): Promise<void> {
+    await runAsync(
+      `UPDATE files
+       SET status = 'processing', destination_path = ?, action = ?, reason = ?, conflict_path = ?,
+           replaced_path = ?
+       WHERE task_id = ? AND source_path = ? AND status IN ('pending', 'processing')`,
+      [
+        entry.destinationPath || null,
+        entry.action || null,
+        entry.reason || null,
+        entry.conflictPath || null,
+        entry.replacedPath || null,
+        taskId,
+        entry.sourcePath,
+      ],
+    );
+  }
+
+  /**
+   * Put a file caught mid-processing back in the queue
+   */
+  public async markPending(taskId: number, sourcePath: string): Promise<void> {
+    await runAsync(
+      `UPDATE files SET status = 'pending', destination_path = NULL, replaced_path = NULL
+       WHERE task_id = ? AND source_path = ? AND status = 'processing'`,
+      [taskId, sourcePath],
+    );
+  }
+
+  /**
+   * Record the outcome for a single file, replacing its pending entry if it has one
+   */
+  public async recordFile(taskId: number, entry: JournalFileEntry): Promise<void> {
+    let size = 0;
+    let destinationSize: number | null = null;
+    let destinationMtime: number | null = null;
+
+    // Remember what the destination looked like so undo can detect later edits
+    if (entry.status === 'succeeded' && entry.destinationPath) {
+      const stats = await fs.stat(entry.destinationPath);
+      size = stats.size;
+      destinationSize = stats.size;
+      destinationMtime = Math.floor(stats.mtimeMs);
+    } else {
+      size = await fs
+        .stat(entry.sourcePath)
+        .then((stats) => stats.size)
+        .catch(() => 0);
+    }
+
+    const queued = await getAsync<{ id: number }>(
+      `SELECT id FROM files
+       WHERE task_id = ? AND source_path = ? AND status IN ('pending', 'processing')`,
+      [taskId, entry.sourcePath],
+    );
+
+    if (queued) {
+      await runAsync(
+        `UPDATE files
+         SET destination_path = ?, size = ?, status = ?, error_message = ?, action = ?, reason = ?,
+             conflict_path = ?, replaced_path = ?, date_source = ?, destination_size = ?,
+             destination_mtime = ?
+         WHERE id = ?`,
+        [
+          entry.destinationPath || null,
+          size,
+          entry.status,
+          entry.errorMessage || null,
+          entry.action || null,
+          entry.reason || null,
+          entry.conflictPath || null,
+          entry.replacedPath || null,
+          entry.dateSource || null,
+          destinationSize,
+          destinationMtime,
+          queued.id,
+        ],
+      );
+      return;
+    }
+
+    await runAsync(
+      `INSERT INTO files (task_id, source_path, destination_path, file_name, extension, size, status,
+                          error_message, action, reason, conflict_path, replaced_path,
+                          date_source, destination_size, destination_mtime)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        taskId,
+        entry.sourcePath,
+        entry.destinationPath || null,
+        path.basename(entry.sourcePath),
+        path.extname(entry.sourcePath).slice(1).toLowerCase(),
+        size,
+        entry.status,
+        entry.errorMessage || null,
+        entry.action || null,
+        entry.reason || null,
+        entry.conflictPath || null,
+        entry.replacedPath || null,
+        entry.dateSource || null,
+        destinationSize,
+        destinationMtime,
+      ],
+    );
+  }
+
+  /**
+   * Record directories a task created
+   */
+  public async recordDirectories(taskId: number, directories: string[]): Promise<void> {
+    for (const directory of directories) {
+      await runAsync('INSERT INTO task_directories (task_id, path) VALUES (?, ?)', [
+        taskId,
+        directory,
+      ]);
+    }
+  }
+
+  /**
+   * Store the final counters and status of a task
+   */
+  public async completeTask(
+    taskId: number,
+    result: OrganizeResult,
+    status: TaskStatus = 'completed',
+    summary?: string,
+  ): Promise<void> {
+    await runAsync(
+      `UPDATE tasks
+       SET status = ?, completed_at = CURRENT_TIMESTAMP, total_files = ?, processed_files = ?,
+           succeeded_files = ?, skipped_files = ?, error_files = ?, summary = ?
+       WHERE id = ?`,
+      [
+        status,
+        result.total,
+        result.succeeded + result.skipped + result.errors,
+        result.succeeded,
+        result.skipped,
+        result.errors,
+        summary || null,
+        taskId,
+      ],
+    );
+  }
+
+  /**
+   * Tasks still marked as running. Called on startup, when nothing can be running yet,
+   * so these were cut off by a quit or crash.
+   */
+  public async getInterruptedTasks(): Promise<InterruptedTask[]> {
+    const rows = await allAsync<{
+      id: number;
+      name: string;
+      kind: TaskKind;
+      started_at: string | null;
+      total_files: number;
+      remaining: number;
+    }>(
+      `SELECT tasks.id, tasks.name, tasks.kind, tasks.started_at, tasks.total_files,
+              COUNT(files.id) AS remaining
+       FROM tasks
+       LEFT JOIN files ON files.task_id = tasks.id AND files.status IN ('pending', 'processing')
+       WHERE tasks.status = 'running'
+       GROUP BY tasks.id
+       ORDER BY tasks.id`,
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      kind: row.kind,
+      startedAt: row.started_at || undefined,
+      totalFiles: row.total_files,
+      remainingFiles: row.remaining,
+    }));
+  }
+
+  /**
+   * Options a task was started with
+   */
+  public async getTaskOptions<T>(taskId: number): Promise<T> {
+    const task = await getAsync<{ options: string }>('SELECT options FROM tasks WHERE id = ?', [
+      taskId,
+    ]);
+
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+
+    return JSON.parse(task.options);
+  }
+
+  /**
+   * Files of a task that are still pending or were caught mid-processing, in journal order
+   */
+  public async getUnfinishedFiles(taskId: number): Promise<UnfinishedFile[]> {
+    const rows = await allAsync<{
+      source_path: string;
+      destination_path: string | null;
+      action: PlannedAction | null;
+      reason: PlanReason | null;
+      replaced_path: string | null;
+      status: 'pending' | 'processing';
+    }>(
+      `SELECT source_path, destination_path, action, reason, replaced_path, status
+       FROM files
+       WHERE task_id = ? AND status IN ('pending', 'processing')
+       ORDER BY id`,
+      [taskId],
+    );
+
+    return rows.map((row) => ({
+      sourcePath: row.source_path,
+      destinationPath: row.destination_path,
+      action: row.action,
+      reason: row.reason,
+      replacedPath: row.replaced_path,
+      status: row.status,
+    }));
+  }
+
+  /**
+   * Counters of the files a task already finished, for continuing its result on resume
+   */
+  public async getFinishedCounts(taskId: number): Promise<OrganizeResult> {
+    const task = await getAsync<{ total_files: number }>(
+      'SELECT total_files FROM tasks WHERE id = ?',
+      [taskId],
+    );
+    const counts = await allAsync<{ status: FileStatus; count: number }>(
+      'SELECT status, COUNT(*) AS count FROM files WHERE task_id = ? GROUP BY status',
+      [taskId],
+    );
+    const count = (status: FileStatus) => counts.find((row) => row.status === status)?.count || 0;
+
+    return {
+      taskId,
+      total: task?.total_files || 0,
+      succeeded: count('succeeded'),
+      skipped: count('skipped'),
+      errors: count('error'),
+    };
+  }
+
+  /**
+   * Mark every file of a task that is still pending or processing as failed
+   * @returns Number of files marked
+   */
+  public async failUnfinishedFiles(taskId: number, message: string): Promise<number> {
+    const unfinished = await this.getUnfinishedFiles(taskId);
+
+    await runAsync(
+      `UPDATE files SET status = 'error', error_message = ?
+       WHERE task_id = ? AND status IN ('pending', 'processing')`,
+      [message, taskId],
+    );
+
+    return unfinished.length;
+  }
+
+  /**
+   * Give up on an interrupted task. Files it finished stay recorded, so it can still be undone.
+   */
+  public async cancelTask(taskId: number): Promise<void> {
+    await this.completeTask(taskId, await this.getFinishedCounts(taskId), 'cancelled');
+  }
+
+  /**
+   * Past and running tasks, newest first
+   */
+  public async listTasks(options: TaskListOptions = {}): Promise<Task[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.kind) {
+      conditions.push('kind = ?');
+      params.push(options.kind);
+    }
+    if (options.status) {
+      conditions.push('status = ?');
+      params.push(options.status);
+    }
+
+    const rows = await allAsync<TaskRow>(
+      `SELECT * FROM tasks
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY id DESC
+       LIMIT ? OFFSET ?`,
+      [...params, options.limit ?? DEFAULT_TASK_LIMIT, options.offset ?? 0],
+    );
+
+    return rows.map((row) => this.fromTaskRow(row));
+  }
+
+  /**
+   * A single task
+   * @throws Error when the task does not exist
+   */
+  public async getTask(taskId: number): Promise<Task> {
+    const row = await getAsync<TaskRow>('SELECT * FROM tasks WHERE id = ?', [taskId]);
+    if (!row) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    return this.fromTaskRow(row);
+  }
+
+  /**
+   * Files a task recorded, in the order it processed them
+   * @param status Only files with this status, e.g. 'error' for the failures
+   */
+  public async getTaskFiles(taskId: number, status?: FileStatus): Promise<FileProcessing[]> {
+    const rows = await allAsync<FileRow>(
+      `SELECT id, task_id, source_path, destination_path, file_name, extension, size, status,
+              error_message, action, reason, conflict_path, date_source
+       FROM files
+       WHERE task_id = ? ${status ? 'AND status = ?' : ''}
+       ORDER BY id`,
+      status ? [taskId, status] : [taskId],
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      taskId: row.task_id,
+      sourcePath: row.source_path,
+      destinationPath: row.destination_path || undefined,
+      fileName: row.file_name,
+      extension: row.extension,
+      size: row.size,
+      status: row.status,
+      errorMessage: row.error_message || undefined,
+      action: row.action || undefined,
+      reason: row.reason || undefined,
+      conflictPath: row.conflict_path || undefined,
+      dateSource: row.date_source || undefined,
+    }));
+  }
+
+  /**
+   * Remove a task and its journal from the history. Organized files stay where they are, so
+   * the task can no longer be undone and the library files it replaced are deleted.
+   */
+  public async deleteTask(taskId: number): Promise<void> {
+    const task = await this.getTask(taskId);
+    if (task.status === 'running') {
+      throw new Error('Cannot delete a task that is still running');
+    }
+
+    await this.removeReplacedFiles(taskId);
+
+    await runAsync('DELETE FROM files WHERE task_id = ?', [taskId]);
+    await runAsync('DELETE FROM task_directories WHERE task_id = ?', [taskId]);
+    await runAsync('DELETE FROM tasks WHERE id = ?', [taskId]);
+
+    log.info(`Deleted task ${taskId} from the history`);
+  }
+
+  /**
+   * Revert an organize task: moved files go back to their source path, copies are removed,
+   * library files they replaced are put back, and directories the task created are deleted
+   * if they are empty. When files cannot be restored the task is left partially undone and
+   * can be undone again once the issues are dealt with.
+   */
+  public async undoTask(taskId: number): Promise<UndoResult> {
+    const task = await getAsync<{
+      id: number;
+      status: TaskStatus;
+      operation: 'move' | 'copy';
+      kind: TaskKind;
+    }>('SELECT id, status, operation, kind FROM tasks WHERE id = ?', [taskId]);
+
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+
+    if (task.kind !== 'organize') {
+      throw new Error('Only organize tasks can be undone');
+    }
+
+    if (task.status === 'running') {
+      throw new Error('Cannot undo a task that is still running');
+    }
+
+    if (task.status === 'undone') {
+      throw new Error('Task has already been undone');
+    }
+
+    // Walk the journal backwards so chains of renames unwind in order
+    const files = await allAsync<JournalFileRow>(
+      `SELECT id, source_path, destination_path, action, reason, replaced_path, destination_size,
+              destination_mtime
+       FROM files
+       WHERE task_id = ? AND status = 'succeeded'
+       ORDER BY id DESC`,
+      [taskId],
+    );
+
+    const result: UndoResult = { taskId, restored: 0, removedDirectories: 0, issues: [] };
+
+    for (const file of files) {
+      const issue = await this.undoFile(file, task.operation);
+
+      if (issue) {
+        result.issues.push(issue);
+        continue;
+      }
+
+      await runAsync(`UPDATE files SET status = 'undone' WHERE id = ?`, [file.id]);
+      result.restored++;
+    }
+
+    result.removedDirectories = await this.removeCreatedDirectories(taskId);
+
+    // Files that could not be restored stay succeeded, so undoing again retries only them
+    await runAsync(`UPDATE tasks SET status = ? WHERE id = ?`, [
+      result.issues.length === 0 ? 'undone' : 'partially-undone',
+      taskId,
+    ]);
+
+    log.info(
+      `Undo of task ${taskId}: ${result.restored} restored, ${result.issues.length} issues, ` +
+        `${result.removedDirectories} directories removed`,
+    );
+
+    return result;
+  }
+
+  private fromTaskRow(row: TaskRow): Task {
+    return {
+      id: row.id,
+      name: row.name,
+      status: row.status,
+      sourcePath: row.source_path,
+      destinationPath: row.destination_path,
+      operation: row.operation,
+      pattern: row.pattern,
+      options: JSON.parse(row.options || '{}'),
+      createdAt: parseTimestamp(row.created_at) as Date,
+      startedAt: parseTimestamp(row.started_at),
+      completedAt: parseTimestamp(row.completed_at),
+      totalFiles: row.total_files,
+      processedFiles: row.processed_files,
+      succeededFiles: row.succeeded_files,
+      skippedFiles: row.skipped_files,
+      errorFiles: row.error_files,
+      kind: row.kind,
+      scheduleId: row.schedule_id || undefined,
+      summary: row.summary || undefined,
+    };
+  }
+
+  /**
+   * Revert a single file
+   * @returns An issue when the file could not be restored
+   */
+  private async undoFile(
+    file: JournalFileRow,
+    operation: 'move' | 'copy',
+  ): Promise<UndoIssue | null> {
+    if (!file.destination_path) {
+      return null;
+    }
+
+    try {
+      // Runs from before replaced files were kept have nothing to put back, undoing those
+      // would leave a gap in the library
+      if (file.reason && OVERWRITE_REASONS.includes(file.reason) && !file.replaced_path) {
+        return { path: file.destination_path, reason: 'overwritten' };
+      }
+
+      if (file.replaced_path && !(await pathExists(file.replaced_path))) {
+        return { path: file.replaced_path, reason: 'missing' };
+      }
+
+      const stats = await fs.stat(file.destination_path).catch(() => null);
+
+      if (!stats) {
+        return { path: file.destination_path, reason: 'missing' };
+      }
+
+      if (
+        (file.destination_size !== null && stats.size !== file.destination_size) ||
+        (file.destination_mtime !== null && Math.floor(stats.mtimeMs) !== file.destination_mtime)
+      ) {
+        return { path: file.destination_path, reason: 'modified' };
+      }
+
+      if (operation === 'copy') {
+        // The original is still at the source, removing the copy is enough
+        await fs.unlink(file.destination_path);
+      } else {
+        if (await pathExists(file.source_path)) {
+          return { path: file.source_path, reason: 'source-exists' };
+        }
+
+        await fs.mkdir(path.dirname(file.source_path), { recursive: true });
+        await moveFile(file.destination_path, file.source_path);
+      }
+
+      if (file.replaced_path) {
+        await moveFile(file.replaced_path, file.destination_path);
+      }
+
+      return null;
+    } catch (error) {
+      log.error(`Error undoing ${file.destination_path}:`, error);
+      return {
+        path: file.destination_path,
+        reason: 'error',
+        message: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Delete the library files a task set aside in .mediamaster/replaced, and the folders that
+   * held them once they are empty
+   */
+  private async removeReplacedFiles(taskId: number): Promise<void> {
+    const files = await allAsync<{ replaced_path: string }>(
+      'SELECT replaced_path FROM files WHERE task_id = ? AND replaced_path IS NOT NULL',
+      [taskId],
+    );
+
+    for (const file of files) {
+      try {
+        await fs.rm(file.replaced_path, { force: true });
+
+        // Only folders inside .mediamaster are cleaned up, never the library itself
+        let directory = path.dirname(file.replaced_path);
+        while (directory.split(path.sep).includes(INTERNAL_FOLDER)) {
+          await fs.rmdir(directory);
+          directory = path.dirname(directory);
+        }
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code !== 'ENOTEMPTY' && code !== 'EEXIST' && code !== 'ENOENT') {
+          log.warn(`Could not remove replaced file ${file.replaced_path}:`, error);
+        }
+      }
+    }
+
+    if (files.length > 0) {
+      log.info(`Deleted the files task ${taskId} replaced`);
+    }
+  }
+
+  /**
+   * Remove directories created by a task, deepest first, keeping any that are not empty
+   * @returns Number of directories removed
+   */
+  private async removeCreatedDirectories(taskId: number): Promise<number> {
+    const directories = await allAsync<{ path: string }>(
+      'SELECT path FROM task_directories WHERE task_id = ?',
+      [taskId],
+    );
+
+    const sorted = directories
+      .map((directory) => directory.path)
+      .sort((a, b) => b.split(path.sep).length - a.split(path.sep).length);
+
+    let removed = 0;
+
+    for (const directory of sorted) {
+      try {
+        await fs.rmdir(directory);
+        removed++;
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code !== 'ENOTEMPTY' && code !== 'EEXIST' && code !== 'ENOENT') {
+          log.warn(`Could not remove directory ${directory}:`, error);
+        }
+      }
+    }
+
+    return removed;
+  }
+}
+
+// Instance for global usage
+export const taskJournalService = new TaskJournalService();
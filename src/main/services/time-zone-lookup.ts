@@ -0,0 +1,117 @@
+import { app } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import log from 'electron-log';
+import {
+  BoundingBox,
+  Coordinates,
+  distanceKm,
+  getBoundingBox,
+  isInPolygons,
+  Polygon,
+} from '@main/utils/geo';
+import { getNauticalTimeZone } from '@main/utils/time-zones';
+
+// Latitude, longitude and IANA zone of a place, from the bundled dataset
+type ReferencePoint = [number, number, string];
+
+// IANA zone and its outline, from the bundled dataset
+type ZoneBoundary = [string, Polygon[]];
+
+interface Zone {
+  name: string;
+  polygons: Polygon[];
+  box: BoundingBox;
+}
+
+interface ZoneDataset {
+  zones: Zone[];
+  points: ReferencePoint[];
+}
+
+// Beyond this distance from every known place a position is taken to be at sea
+const MAX_LAND_DISTANCE_KM = 800;
+
+/**
+ * Finds the time zone of a GPS position offline, from bundled zone boundaries
+ * (timezone-boundary-builder, simplified to about 500 m). They reach out to territorial
+ * waters; further out the zone of the nearest known place is used, or the nautical zone
+ * on the open sea.
+ */
+export class TimeZoneLookupService {
+  private dataset: Promise<ZoneDataset> | null = null;
+  private readonly cache = new Map<string, string>();
+
+  /**
+   * Time zone of a position
+   * @returns An IANA zone name, or a fixed Etc zone for positions at sea
+   */
+  public async findTimeZone(position: Coordinates): Promise<string> {
+    // Rounded to about a kilometer, files of one shoot share a lookup
+    const key = `${position.latitude.toFixed(2)},${position.longitude.toFixed(2)}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const { zones, points } = await this.loadDataset();
+    const zone =
+      zones.find((candidate) => isInPolygons(position, candidate.polygons, candidate.box))?.name ||
+      this.findNearestZone(position, points);
+
+    this.cache.set(key, zone);
+    return zone;
+  }
+
+  // Zone of the nearest known place, or the nautical zone far out at sea
+  private findNearestZone(position: Coordinates, points: ReferencePoint[]): string {
+    let nearest: ReferencePoint | null = null;
+    let nearestDistance = Infinity;
+
+    for (const point of points) {
+      const distance = distanceKm(position, { latitude: point[0], longitude: point[1] });
+      if (distance < nearestDistance) {
+        nearest = point;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest && nearestDistance <= MAX_LAND_DISTANCE_KM
+      ? nearest[2]
+      : getNauticalTimeZone(position.longitude);
+  }
+
+  private loadDataset(): Promise<ZoneDataset> {
+    if (!this.dataset) {
+      const datasetDir = path.join(
+        app.isPackaged ? process.resourcesPath : path.join(app.getAppPath(), 'resources'),
+        'timezones',
+      );
+
+      const readJson = async <T>(name: string): Promise<T> =>
+        JSON.parse(await fs.readFile(path.join(datasetDir, name), 'utf8')) as T;
+
+      this.dataset = Promise.all([
+        readJson<ZoneBoundary[]>('zones.json'),
+        readJson<ReferencePoint[]>('reference-points.json'),
+      ])
+        .then(([boundaries, points]) => ({
+          zones: boundaries.map(([name, polygons]) => ({
+            name,
+            polygons,
+            box: getBoundingBox(polygons),
+          })),
+          points,
+        }))
+        .catch((error) => {
+          log.error(`Could not load time zone dataset ${datasetDir}:`, error);
+          return { zones: [], points: [] };
+        });
+    }
+
+    return this.dataset;
+  }
+}
+
+// Instance for global usage
+export const timeZoneLookupService = new TimeZoneLookupService();
@@ -0,0 +1,112 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import log from 'electron-log';
+import { DetectedVolume } from '@common/types';
+import { getMountVolumeId, listMounts } from '@main/utils/volumes';
+
+// How often the mount table is checked for new volumes
+const POLL_INTERVAL_MS = 3000;
+
+// Where desktop environments mount removable media
+const REMOVABLE_ROOTS = ['/media/', '/run/media/'];
+
+const DCIM_FOLDER = 'DCIM';
+
+/**
+ * Notices memory cards and cameras as they are mounted, by the DCIM folder they all have
+ */
+export class VolumeMonitorService {
+  private readonly mounted = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  /**
+   * Start watching for new volumes. Volumes mounted before the start are not reported.
+   * Only Linux is supported.
+   */
+  public async start(onMounted: (volume: DetectedVolume) => void): Promise<void> {
+    if (process.platform !== 'linux' || this.timer) {
+      return;
+    }
+
+    await this.check(null);
+
+    this.timer = setInterval(() => {
+      this.check(onMounted).catch((error) => log.error('Error checking mounted volumes:', error));
+    }, POLL_INTERVAL_MS);
+
+    log.info('Watching for memory cards');
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.mounted.clear();
+  }
+
+  /**
+   * Compare the mount table with the last check and report new volumes with camera media
+   */
+  private async check(onMounted: ((volume: DetectedVolume) => void) | null): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const mounts = (await listMounts()).filter((mount) =>
+        REMOVABLE_ROOTS.some((root) => mount.mountPath.startsWith(root)),
+      );
+      const current = new Set(mounts.map((mount) => mount.mountPath));
+
+      // Unmounted volumes are reported again the next time they show up
+      for (const mountPath of this.mounted) {
+        if (!current.has(mountPath)) {
+          this.mounted.delete(mountPath);
+        }
+      }
+
+      for (const mount of mounts) {
+        if (this.mounted.has(mount.mountPath)) {
+          continue;
+        }
+        this.mounted.add(mount.mountPath);
+
+        const dcimPath = await this.findDcimFolder(mount.mountPath);
+        if (!dcimPath || !onMounted) {
+          continue;
+        }
+
+        const label = path.basename(mount.mountPath);
+
+        log.info(`Memory card ${label} mounted at ${mount.mountPath}`);
+
+        onMounted({
+          volumeId: await getMountVolumeId(mount),
+          label,
+          mountPath: mount.mountPath,
+          dcimPath,
+        });
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * The DCIM folder at the root of a volume, whatever its case
+   */
+  private async findDcimFolder(mountPath: string): Promise<string | null> {
+    const entries = await fs.readdir(mountPath, { withFileTypes: true }).catch(() => []);
+    const dcim = entries.find(
+      (entry) => entry.isDirectory() && entry.name.toUpperCase() === DCIM_FOLDER,
+    );
+
+    return dcim ? path.join(mountPath, dcim.name) : null;
+  }
+}
+
+// Instance for global usage
+export const volumeMonitorService = new VolumeMonitorService();
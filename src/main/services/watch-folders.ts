@@ -0,0 +1,465 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { FSWatcher, watch } from 'fs';
+import log from 'electron-log';
+import { v4 as uuidv4 } from 'uuid';
+import { OrganizeOptions, OrganizeResult, WatchFolder, WatchFolderInfo } from '@common/types';
+import { allAsync, runAsync } from '@main/database';
+import { scanDirectoryForFiles, supportedFormats } from '@main/utils/media-files';
+import { ConfigManager } from '@main/services/config-manager';
+import { fileOrganizerService, OrganizeProgress } from '@main/services/file-organizer';
+import { importMemoryService } from '@main/services/import-memory';
+import { jobManager } from '@main/services/job-manager';
+
+// How often files that appeared are checked for growth
+const STABILITY_CHECK_MS = 2000;
+
+// Checks in a row without a size or mtime change before a file counts as complete
+const STABLE_CHECKS = 2;
+
+/**
+ * Callbacks used to report watch folder runs to the caller
+ */
+export interface WatchFolderCallbacks {
+  onProgress?: (folder: WatchFolder, progress: OrganizeProgress) => void;
+  onError?: (folder: WatchFolder, file: string, error: Error) => void;
+  onComplete?: (folder: WatchFolder, result: OrganizeResult) => void;
+}
+
+interface WatchFolderRow {
+  id: string;
+  path: string;
+  destination_path: string;
+  profile_name: string;
+  recursive: number;
+  enabled: number;
+}
+
+/**
+ * Size and mtime of a file that is possibly still being written
+ */
+interface PendingFile {
+  size: number;
+  mtimeMs: number;
+  stableChecks: number;
+}
+
+/**
+ * Runtime state of a watch folder
+ */
+interface WatchState {
+  watcher: FSWatcher | null;
+  timer: NodeJS.Timeout | null;
+  pending: Map<string, PendingFile>; // Files still growing
+  ready: Set<string>; // Complete files waiting for the next run
+  running: boolean;
+  lastRunAt?: string;
+  lastResult?: OrganizeResult;
+  error?: string;
+}
+
+/**
+ * Organizes new media in watched folders, such as a phone sync directory or a scanner
+ * drop folder, with the organize settings of a saved profile
+ */
+export class WatchFolderService {
+  private readonly folders = new Map<string, WatchFolder>();
+  private readonly states = new Map<string, WatchState>();
+  private readonly configManager = new ConfigManager();
+  private callbacks: WatchFolderCallbacks = {};
+
+  /**
+   * Load the persisted watch list and start the enabled watchers
+   */
+  public async start(callbacks: WatchFolderCallbacks = {}): Promise<void> {
+    this.callbacks = callbacks;
+
+    const rows = await allAsync<WatchFolderRow>(
+      `SELECT id, path, destination_path, profile_name, recursive, enabled
+       FROM watch_folders ORDER BY created_at`,
+    );
+
+    for (const row of rows) {
+      const folder: WatchFolder = {
+        id: row.id,
+        path: row.path,
+        destinationPath: row.destination_path,
+        profileName: row.profile_name,
+        recursive: Boolean(row.recursive),
+        enabled: Boolean(row.enabled),
+      };
+
+      this.folders.set(folder.id, folder);
+      if (folder.enabled) {
+        this.startWatcher(folder);
+      }
+    }
+
+    log.info(`Loaded ${rows.length} watch folders`);
+  }
+
+  /**
+   * All watch folders with the state of their watchers
+   */
+  public list(): WatchFolderInfo[] {
+    return Array.from(this.folders.values()).map((folder) => {
+      const state = this.states.get(folder.id);
+
+      return {
+        ...folder,
+        watching: Boolean(state?.watcher),
+        pending: state ? state.pending.size + state.ready.size : 0,
+        lastRunAt: state?.lastRunAt,
+        lastResult: state?.lastResult,
+        error: state?.error,
+      };
+    });
+  }
+
+  /**
+   * Add a watch folder, or update it when the id is known, and restart its watcher
+   * @throws Error when the folders are invalid
+   */
+  public async save(input: Omit<WatchFolder, 'id'> & { id?: string }): Promise<WatchFolder> {
+    const folder: WatchFolder = {
+      ...input,
+      id: input.id || uuidv4(),
+      path: path.resolve(input.path),
+      destinationPath: path.resolve(input.destinationPath),
+    };
+
+    await this.validate(folder);
+
+    await runAsync(
+      `INSERT INTO watch_folders (id, path, destination_path, profile_name, recursive, enabled)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         path = excluded.path,
+         destination_path = excluded.destination_path,
+         profile_name = excluded.profile_name,
+         recursive = excluded.recursive,
+         enabled = excluded.enabled`,
+      [
+        folder.id,
+        folder.path,
+        folder.destinationPath,
+        folder.profileName,
+        folder.recursive ? 1 : 0,
+        folder.enabled ? 1 : 0,
+      ],
+    );
+
+    this.stopWatcher(folder.id);
+    this.folders.set(folder.id, folder);
+
+    if (folder.enabled) {
+      this.startWatcher(folder);
+    }
+
+    return folder;
+  }
+
+  /**
+   * Stop watching a folder and forget it
+   */
+  public async remove(id: string): Promise<void> {
+    await runAsync('DELETE FROM watch_folders WHERE id = ?', [id]);
+
+    this.stopWatcher(id);
+    this.folders.delete(id);
+    this.states.delete(id);
+  }
+
+  /**
+   * Stop every watcher, used when the application quits
+   */
+  public stopAll(): void {
+    for (const id of this.states.keys()) {
+      this.stopWatcher(id);
+    }
+  }
+
+  private async validate(folder: WatchFolder): Promise<void> {
+    if (!folder.profileName.trim()) {
+      throw new Error('A watch folder needs a settings profile');
+    }
+
+    const stats = await fs.stat(folder.path).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Watch folder does not exist: ${folder.path}`);
+    }
+
+    // Organized files would show up as new files again
+    if (folder.destinationPath === folder.path) {
+      throw new Error('The destination of a watch folder must differ from the watched folder');
+    }
+  }
+
+  private getState(id: string): WatchState {
+    let state = this.states.get(id);
+
+    if (!state) {
+      state = {
+        watcher: null,
+        timer: null,
+        pending: new Map<string, PendingFile>(),
+        ready: new Set<string>(),
+        running: false,
+      };
+      this.states.set(id, state);
+    }
+
+    return state;
+  }
+
+  private startWatcher(folder: WatchFolder): void {
+    const state = this.getState(folder.id);
+    state.error = undefined;
+
+    try {
+      state.watcher = watch(
+        folder.path,
+        { recursive: folder.recursive },
+        (_eventType, fileName) => {
+          if (fileName) {
+            this.handleChange(folder.id, path.join(folder.path, fileName.toString()));
+          }
+        },
+      );
+
+      state.watcher.on('error', (error) => {
+        log.error(`Watcher for ${folder.path} failed:`, error);
+        this.stopWatcher(folder.id);
+        state.error = error.message;
+      });
+
+      log.info(`Watching ${folder.path} for new media`);
+    } catch (error) {
+      log.error(`Could not watch ${folder.path}:`, error);
+      state.error = (error as Error).message;
+      return;
+    }
+
+    this.queueExisting(folder).catch((error) => {
+      log.error(`Could not scan watch folder ${folder.path}:`, error);
+      state.error = (error as Error).message;
+    });
+  }
+
+  /**
+   * Queue the media already in a folder when its watcher starts, which arrived while
+   * nothing was watching
+   */
+  private async queueExisting(folder: WatchFolder): Promise<void> {
+    const options = await this.buildOptions(folder, []);
+    const files = await scanDirectoryForFiles(
+      folder.path,
+      supportedFormats,
+      folder.recursive,
+      options.scanRules,
+    );
+
+    // Disabled or changed while the scan ran, the new watcher scans for itself
+    if (this.states.get(folder.id)?.watcher === null || this.folders.get(folder.id) !== folder) {
+      return;
+    }
+
+    log.info(`Found ${files.length} files already in ${folder.path}`);
+
+    for (const file of files) {
+      this.handleChange(folder.id, file);
+    }
+  }
+
+  private stopWatcher(id: string): void {
+    const state = this.states.get(id);
+    if (!state) {
+      return;
+    }
+
+    state.watcher?.close();
+    state.watcher = null;
+
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+
+    state.pending.clear();
+    state.ready.clear();
+  }
+
+  /**
+   * Start tracking a file that was created or changed in a watched folder
+   */
+  private handleChange(id: string, filePath: string): void {
+    const folder = this.folders.get(id);
+    const extension = path.extname(filePath).slice(1).toLowerCase();
+
+    if (!folder || !supportedFormats.includes(extension)) {
+      return;
+    }
+
+    // Files organized into a destination inside the watched folder are not new media
+    const relative = path.relative(folder.destinationPath, filePath);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return;
+    }
+
+    const state = this.getState(id);
+    if (!state.pending.has(filePath) && !state.ready.has(filePath)) {
+      state.pending.set(filePath, { size: -1, mtimeMs: -1, stableChecks: 0 });
+    }
+
+    this.scheduleCheck(id);
+  }
+
+  private scheduleCheck(id: string): void {
+    const state = this.getState(id);
+
+    if (!state.timer) {
+      state.timer = setTimeout(() => {
+        state.timer = null;
+        this.checkPending(id).catch((error) =>
+          log.error('Error checking watch folder files:', error),
+        );
+      }, STABILITY_CHECK_MS);
+    }
+  }
+
+  /**
+   * Move files that stopped growing to the ready set and organize them
+   */
+  private async checkPending(id: string): Promise<void> {
+    const state = this.getState(id);
+
+    for (const [filePath, pending] of state.pending) {
+      const stats = await fs.stat(filePath).catch(() => null);
+
+      // Deleted or renamed away before it was complete
+      if (!stats?.isFile()) {
+        state.pending.delete(filePath);
+        continue;
+      }
+
+      if (stats.size === pending.size && stats.mtimeMs === pending.mtimeMs) {
+        pending.stableChecks++;
+      } else {
+        pending.size = stats.size;
+        pending.mtimeMs = stats.mtimeMs;
+        pending.stableChecks = 0;
+      }
+
+      if (pending.stableChecks >= STABLE_CHECKS) {
+        state.pending.delete(filePath);
+        state.ready.add(filePath);
+      }
+    }
+
+    if (state.pending.size > 0) {
+      this.scheduleCheck(id);
+    }
+
+    await this.runOrganize(id);
+  }
+
+  /**
+   * Organize the ready files of a watch folder. Files that become ready during a run
+   * are picked up by the next one.
+   */
+  private async runOrganize(id: string): Promise<void> {
+    const folder = this.folders.get(id);
+    const state = this.getState(id);
+
+    if (!folder || state.running || state.ready.size === 0) {
+      return;
+    }
+
+    const files = Array.from(state.ready);
+    state.ready.clear();
+    state.running = true;
+
+    try {
+      const options = await this.skipOrganizedCopies(
+        folder,
+        await this.buildOptions(folder, files),
+      );
+
+      // Nothing to do when only originals of earlier copies changed
+      if (options.files!.length > 0) {
+        log.info(`Organizing ${options.files!.length} new files from ${folder.path}`);
+
+        const result = await jobManager.run(
+          'organize',
+          `Organize new files in ${folder.path}`,
+          (job) =>
+            fileOrganizerService.organize(options, {
+              onProgress: (progress) => {
+                job.reportProgress(progress);
+                this.callbacks.onProgress?.(folder, progress);
+              },
+              onError: (file, error) => this.callbacks.onError?.(folder, file, error),
+              checkpoint: job.checkpoint,
+            }),
+        );
+
+        state.lastRunAt = new Date().toISOString();
+        state.lastResult = result;
+        state.error = undefined;
+
+        this.callbacks.onComplete?.(folder, result);
+      }
+    } catch (error) {
+      log.error(`Error organizing watch folder ${folder.path}:`, error);
+      state.error = (error as Error).message;
+    } finally {
+      state.running = false;
+    }
+
+    await this.runOrganize(id);
+  }
+
+  /**
+   * Leave out files a copying watch folder organized before. Copies leave the originals
+   * behind, where later changes and the scan on start find them again.
+   */
+  private async skipOrganizedCopies(
+    folder: WatchFolder,
+    options: OrganizeOptions,
+  ): Promise<OrganizeOptions> {
+    if (options.operation !== 'copy' || !options.options) {
+      return options;
+    }
+
+    const imports = await importMemoryService.createSession(
+      folder.path,
+      options.options.importMatch,
+    );
+    const files = options.files || [];
+    const organized = await Promise.all(files.map((file) => imports.isImported(file)));
+
+    return {
+      ...options,
+      files: files.filter((_, index) => !organized[index]),
+      // Remembers the files of this run for the next one
+      options: { ...options.options, incrementalImport: true },
+    };
+  }
+
+  /**
+   * Organize options for a run, read from the profile every time so profile changes
+   * apply without restarting the watcher
+   */
+  private async buildOptions(folder: WatchFolder, files: string[]): Promise<OrganizeOptions> {
+    const options = await this.configManager.loadOrganizeOptions(
+      folder.profileName,
+      folder.path,
+      folder.destinationPath,
+    );
+
+    return { ...options, recursive: folder.recursive, files };
+  }
+}
+
+// Instance for global usage
+export const watchFolderService = new WatchFolderService();
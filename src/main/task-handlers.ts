@@ -0,0 +1,303 @@
+import { BrowserWindow, dialog, ipcMain } from 'electron';
+import log from 'electron-log';
+import {
+  CloudProvider,
+  FileStatus,
+  InterruptedTask,
+  JobType,
+  OrganizeOptions,
+  TaskKind,
+  TaskListOptions,
+  UploadOptions,
+} from '@common/types';
+import { taskJournalService } from './services/task-journal';
+import { fileOrganizerService } from './services/file-organizer';
+import { ConversionOptions, formatConversionService } from './services/format-conversion';
+import { cloudStorageService } from './services/cloud-storage';
+import { jobManager } from './services/job-manager';
+
+// Kinds that journal every file and can continue where they stopped. Scans and integrity
+// checks are simply run again by their schedule.
+const RESUMABLE_KINDS: TaskKind[] = ['organize', 'conversion', 'cloud-upload'];
+
+// Resumed tasks were not started from a window, so every window hears about them
+const broadcast = (channel: string, payload: unknown) =>
+  BrowserWindow.getAllWindows().forEach((window) => window.webContents.send(channel, payload));
+
+/**
+ * Sets up IPC handlers for recorded tasks
+ */
+export function registerTaskHandlers(): void {
+  /**
+   * Undo a completed organize task
+   */
+  ipcMain.handle('tasks:undo', async (_event, taskId: number) => {
+    try {
+      log.info(`Undoing task ${taskId}`);
+
+      const result = await taskJournalService.undoTask(taskId);
+
+      return { success: true, result };
+    } catch (error) {
+      log.error('Error undoing task:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * List the task history, newest first
+   */
+  ipcMain.handle('tasks:list', async (_event, options?: TaskListOptions) => {
+    try {
+      const tasks = await taskJournalService.listTasks(options);
+
+      return { success: true, tasks };
+    } catch (error) {
+      log.error('Error listing tasks:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Get a single task with its parameters and counters
+   */
+  ipcMain.handle('tasks:get', async (_event, taskId: number) => {
+    try {
+      const task = await taskJournalService.getTask(taskId);
+
+      return { success: true, task };
+    } catch (error) {
+      log.error('Error getting task:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * List the files a task recorded, optionally only those with one status
+   */
+  ipcMain.handle('tasks:files', async (_event, taskId: number, status?: FileStatus) => {
+    try {
+      const files = await taskJournalService.getTaskFiles(taskId, status);
+
+      return { success: true, files };
+    } catch (error) {
+      log.error('Error listing task files:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Remove a finished task from the history
+   */
+  ipcMain.handle('tasks:delete', async (_event, taskId: number) => {
+    try {
+      await taskJournalService.deleteTask(taskId);
+
+      return { success: true };
+    } catch (error) {
+      log.error('Error deleting task:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Run a task again with the settings it was started with
+   */
+  ipcMain.handle('tasks:rerun', async (_event, taskId: number) => {
+    try {
+      log.info(`Running task ${taskId} again`);
+
+      const newTaskId = await runTaskAgain(taskId, false);
+
+      return { success: true, taskId: newTaskId };
+    } catch (error) {
+      log.error('Error running task again:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Run only the files that failed in a task again, with the same settings
+   */
+  ipcMain.handle('tasks:retryFailed', async (_event, taskId: number) => {
+    try {
+      log.info(`Retrying failed files of task ${taskId}`);
+
+      const newTaskId = await runTaskAgain(taskId, true);
+
+      return { success: true, taskId: newTaskId };
+    } catch (error) {
+      log.error('Error retrying failed files:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+}
+
+/**
+ * Start a task again with the options it was journaled with, as a new task
+ * @param failedOnly Only the files that failed, instead of everything the task covered
+ * @returns Id of the new task
+ */
+async function runTaskAgain(taskId: number, failedOnly: boolean): Promise<number> {
+  const task = await taskJournalService.getTask(taskId);
+  if (task.status === 'running') {
+    throw new Error('Task is still running');
+  }
+
+  let files: string[] | undefined;
+  if (failedOnly) {
+    files = (await taskJournalService.getTaskFiles(taskId, 'error')).map((file) => file.sourcePath);
+    if (files.length === 0) {
+      throw new Error('Task has no failed files');
+    }
+  }
+
+  const name = failedOnly ? `Retry failed files of ${task.name}` : `Run ${task.name} again`;
+  const allFiles = async () =>
+    files || (await taskJournalService.getTaskFiles(taskId)).map((file) => file.sourcePath);
+
+  return jobManager.run(task.kind as JobType, name, async (job) => {
+    const callbacks = { onProgress: job.reportProgress, checkpoint: job.checkpoint };
+
+    switch (task.kind) {
+      case 'organize': {
+        // Without a file list the source folder is scanned again, picking up new files
+        const options = task.options as OrganizeOptions;
+        const result = await fileOrganizerService.organize(
+          files ? { ...options, files } : options,
+          callbacks,
+        );
+        return result.taskId as number;
+      }
+      case 'conversion': {
+        const options = task.options as Partial<ConversionOptions>;
+        const result = await formatConversionService.convertFiles(
+          await allFiles(),
+          options,
+          callbacks,
+        );
+        return result.taskId;
+      }
+      case 'cloud-upload': {
+        const { provider, options } = task.options as {
+          provider: CloudProvider;
+          options: UploadOptions;
+        };
+        await cloudStorageService.initialize();
+        const result = await cloudStorageService.uploadFiles(
+          provider,
+          await allFiles(),
+          options,
+          callbacks,
+        );
+        return result.taskId;
+      }
+      default:
+        throw new Error(`${task.kind} tasks cannot be run again from the history`);
+    }
+  });
+}
+
+/**
+ * Continue an interrupted task with the service that started it
+ */
+async function resumeTask(task: InterruptedTask): Promise<void> {
+  try {
+    await jobManager.run(task.kind as JobType, `Resume ${task.name}`, async (job) => {
+      const callbacks = { onProgress: job.reportProgress, checkpoint: job.checkpoint };
+
+      switch (task.kind) {
+        case 'organize':
+          await fileOrganizerService.resume(task.id, callbacks);
+          break;
+        case 'conversion':
+          await formatConversionService.resumeConversions(task.id, callbacks);
+          break;
+        case 'cloud-upload':
+          await cloudStorageService.resumeUploads(task.id, callbacks);
+          break;
+      }
+    });
+
+    broadcast('tasks:resumed', { taskId: task.id, name: task.name, success: true });
+  } catch (error) {
+    log.error(`Error resuming task ${task.id}:`, error);
+    broadcast('tasks:resumed', {
+      taskId: task.id,
+      name: task.name,
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+}
+
+/**
+ * Find tasks cut off by a quit or crash and ask whether to resume them. Must run before
+ * watch folders and schedules start, as their new tasks would look interrupted too. The
+ * question is asked in the background, so startup does not wait for an answer.
+ */
+export async function offerTaskResume(window: BrowserWindow | null): Promise<void> {
+  try {
+    const interrupted = await taskJournalService.getInterruptedTasks();
+    const resumable = interrupted.filter((task) => RESUMABLE_KINDS.includes(task.kind));
+
+    for (const task of interrupted.filter((task) => !resumable.includes(task))) {
+      await taskJournalService.cancelTask(task.id);
+    }
+
+    if (resumable.length === 0) {
+      return;
+    }
+
+    log.info(`Found ${resumable.length} interrupted tasks`);
+
+    const options = {
+      type: 'question' as const,
+      buttons: ['Resume', 'Later', 'Discard'],
+      defaultId: 0,
+      cancelId: 1,
+      title: 'Interrupted tasks',
+      message: `${resumable.length} task(s) did not finish the last time the application ran.`,
+      detail: resumable
+        .map((task) => `${task.name}: ${task.remainingFiles} of ${task.totalFiles} files left`)
+        .join('\n'),
+    };
+
+    (window ? dialog.showMessageBox(window, options) : dialog.showMessageBox(options))
+      .then(async ({ response }) => {
+        if (response === 0) {
+          for (const task of resumable) {
+            await resumeTask(task);
+          }
+        } else if (response === 2) {
+          for (const task of resumable) {
+            await taskJournalService.cancelTask(task.id);
+          }
+        }
+      })
+      .catch((error) => log.error('Error resuming interrupted tasks:', error));
+  } catch (error) {
+    log.error('Failed to check for interrupted tasks:', error);
+  }
+}
@@ -0,0 +1,58 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FileMetadata } from '@common/types';
+
+/**
+ * Media file helpers with metadata read from the file system alone: every file is a photo
+ * taken on 15 January 2024 at noon, and exiftool is never started
+ */
+async function readMetadata(filePath: string): Promise<FileMetadata> {
+  const stats = await fs.stat(filePath);
+
+  return {
+    path: filePath,
+    name: path.basename(filePath),
+    extension: path.extname(filePath).slice(1).toLowerCase(),
+    size: stats.size,
+    createdAt: stats.birthtime,
+    modifiedAt: stats.mtime,
+    type: 'image',
+    captureDate: new Date(2024, 0, 15, 12),
+  };
+}
+
+/**
+ * Folder walk in the test process, the scan worker only exists in the webpack build
+ */
+async function scanDirectoryForFiles(
+  dirPath: string,
+  fileTypes: string[],
+  recursive = false,
+): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const entry of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const entryPath = path.join(dirPath, entry.name);
+
+    if (entry.isDirectory() && recursive) {
+      files.push(...(await scanDirectoryForFiles(entryPath, fileTypes, recursive)));
+    } else if (
+      entry.isFile() &&
+      fileTypes.includes(path.extname(entry.name).slice(1).toLowerCase())
+    ) {
+      files.push(entryPath);
+    }
+  }
+
+  return files;
+}
+
+module.exports = {
+  ...jest.requireActual('@main/utils/media-files'),
+  scanDirectoryForFiles,
+  getFileMetadata: readMetadata,
+  getFilesMetadata: async (files: string[]) =>
+    new Map(
+      await Promise.all(files.map(async (file) => [file, await readMetadata(file)] as const)),
+    ),
+};
@@ -0,0 +1,107 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileMetadata } from '@common/types';
+import { getCompanionName, groupCompanionFiles } from '@main/utils/companion-files';
+
+describe('groupCompanionFiles', () => {
+  let root: string;
+
+  const touch = async (...names: string[]): Promise<string[]> =>
+    Promise.all(
+      names.map(async (name) => {
+        const filePath = path.join(root, name);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, name);
+        return filePath;
+      }),
+    );
+
+  // Live Photo halves carry the same ContentIdentifier
+  const contentIdentifiers =
+    (identifiers: Record<string, string>) =>
+    async (file: string): Promise<FileMetadata | null> =>
+      ({ contentIdentifier: identifiers[path.basename(file)] }) as FileMetadata;
+
+  const noMetadata = async () => null;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'companions-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('puts the RAW file of a RAW+JPEG pair first', async () => {
+    const [jpg, raw] = await touch('IMG_1.JPG', 'IMG_1.CR2');
+
+    expect(await groupCompanionFiles([jpg, raw], noMetadata)).toEqual([
+      { primary: raw, companions: [jpg] },
+    ]);
+  });
+
+  it('attaches sidecars named after the shot or after a single file', async () => {
+    const [raw, other] = await touch('IMG_1.CR2', 'IMG_2.jpg');
+    const [shotSidecar, fileSidecar, orphan] = await touch(
+      'IMG_1.xmp',
+      'IMG_2.jpg.xmp',
+      'IMG_3.xmp',
+    );
+
+    const groups = await groupCompanionFiles([raw, other], noMetadata);
+
+    expect(groups).toEqual([
+      { primary: raw, companions: [shotSidecar] },
+      { primary: other, companions: [fileSidecar] },
+    ]);
+    expect(groups.flatMap((group) => group.companions)).not.toContain(orphan);
+  });
+
+  it('keeps files of the same name in different folders apart', async () => {
+    const [first, second] = await touch('a/IMG_1.jpg', 'b/IMG_1.mov');
+
+    expect(await groupCompanionFiles([first, second], noMetadata)).toHaveLength(2);
+  });
+
+  it('pairs Live Photo halves with different names by their ContentIdentifier', async () => {
+    const [photo, video, other] = await touch('IMG_1.HEIC', 'IMG_9.MOV', 'IMG_2.HEIC');
+    const getMetadata = contentIdentifiers({
+      'IMG_1.HEIC': 'live-1',
+      'IMG_9.MOV': 'live-1',
+      'IMG_2.HEIC': 'live-2',
+    });
+
+    expect(await groupCompanionFiles([photo, video, other], getMetadata)).toEqual([
+      { primary: photo, companions: [video] },
+      { primary: other, companions: [] },
+    ]);
+  });
+
+  it('keeps the order of the input', async () => {
+    const files = await touch('c.jpg', 'a.jpg', 'b.jpg');
+
+    const groups = await groupCompanionFiles(files, noMetadata);
+
+    expect(groups.map((group) => group.primary)).toEqual(files);
+  });
+});
+
+describe('getCompanionName', () => {
+  it('follows a primary file that was renamed', () => {
+    expect(getCompanionName('IMG_1.CR2', '2024_0001.CR2', 'IMG_1.xmp')).toBe('2024_0001.xmp');
+    expect(getCompanionName('IMG_1.CR2', '2024_0001.CR2', 'IMG_1.CR2.xmp')).toBe(
+      '2024_0001.CR2.xmp',
+    );
+    expect(getCompanionName('IMG_1.CR2', '2024_0001.CR2', 'img_1.JPG')).toBe('2024_0001.JPG');
+  });
+
+  it('gives Live Photo halves with unrelated names the new name of the photo', () => {
+    expect(getCompanionName('IMG_1.HEIC', 'Trip.HEIC', 'IMG_9.MOV')).toBe('Trip.MOV');
+  });
+
+  it('applies the extension case of the rename', () => {
+    expect(getCompanionName('IMG_1.CR2', 'a.cr2', 'IMG_1.XMP', 'lower')).toBe('a.xmp');
+    expect(getCompanionName('IMG_1.CR2', 'a.CR2', 'IMG_1.xmp', 'upper')).toBe('a.XMP');
+  });
+});
@@ -0,0 +1,108 @@
+import { getNextCronTime, parseCron, timingToCron } from '@main/utils/cron';
+
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+describe('parseCron', () => {
+  it('expands wildcards, ranges, lists and steps', () => {
+    const cron = parseCron('*/15 9-11 1,15 * 1-5');
+
+    expect(sorted(cron.minutes)).toEqual([0, 15, 30, 45]);
+    expect(sorted(cron.hours)).toEqual([9, 10, 11]);
+    expect(sorted(cron.daysOfMonth)).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect(sorted(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.anyDayOfMonth).toBe(false);
+    expect(cron.anyDayOfWeek).toBe(false);
+  });
+
+  it('reads a start with a step as running to the end of the range', () => {
+    expect(sorted(parseCron('5/20 * * * *').minutes)).toEqual([5, 25, 45]);
+    expect(sorted(parseCron('0 0-12/6 * * *').hours)).toEqual([0, 6, 12]);
+  });
+
+  it('takes 7 as Sunday', () => {
+    expect(sorted(parseCron('0 0 * * 5-7').daysOfWeek)).toEqual([0, 5, 6]);
+  });
+
+  it('ignores surrounding and repeated whitespace', () => {
+    expect(sorted(parseCron('  0   3 * *  * ').hours)).toEqual([3]);
+  });
+
+  it.each([
+    ['0 3 * *', 'must have 5 fields'],
+    ['0 3 * * * *', 'must have 5 fields'],
+    ['60 * * * *', 'Invalid minute field "60"'],
+    ['* 24 * * *', 'Invalid hour field "24"'],
+    ['* * 0 * *', 'Invalid day of month field "0"'],
+    ['* * * 13 *', 'Invalid month field "13"'],
+    ['* * * * 8', 'Invalid day of week field "8"'],
+    ['30-10 * * * *', 'Invalid minute field'],
+    ['*/0 * * * *', 'Invalid minute field'],
+    ['mon * * * *', 'Invalid minute field'],
+    ['1,,2 * * * *', 'Invalid minute field'],
+  ])('rejects %j', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('getNextCronTime', () => {
+  const next = (expression: string, after: Date) => getNextCronTime(parseCron(expression), after);
+
+  it('finds the next matching minute', () => {
+    expect(next('*/15 * * * *', new Date(2024, 0, 10, 10, 7, 30))).toEqual(
+      new Date(2024, 0, 10, 10, 15),
+    );
+  });
+
+  it('only returns times strictly after the given one', () => {
+    expect(next('*/15 * * * *', new Date(2024, 0, 10, 10, 15))).toEqual(
+      new Date(2024, 0, 10, 10, 30),
+    );
+  });
+
+  it('moves on to the next day once today has passed', () => {
+    expect(next('30 2 * * *', new Date(2024, 0, 10, 3, 0))).toEqual(new Date(2024, 0, 11, 2, 30));
+  });
+
+  it('skips days of the week that do not match', () => {
+    // Friday 5 January 2024, the next weekday morning is Monday
+    expect(next('0 9 * * 1-5', new Date(2024, 0, 5, 10, 0))).toEqual(new Date(2024, 0, 8, 9, 0));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th or any Friday, 5 January 2024 is a Friday
+    expect(next('0 0 13 * 5', new Date(2024, 0, 1))).toEqual(new Date(2024, 0, 5));
+    expect(next('0 0 13 * 5', new Date(2024, 0, 12, 1))).toEqual(new Date(2024, 0, 13));
+  });
+
+  it('skips to the next matching month', () => {
+    expect(next('0 0 1 3 *', new Date(2024, 0, 10))).toEqual(new Date(2024, 2, 1));
+  });
+
+  it('waits for the next leap day', () => {
+    expect(next('0 0 29 2 *', new Date(2024, 2, 1))).toEqual(new Date(2028, 1, 29));
+  });
+
+  it('gives up on dates that never exist', () => {
+    expect(() => next('0 0 30 2 *', new Date(2024, 0, 1))).toThrow('never matches');
+  });
+});
+
+describe('timingToCron', () => {
+  it('turns daily and weekly timings into cron expressions', () => {
+    expect(timingToCron({ type: 'daily', time: '07:05' })).toBe('5 7 * * *');
+    expect(timingToCron({ type: 'weekly', time: '9:00', days: [1, 3] })).toBe('0 9 * * 1,3');
+  });
+
+  it('passes cron timings through', () => {
+    expect(timingToCron({ type: 'cron', expression: '*/5 * * * *' })).toBe('*/5 * * * *');
+  });
+
+  it('rejects invalid times and weeks without days', () => {
+    expect(() => timingToCron({ type: 'daily', time: '24:00' })).toThrow('expected HH:MM');
+    expect(() => timingToCron({ type: 'daily', time: '7am' })).toThrow('expected HH:MM');
+    expect(() => timingToCron({ type: 'weekly', time: '09:00', days: [] })).toThrow(
+      'at least one day',
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { exifToolManager } from '@main/utils/exiftool-setup';
+
+// Commands run with the environment Node started with unless told otherwise, which
+// lacks the PATH changed below
+jest.mock('child_process', () => {
+  const actual = jest.requireActual('child_process');
+  const { promisify } = jest.requireActual('util');
+
+  const exec = Object.assign(
+    (command: string, callback: () => void) => actual.exec(command, { env: process.env }, callback),
+    {
+      [promisify.custom]: (command: string) =>
+        promisify(actual.exec)(command, { env: process.env }),
+    },
+  );
+
+  return { ...actual, exec };
+});
+
+// A stand-in for ExifTool in -stay_open mode that is found on the PATH. It logs every
+// command next to itself, and a few made-up options make it fail the way the real one can.
+const FAKE_EXIFTOOL = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+
+// A hung ExifTool no longer reads its commands, not even the one to quit
+let hung = false;
+let args = [];
+readline.createInterface({ input: process.stdin })
+  .on('line', (line) => {
+    const execute = line.match(/^-execute(\\d*)$/);
+    if (hung) {
+      return;
+    } else if (execute) {
+      run(args, execute[1]);
+      args = [];
+    } else {
+      args.push(line);
+    }
+  })
+  .on('close', () => hung || process.exit(0));
+
+function run(command, id) {
+  fs.appendFileSync(path.join(__dirname, 'commands.log'), JSON.stringify({ pid: process.pid, command }) + '\\n');
+
+  let stdout = '';
+  let stderr = '';
+  let echo = '';
+  let json = false;
+  const files = [];
+
+  for (let i = 0; i < command.length; i++) {
+    const arg = command[i];
+    if (arg === '-charset') i++;
+    else if (arg === '-echo4') echo = command[++i];
+    else if (arg === '-json') json = true;
+    else if (arg === '-pid') stdout += process.pid + '\\n';
+    else if (arg === '-fail') stderr += 'Error: File not found - missing.jpg\\n';
+    else if (arg === '-hang') {
+      hung = true;
+      setInterval(() => {}, 1000);
+      return;
+    }
+    else if (arg === '-crash') process.exit(1);
+    else if (arg === '-crash-later') {
+      hung = true;
+      setTimeout(() => process.exit(1), 200);
+      return;
+    }
+    else if (arg === '-crash-once') {
+      const marker = command[++i];
+      if (!fs.existsSync(marker)) {
+        fs.writeFileSync(marker, '');
+        process.exit(1);
+      }
+    } else files.push(arg);
+  }
+
+  if (json) {
+    const found = files.filter((file) => fs.existsSync(file));
+    stdout += JSON.stringify(found.map((file) => ({ SourceFile: file, FileName: path.basename(file) })));
+  }
+
+  process.stdout.write(stdout + '{ready' + id + '}\\n');
+  process.stderr.write(stderr + echo + '\\n');
+}
+`;
+
+describe('ExifToolManager', () => {
+  let root: string;
+  let commandLog: string;
+  const originalPath = process.env.PATH;
+
+  // Commands the fake ExifTool received, with the process that ran them
+  const readLog = async (): Promise<{ pid: number; command: string[] }[]> =>
+    (await fs.readFile(commandLog, 'utf8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+  const pid = async () => Number((await exifToolManager.execute(['-pid'])).trim());
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'exiftool-'));
+    commandLog = path.join(root, 'commands.log');
+    await fs.writeFile(path.join(root, 'exiftool'), FAKE_EXIFTOOL, { mode: 0o755 });
+
+    process.env.PATH = `${root}${path.delimiter}${originalPath}`;
+
+    expect(await exifToolManager.initialize()).toBe(true);
+  });
+
+  afterAll(async () => {
+    exifToolManager.shutdown();
+    process.env.PATH = originalPath;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await fs.writeFile(commandLog, '');
+  });
+
+  it('keeps its processes running between commands', async () => {
+    const first = await pid();
+
+    expect(await pid()).toBe(first);
+  });
+
+  it('fails commands ExifTool reports an error for', async () => {
+    await expect(exifToolManager.execute(['-fail'])).rejects.toThrow(
+      'Error: File not found - missing.jpg',
+    );
+  });
+
+  it('refuses arguments that would split into two', async () => {
+    await expect(exifToolManager.execute(['-Comment=one\ntwo'])).rejects.toThrow('line breaks');
+  });
+
+  it('reads the metadata of many files in batches', async () => {
+    const files = await Promise.all(
+      Array.from({ length: 120 }, async (_, index) => {
+        const file = path.join(root, `IMG_${index}.jpg`);
+        await fs.writeFile(file, '');
+        return file;
+      }),
+    );
+    const missing = path.join(root, 'missing.jpg');
+
+    const metadata = await exifToolManager.readMetadata([...files, missing]);
+
+    expect([...metadata.keys()].sort()).toEqual([...files].sort());
+    expect(metadata.get(files[7])).toMatchObject({ FileName: 'IMG_7.jpg' });
+    expect(
+      (await readLog()).map(({ command }) => command.filter((arg) => arg.endsWith('.jpg'))),
+    ).toEqual([files.slice(0, 50), files.slice(50, 100), [...files.slice(100), missing]]);
+  });
+
+  it('sends a command again in a new process when its process crashed', async () => {
+    const before = await pid();
+
+    const output = await exifToolManager.execute([
+      '-crash-once',
+      path.join(root, 'crashed'),
+      '-pid',
+    ]);
+
+    expect(Number(output.trim())).not.toBe(before);
+  });
+
+  it('gives up on a command that keeps crashing its process', async () => {
+    await expect(exifToolManager.execute(['-crash'])).rejects.toThrow(
+      'ExifTool crashed while handling the request',
+    );
+
+    expect(await readLog()).toHaveLength(2);
+  });
+
+  it('replaces a process that hangs', async () => {
+    const before = await pid();
+
+    await expect(exifToolManager.execute(['-hang'], 500)).rejects.toThrow('timed out');
+
+    const after = await pid();
+    expect(after).not.toBe(before);
+  });
+
+  it('fails queued commands when shutting down', async () => {
+    // More commands than the pool has processes, so some wait in the queue. The first
+    // one's process stops while shutting down, its command is not sent again.
+    const requests = [
+      exifToolManager.execute(['-crash-later']),
+      ...Array.from({ length: 8 }, () => exifToolManager.execute(['-hang'], 1000)),
+    ];
+    const settled = Promise.allSettled(requests);
+
+    exifToolManager.shutdown();
+
+    const results = await settled;
+    expect(results.every((result) => result.status === 'rejected')).toBe(true);
+    const shutDown = { status: 'rejected', reason: new Error('ExifTool is shutting down') };
+    expect(results[0]).toEqual(shutDown);
+    expect(results[results.length - 1]).toEqual(shutDown);
+    await expect(exifToolManager.execute(['-pid'])).rejects.toThrow('shutting down');
+  });
+});
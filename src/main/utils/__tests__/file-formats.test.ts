@@ -0,0 +1,95 @@
+import { sniffContentFormat } from '@main/utils/file-formats';
+
+// Header of the given bytes and text, padded with zeros like a file read into a buffer
+const header = (...parts: (number[] | string)[]): Buffer =>
+  Buffer.concat(
+    parts.map((part) =>
+      typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part),
+    ),
+  );
+
+const padded = (buffer: Buffer, length: number = 512): Buffer =>
+  Buffer.concat([buffer, Buffer.alloc(Math.max(0, length - buffer.length))]);
+
+// ISO media ftyp box with a major brand and compatible brands
+const ftyp = (major: string, ...compatible: string[]): Buffer => {
+  const size = 16 + compatible.length * 4;
+  return header([0, 0, 0, size], 'ftyp', major, [0, 0, 0, 0], compatible.join(''));
+};
+
+describe('sniffContentFormat', () => {
+  it.each([
+    ['jpeg', header([0xff, 0xd8, 0xff, 0xe1])],
+    ['png', header([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])],
+    ['gif', header('GIF89a')],
+    ['gif', header('GIF87a')],
+    ['webp', header('RIFF', [0, 0, 0, 0], 'WEBP')],
+    ['avi', header('RIFF', [0, 0, 0, 0], 'AVI ')],
+    ['raf', header('FUJIFILMCCD-RAW 0201')],
+    ['orf', header('IIRO', [8, 0, 0, 0])],
+    ['rw2', header([0x49, 0x49, 0x55, 0x00])],
+    ['tiff', header('II*\0', [8, 0, 0, 0], [0, 0])],
+    ['tiff', header('MM\0*', [0, 0, 0, 8], [0, 0])],
+    ['cr2', header('II*\0', [16, 0, 0, 0], 'CR', [2, 0])],
+    ['jxl', header([0xff, 0x0a])],
+    ['jxl', header([0, 0, 0, 0x0c], 'JXL ', [0x0d, 0x0a, 0x87, 0x0a])],
+    ['mkv', header([0x1a, 0x45, 0xdf, 0xa3], [0x42, 0x82, 0x88], 'matroska')],
+    ['webm', header([0x1a, 0x45, 0xdf, 0xa3], [0x42, 0x82, 0x84], 'webm')],
+    ['flv', header('FLV', [1])],
+    ['wmv', header([0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11])],
+    ['mpeg', header([0, 0, 1, 0xba])],
+    ['mpeg', header([0, 0, 1, 0xb3])],
+  ])('tells %s', (format, content) => {
+    expect(sniffContentFormat(padded(content))).toBe(format);
+  });
+
+  it.each([
+    ['heif', ftyp('heic', 'mif1', 'heic')],
+    ['heif', ftyp('mif1', 'heic')],
+    ['avif', ftyp('avif', 'mif1')],
+    ['avif', ftyp('mif1', 'avif')],
+    ['cr3', ftyp('crx ', 'isom')],
+    ['mov', ftyp('qt  ', 'qt  ')],
+    ['3gp', ftyp('3gp4', 'isom')],
+    ['mp4', ftyp('isom', 'iso2', 'mp41')],
+    ['mp4', ftyp('M4V ')],
+  ])('tells %s from the ISO media brands', (format, content) => {
+    expect(sniffContentFormat(padded(content))).toBe(format);
+  });
+
+  it('tells QuickTime files written without an ftyp box', () => {
+    expect(sniffContentFormat(padded(header([0, 0, 0, 8], 'wide')))).toBe('mov');
+    expect(sniffContentFormat(padded(header([0, 0, 0, 8], 'moov')))).toBe('mov');
+  });
+
+  it('tells transport streams by their repeated sync bytes', () => {
+    const stream = Buffer.alloc(512);
+    stream[0] = stream[188] = stream[376] = 0x47;
+    expect(sniffContentFormat(stream)).toBe('mpeg-ts');
+
+    // Blu-ray packets start with a four byte timestamp
+    const bluRay = Buffer.alloc(512);
+    bluRay[4] = bluRay[196] = bluRay[388] = 0x47;
+    expect(sniffContentFormat(bluRay)).toBe('m2ts');
+  });
+
+  it('only takes BM for a bitmap when a known header size follows', () => {
+    const bitmap = padded(header('BM', [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], [40, 0, 0, 0]));
+    const text = padded(header('BMW service invoice'));
+
+    expect(sniffContentFormat(bitmap)).toBe('bmp');
+    expect(sniffContentFormat(text)).toBeNull();
+  });
+
+  it('does not know other content', () => {
+    expect(sniffContentFormat(Buffer.alloc(0))).toBeNull();
+    expect(sniffContentFormat(padded(header('%PDF-1.7')))).toBeNull();
+    expect(sniffContentFormat(padded(header('RIFF', [0, 0, 0, 0], 'WAVE')))).toBeNull();
+    expect(sniffContentFormat(padded(header('PK', [3, 4])))).toBeNull();
+  });
+
+  it('does not read past short headers', () => {
+    expect(sniffContentFormat(header([0xff, 0xd8]))).toBeNull();
+    expect(sniffContentFormat(header('II'))).toBeNull();
+  });
+});
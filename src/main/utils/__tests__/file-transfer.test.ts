@@ -0,0 +1,146 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  copyFilePreservingTimestamps,
+  ensureDirectory,
+  getPartialPath,
+  moveFile,
+} from '@main/utils/file-transfer';
+
+// Individual calls are made to fail to stand in for other filesystems and bad writes
+jest.mock('fs/promises', () => {
+  const actual = jest.requireActual('fs/promises');
+  return {
+    ...actual,
+    copyFile: jest.fn(actual.copyFile),
+    link: jest.fn(actual.link),
+    rename: jest.fn(actual.rename),
+  };
+});
+
+const mocked = fs as jest.Mocked<typeof fs>;
+
+const failWith = (code: string) => Object.assign(new Error(code), { code });
+
+// Writes a copy that differs from its source, like a flaky card reader would
+const corruptCopy = async (_source: unknown, target: unknown) => {
+  await jest.requireActual('fs/promises').writeFile(target, 'garbled');
+};
+
+describe('file transfer', () => {
+  let root: string;
+  let source: string;
+  let target: string;
+
+  const read = (filePath: string) => fs.readFile(filePath, 'utf8');
+
+  const exists = (filePath: string) =>
+    fs.access(filePath).then(
+      () => true,
+      () => false,
+    );
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'transfer-'));
+    source = path.join(root, 'photo.jpg');
+    target = path.join(root, 'library', 'photo.jpg');
+    await fs.writeFile(source, 'pixels');
+    await fs.mkdir(path.dirname(target));
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  describe('copyFilePreservingTimestamps', () => {
+    it('copies the contents and modification time and leaves no temporary file', async () => {
+      const modified = new Date(2020, 5, 1, 8, 30);
+      await fs.utimes(source, modified, modified);
+
+      await copyFilePreservingTimestamps(source, target, { verify: true });
+
+      expect(await read(target)).toBe('pixels');
+      expect((await fs.stat(target)).mtime).toEqual(modified);
+      expect(await exists(getPartialPath(target))).toBe(false);
+    });
+
+    it('refuses an existing destination unless overwriting', async () => {
+      await fs.writeFile(target, 'old');
+
+      await expect(copyFilePreservingTimestamps(source, target)).rejects.toThrow(
+        'Destination already exists',
+      );
+      expect(await read(target)).toBe('old');
+
+      await copyFilePreservingTimestamps(source, target, { overwrite: true });
+      expect(await read(target)).toBe('pixels');
+    });
+
+    it('fails a verified copy whose checksum does not match and writes nothing', async () => {
+      mocked.copyFile.mockImplementationOnce(corruptCopy);
+
+      await expect(copyFilePreservingTimestamps(source, target, { verify: true })).rejects.toThrow(
+        'Checksum mismatch',
+      );
+      expect(await exists(target)).toBe(false);
+      expect(await exists(getPartialPath(target))).toBe(false);
+    });
+
+    it('replaces a temporary file left by an interrupted copy', async () => {
+      await fs.writeFile(getPartialPath(target), 'half');
+
+      await copyFilePreservingTimestamps(source, target);
+
+      expect(await read(target)).toBe('pixels');
+      expect(await exists(getPartialPath(target))).toBe(false);
+    });
+
+    it('renames into place on filesystems without hard links', async () => {
+      mocked.link.mockRejectedValueOnce(failWith('EPERM'));
+
+      await copyFilePreservingTimestamps(source, target);
+
+      expect(await read(target)).toBe('pixels');
+      expect(await exists(getPartialPath(target))).toBe(false);
+    });
+  });
+
+  describe('moveFile', () => {
+    it('renames within a filesystem', async () => {
+      await moveFile(source, target);
+
+      expect(await read(target)).toBe('pixels');
+      expect(await exists(source)).toBe(false);
+      expect(mocked.copyFile).not.toHaveBeenCalled();
+    });
+
+    it('copies across filesystems and removes the source once the copy is verified', async () => {
+      mocked.rename.mockRejectedValueOnce(failWith('EXDEV'));
+
+      await moveFile(source, target);
+
+      expect(await read(target)).toBe('pixels');
+      expect(await exists(source)).toBe(false);
+    });
+
+    it('keeps the source when the copy across filesystems does not verify', async () => {
+      mocked.rename.mockRejectedValueOnce(failWith('EXDEV'));
+      mocked.copyFile.mockImplementationOnce(corruptCopy);
+
+      await expect(moveFile(source, target)).rejects.toThrow('Checksum mismatch');
+      expect(await read(source)).toBe('pixels');
+      expect(await exists(target)).toBe(false);
+    });
+  });
+
+  describe('ensureDirectory', () => {
+    it('returns the directories it created, outermost first', async () => {
+      const nested = path.join(root, 'library', '2024', '01');
+
+      expect(await ensureDirectory(nested)).toEqual([path.join(root, 'library', '2024'), nested]);
+      expect(await ensureDirectory(nested)).toEqual([]);
+    });
+  });
+});
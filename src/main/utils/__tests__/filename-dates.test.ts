@@ -0,0 +1,104 @@
+import { FileMetadata } from '@common/types';
+import { getFilenameDateParsers, parseFilenameDate } from '@main/utils/filename-dates';
+import { resolveCaptureDate } from '@main/utils/file-metadata';
+
+describe('parseFilenameDate', () => {
+  it.each([
+    ['IMG-20230102-WA0001.jpg', new Date(2023, 0, 2)],
+    ['VID-20230102-WA0012.mp4', new Date(2023, 0, 2)],
+    ['PXL_20230102_101112345.jpg', new Date(2023, 0, 2, 10, 11, 12)],
+    ['IMG_20230102_101112.jpg', new Date(2023, 0, 2, 10, 11, 12)],
+    ['Screenshot_20230102-101112.png', new Date(2023, 0, 2, 10, 11, 12)],
+    ['Screenshot 2023-01-02 at 10.11.12.png', new Date(2023, 0, 2, 10, 11, 12)],
+    ['Screen Shot 2023-01-02 at 1.11.12 PM.png', new Date(2023, 0, 2, 13, 11, 12)],
+    ['Screen Shot 2023-01-02 at 12.11.12 AM.png', new Date(2023, 0, 2, 0, 11, 12)],
+    ['signal-2023-01-02-101112.jpg', new Date(2023, 0, 2, 10, 11, 12)],
+    ['photo_2023-01-02_10-11-12.jpg', new Date(2023, 0, 2, 10, 11, 12)],
+    ['Holiday 2023-01-02.jpg', new Date(2023, 0, 2)],
+    ['20230102_101112.heic', new Date(2023, 0, 2, 10, 11, 12)],
+  ])('reads %s', (name, expected) => {
+    expect(parseFilenameDate(`/card/${name}`)).toEqual(expected);
+  });
+
+  it.each([
+    ['DSC_0001.jpg'],
+    ['IMG-20230230-WA0001.jpg'], // February 30
+    ['scan_19750102.jpg'], // Before digital cameras
+    ['order-120230102999.jpg'], // Part of a longer number
+  ])('finds no date in %s', (name) => {
+    expect(parseFilenameDate(`/card/${name}`)).toBeNull();
+  });
+
+  it('only looks at the file name, not its folders', () => {
+    expect(parseFilenameDate('/2021-05-06/DSC_0001.jpg')).toBeNull();
+  });
+});
+
+describe('getFilenameDateParsers', () => {
+  const parse = (name: string, options: Parameters<typeof getFilenameDateParsers>[0]) =>
+    parseFilenameDate(name, getFilenameDateParsers(options));
+
+  it('uses no parser when reading dates from names is off', () => {
+    expect(
+      getFilenameDateParsers({ enabled: false, parsers: ['generic'], customPatterns: [] }),
+    ).toEqual([]);
+  });
+
+  it('uses only the enabled built-in parsers', () => {
+    const options = { enabled: true, parsers: ['whatsapp' as const], customPatterns: [] };
+
+    expect(parse('IMG-20230102-WA0001.jpg', options)).toEqual(new Date(2023, 0, 2));
+    expect(parse('Holiday 2023-01-02.jpg', options)).toBeNull();
+  });
+
+  it('tries custom patterns first and leaves out invalid ones', () => {
+    const parsers = getFilenameDateParsers({
+      enabled: true,
+      parsers: ['generic'],
+      customPatterns: ['(', '^(?<day>\\d{2})\\.(?<month>\\d{2})\\.(?<year>\\d{4})'],
+    });
+
+    expect(parsers.map((parser) => parser.id)).toEqual(['custom-2', 'generic']);
+    // Read day first, where the generic parser would not find a date at all
+    expect(parseFilenameDate('02.01.2023 party.jpg', parsers)).toEqual(new Date(2023, 0, 2));
+  });
+});
+
+describe('resolveCaptureDate', () => {
+  const file = (name: string, extra: Partial<FileMetadata> = {}): FileMetadata => ({
+    path: `/card/${name}`,
+    name,
+    extension: 'jpg',
+    size: 1,
+    createdAt: new Date(2024, 5, 1),
+    modifiedAt: new Date(2024, 5, 1),
+    type: 'image',
+    ...extra,
+  });
+
+  it('falls back to the date in the name before the modification time', () => {
+    expect(resolveCaptureDate(file('IMG-20230102-WA0001.jpg'))).toEqual({
+      date: new Date(2023, 0, 2),
+      source: 'filename',
+    });
+    expect(resolveCaptureDate(file('DSC_0001.jpg'))).toEqual({
+      date: new Date(2024, 5, 1),
+      source: 'mtime',
+    });
+  });
+
+  it('trusts the metadata over the name', () => {
+    const metadata = file('IMG-20230102-WA0001.jpg', { dateTimeOriginal: '2022:12:31 23:59:58' });
+
+    expect(resolveCaptureDate(metadata)).toEqual({
+      date: new Date(2022, 11, 31, 23, 59, 58),
+      source: 'dateTimeOriginal',
+    });
+  });
+
+  it('skips names when reading dates from names is off', () => {
+    const parsers = getFilenameDateParsers({ enabled: false, parsers: [], customPatterns: [] });
+
+    expect(resolveCaptureDate(file('IMG-20230102-WA0001.jpg'), parsers).source).toBe('mtime');
+  });
+});
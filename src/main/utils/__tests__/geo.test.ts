@@ -0,0 +1,75 @@
+import { Coordinates, distanceKm, isInPolygons, PointGrid, Polygon } from '@main/utils/geo';
+
+describe('distanceKm', () => {
+  it('measures along the surface of the earth', () => {
+    const istanbul = { latitude: 41.01, longitude: 28.95 };
+    const ankara = { latitude: 39.92, longitude: 32.85 };
+
+    expect(distanceKm(istanbul, ankara)).toBeCloseTo(350, -1);
+    expect(distanceKm(istanbul, istanbul)).toBe(0);
+  });
+});
+
+describe('isInPolygons', () => {
+  // A square with a square hole, as longitude and latitude pairs
+  const square: Polygon = [
+    [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+      [0, 0],
+    ],
+    [
+      [4, 4],
+      [6, 4],
+      [6, 6],
+      [4, 6],
+      [4, 4],
+    ],
+  ];
+
+  it('finds positions inside the outline and outside its holes', () => {
+    expect(isInPolygons({ latitude: 2, longitude: 8 }, [square])).toBe(true);
+    expect(isInPolygons({ latitude: 5, longitude: 5 }, [square])).toBe(false);
+    expect(isInPolygons({ latitude: 2, longitude: 12 }, [square])).toBe(false);
+  });
+});
+
+describe('PointGrid', () => {
+  const point = (latitude: number, longitude: number): Coordinates => ({ latitude, longitude });
+
+  // Every point within the distance, found by measuring the distance to all of them
+  const nearByDistance = (points: Coordinates[], position: Coordinates, radiusKm: number) =>
+    points.filter((candidate) => distanceKm(position, candidate) <= radiusKm);
+
+  it('finds every point within the distance, and not points far away', () => {
+    const points: Coordinates[] = [];
+    for (let latitude = -89.5; latitude < 90; latitude += 2.5) {
+      for (let longitude = -179.75; longitude < 180; longitude += 2.5) {
+        points.push(point(latitude, longitude));
+      }
+    }
+    const grid = new PointGrid(points, (candidate) => candidate);
+
+    const positions = [point(41, 29), point(-33.9, 18.4), point(0.2, -0.3), point(60, 90)];
+    for (const position of positions) {
+      const found = grid.findNear(position, 300);
+
+      expect(found).toEqual(expect.arrayContaining(nearByDistance(points, position, 300)));
+      expect(found.length).toBeLessThan(points.length / 50);
+    }
+  });
+
+  it('looks across the antimeridian and around the poles', () => {
+    const points = [point(-16.8, 179.9), point(-16.8, -179.9), point(89.9, 0), point(89.9, 120)];
+    const grid = new PointGrid(points, (candidate) => candidate);
+
+    expect(grid.findNear(point(-16.8, -179.95), 50)).toEqual(
+      expect.arrayContaining([points[0], points[1]]),
+    );
+    expect(grid.findNear(point(89.8, -60), 50)).toEqual(
+      expect.arrayContaining([points[2], points[3]]),
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { FileMetadata } from '@common/types';
+import { resolvePattern } from '@main/utils/organize-pattern';
+
+const metadata = (overrides: Partial<FileMetadata> = {}): FileMetadata => ({
+  path: '/photos/IMG_0001.JPG',
+  name: 'IMG_0001.JPG',
+  extension: 'jpg',
+  size: 1024,
+  createdAt: new Date(2020, 0, 1),
+  modifiedAt: new Date(2020, 0, 1),
+  type: 'image',
+  captureDate: new Date(2023, 4, 7, 14, 5),
+  ...overrides,
+});
+
+describe('resolvePattern', () => {
+  it('fills in the capture date and time', () => {
+    expect(resolvePattern('%Y/%m/%d', metadata())).toBe('2023/05/07');
+    expect(resolvePattern('%Y-%m-%d %H.%M', metadata())).toBe('2023-05-07 14.05');
+  });
+
+  it('names the camera without repeating the make', () => {
+    expect(resolvePattern('%c', metadata({ make: 'Canon', model: 'Canon EOS R5' }))).toBe(
+      'Canon EOS R5',
+    );
+    expect(resolvePattern('%c', metadata({ make: 'NIKON CORPORATION', model: 'Z 6' }))).toBe(
+      'NIKON CORPORATION Z 6',
+    );
+    expect(resolvePattern('%c', metadata({ make: 'GoPro' }))).toBe('GoPro');
+    expect(resolvePattern('%c', metadata())).toBe('Unknown Camera');
+  });
+
+  it('names the media type', () => {
+    expect(resolvePattern('%t', metadata())).toBe('Photos');
+    expect(resolvePattern('%t', metadata({ type: 'video' }))).toBe('Videos');
+    expect(resolvePattern('%t', metadata({ type: 'unknown' }))).toBe('Other');
+  });
+
+  it('classes resolutions by the shorter side', () => {
+    expect(resolvePattern('%R', metadata({ width: 3840, height: 2160 }))).toBe('4K');
+    expect(resolvePattern('%R', metadata({ width: 1080, height: 1920 }))).toBe('1080p');
+    expect(resolvePattern('%R', metadata({ width: 640, height: 480 }))).toBe('SD');
+    expect(resolvePattern('%R', metadata())).toBe('Unknown Resolution');
+  });
+
+  it('names the video codec', () => {
+    const video = { codec: 'hevc' } as FileMetadata['video'];
+    expect(resolvePattern('%V', metadata({ type: 'video', video }))).toBe('HEVC');
+    expect(resolvePattern('%V', metadata({ type: 'video' }))).toBe('Unknown Codec');
+  });
+
+  it('names the place, with placeholders for files without one', () => {
+    const location = { country: 'Türkiye', countryCode: 'TR', region: 'Istanbul', city: 'Kadıköy' };
+
+    expect(resolvePattern('%C/%S/%L', metadata({ location }))).toBe('Türkiye/Istanbul/Kadıköy');
+    expect(resolvePattern('%C/%S/%L', metadata())).toBe(
+      'Unknown Country/Unknown Region/Unknown City',
+    );
+  });
+
+  it('uses the event name, or the capture day without one', () => {
+    expect(resolvePattern('%Y/%e', metadata(), { eventName: 'Wedding' })).toBe('2023/Wedding');
+    expect(resolvePattern('%Y/%e', metadata())).toBe('2023/2023-05-07');
+  });
+
+  it('leaves unknown tokens untouched', () => {
+    expect(resolvePattern('%Y/%Q', metadata())).toBe('2023/%Q');
+  });
+
+  it('makes every folder name safe for the filesystem', () => {
+    expect(resolvePattern('%c', metadata({ make: 'Canon', model: 'EOS: R5?' }))).toBe(
+      'Canon EOS_ R5_',
+    );
+    expect(resolvePattern('%e', metadata(), { eventName: 'Trip...' })).toBe('Trip');
+    expect(resolvePattern('%e', metadata(), { eventName: 'Rome/Paris' })).toBe('Rome_Paris');
+  });
+
+  it('normalizes separators and drops empty segments', () => {
+    expect(resolvePattern('/%Y\\%m//%d/', metadata())).toBe('2023/05/07');
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  computeDHash,
+  computePHash,
+  downsample,
+  HASH_GRID_SIZE,
+  hammingDistance,
+  similarityPercent,
+} from '@main/utils/perceptual-hash';
+
+// A greyscale grid drawn from a function of the position, both coordinates from 0 to 1
+const grid = (draw: (x: number, y: number) => number): number[] =>
+  Array.from({ length: HASH_GRID_SIZE * HASH_GRID_SIZE }, (_, index) =>
+    draw(
+      (index % HASH_GRID_SIZE) / HASH_GRID_SIZE,
+      Math.floor(index / HASH_GRID_SIZE) / HASH_GRID_SIZE,
+    ),
+  );
+
+const waves = (x: number, y: number) => 127 + 120 * Math.sin(6 * x) * Math.cos(4 * y);
+
+const distance = (a: number[], b: number[]) =>
+  (hammingDistance(computeDHash(a), computeDHash(b)) +
+    hammingDistance(computePHash(a), computePHash(b))) /
+  2;
+
+describe('downsample', () => {
+  it('averages the pixels that fall into each cell', () => {
+    const pixels = [0, 2, 10, 10, 4, 6, 10, 10, 1, 1, 3, 3, 1, 1, 3, 3];
+
+    expect(Array.from(downsample(pixels, 4, 4, 2, 2))).toEqual([3, 10, 1, 3]);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts the differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000001', '0000000000000000')).toBe(1);
+    expect(hammingDistance('f0000000000000ff', '0000000000000000')).toBe(12);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
+
+describe('similarityPercent', () => {
+  it('turns a distance into a share of matching bits', () => {
+    expect(similarityPercent(0)).toBe(100);
+    expect(similarityPercent(16)).toBe(75);
+    expect(similarityPercent(64)).toBe(0);
+  });
+});
+
+describe('perceptual hashes', () => {
+  it('are 64 bits written as 16 hex characters', () => {
+    expect(computeDHash(grid(waves))).toMatch(/^[0-9a-f]{16}$/);
+    expect(computePHash(grid(waves))).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('stay the same when brightness and contrast change', () => {
+    const original = grid(waves);
+    const brighter = original.map((value) => value * 0.8 + 40);
+
+    expect(distance(original, brighter)).toBe(0);
+  });
+
+  it('barely change with a little noise', () => {
+    const original = grid(waves);
+    const noisy = original.map((value, index) => value + ((index * 7919) % 5) - 2);
+
+    expect(distance(original, noisy)).toBeLessThanOrEqual(4);
+  });
+
+  it('differ a lot for a different picture', () => {
+    const other = grid((x, y) => 127 + 120 * Math.cos(9 * x + 3 * y));
+
+    expect(distance(grid(waves), other)).toBeGreaterThan(20);
+  });
+});
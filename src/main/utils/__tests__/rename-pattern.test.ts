@@ -0,0 +1,103 @@
+import { FileMetadata, RenameExtensionCase } from '@common/types';
+import {
+  parseRenameTemplate,
+  RenameValues,
+  renderFileName,
+  usesRenameToken,
+} from '@main/utils/rename-pattern';
+
+const metadata = (overrides: Partial<FileMetadata> = {}): FileMetadata => ({
+  path: '/photos/IMG_0001.JPG',
+  name: 'IMG_0001.JPG',
+  extension: 'jpg',
+  size: 1024,
+  createdAt: new Date(2020, 0, 1),
+  modifiedAt: new Date(2020, 0, 1),
+  type: 'image',
+  captureDate: new Date(2023, 4, 7, 14, 5, 9),
+  ...overrides,
+});
+
+const render = (
+  template: string,
+  file: FileMetadata = metadata(),
+  values: RenameValues = {},
+  extensionCase?: RenameExtensionCase,
+) => renderFileName(parseRenameTemplate(template), file, values, extensionCase);
+
+describe('parseRenameTemplate', () => {
+  it('splits a template into literals and tokens', () => {
+    expect(parseRenameTemplate('{YYYY}{MM}{DD}_{seq:4}')).toEqual([
+      { name: 'YYYY' },
+      { name: 'MM' },
+      { name: 'DD' },
+      '_',
+      { name: 'seq', arg: '4' },
+    ]);
+    expect(parseRenameTemplate('trip {name}')).toEqual(['trip ', { name: 'name' }]);
+  });
+
+  it.each([
+    ['', 'Rename template is empty'],
+    ['{YYYY', 'Unbalanced braces'],
+    ['YYYY}', 'Unbalanced braces'],
+    ['{year}', 'Unknown rename token {year}'],
+    ['{toString}', 'Unknown rename token {toString}'],
+    ['{YYYY:2}', 'does not take an argument'],
+    ['{seq:0}', 'takes a number from 1 to 10'],
+    ['{seq:11}', 'takes a number from 1 to 10'],
+    ['{seq:x}', 'takes a number from 1 to 10'],
+    ['{seq:2:3}', 'takes a number from 1 to 10'],
+    ['{hash:3}', 'takes a number from 4 to 64'],
+    ['{name}/{seq}', 'characters not allowed in file names'],
+    ['{name}?', 'characters not allowed in file names'],
+  ])('rejects %j', (template, message) => {
+    expect(() => parseRenameTemplate(template)).toThrow(message);
+  });
+});
+
+describe('usesRenameToken', () => {
+  it('finds tokens but not literals of the same text', () => {
+    const template = parseRenameTemplate('seq_{hash}');
+
+    expect(usesRenameToken(template, 'hash')).toBe(true);
+    expect(usesRenameToken(template, 'seq')).toBe(false);
+  });
+});
+
+describe('renderFileName', () => {
+  it('fills in the capture date and keeps the extension', () => {
+    expect(render('{YYYY}{MM}{DD}_{hh}{mm}{ss}')).toBe('20230507_140509.JPG');
+    expect(render('{YY}-{MM}')).toBe('23-05.JPG');
+  });
+
+  it('keeps the original name and names the camera', () => {
+    expect(render('{name}_{camera}', metadata({ make: 'Canon', model: 'Canon EOS R5' }))).toBe(
+      'IMG_0001_Canon EOS R5.JPG',
+    );
+  });
+
+  it('pads counters and cuts hashes to their width', () => {
+    const values = { sequence: 7, folderSequence: 12, hash: 'abcdef0123456789' };
+
+    expect(render('{seq}', undefined, values)).toBe('0007.JPG');
+    expect(render('{seq:2}_{folderseq:3}', undefined, values)).toBe('07_012.JPG');
+    expect(render('{hash}', undefined, values)).toBe('abcdef01.JPG');
+    expect(render('{hash:4}', undefined, values)).toBe('abcd.JPG');
+  });
+
+  it('changes the case of the extension on request', () => {
+    expect(render('{name}', undefined, undefined, 'lower')).toBe('IMG_0001.jpg');
+    expect(render('{name}', metadata({ name: 'clip.mp4' }), undefined, 'upper')).toBe('clip.MP4');
+    expect(render('{name}', undefined, undefined, 'keep')).toBe('IMG_0001.JPG');
+  });
+
+  it('makes names from token values safe for the filesystem', () => {
+    expect(render('{camera}', metadata({ make: 'Acme', model: 'Cam<1>' }))).toBe('Acme Cam_1_.JPG');
+    expect(render('{name}', metadata({ name: 'con.jpg' }))).toBe('con_.jpg');
+  });
+
+  it('falls back to the original name when nothing is left', () => {
+    expect(render('{hash}')).toBe('IMG_0001.JPG');
+  });
+});
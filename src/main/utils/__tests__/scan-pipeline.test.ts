@@ -0,0 +1,101 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { FileHash, processFiles } from '@main/utils/scan-pipeline';
+
+describe('processFiles', () => {
+  let root: string;
+
+  const write = async (name: string, content: string): Promise<string> => {
+    const filePath = path.join(root, name);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+  // The index entry of a file as it is now
+  const indexEntry = async (filePath: string, hash: string): Promise<FileHash> => {
+    const stats = await fs.stat(filePath);
+    return { size: stats.size, mtime: Math.floor(stats.mtimeMs), sha256: hash };
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'scan-pipeline-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("builds metadata from ExifTool's output, without the raw tags", async () => {
+    const photo = await write('IMG_0001.jpg', 'pixels');
+    const plain = await write('IMG_0002.jpg', 'pixels');
+
+    const { metadata, hashes } = await processFiles({
+      files: [photo, plain],
+      exif: {
+        [photo]: {
+          DateTimeOriginal: '2023:05:06 07:08:09',
+          OffsetTimeOriginal: '+02:00',
+          Make: 'Canon',
+          Model: 5,
+        },
+      },
+    });
+
+    expect(metadata![photo]).toMatchObject({
+      name: 'IMG_0001.jpg',
+      type: 'image',
+      make: 'Canon',
+      model: '5',
+      timeZone: '+02:00',
+      captureDate: new Date('2023-05-06T05:08:09.000Z'),
+      dateSource: 'dateTimeOriginal',
+    });
+    expect(metadata![photo].exif).toBeUndefined();
+    expect(metadata![plain]).toMatchObject({ size: 6, dateSource: 'mtime' });
+    expect(hashes).toBeUndefined();
+  });
+
+  it('hashes files whose stored hash is missing or outdated', async () => {
+    const unchanged = await write('a.jpg', 'same');
+    const changed = await write('b.jpg', 'new content');
+    const added = await write('c.jpg', 'added');
+
+    const { metadata, hashes, hashed } = await processFiles({
+      files: [unchanged, changed, added],
+      storedHashes: {
+        [unchanged]: await indexEntry(unchanged, 'stored'),
+        [changed]: { ...(await indexEntry(changed, 'stored')), size: 3 },
+      },
+    });
+
+    expect(hashed).toBe(3);
+    expect(hashes).toEqual({
+      [changed]: await indexEntry(changed, sha256('new content')),
+      [added]: await indexEntry(added, sha256('added')),
+    });
+    expect(metadata).toBeUndefined();
+  });
+
+  it('leaves out and reports files that fail a stage', async () => {
+    const present = await write('a.jpg', 'pixels');
+    const missing = path.join(root, 'gone.jpg');
+
+    const { metadata, hashes, hashed, failed } = await processFiles({
+      files: [present, missing],
+      exif: {},
+      storedHashes: {},
+    });
+
+    expect(Object.keys(metadata!)).toEqual([present]);
+    expect(Object.keys(hashes!)).toEqual([present]);
+    expect(hashed).toBe(1);
+    expect(failed.map(({ path: file, stage }) => [file, stage]).sort()).toEqual([
+      [missing, 'hash'],
+      [missing, 'metadata'],
+    ]);
+  });
+});
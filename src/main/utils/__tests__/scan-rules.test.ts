@@ -0,0 +1,109 @@
+import { IgnoreMatcher, parseIgnorePatterns } from '@main/utils/scan-rules';
+
+const matcher = (...lines: string[]) => IgnoreMatcher.fromGlobs(lines);
+
+describe('parseIgnorePatterns', () => {
+  it('skips blank lines and comments', () => {
+    expect(parseIgnorePatterns(['', '   ', '# thumbnails', '*.tmp'])).toHaveLength(1);
+  });
+
+  it('reads negation and folder-only markers', () => {
+    const [negated, folder] = parseIgnorePatterns(['!keep.jpg', 'cache/']);
+
+    expect(negated).toMatchObject({ negated: true, directoryOnly: false });
+    expect(folder).toMatchObject({ negated: false, directoryOnly: true });
+  });
+
+  it('takes escaped # and ! literally', () => {
+    const [hash, bang] = parseIgnorePatterns(['\\#notes.txt', '\\!draft.jpg']);
+
+    expect(hash).toMatchObject({ negated: false });
+    expect(hash.regex.test('#notes.txt')).toBe(true);
+    expect(bang).toMatchObject({ negated: false });
+    expect(bang.regex.test('!draft.jpg')).toBe(true);
+  });
+
+  it('drops patterns that are only slashes', () => {
+    expect(parseIgnorePatterns(['/', '//'])).toEqual([]);
+  });
+});
+
+describe('IgnoreMatcher', () => {
+  it('matches names without a slash at any depth', () => {
+    const ignore = matcher('*.tmp');
+
+    expect(ignore.isIgnored('upload.tmp', false)).toBe(true);
+    expect(ignore.isIgnored('2023/05/upload.tmp', false)).toBe(true);
+    expect(ignore.isIgnored('2023/05/photo.jpg', false)).toBe(false);
+  });
+
+  it('anchors patterns with a slash to the folder they come from', () => {
+    const ignore = matcher('raw/*.dng');
+
+    expect(ignore.isIgnored('raw/IMG_1.dng', false)).toBe(true);
+    expect(ignore.isIgnored('trip/raw/IMG_1.dng', false)).toBe(false);
+    expect(matcher('/export').isIgnored('export', true)).toBe(true);
+    expect(matcher('/export').isIgnored('trip/export', true)).toBe(false);
+  });
+
+  it('keeps * and ? within a folder and lets ** span folders', () => {
+    expect(matcher('trip/*.jpg').isIgnored('trip/day1/a.jpg', false)).toBe(false);
+    expect(matcher('trip/**/*.jpg').isIgnored('trip/day1/a.jpg', false)).toBe(true);
+    expect(matcher('trip/**/*.jpg').isIgnored('trip/a.jpg', false)).toBe(true);
+    expect(matcher('trip/**').isIgnored('trip/day1/a.jpg', false)).toBe(true);
+    expect(matcher('IMG_?.jpg').isIgnored('IMG_1.jpg', false)).toBe(true);
+    expect(matcher('IMG_?.jpg').isIgnored('IMG_12.jpg', false)).toBe(false);
+  });
+
+  it('supports character classes and their negation', () => {
+    expect(matcher('IMG_[12].jpg').isIgnored('IMG_2.jpg', false)).toBe(true);
+    expect(matcher('IMG_[12].jpg').isIgnored('IMG_3.jpg', false)).toBe(false);
+    expect(matcher('IMG_[!12].jpg').isIgnored('IMG_3.jpg', false)).toBe(true);
+    expect(matcher('IMG_[!12].jpg').isIgnored('IMG_1.jpg', false)).toBe(false);
+  });
+
+  it('takes other regular expression characters literally', () => {
+    expect(matcher('photo (1).jpg').isIgnored('photo (1).jpg', false)).toBe(true);
+    expect(matcher('photo (1).jpg').isIgnored('photo 1.jpg', false)).toBe(false);
+    expect(matcher('a+b.jpg').isIgnored('aab.jpg', false)).toBe(false);
+  });
+
+  it('applies folder-only patterns to folders alone', () => {
+    const ignore = matcher('@eaDir/');
+
+    expect(ignore.isIgnored('2023/@eaDir', true)).toBe(true);
+    expect(ignore.isIgnored('2023/@eaDir', false)).toBe(false);
+  });
+
+  it('lets the last matching pattern decide', () => {
+    const ignore = matcher('*.jpg', '!keep*.jpg', 'keep-not.jpg');
+
+    expect(ignore.isIgnored('a.jpg', false)).toBe(true);
+    expect(ignore.isIgnored('keep1.jpg', false)).toBe(false);
+    expect(ignore.isIgnored('keep-not.jpg', false)).toBe(true);
+  });
+
+  it('applies the ignore file of a subfolder below that folder only', () => {
+    const ignore = matcher('*.tmp').extend('drafts', parseIgnorePatterns(['*.png', '/old']));
+
+    expect(ignore.isIgnored('drafts/a.png', false)).toBe(true);
+    expect(ignore.isIgnored('a.png', false)).toBe(false);
+    expect(ignore.isIgnored('drafts/old', true)).toBe(true);
+    expect(ignore.isIgnored('drafts/x/old', true)).toBe(false);
+    expect(ignore.isIgnored('drafts/a.tmp', false)).toBe(true);
+  });
+
+  it('lets a subfolder include again what a parent left out', () => {
+    const root = matcher('*.jpg');
+    const keep = root.extend('keep', parseIgnorePatterns(['!*.jpg']));
+
+    expect(keep.isIgnored('keep/a.jpg', false)).toBe(false);
+    expect(root.isIgnored('other/a.jpg', false)).toBe(true);
+  });
+
+  it('returns the same matcher for an ignore file without patterns', () => {
+    const ignore = matcher('*.tmp');
+
+    expect(ignore.extend('sub', [])).toBe(ignore);
+  });
+});
@@ -0,0 +1,118 @@
+import { FileMetadata } from '@common/types';
+import { getCaptureDate, resolveCaptureDate } from '@main/utils/file-metadata';
+import {
+  fromWallClock,
+  getNauticalTimeZone,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  parseUtcOffset,
+  toWallClock,
+} from '@main/utils/time-zones';
+
+describe('parseUtcOffset', () => {
+  it('reads offsets in minutes east of UTC', () => {
+    expect(parseUtcOffset('+03:00')).toBe(180);
+    expect(parseUtcOffset('-0530')).toBe(-330);
+    expect(parseUtcOffset('+9')).toBe(540);
+    expect(parseUtcOffset('UTC+05:45')).toBe(345);
+    expect(parseUtcOffset('Z')).toBe(0);
+  });
+
+  it('rejects values that are not offsets', () => {
+    expect(parseUtcOffset('Europe/Istanbul')).toBeNull();
+    expect(parseUtcOffset('+15:00')).toBeNull();
+    expect(parseUtcOffset('')).toBeNull();
+  });
+});
+
+describe('getTimeZoneOffset', () => {
+  it('follows daylight saving time of named zones', () => {
+    expect(getTimeZoneOffset('America/New_York', new Date(Date.UTC(2024, 0, 15)))).toBe(-300);
+    expect(getTimeZoneOffset('America/New_York', new Date(Date.UTC(2024, 6, 15)))).toBe(-240);
+    expect(getTimeZoneOffset('Europe/Istanbul', new Date(Date.UTC(2024, 6, 15)))).toBe(180);
+  });
+
+  it('takes fixed offsets as they are and knows no made-up zones', () => {
+    expect(getTimeZoneOffset('-02:30', new Date())).toBe(-150);
+    expect(getTimeZoneOffset('Mars/Olympus', new Date())).toBeNull();
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(isValidTimeZone(' Asia/Tokyo ')).toBe(true);
+  });
+});
+
+describe('wall-clock times', () => {
+  it('turn into the moment they refer to in a zone and back', () => {
+    const wallClock = new Date(2024, 6, 15, 12, 30, 0);
+    const moment = fromWallClock(wallClock, 'Asia/Tokyo');
+
+    expect(moment.toISOString()).toBe('2024-07-15T03:30:00.000Z');
+    expect(toWallClock(moment, 'Asia/Tokyo')).toEqual(wallClock);
+    expect(toWallClock(moment, 'America/New_York')).toEqual(new Date(2024, 6, 14, 23, 30, 0));
+  });
+
+  it('use the offset of the day itself around a daylight saving change', () => {
+    // Clocks in New York went forward on March 10, 2024
+    expect(fromWallClock(new Date(2024, 2, 9, 12), 'America/New_York').toISOString()).toBe(
+      '2024-03-09T17:00:00.000Z',
+    );
+    expect(fromWallClock(new Date(2024, 2, 10, 12), 'America/New_York').toISOString()).toBe(
+      '2024-03-10T16:00:00.000Z',
+    );
+  });
+
+  it('are system time without a zone', () => {
+    const wallClock = new Date(2024, 6, 15, 12, 30, 0);
+
+    expect(fromWallClock(wallClock)).toEqual(wallClock);
+    expect(toWallClock(wallClock)).toEqual(wallClock);
+  });
+});
+
+describe('getNauticalTimeZone', () => {
+  it('picks the 15 degree band of a longitude, with the POSIX sign', () => {
+    expect(getNauticalTimeZone(3)).toBe('Etc/UTC');
+    expect(getNauticalTimeZone(-45)).toBe('Etc/GMT+3');
+    expect(getNauticalTimeZone(100)).toBe('Etc/GMT-7');
+  });
+});
+
+describe('capture dates in the zone they were taken in', () => {
+  const file = (extra: Partial<FileMetadata>): FileMetadata => ({
+    path: '/card/IMG_0001.jpg',
+    name: 'IMG_0001.jpg',
+    extension: 'jpg',
+    size: 1,
+    createdAt: new Date(2024, 5, 1),
+    modifiedAt: new Date(2024, 5, 1),
+    type: 'image',
+    ...extra,
+  });
+
+  it('reads EXIF dates as wall-clock time in the zone of the file', () => {
+    const metadata = file({ dateTimeOriginal: '2024:07:15 12:30:00', timeZone: 'Asia/Tokyo' });
+
+    expect(resolveCaptureDate(metadata).date.toISOString()).toBe('2024-07-15T03:30:00.000Z');
+    expect(getCaptureDate(metadata)).toEqual(new Date(2024, 6, 15, 12, 30, 0));
+  });
+
+  it('prefers an offset written with the date', () => {
+    const metadata = file({
+      dateTimeOriginal: '2024:07:15 12:30:00+02:00',
+      timeZone: 'Asia/Tokyo',
+    });
+
+    expect(resolveCaptureDate(metadata).date.toISOString()).toBe('2024-07-15T10:30:00.000Z');
+  });
+
+  it('reads QuickTime creation dates as UTC', () => {
+    const metadata = file({
+      path: '/card/CLIP.MOV',
+      extension: 'mov',
+      type: 'video',
+      createDate: '2024:07:15 03:30:00',
+      timeZone: 'Asia/Tokyo',
+    });
+
+    expect(getCaptureDate(metadata)).toEqual(new Date(2024, 6, 15, 12, 30, 0));
+  });
+});
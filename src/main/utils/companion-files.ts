@@ -0,0 +1,184 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import log from 'electron-log';
+import { FileMetadata, RenameExtensionCase } from '@common/types';
+import { rawImageFormats, sidecarFormats } from '@main/utils/media-files';
+import { getFileType } from '@main/utils/file-metadata';
+
+/**
+ * A media file together with the files that must travel with it: sidecars, the other
+ * half of a RAW+JPEG pair and the video of a Live Photo
+ */
+export interface FileGroup {
+  primary: string;
+  companions: string[];
+}
+
+// Formats that can make up an Apple Live Photo
+const LIVE_PHOTO_IMAGES = ['heic', 'jpg', 'jpeg'];
+const LIVE_PHOTO_VIDEOS = ['mov'];
+
+const extensionOf = (file: string) => path.extname(file).slice(1).toLowerCase();
+
+// Files of one shot share their folder and their name without extension
+const baseKey = (file: string) =>
+  path.join(path.dirname(file), path.basename(file, path.extname(file)).toLowerCase());
+
+/**
+ * Lower sorts first when picking the primary file of a group
+ */
+function primaryRank(file: string): number {
+  if (rawImageFormats.includes(extensionOf(file))) {
+    return 0;
+  }
+  return getFileType(file) === 'image' ? 1 : 2;
+}
+
+/**
+ * Group media files with their companions
+ * @param files Media files of the run
+ * @param getMetadata Reads metadata, used for the ContentIdentifier of Live Photo candidates
+ * @returns One group per primary file, in the order of the input
+ */
+export async function groupCompanionFiles(
+  files: string[],
+  getMetadata: (file: string) => Promise<FileMetadata | null>,
+): Promise<FileGroup[]> {
+  const members = new Map<string, string[]>();
+  for (const file of files) {
+    const key = baseKey(file);
+    members.set(key, [...(members.get(key) || []), file]);
+  }
+
+  await pairLivePhotos(members, getMetadata);
+
+  const groups: FileGroup[] = [];
+  // Groups by lowercase path with and without extension, for looking up sidecars
+  const groupByStem = new Map<string, FileGroup>();
+
+  for (const group of members.values()) {
+    const [primary, ...companions] = [...group].sort(
+      (a, b) => primaryRank(a) - primaryRank(b) || a.localeCompare(b),
+    );
+    const fileGroup: FileGroup = { primary, companions };
+
+    groups.push(fileGroup);
+    for (const file of group) {
+      groupByStem.set(baseKey(file), fileGroup);
+      groupByStem.set(path.join(path.dirname(file), path.basename(file).toLowerCase()), fileGroup);
+    }
+  }
+
+  await attachSidecars(files, groupByStem);
+
+  // Keep the scan order so progress and plans follow the folder layout
+  const order = new Map(files.map((file, index) => [file, index]));
+  return groups.sort((a, b) => order.get(a.primary)! - order.get(b.primary)!);
+}
+
+/**
+ * Merge the photo and video of Live Photos that do not share a name, matched by the
+ * ContentIdentifier both halves carry
+ */
+async function pairLivePhotos(
+  members: Map<string, string[]>,
+  getMetadata: (file: string) => Promise<FileMetadata | null>,
+): Promise<void> {
+  const halves = new Map<string, { key: string; isVideo: boolean }>();
+
+  for (const key of Array.from(members.keys())) {
+    const group = members.get(key)!;
+    const hasImage = group.some((file) => LIVE_PHOTO_IMAGES.includes(extensionOf(file)));
+    const hasVideo = group.some((file) => LIVE_PHOTO_VIDEOS.includes(extensionOf(file)));
+
+    // Already paired by name, or cannot be part of a Live Photo
+    if (hasImage === hasVideo) {
+      continue;
+    }
+
+    const candidate = group.find((file) =>
+      [...LIVE_PHOTO_IMAGES, ...LIVE_PHOTO_VIDEOS].includes(extensionOf(file)),
+    )!;
+    const contentIdentifier = (await getMetadata(candidate))?.contentIdentifier;
+    if (!contentIdentifier) {
+      continue;
+    }
+
+    const other = halves.get(contentIdentifier);
+    if (other && other.isVideo !== hasVideo && members.has(other.key)) {
+      members.set(other.key, [...members.get(other.key)!, ...group]);
+      members.delete(key);
+      halves.delete(contentIdentifier);
+    } else {
+      halves.set(contentIdentifier, { key, isVideo: hasVideo });
+    }
+  }
+}
+
+/**
+ * Add sidecar files from the folders of the run to their groups. A sidecar may be named
+ * after the shot ("IMG_1.xmp") or after a single file ("IMG_1.CR2.xmp").
+ */
+async function attachSidecars(files: string[], groupByStem: Map<string, FileGroup>): Promise<void> {
+  const folders = Array.from(new Set(files.map((file) => path.dirname(file))));
+
+  for (const folder of folders) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(folder);
+    } catch (error) {
+      log.warn(`Could not list ${folder} for sidecar files:`, error);
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (!sidecarFormats.includes(extensionOf(entry))) {
+        continue;
+      }
+
+      const stem = path.join(folder, path.basename(entry, path.extname(entry)).toLowerCase());
+      const group = groupByStem.get(stem);
+      if (group) {
+        group.companions.push(path.join(folder, entry));
+      }
+    }
+  }
+}
+
+/**
+ * Name of a companion after its primary file has been renamed, so "IMG_1.xmp" follows
+ * "IMG_1.CR2" to "2024_0001.xmp" and "IMG_1.CR2.xmp" to "2024_0001.CR2.xmp"
+ */
+export function getCompanionName(
+  primaryName: string,
+  newPrimaryName: string,
+  companionName: string,
+  extensionCase: RenameExtensionCase = 'keep',
+): string {
+  const primaryBase = path.basename(primaryName, path.extname(primaryName));
+  const newBase = path.basename(newPrimaryName, path.extname(newPrimaryName));
+  const lowerCompanion = companionName.toLowerCase();
+
+  let base: string;
+  let suffix: string;
+
+  if (lowerCompanion.startsWith(`${primaryName.toLowerCase()}.`)) {
+    base = newPrimaryName;
+    suffix = companionName.slice(primaryName.length);
+  } else if (lowerCompanion.startsWith(`${primaryBase.toLowerCase()}.`)) {
+    base = newBase;
+    suffix = companionName.slice(primaryBase.length);
+  } else {
+    // Live Photo halves paired by ContentIdentifier can have unrelated names
+    base = newBase;
+    suffix = path.extname(companionName);
+  }
+
+  if (extensionCase === 'lower') {
+    suffix = suffix.toLowerCase();
+  } else if (extensionCase === 'upper') {
+    suffix = suffix.toUpperCase();
+  }
+
+  return `${base}${suffix}`;
+}
@@ -0,0 +1,168 @@
+import { ScheduleTiming } from '@common/types';
+
+/**
+ * A parsed five-field cron expression, each field is the set of allowed values
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+// Allowed range of each field, in cron order
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Give up looking for a matching time after this many years, e.g. for "0 0 30 2 *"
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Parse a cron expression such as "30 2 * * 1-5" or "*\/15 * * * *"
+ * @throws Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Cron expression "${expression}" must have ${FIELDS.length} fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index]),
+  );
+
+  // Sunday can be written as 0 or 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+function parseField(field: string, range: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid ${range.name} field "${field}" in cron expression`);
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw invalid();
+    }
+
+    const [, all, start, end, step] = match;
+    let from = range.min;
+    let to = range.max;
+
+    if (all !== '*') {
+      from = Number(start);
+      // "5/10" means every 10 starting at 5
+      to = end !== undefined ? Number(end) : step !== undefined ? range.max : from;
+    }
+
+    const increment = step !== undefined ? Number(step) : 1;
+    if (from < range.min || to > range.max || from > to || increment < 1) {
+      throw invalid();
+    }
+
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Cron expression equivalent to a schedule timing
+ * @throws Error when the timing is invalid
+ */
+export function timingToCron(timing: ScheduleTiming): string {
+  if (timing.type === 'cron') {
+    return timing.expression;
+  }
+
+  const match = timing.time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid schedule time "${timing.time}", expected HH:MM`);
+  }
+
+  const [, hour, minute] = match;
+  if (timing.type === 'daily') {
+    return `${Number(minute)} ${Number(hour)} * * *`;
+  }
+
+  if (timing.days.length === 0) {
+    throw new Error('A weekly schedule needs at least one day');
+  }
+  return `${Number(minute)} ${Number(hour)} * * ${timing.days.join(',')}`;
+}
+
+/**
+ * First time strictly after a date that matches a cron expression, in local time
+ * @throws Error when no time matches within the next years
+ */
+export function getNextCronTime(cron: CronExpression, after: Date): Date {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (date <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+      continue;
+    }
+
+    return date;
+  }
+
+  throw new Error('Cron expression never matches');
+}
+
+/**
+ * Standard cron day matching: when both day fields are restricted either may match
+ */
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
@@ -2,17 +2,198 @@ import { app } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as os from 'os';
-import { exec, execFile } from 'child_process';
+import { ChildProcessWithoutNullStreams, exec, execFile, spawn } from 'child_process';
 import { promisify } from 'util';
 import log from 'electron-log';
 
 const execPromise = promisify(exec);
 const execFilePromise = promisify(execFile);
 
+// Processes kept running for metadata reads and writes, each handles one request at a time
+const POOL_SIZE = Math.max(1, Math.min(os.cpus().length, 4));
+
+// A request taking longer than this is taken to hang its process, which is replaced
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Files per request in batched reads, and the extra time each file adds to the timeout
+const READ_BATCH_SIZE = 50;
+const READ_TIMEOUT_PER_FILE_MS = 2000;
+
+// A request whose process crashed is sent again this many times before it fails
+const MAX_CRASH_RETRIES = 1;
+
+/**
+ * Output of a single ExifTool command
+ */
+interface ExifToolOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * A command waiting for, or running in, an ExifTool process
+ */
+interface ExifToolRequest {
+  args: string[];
+  timeoutMs: number;
+  crashes: number;
+  resolve: (output: ExifToolOutput) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A long-lived ExifTool process in -stay_open mode. Arguments are written to its stdin
+ * one per line, and each command ends with a numbered -execute that ExifTool answers
+ * with a matching {ready} marker once it is done.
+ */
+class ExifToolProcess {
+  private readonly child: ChildProcessWithoutNullStreams;
+  private current: { request: ExifToolRequest; id: number; timer: NodeJS.Timeout } | null = null;
+  private stdout = '';
+  private stderr = '';
+  private nextId = 1;
+  private stopping = false; // Asked to quit or killed, takes no more work
+  private exited = false;
+
+  /**
+   * @param onIdle Called when a request finished and the process can take the next one
+   * @param onExit Called once the process is gone, with the request it was running
+   */
+  constructor(
+    exiftoolPath: string,
+    private readonly onIdle: () => void,
+    private readonly onExit: (process: ExifToolProcess, request: ExifToolRequest | null) => void,
+  ) {
+    this.child = spawn(exiftoolPath, ['-stay_open', 'True', '-@', '-'], { windowsHide: true });
+
+    this.child.stdout.setEncoding('utf8');
+    this.child.stderr.setEncoding('utf8');
+    this.child.stdout.on('data', (chunk: string) => {
+      this.stdout += chunk;
+      this.checkDone();
+    });
+    this.child.stderr.on('data', (chunk: string) => {
+      this.stderr += chunk;
+      this.checkDone();
+    });
+
+    // A write to a process that just died fails, the exit handler reports it
+    this.child.stdin.on('error', (error) => log.warn('ExifTool stdin error:', error));
+    this.child.on('error', (error) => this.handleExit(error));
+    this.child.on('exit', (code, signal) =>
+      this.handleExit(new Error(`ExifTool exited with ${signal || `code ${code}`}`)),
+    );
+  }
+
+  public isIdle(): boolean {
+    return !this.current && !this.stopping && !this.exited;
+  }
+
+  /**
+   * Start a command, the process must be idle
+   */
+  public run(request: ExifToolRequest): void {
+    const id = this.nextId++;
+    this.stdout = '';
+    this.stderr = '';
+    this.current = {
+      request,
+      id,
+      timer: setTimeout(() => {
+        // A hung process cannot take more work, it is killed and replaced
+        log.warn(`ExifTool request timed out after ${request.timeoutMs} ms, restarting ExifTool`);
+        this.stopping = true;
+        this.finish(null, new Error(`ExifTool timed out after ${request.timeoutMs} ms`));
+        this.child.kill();
+      }, request.timeoutMs),
+    };
+
+    // File names arrive as UTF-8 like every other argument. -echo4 prints the marker to
+    // stderr after the command, so both streams are complete once both markers arrived.
+    this.child.stdin.write(
+      [
+        '-charset',
+        'filename=UTF8',
+        ...request.args,
+        '-echo4',
+        `{ready${id}}`,
+        `-execute${id}`,
+        '',
+      ].join('\n'),
+    );
+  }
+
+  /**
+   * Ask the process to quit once its current command is done
+   */
+  public close(): void {
+    if (!this.exited && !this.stopping) {
+      this.stopping = true;
+      this.child.stdin.end('-stay_open\nFalse\n');
+    }
+  }
+
+  private checkDone(): void {
+    if (!this.current) {
+      return;
+    }
+
+    const marker = `{ready${this.current.id}}`;
+    const stdoutEnd = this.stdout.indexOf(marker);
+    const stderrEnd = this.stderr.indexOf(marker);
+
+    if (stdoutEnd !== -1 && stderrEnd !== -1) {
+      this.finish({
+        stdout: this.stdout.slice(0, stdoutEnd),
+        stderr: this.stderr.slice(0, stderrEnd),
+      });
+      this.onIdle();
+    }
+  }
+
+  private finish(output: ExifToolOutput | null, error?: Error): ExifToolRequest | null {
+    if (!this.current) {
+      return null;
+    }
+
+    const { request, timer } = this.current;
+    clearTimeout(timer);
+    this.current = null;
+    this.stdout = '';
+    this.stderr = '';
+
+    if (output) {
+      request.resolve(output);
+    } else if (error) {
+      request.reject(error);
+    }
+
+    return request;
+  }
+
+  private handleExit(error: Error): void {
+    if (this.exited) {
+      return;
+    }
+
+    this.exited = true;
+    if (!this.stopping) {
+      log.warn('ExifTool process stopped unexpectedly:', error.message);
+    }
+
+    // The manager decides whether the interrupted request is sent again
+    this.onExit(this, this.finish(null));
+  }
+}
+
 export class ExifToolManager {
   private static instance: ExifToolManager;
   private exiftoolPath: string | null = null;
   private isReady: boolean = false;
+  private initializing: Promise<boolean> | null = null;
+  private readonly processes: ExifToolProcess[] = [];
+  private readonly queue: ExifToolRequest[] = [];
+  private shuttingDown: boolean = false;
 
   private constructor() { }
 
@@ -41,9 +222,19 @@ export class ExifToolManager {
   }
 
   /**
-   * Initialize ExifTool
+   * Initialize ExifTool. Runs once, later calls wait for the first one.
+   */
+  public initialize(): Promise<boolean> {
+    if (!this.initializing) {
+      this.initializing = this.locateExifTool();
+    }
+    return this.initializing;
+  }
+
+  /**
+   * Find a system or bundled ExifTool
    */
-  public async initialize(): Promise<boolean> {
+  private async locateExifTool(): Promise<boolean> {
     try {
       // First check if ExifTool is already installed in the system
       if (await this.checkSystemExifTool()) {
@@ -124,21 +315,151 @@ export class ExifToolManager {
   }
 
   /**
-   * Execute ExifTool command
+   * Execute ExifTool command in one of the running ExifTool processes
+   * @param timeoutMs Time after which the command fails and its process is restarted
+   * @returns The standard output of the command
+   * @throws Error when ExifTool reports an error, times out or keeps crashing
    */
-  public async execute(args: string[]): Promise<string> {
-    if (!this.isReady || !this.exiftoolPath) {
-      throw new Error('ExifTool is not ready');
-    }
-
+  public async execute(args: string[], timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<string> {
     try {
-      const { stdout } = await execFilePromise(this.exiftoolPath, args);
+      const { stdout, stderr } = await this.enqueue(args, timeoutMs);
+
+      const error = stderr.split(/\r?\n/).find((line) => line.startsWith('Error'));
+      if (error) {
+        throw new Error(error);
+      }
+
       return stdout;
     } catch (error) {
       log.error('Error executing ExifTool command:', error);
       throw error;
     }
   }
+
+  /**
+   * Read the metadata of many files as ExifTool JSON, batching files into few commands
+   * @param args Extra arguments for every batch, such as tags to read
+   * @returns Metadata by file path. Files ExifTool could not read are left out.
+   */
+  public async readMetadata(
+    filePaths: string[],
+    args: string[] = [],
+  ): Promise<Map<string, Record<string, unknown>>> {
+    const results = new Map<string, Record<string, unknown>>();
+    const batches: string[][] = [];
+
+    for (let index = 0; index < filePaths.length; index += READ_BATCH_SIZE) {
+      batches.push(filePaths.slice(index, index + READ_BATCH_SIZE));
+    }
+
+    // Batches run side by side in the pool, a failed batch only loses its own files
+    await Promise.all(
+      batches.map(async (batch) => {
+        try {
+          const { stdout } = await this.enqueue(
+            ['-json', '-charset', 'UTF8', ...args, ...batch],
+            DEFAULT_TIMEOUT_MS + batch.length * READ_TIMEOUT_PER_FILE_MS,
+          );
+
+          // ExifTool reports paths its own way (forward slashes on Windows)
+          const requested = new Map(batch.map((filePath) => [path.resolve(filePath), filePath]));
+          const entries: Record<string, unknown>[] = stdout.trim() ? JSON.parse(stdout) : [];
+
+          for (const entry of entries) {
+            const filePath = requested.get(path.resolve(String(entry.SourceFile)));
+            if (filePath) {
+              results.set(filePath, entry);
+            }
+          }
+        } catch (error) {
+          log.warn(`Could not read metadata of ${batch.length} files with ExifTool:`, error);
+        }
+      }),
+    );
+
+    return results;
+  }
+
+  /**
+   * Stop all ExifTool processes, commands still queued fail
+   */
+  public shutdown(): void {
+    this.shuttingDown = true;
+
+    for (const request of this.queue.splice(0)) {
+      request.reject(new Error('ExifTool is shutting down'));
+    }
+    for (const worker of this.processes) {
+      worker.close();
+    }
+  }
+
+  /**
+   * Queue a command for the next idle process
+   */
+  private enqueue(args: string[], timeoutMs: number): Promise<ExifToolOutput> {
+    if (!this.isReady || !this.exiftoolPath) {
+      return Promise.reject(new Error('ExifTool is not ready'));
+    }
+    if (this.shuttingDown) {
+      return Promise.reject(new Error('ExifTool is shutting down'));
+    }
+
+    // Arguments are passed one per line, a line break would split one in two
+    if (args.some((arg) => /[\r\n]/.test(arg))) {
+      return Promise.reject(new Error('ExifTool arguments cannot contain line breaks'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ args, timeoutMs, crashes: 0, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Hand queued commands to idle processes, starting processes up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0 && !this.shuttingDown) {
+      let worker = this.processes.find((candidate) => candidate.isIdle());
+
+      if (!worker) {
+        if (this.processes.length >= POOL_SIZE) {
+          return;
+        }
+        worker = this.startProcess();
+      }
+
+      worker.run(this.queue.shift()!);
+    }
+  }
+
+  private startProcess(): ExifToolProcess {
+    const worker = new ExifToolProcess(
+      this.exiftoolPath!,
+      () => this.dispatch(),
+      (exited, request) => {
+        this.processes.splice(this.processes.indexOf(exited), 1);
+
+        if (request) {
+          if (this.shuttingDown) {
+            request.reject(new Error('ExifTool is shutting down'));
+          } else if (request.crashes < MAX_CRASH_RETRIES) {
+            log.warn('ExifTool process crashed, retrying the request in a new process');
+            request.crashes++;
+            this.queue.unshift(request);
+          } else {
+            request.reject(new Error('ExifTool crashed while handling the request'));
+          }
+        }
+
+        this.dispatch();
+      },
+    );
+
+    this.processes.push(worker);
+    return worker;
+  }
 }
 
 // Singleton instance
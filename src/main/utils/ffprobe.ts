@@ -0,0 +1,146 @@
+import { promisify } from 'util';
+import { execFile } from 'child_process';
+import log from 'electron-log';
+import { VideoMetadata } from '@common/types';
+
+const execFilePromise = promisify(execFile);
+
+// Checked once, ffprobe does not come and go while the app runs
+let ffprobeAvailable: Promise<boolean> | null = null;
+
+/**
+ * Whether ffprobe (shipped with ffmpeg) is on the PATH
+ */
+export function isFfprobeAvailable(): Promise<boolean> {
+  if (!ffprobeAvailable) {
+    ffprobeAvailable = execFilePromise('ffprobe', ['-version'])
+      .then(() => true)
+      .catch(() => {
+        log.warn('ffprobe not available, video metadata will not be read');
+        return false;
+      });
+  }
+
+  return ffprobeAvailable;
+}
+
+interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  r_frame_rate?: string;
+  duration?: string;
+  bit_rate?: string;
+  channels?: number;
+  disposition?: { attached_pic?: number };
+  tags?: Record<string, string>;
+  side_data_list?: { side_data_type?: string; rotation?: number }[];
+}
+
+interface ProbeOutput {
+  streams?: ProbeStream[];
+  format?: {
+    duration?: string;
+    bit_rate?: string;
+    tags?: Record<string, string>;
+  };
+}
+
+/**
+ * Parse a number ffprobe printed as text, ignoring "N/A"
+ */
+function toNumber(value: string | number | undefined): number | undefined {
+  const number = Number(value);
+  return value === undefined || value === '' || !isFinite(number) ? undefined : number;
+}
+
+/**
+ * Parse a frame rate such as "30000/1001" into frames per second
+ */
+function parseFrameRate(value: string | undefined): number | undefined {
+  const [numerator, denominator = '1'] = (value || '').split('/');
+  const rate = Number(numerator) / Number(denominator);
+
+  return isFinite(rate) && rate > 0 ? Math.round(rate * 1000) / 1000 : undefined;
+}
+
+/**
+ * Clockwise rotation a player applies when showing the video. Older files have a rotate
+ * tag, newer ffprobe versions report a display matrix that turns counter-clockwise.
+ */
+function getRotation(stream: ProbeStream): number | undefined {
+  const tag = toNumber(stream.tags?.rotate);
+  const matrix = stream.side_data_list?.find((data) => data.rotation !== undefined)?.rotation;
+  const rotation = tag ?? (matrix !== undefined ? -matrix : undefined);
+
+  return rotation === undefined ? undefined : ((Math.round(rotation) % 360) + 360) % 360;
+}
+
+/**
+ * Turn ffprobe's JSON output into the video block of FileMetadata
+ */
+export function parseProbeOutput(output: ProbeOutput): VideoMetadata | null {
+  const streams = output.streams || [];
+
+  // Cover art is stored as a video stream too
+  const video = streams.find(
+    (stream) => stream.codec_type === 'video' && stream.disposition?.attached_pic !== 1,
+  );
+  if (!video) {
+    return null;
+  }
+
+  const audio = streams.find((stream) => stream.codec_type === 'audio');
+
+  return {
+    duration: toNumber(output.format?.duration) ?? toNumber(video.duration),
+    codec: video.codec_name,
+    bitrate: toNumber(output.format?.bit_rate) ?? toNumber(video.bit_rate),
+    frameRate: parseFrameRate(video.avg_frame_rate) ?? parseFrameRate(video.r_frame_rate),
+    width: video.width,
+    height: video.height,
+    rotation: getRotation(video),
+    audioCodec: audio?.codec_name,
+    audioChannels: audio?.channels,
+    creationTime: output.format?.tags?.creation_time || video.tags?.creation_time,
+  };
+}
+
+/**
+ * Read the stream details of a video with ffprobe
+ * @returns The video details, or null when ffprobe is missing or the file has no video
+ */
+export async function getVideoMetadata(filePath: string): Promise<VideoMetadata | null> {
+  if (!(await isFfprobeAvailable())) {
+    return null;
+  }
+
+  try {
+    // Passed as arguments, never through a shell, so any file name is safe
+    const { stdout } = await execFilePromise('ffprobe', [
+      '-v',
+      'quiet',
+      '-print_format',
+      'json',
+      '-show_format',
+      '-show_streams',
+      filePath,
+    ]);
+    return parseProbeOutput(JSON.parse(stdout));
+  } catch (error) {
+    log.warn(`Could not read video metadata from ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Width and height of a video as it is shown, after applying its rotation
+ */
+export function getDisplaySize(video: VideoMetadata): { width?: number; height?: number } {
+  const sideways = video.rotation === 90 || video.rotation === 270;
+  return sideways
+    ? { width: video.height, height: video.width }
+    : { width: video.width, height: video.height };
+}
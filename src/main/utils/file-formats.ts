@@ -0,0 +1,365 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CustomMediaFormat } from '@common/types';
+
+/**
+ * File content told apart by its first bytes
+ */
+export type ContentFormat =
+  | 'jpeg'
+  | 'png'
+  | 'gif'
+  | 'bmp'
+  | 'webp'
+  | 'tiff'
+  | 'cr2'
+  | 'cr3'
+  | 'orf'
+  | 'rw2'
+  | 'raf'
+  | 'heif'
+  | 'avif'
+  | 'jxl'
+  | 'mp4'
+  | 'mov'
+  | '3gp'
+  | 'avi'
+  | 'mkv'
+  | 'webm'
+  | 'flv'
+  | 'wmv'
+  | 'mpeg'
+  | 'mpeg-ts'
+  | 'm2ts';
+
+/**
+ * A file extension the app handles
+ */
+export interface MediaFormat {
+  extension: string;
+  type: 'image' | 'video';
+  content?: ContentFormat[]; // Contents files with this extension may hold, unset when not checked
+  raw?: boolean; // Camera RAW, preferred over JPEGs of the same shot
+}
+
+// Extension and media type each content calls for
+const CONTENT_FORMATS: Record<ContentFormat, { extension: string; type: 'image' | 'video' }> = {
+  jpeg: { extension: 'jpg', type: 'image' },
+  png: { extension: 'png', type: 'image' },
+  gif: { extension: 'gif', type: 'image' },
+  bmp: { extension: 'bmp', type: 'image' },
+  webp: { extension: 'webp', type: 'image' },
+  tiff: { extension: 'tiff', type: 'image' },
+  cr2: { extension: 'cr2', type: 'image' },
+  cr3: { extension: 'cr3', type: 'image' },
+  orf: { extension: 'orf', type: 'image' },
+  rw2: { extension: 'rw2', type: 'image' },
+  raf: { extension: 'raf', type: 'image' },
+  heif: { extension: 'heic', type: 'image' },
+  avif: { extension: 'avif', type: 'image' },
+  jxl: { extension: 'jxl', type: 'image' },
+  mp4: { extension: 'mp4', type: 'video' },
+  mov: { extension: 'mov', type: 'video' },
+  '3gp': { extension: '3gp', type: 'video' },
+  avi: { extension: 'avi', type: 'video' },
+  mkv: { extension: 'mkv', type: 'video' },
+  webm: { extension: 'webm', type: 'video' },
+  flv: { extension: 'flv', type: 'video' },
+  wmv: { extension: 'wmv', type: 'video' },
+  mpeg: { extension: 'mpg', type: 'video' },
+  'mpeg-ts': { extension: 'ts', type: 'video' },
+  m2ts: { extension: 'm2ts', type: 'video' },
+};
+
+// Most RAW formats are TIFF inside, without anything in the header to tell them apart
+const TIFF_RAW = ['tiff' as const];
+
+// QuickTime and MP4 share a container, cameras and phones mix up their brands
+const ISO_VIDEO: ContentFormat[] = ['mp4', 'mov', '3gp'];
+
+const BUILT_IN_FORMATS: MediaFormat[] = [
+  { extension: 'jpg', type: 'image', content: ['jpeg'] },
+  { extension: 'jpeg', type: 'image', content: ['jpeg'] },
+  { extension: 'jpe', type: 'image', content: ['jpeg'] },
+  { extension: 'png', type: 'image', content: ['png'] },
+  { extension: 'gif', type: 'image', content: ['gif'] },
+  { extension: 'tiff', type: 'image', content: ['tiff'] },
+  { extension: 'tif', type: 'image', content: ['tiff'] },
+  { extension: 'bmp', type: 'image', content: ['bmp'] },
+  { extension: 'heic', type: 'image', content: ['heif'] },
+  { extension: 'heif', type: 'image', content: ['heif'] },
+  { extension: 'hif', type: 'image', content: ['heif'] },
+  { extension: 'avif', type: 'image', content: ['avif'] },
+  { extension: 'jxl', type: 'image', content: ['jxl'] },
+  { extension: 'webp', type: 'image', content: ['webp'] },
+  { extension: 'insp', type: 'image', content: ['jpeg'] }, // Insta360 360° photos
+  { extension: 'raw', type: 'image', raw: true },
+  { extension: 'cr2', type: 'image', content: ['cr2'], raw: true },
+  { extension: 'cr3', type: 'image', content: ['cr3'], raw: true },
+  { extension: 'nef', type: 'image', content: TIFF_RAW, raw: true },
+  { extension: 'nrw', type: 'image', content: TIFF_RAW, raw: true },
+  { extension: 'arw', type: 'image', content: TIFF_RAW, raw: true },
+  { extension: 'dng', type: 'image', content: TIFF_RAW, raw: true },
+  { extension: 'orf', type: 'image', content: ['orf'], raw: true },
+  { extension: 'rw2', type: 'image', content: ['rw2'], raw: true },
+  { extension: 'raf', type: 'image', content: ['raf'], raw: true },
+  { extension: 'pef', type: 'image', content: TIFF_RAW, raw: true },
+  { extension: 'srw', type: 'image', content: TIFF_RAW, raw: true },
+  { extension: 'mp4', type: 'video', content: ISO_VIDEO },
+  { extension: 'mov', type: 'video', content: ISO_VIDEO },
+  { extension: 'm4v', type: 'video', content: ISO_VIDEO },
+  { extension: '3gp', type: 'video', content: ISO_VIDEO },
+  { extension: 'avi', type: 'video', content: ['avi'] },
+  { extension: 'mkv', type: 'video', content: ['mkv', 'webm'] },
+  { extension: 'webm', type: 'video', content: ['webm', 'mkv'] },
+  { extension: 'wmv', type: 'video', content: ['wmv'] },
+  { extension: 'flv', type: 'video', content: ['flv'] },
+  { extension: 'mts', type: 'video', content: ['m2ts', 'mpeg-ts'] },
+  { extension: 'm2ts', type: 'video', content: ['m2ts', 'mpeg-ts'] },
+  { extension: 'mpg', type: 'video', content: ['mpeg'] },
+  { extension: 'mpeg', type: 'video', content: ['mpeg'] },
+  { extension: 'insv', type: 'video', content: ISO_VIDEO }, // Insta360 360° videos
+  { extension: '360', type: 'video', content: ISO_VIDEO }, // GoPro MAX 360° videos
+];
+
+// Bytes read to tell a file's content, enough for three transport stream packets
+const SNIFF_BYTES = 512;
+
+// ISO media brands of HEIF and AVIF still images
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+// First boxes of QuickTime files written before the ftyp box existed
+const QUICKTIME_ATOMS = ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot'];
+
+/**
+ * Tell the format of ISO media (MP4, QuickTime, HEIF and relatives) from its brands
+ */
+function sniffIsoBrand(header: Buffer): ContentFormat {
+  const major = header.toString('latin1', 8, 12);
+  const boxEnd = Math.min(header.readUInt32BE(0), header.length);
+  const brands = [major];
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(header.toString('latin1', offset, offset + 4));
+  }
+
+  if (brands.some((brand) => AVIF_BRANDS.includes(brand))) {
+    return 'avif';
+  }
+  if (HEIF_BRANDS.includes(major)) {
+    return 'heif';
+  }
+  if (major === 'crx ') {
+    return 'cr3';
+  }
+  if (major === 'qt  ') {
+    return 'mov';
+  }
+  if (major.startsWith('3g')) {
+    return '3gp';
+  }
+  return 'mp4';
+}
+
+/**
+ * Tell the format of a file from its first bytes
+ * @returns The format, or null when the content is not a known media format
+ */
+export function sniffContentFormat(header: Buffer): ContentFormat | null {
+  const ascii = (start: number, end: number) => header.toString('latin1', start, end);
+  const startsWith = (bytes: number[], offset: number = 0) =>
+    header.length >= offset + bytes.length && bytes.every((byte, i) => header[offset + i] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return 'jpeg';
+  }
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'png';
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return 'gif';
+  }
+  if (ascii(0, 4) === 'RIFF') {
+    const kind = ascii(8, 12);
+    return kind === 'WEBP' ? 'webp' : kind === 'AVI ' ? 'avi' : null;
+  }
+  if (ascii(0, 15) === 'FUJIFILMCCD-RAW') {
+    return 'raf';
+  }
+  if (['IIRO', 'IIRS', 'MMOR'].includes(ascii(0, 4))) {
+    return 'orf';
+  }
+  if (startsWith([0x49, 0x49, 0x55, 0x00])) {
+    return 'rw2';
+  }
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') {
+    return ascii(8, 10) === 'CR' ? 'cr2' : 'tiff';
+  }
+  if (header.length >= 12 && ascii(4, 8) === 'ftyp') {
+    return sniffIsoBrand(header);
+  }
+  if (QUICKTIME_ATOMS.includes(ascii(4, 8))) {
+    return 'mov';
+  }
+  if (
+    startsWith([0xff, 0x0a]) ||
+    startsWith([0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a])
+  ) {
+    return 'jxl';
+  }
+  if (startsWith([0x1a, 0x45, 0xdf, 0xa3])) {
+    // Matroska, the EBML header names the document type
+    return header.includes('webm', 0, 'latin1') ? 'webm' : 'mkv';
+  }
+  if (ascii(0, 3) === 'FLV') {
+    return 'flv';
+  }
+  if (startsWith([0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11])) {
+    return 'wmv';
+  }
+  if (startsWith([0x00, 0x00, 0x01, 0xba]) || startsWith([0x00, 0x00, 0x01, 0xb3])) {
+    return 'mpeg';
+  }
+  // Transport streams repeat a sync byte every packet, Blu-ray ones put a timestamp first
+  if (header[4] === 0x47 && header[196] === 0x47 && header[388] === 0x47) {
+    return 'm2ts';
+  }
+  if (header[0] === 0x47 && header[188] === 0x47 && header[376] === 0x47) {
+    return 'mpeg-ts';
+  }
+  // Bitmaps only have a two letter signature, the size of the header that follows confirms it
+  if (ascii(0, 2) === 'BM' && header.length >= 18) {
+    return [12, 40, 52, 56, 108, 124].includes(header.readUInt32LE(14)) ? 'bmp' : null;
+  }
+
+  return null;
+}
+
+/**
+ * Tell the format of a file from its content
+ * @returns The format, or null when it is unknown or the file cannot be read
+ */
+export async function detectContentFormat(filePath: string): Promise<ContentFormat | null> {
+  let handle: fs.FileHandle | null = null;
+
+  try {
+    handle = await fs.open(filePath, 'r');
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    return sniffContentFormat(buffer.subarray(0, bytesRead));
+  } catch {
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * Extension and media type a content calls for
+ */
+export function getContentFormatInfo(content: ContentFormat): {
+  extension: string;
+  type: 'image' | 'video';
+} {
+  return CONTENT_FORMATS[content];
+}
+
+/**
+ * Whether a file is of one of the wanted formats, by its extension, or by its content when it
+ * has none, as cameras and recovery tools sometimes write them
+ * @param extensions Wanted extensions, lower case without the dot
+ */
+export async function isWantedFile(
+  filePath: string,
+  extensions: ReadonlySet<string>,
+): Promise<boolean> {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  if (extension) {
+    return extensions.has(extension);
+  }
+
+  const content = await detectContentFormat(filePath);
+  return content !== null && extensions.has(getContentFormatInfo(content).extension);
+}
+
+/**
+ * The formats the app handles: the built-in list, extended by custom formats from settings
+ */
+export class FormatRegistry {
+  // Updated in place, so modules holding on to these lists see custom formats too
+  public readonly imageExtensions: string[] = [];
+  public readonly videoExtensions: string[] = [];
+  public readonly extensions: string[] = [];
+  public readonly rawExtensions: string[] = [];
+
+  private formats = new Map<string, MediaFormat>();
+  private customFormats: CustomMediaFormat[] = [];
+
+  constructor() {
+    this.setCustomFormats([]);
+  }
+
+  /**
+   * Replace the custom formats. Custom formats may redefine built-in extensions, their
+   * content is never checked.
+   */
+  public setCustomFormats(customFormats: CustomMediaFormat[]): void {
+    this.customFormats = customFormats;
+    this.formats = new Map(BUILT_IN_FORMATS.map((format) => [format.extension, format]));
+
+    for (const { extension, type, raw } of customFormats) {
+      const normalized = extension.trim().toLowerCase().replace(/^\./, '');
+      if (normalized && (type === 'image' || type === 'video')) {
+        this.formats.set(normalized, {
+          extension: normalized,
+          type,
+          raw: type === 'image' && Boolean(raw),
+        });
+      }
+    }
+
+    const formats = [...this.formats.values()];
+    const refill = (list: string[], matching: MediaFormat[]) =>
+      list.splice(0, list.length, ...matching.map((format) => format.extension));
+
+    refill(
+      this.imageExtensions,
+      formats.filter((format) => format.type === 'image'),
+    );
+    refill(
+      this.videoExtensions,
+      formats.filter((format) => format.type === 'video'),
+    );
+    refill(this.extensions, formats);
+    refill(
+      this.rawExtensions,
+      formats.filter((format) => format.raw),
+    );
+  }
+
+  /**
+   * The custom formats as set, to hand them to the scan worker
+   */
+  public getCustomFormats(): CustomMediaFormat[] {
+    return this.customFormats;
+  }
+
+  /**
+   * Format of an extension, without the dot
+   */
+  public getFormat(extension: string): MediaFormat | undefined {
+    return this.formats.get(extension.toLowerCase());
+  }
+
+  /**
+   * Whether content fits a file's extension. Extensions whose content is not checked
+   * fit anything, unknown extensions and files without one fit nothing.
+   */
+  public fitsExtension(extension: string, content: ContentFormat): boolean {
+    const format = this.getFormat(extension);
+    return Boolean(format && (!format.content || format.content.includes(content)));
+  }
+}
+
+// Instance for global usage
+export const formatRegistry = new FormatRegistry();
@@ -0,0 +1,331 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DateSource, FileMetadata } from '@common/types';
+import { FilenameDateParser, parseFilenameDate } from '@main/utils/filename-dates';
+import { getDisplaySize, getVideoMetadata } from '@main/utils/ffprobe';
+import { Coordinates, getCoordinates } from '@main/utils/geo';
+import { fromWallClock, parseUtcOffset, toWallClock } from '@main/utils/time-zones';
+import {
+  detectContentFormat,
+  formatRegistry,
+  getContentFormatInfo,
+} from '@main/utils/file-formats';
+
+// Video containers whose CreateDate is stored in UTC
+export const quickTimeFormats = ['mp4', 'mov', 'm4v', '3gp', 'insv', '360'];
+
+/**
+ * Determine the media type of a file from its extension
+ */
+export function getFileType(filePath: string): 'image' | 'video' | 'unknown' {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  return formatRegistry.getFormat(extension)?.type ?? 'unknown';
+}
+
+/**
+ * Determine the media type of a file from its content, falling back to its extension
+ * @returns The type, and the extension the content calls for when the file's own does not fit it
+ */
+export async function detectFileType(
+  filePath: string,
+): Promise<{ type: 'image' | 'video' | 'unknown'; detectedExtension?: string }> {
+  const content = await detectContentFormat(filePath);
+  if (!content) {
+    return { type: getFileType(filePath) };
+  }
+
+  const { extension, type } = getContentFormatInfo(content);
+  const current = path.extname(filePath).slice(1);
+
+  // Custom formats and extensions without a known signature keep the type they are set up with
+  if (formatRegistry.fitsExtension(current, content)) {
+    return { type: formatRegistry.getFormat(current)?.type ?? type };
+  }
+
+  return { type, detectedExtension: extension };
+}
+
+/**
+ * How capture dates are worked out, set up once per organize run
+ */
+export interface CaptureDateOptions {
+  dateParsers?: FilenameDateParser[]; // Tried when the metadata has no date
+  timeZone?: string; // Zone of files whose metadata has no UTC offset
+  findTimeZone?: (position: Coordinates) => Promise<string>; // Zone of geotagged files otherwise
+}
+
+/**
+ * Combine file stats, EXIF data and video stream details into a FileMetadata record.
+ * Needs no Electron APIs, so the scan worker builds the records of scanned files itself.
+ */
+export async function buildFileMetadata(
+  filePath: string,
+  exifData: Partial<FileMetadata> | undefined,
+  dateOptions: CaptureDateOptions = {},
+): Promise<FileMetadata> {
+  // Get basic file stats, and the type the file's content calls for
+  const [stats, { type, detectedExtension }] = await Promise.all([
+    fs.stat(filePath),
+    detectFileType(filePath),
+  ]);
+
+  // Basic metadata
+  const metadata: FileMetadata = {
+    path: filePath,
+    name: path.basename(filePath),
+    extension: path.extname(filePath).slice(1).toLowerCase(),
+    size: stats.size,
+    createdAt: stats.birthtime,
+    modifiedAt: stats.mtime,
+    type,
+    detectedExtension,
+  };
+
+  // Merge EXIF data with basic metadata
+  let result: FileMetadata = { ...metadata, ...exifData };
+
+  // Stream details of videos come from ffprobe, exiftool does not know all containers
+  if (result.type === 'video') {
+    const video = await getVideoMetadata(filePath);
+    if (video) {
+      const size = getDisplaySize(video);
+      result = {
+        ...result,
+        width: result.width ?? size.width,
+        height: result.height ?? size.height,
+        video,
+      };
+    }
+  }
+
+  result = { ...result, ...(await resolveTimeZone(result, dateOptions)) };
+
+  const { date, source } = resolveCaptureDate(result, dateOptions.dateParsers);
+  return { ...result, captureDate: date, dateSource: source };
+}
+
+/**
+ * Work out the time zone a file was captured in: a UTC offset in the metadata, then the
+ * zone chosen for the run, then the zone at the file's GPS position
+ */
+async function resolveTimeZone(
+  metadata: FileMetadata,
+  options: CaptureDateOptions,
+): Promise<Pick<FileMetadata, 'timeZone' | 'timeZoneSource'>> {
+  const offset = [
+    metadata.offsetTimeOriginal,
+    parseExifOffset(metadata.dateTimeOriginal),
+    metadata.offsetTime,
+    parseExifOffset(metadata.creationDate),
+  ].find((value): value is string => typeof value === 'string' && parseUtcOffset(value) !== null);
+
+  if (offset) {
+    return { timeZone: offset.trim(), timeZoneSource: 'metadata' };
+  }
+
+  if (options.timeZone) {
+    return { timeZone: options.timeZone, timeZoneSource: 'override' };
+  }
+
+  const position = getCoordinates(metadata);
+  if (position && options.findTimeZone) {
+    return { timeZone: await options.findTimeZone(position), timeZoneSource: 'gps' };
+  }
+
+  return {};
+}
+
+/**
+ * Parse an EXIF date string ("YYYY:MM:DD HH:MM:SS") into a local Date
+ */
+export function parseExifDate(value: unknown): Date | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = value.match(/^(\d{4})[:-](\d{2})[:-](\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+
+  // Cameras write 0000:00:00 when the clock was never set
+  if (Number(year) === 0 || Number(month) === 0 || Number(day) === 0) {
+    return null;
+  }
+
+  const date = new Date(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+  );
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * UTC offset written after the time of an EXIF date, as in "2023:01:02 10:10:10+03:00"
+ */
+export function parseExifOffset(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = value.trim().match(/\d{2}:\d{2}:\d{2}(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Parse a full ISO 8601 timestamp such as ffprobe's creation_time
+ */
+function parseIsoDate(value: string | undefined): Date | null {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * Work out the moment a file was captured from the most trusted source available: EXIF
+ * DateTimeOriginal, then CreateDate, then the QuickTime CreationDate of videos, then a
+ * date in the file name, then the modification time. Dates without a UTC offset are
+ * read as wall-clock time in the file's time zone.
+ */
+export function resolveCaptureDate(
+  metadata: FileMetadata,
+  dateParsers?: FilenameDateParser[],
+): { date: Date; source: DateSource } {
+  const readExifDate = (value: unknown, utc: boolean = false): Date | null => {
+    const date = parseExifDate(value);
+    return date && fromWallClock(date, parseExifOffset(value) ?? (utc ? 'Z' : metadata.timeZone));
+  };
+
+  // QuickTime stores CreateDate in UTC where EXIF has local time
+  const utcCreateDate =
+    metadata.type === 'video' &&
+    quickTimeFormats.includes((metadata.detectedExtension ?? metadata.extension).toLowerCase());
+
+  // Metadata dates in the order they are trusted
+  const candidates: [DateSource, () => Date | null][] = [
+    ['dateTimeOriginal', () => readExifDate(metadata.dateTimeOriginal)],
+    // ffprobe's creation_time is the same container date, read when exiftool is missing
+    [
+      'createDate',
+      () =>
+        readExifDate(metadata.createDate, utcCreateDate) ||
+        parseIsoDate(metadata.video?.creationTime),
+    ],
+    ['creationDate', () => readExifDate(metadata.creationDate)],
+  ];
+
+  for (const [source, read] of candidates) {
+    const date = read();
+    if (date) {
+      return { date, source };
+    }
+  }
+
+  const filenameDate = parseFilenameDate(metadata.path, dateParsers);
+  if (filenameDate) {
+    return { date: fromWallClock(filenameDate, metadata.timeZone), source: 'filename' };
+  }
+
+  return { date: new Date(metadata.modifiedAt), source: 'mtime' };
+}
+
+/**
+ * Get the best known capture date for a file, as the clock showed it where the file was
+ * captured. The wall-clock time is held in the local fields of the returned Date.
+ */
+export function getCaptureDate(metadata: FileMetadata): Date {
+  const date = metadata.captureDate
+    ? new Date(metadata.captureDate)
+    : resolveCaptureDate(metadata).date;
+
+  return toWallClock(date, metadata.timeZone);
+}
+
+/**
+ * Parse a GPS coordinate into signed decimal degrees. Accepts numbers and exiftool's
+ * default output such as 41 deg 1' 12.34" N
+ */
+export function parseGpsCoordinate(value: unknown, ref?: unknown): number | undefined {
+  let degrees: number;
+  let hemisphere = typeof ref === 'string' ? ref.trim().charAt(0).toUpperCase() : '';
+
+  if (typeof value === 'number') {
+    degrees = value;
+  } else if (typeof value === 'string') {
+    const match = value.match(
+      /^\s*(-?\d+(?:\.\d+)?)(?:\s*deg\s*(\d+(?:\.\d+)?)'?)?(?:\s*(\d+(?:\.\d+)?)")?\s*([NSEW])?/i,
+    );
+    if (!match) {
+      return undefined;
+    }
+
+    const [, deg, minutes = '0', seconds = '0', direction] = match;
+    degrees = Math.abs(Number(deg)) + Number(minutes) / 60 + Number(seconds) / 3600;
+    if (Number(deg) < 0) {
+      degrees = -degrees;
+    }
+    hemisphere = direction ? direction.toUpperCase() : hemisphere;
+  } else {
+    return undefined;
+  }
+
+  if (isNaN(degrees)) {
+    return undefined;
+  }
+
+  return hemisphere === 'S' || hemisphere === 'W' ? -Math.abs(degrees) : degrees;
+}
+
+// ExifTool's JSON turns numeric-looking text into numbers, e.g. a Model of "5"
+const exifString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+
+// Without -n, ExifTool prints some numbers with their unit, e.g. "4.2 mm"
+const exifNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Pick the fields of FileMetadata from exiftool's JSON output for a file
+ */
+export function extractExifFields(exif: Record<string, unknown>): Partial<FileMetadata> {
+  return {
+    // Date fields
+    dateTimeOriginal: exifString(exif.DateTimeOriginal),
+    createDate: exifString(exif.CreateDate),
+    creationDate: exifString(exif.CreationDate),
+    offsetTimeOriginal: exifString(exif.OffsetTimeOriginal),
+    offsetTime: exifString(exif.OffsetTime),
+
+    // Camera info
+    make: exifString(exif.Make),
+    model: exifString(exif.Model),
+
+    // Image details
+    width: exifNumber(exif.ImageWidth),
+    height: exifNumber(exif.ImageHeight),
+
+    // Geo data
+    latitude: parseGpsCoordinate(exif.GPSLatitude, exif.GPSLatitudeRef),
+    longitude: parseGpsCoordinate(exif.GPSLongitude, exif.GPSLongitudeRef),
+
+    // Other metadata
+    iso: exifNumber(exif.ISO),
+    exposureTime: exifString(exif.ExposureTime),
+    fNumber: exifNumber(exif.FNumber),
+    focalLength: exifNumber(exif.FocalLength),
+
+    // Shared by the photo and video of an Apple Live Photo
+    contentIdentifier: exifString(exif.ContentIdentifier),
+
+    // Full exif data
+    exif,
+  };
+}
@@ -0,0 +1,178 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import { createHash } from 'crypto';
+
+/**
+ * How a file is written to its destination
+ */
+export interface TransferOptions {
+  overwrite?: boolean; // Replace an existing destination instead of failing
+  verify?: boolean; // Compare checksums of the source and the written file before finishing
+}
+
+// Suffix of the temporary file a transfer writes before renaming it into place
+const PARTIAL_SUFFIX = '.partial';
+
+/**
+ * Check whether a path exists
+ */
+export async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a directory and any missing parents
+ * @returns The directories that did not exist before, outermost first
+ */
+export async function ensureDirectory(dirPath: string): Promise<string[]> {
+  const missing: string[] = [];
+  let current = path.resolve(dirPath);
+
+  while (!(await pathExists(current))) {
+    missing.unshift(current);
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+  }
+
+  if (missing.length > 0) {
+    await fs.mkdir(dirPath, { recursive: true });
+  }
+
+  return missing;
+}
+
+/**
+ * Compute the SHA-256 of a file without loading it into memory
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const hash = createHash('sha256');
+    const stream = createReadStream(filePath);
+
+    stream.on('data', (chunk) => hash.update(chunk));
+    stream.on('error', reject);
+    stream.on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Temporary file a copy to this destination is written to, hidden and without a media
+ * extension so scans never pick it up
+ */
+export function getPartialPath(targetPath: string): string {
+  return path.join(path.dirname(targetPath), `.${path.basename(targetPath)}${PARTIAL_SUFFIX}`);
+}
+
+/**
+ * Copy a file and carry over its access and modification times. The copy is written to a
+ * temporary file and renamed into place, so an interrupted copy never leaves a truncated
+ * file at the destination.
+ * @throws When verifying and the checksum of the copy does not match the source
+ */
+export async function copyFilePreservingTimestamps(
+  sourcePath: string,
+  targetPath: string,
+  options: TransferOptions = {},
+): Promise<void> {
+  if (!options.overwrite && (await pathExists(targetPath))) {
+    throw new Error(`Destination already exists: ${targetPath}`);
+  }
+
+  const partialPath = getPartialPath(targetPath);
+  const stats = await fs.stat(sourcePath);
+
+  // Left over from an earlier copy that was interrupted
+  await fs.rm(partialPath, { force: true });
+
+  try {
+    await fs.copyFile(sourcePath, partialPath);
+    await fs.utimes(partialPath, stats.atime, stats.mtime);
+
+    if (options.verify) {
+      const [sourceHash, copyHash] = await Promise.all([
+        hashFile(sourcePath),
+        hashFile(partialPath),
+      ]);
+      if (sourceHash !== copyHash) {
+        throw new Error(`Checksum mismatch after copying ${sourcePath} to ${targetPath}`);
+      }
+    }
+
+    await commitPartial(partialPath, targetPath, options.overwrite === true);
+  } catch (error) {
+    await fs.rm(partialPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Move a file. Across filesystems it is copied, verified and only then removed from the
+ * source.
+ */
+export async function moveFile(
+  sourcePath: string,
+  targetPath: string,
+  options: TransferOptions = {},
+): Promise<void> {
+  if (!options.overwrite && (await pathExists(targetPath))) {
+    throw new Error(`Destination already exists: ${targetPath}`);
+  }
+
+  try {
+    await fs.rename(sourcePath, targetPath);
+  } catch (error) {
+    // rename() cannot cross filesystems
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+
+    // The original is the only copy until the destination is known to be good
+    await copyFilePreservingTimestamps(sourcePath, targetPath, { ...options, verify: true });
+    await fs.unlink(sourcePath);
+  }
+}
+
+/**
+ * Put a finished temporary file in place of its destination
+ */
+async function commitPartial(
+  partialPath: string,
+  targetPath: string,
+  overwrite: boolean,
+): Promise<void> {
+  if (overwrite) {
+    await fs.rename(partialPath, targetPath);
+    return;
+  }
+
+  // A hard link fails if the destination appeared in the meantime, where rename() would
+  // replace it
+  try {
+    await fs.link(partialPath, targetPath);
+    await fs.unlink(partialPath);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'EEXIST') {
+      throw new Error(`Destination already exists: ${targetPath}`);
+    }
+    // Some filesystems, like FAT on memory cards, have no hard links
+    if (code !== 'EPERM' && code !== 'ENOTSUP' && code !== 'ENOSYS') {
+      throw error;
+    }
+
+    if (await pathExists(targetPath)) {
+      throw new Error(`Destination already exists: ${targetPath}`);
+    }
+    await fs.rename(partialPath, targetPath);
+  }
+}
@@ -0,0 +1,144 @@
+import * as path from 'path';
+import log from 'electron-log';
+import { FilenameDateOptions, FilenameDateParserId } from '@common/types';
+
+/**
+ * Reads a capture date from a file name. Patterns use the named groups year, month and
+ * day, and optionally hour, minute, second and meridiem (AM or PM).
+ */
+export interface FilenameDateParser {
+  id: string;
+  pattern: RegExp;
+}
+
+const BUILT_IN_PARSERS: Record<FilenameDateParserId, RegExp> = {
+  // IMG-20230102-WA0001.jpg, VID-20230102-WA0001.mp4
+  whatsapp: /^(?:IMG|VID|AUD|PTT|STK)-(?<year>\d{4})(?<month>\d{2})(?<day>\d{2})-WA\d+/i,
+
+  // PXL_20230102_101010123.jpg
+  pixel:
+    /^PXL_(?<year>\d{4})(?<month>\d{2})(?<day>\d{2})_(?<hour>\d{2})(?<minute>\d{2})(?<second>\d{2})/i,
+
+  // IMG_20230102_101010.jpg, VID_20230102_101010.mp4, MVIMG_..., PANO_...
+  android:
+    /^(?:IMG|VID|MVIMG|PANO|BURST\d*)_(?<year>\d{4})(?<month>\d{2})(?<day>\d{2})_(?<hour>\d{2})(?<minute>\d{2})(?<second>\d{2})/i,
+
+  // Screenshot_20230102-101010.png, Screenshot_2023-01-02-10-10-10-123_com.app.jpg,
+  // Screenshot 2023-01-02 at 10.10.10.png, Screen Shot 2023-01-02 at 10.10.10 AM.png
+  screenshot:
+    /^Screen ?shot[ _-](?<year>\d{4})-?(?<month>\d{2})-?(?<day>\d{2})(?:(?:[ _-]|\sat\s)(?<hour>\d{1,2})[.:-]?(?<minute>\d{2})[.:-]?(?<second>\d{2})(?:\s?(?<meridiem>AM|PM))?)?/i,
+
+  // signal-2023-01-02-101010.jpg, signal-2023-01-02-10-10-10-123.jpg
+  signal:
+    /^signal-(?<year>\d{4})-(?<month>\d{2})-(?<day>\d{2})-(?<hour>\d{2})-?(?<minute>\d{2})-?(?<second>\d{2})/i,
+
+  // Telegram Desktop exports: photo_2023-01-02_10-10-10.jpg, video_2023-01-02_10-10-10.mp4
+  telegram:
+    /^(?:photo|video|file)_(?<year>\d{4})-(?<month>\d{2})-(?<day>\d{2})_(?<hour>\d{2})-(?<minute>\d{2})-(?<second>\d{2})/i,
+
+  // Any other name with a date like 20230102_101010 or 2023-01-02 in it
+  generic:
+    /(?<!\d)(?<year>(?:19|20)\d{2})[-_.]?(?<month>0[1-9]|1[0-2])[-_.]?(?<day>0[1-9]|[12]\d|3[01])(?:[-_ T.]?(?<hour>[01]\d|2[0-3])[-_.:]?(?<minute>[0-5]\d)[-_.:]?(?<second>[0-5]\d))?(?!\d)/,
+};
+
+// Order the built-in parsers are tried in, the generic one last as it matches the most
+const PARSER_ORDER = Object.keys(BUILT_IN_PARSERS) as FilenameDateParserId[];
+
+// Dates before digital cameras are more likely numbers that happen to look like one
+const MIN_YEAR = 1990;
+
+/**
+ * Build the parsers to use from the organize settings. Invalid custom patterns are
+ * logged and left out.
+ */
+export function getFilenameDateParsers(options?: FilenameDateOptions): FilenameDateParser[] {
+  if (options && !options.enabled) {
+    return [];
+  }
+
+  const parsers: FilenameDateParser[] = [];
+
+  for (const [index, source] of (options?.customPatterns || []).entries()) {
+    if (!source.trim()) {
+      continue;
+    }
+
+    try {
+      parsers.push({ id: `custom-${index + 1}`, pattern: new RegExp(source, 'i') });
+    } catch (error) {
+      log.warn(`Ignoring invalid file name date pattern ${source}:`, error);
+    }
+  }
+
+  // Built-in parsers keep their own order whatever order the settings list them in
+  const enabled = options?.parsers || PARSER_ORDER;
+  for (const id of PARSER_ORDER) {
+    if (enabled.includes(id)) {
+      parsers.push({ id, pattern: BUILT_IN_PARSERS[id] });
+    }
+  }
+
+  return parsers;
+}
+
+/**
+ * Find a capture date in the name of a file, as local time
+ * @returns The date of the first parser that matches with a valid date, or null
+ */
+export function parseFilenameDate(
+  filePath: string,
+  parsers: FilenameDateParser[] = getFilenameDateParsers(),
+): Date | null {
+  const name = path.basename(filePath, path.extname(filePath));
+
+  for (const parser of parsers) {
+    const groups = name.match(parser.pattern)?.groups;
+    if (!groups?.year || !groups.month || !groups.day) {
+      continue;
+    }
+
+    const date = buildDate(groups);
+    if (date) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Turn matched groups into a Date, rejecting dates that roll over such as February 30
+ */
+function buildDate(groups: Record<string, string | undefined>): Date | null {
+  const year = Number(groups.year);
+  const month = Number(groups.month);
+  const day = Number(groups.day);
+  let hour = Number(groups.hour || 0);
+  const minute = Number(groups.minute || 0);
+  const second = Number(groups.second || 0);
+
+  const meridiem = groups.meridiem?.toUpperCase();
+  if (meridiem === 'PM' && hour < 12) {
+    hour += 12;
+  } else if (meridiem === 'AM' && hour === 12) {
+    hour = 0;
+  }
+
+  if (year < MIN_YEAR || year > new Date().getFullYear() + 1 || hour > 23) {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day, hour, minute, second);
+
+  if (
+    isNaN(date.getTime()) ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day ||
+    date.getMinutes() !== minute ||
+    date.getSeconds() !== second
+  ) {
+    return null;
+  }
+
+  return date;
+}
@@ -0,0 +1,173 @@
+import { FileMetadata } from '@common/types';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Length of a degree of latitude, and of longitude at the equator
+const KM_PER_DEGREE = (2 * Math.PI * EARTH_RADIUS_KM) / 360;
+
+/**
+ * GPS position of a file, or null when it has none
+ */
+export function getCoordinates(metadata: FileMetadata): Coordinates | null {
+  const { latitude, longitude } = metadata;
+
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    return null;
+  }
+
+  // Many cameras write 0,0 when they have no GPS fix
+  if (latitude === 0 && longitude === 0) {
+    return null;
+  }
+
+  return { latitude, longitude };
+}
+
+/**
+ * Great-circle distance between two points in kilometers
+ */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Points bucketed by whole degrees of latitude and longitude, to find the points near a
+ * position without measuring the distance to all of them
+ */
+export class PointGrid<T> {
+  private readonly cells = new Map<number, T[]>();
+
+  constructor(points: T[], getPosition: (point: T) => Coordinates) {
+    for (const point of points) {
+      const { latitude, longitude } = getPosition(point);
+      const key = this.getKey(Math.floor(latitude), Math.floor(longitude));
+      const cell = this.cells.get(key);
+
+      if (cell) {
+        cell.push(point);
+      } else {
+        this.cells.set(key, [point]);
+      }
+    }
+  }
+
+  /**
+   * Points in the cells within a distance of a position. Some may be further away, never
+   * is a point within the distance left out.
+   */
+  public findNear(position: Coordinates, radiusKm: number): T[] {
+    const latitudeSpan = radiusKm / KM_PER_DEGREE;
+    const south = Math.max(-90, Math.floor(position.latitude - latitudeSpan));
+    const north = Math.min(89, Math.floor(position.latitude + latitudeSpan));
+
+    // Degrees of longitude shrink towards the poles, where every cell of a row is near
+    const nearestToPole = Math.min(90, Math.abs(position.latitude) + latitudeSpan);
+    const longitudeSpan = radiusKm / (KM_PER_DEGREE * Math.cos((nearestToPole * Math.PI) / 180));
+    const [west, east] =
+      longitudeSpan >= 180
+        ? [-180, 179]
+        : [
+            Math.floor(position.longitude - longitudeSpan),
+            Math.floor(position.longitude + longitudeSpan),
+          ];
+
+    const found: T[] = [];
+    for (let latitude = south; latitude <= north; latitude++) {
+      for (let longitude = west; longitude <= east; longitude++) {
+        // Across the antimeridian
+        const wrapped = ((((longitude + 180) % 360) + 360) % 360) - 180;
+        found.push(...(this.cells.get(this.getKey(latitude, wrapped)) || []));
+      }
+    }
+
+    return found;
+  }
+
+  private getKey(latitude: number, longitude: number): number {
+    return (latitude + 90) * 360 + (longitude + 180);
+  }
+}
+
+// Longitude and latitude pairs of a closed outline, in GeoJSON order
+export type Ring = [number, number][];
+
+// Outer ring followed by the holes cut out of it, as in GeoJSON
+export type Polygon = Ring[];
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+/**
+ * Smallest box around the outer rings of polygons, to skip most of them cheaply
+ */
+export function getBoundingBox(polygons: Polygon[]): BoundingBox {
+  const box = { west: Infinity, south: Infinity, east: -Infinity, north: -Infinity };
+
+  for (const [outer] of polygons) {
+    for (const [longitude, latitude] of outer) {
+      box.west = Math.min(box.west, longitude);
+      box.east = Math.max(box.east, longitude);
+      box.south = Math.min(box.south, latitude);
+      box.north = Math.max(box.north, latitude);
+    }
+  }
+
+  return box;
+}
+
+/**
+ * Whether a position lies inside any of the polygons and outside their holes
+ */
+export function isInPolygons(
+  position: Coordinates,
+  polygons: Polygon[],
+  box?: BoundingBox,
+): boolean {
+  const { latitude, longitude } = position;
+
+  if (
+    box &&
+    (longitude < box.west || longitude > box.east || latitude < box.south || latitude > box.north)
+  ) {
+    return false;
+  }
+
+  return polygons.some(
+    ([outer, ...holes]) =>
+      isInRing(outer, longitude, latitude) &&
+      !holes.some((hole) => isInRing(hole, longitude, latitude)),
+  );
+}
+
+// Even-odd rule: a ray from the point crosses the outline an odd number of times when inside
+function isInRing(ring: Ring, x: number, y: number): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
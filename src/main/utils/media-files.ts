@@ -0,0 +1,266 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import log from 'electron-log';
+import { DirectoryScanProgress, FileMetadata, ScanRules } from '@common/types';
+import {
+  FileHash,
+  ProcessResult,
+  ScanWorkerData,
+  ScanWorkerMessage,
+  ScanWorkerRequest,
+} from '@main/utils/scan-pipeline';
+import {
+  buildFileMetadata,
+  CaptureDateOptions,
+  extractExifFields,
+} from '@main/utils/file-metadata';
+import { exifToolManager } from '@main/utils/exiftool-setup';
+import { resolveScanRules } from '@main/utils/scan-rules';
+import { formatRegistry } from '@main/utils/file-formats';
+
+// Supported file extensions, kept up to date with custom formats from settings
+export const supportedImageFormats = formatRegistry.imageExtensions;
+export const supportedVideoFormats = formatRegistry.videoExtensions;
+export const supportedFormats = formatRegistry.extensions;
+
+// Camera RAW formats, preferred over JPEGs of the same shot
+export const rawImageFormats = formatRegistry.rawExtensions;
+
+// Files that describe a media file rather than being media themselves
+export const sidecarFormats = ['xmp', 'aae', 'thm'];
+
+// Walks folder trees off the main thread, built next to main.js
+const SCAN_WORKER_PATH = path.join(__dirname, 'scan-worker.js');
+
+/**
+ * Options for streaming the files of a folder tree
+ */
+export interface ScanStreamOptions {
+  fileTypes?: string[];
+  recursive?: boolean;
+  rules?: Partial<ScanRules>; // Ignore globs, symlinks, hidden files and depth; .mmignore files always apply
+  signal?: AbortSignal; // Stops the walk, the stream then ends early
+  readMetadata?: boolean; // Build the metadata of found files in the worker
+  getStoredHashes?: (files: string[]) => Promise<Record<string, FileHash>>; // Hash found files in the worker, reusing these
+}
+
+/**
+ * Files found by a folder tree walk since the previous batch, with the results of the
+ * stages asked for
+ */
+export interface ScanBatch extends Partial<Omit<ProcessResult, 'failed'>> {
+  files: string[];
+  progress: DirectoryScanProgress;
+}
+
+/**
+ * Walk a folder tree in a worker thread and yield the matching files in batches as they
+ * are found. The walk keeps a few batches ahead of the consumer and stops when the
+ * consumer stops iterating or the signal aborts. Unreadable subfolders are logged and
+ * counted as errors. Metadata and hashes are worked out by the worker as well, only
+ * ExifTool and the hash index are read here.
+ * @throws When the folder itself cannot be read
+ */
+export async function* scanDirectoryStream(
+  dirPath: string,
+  options: ScanStreamOptions = {},
+): AsyncGenerator<ScanBatch> {
+  const {
+    fileTypes = supportedFormats,
+    recursive = false,
+    rules,
+    signal,
+    readMetadata = false,
+    getStoredHashes,
+  } = options;
+  if (signal?.aborted) {
+    return;
+  }
+
+  const workerData: ScanWorkerData = {
+    rootPath: dirPath,
+    fileTypes,
+    recursive,
+    rules: resolveScanRules(rules),
+    customFormats: formatRegistry.getCustomFormats(),
+  };
+  const worker = new Worker(SCAN_WORKER_PATH, { workerData });
+  const send = (request: ScanWorkerRequest) => worker.postMessage(request);
+
+  const messages: ScanWorkerMessage[] = [];
+  let failure: Error | null = null;
+  let notify: (() => void) | null = null;
+  const wake = () => {
+    notify?.();
+    notify = null;
+  };
+
+  worker.on('message', (message: ScanWorkerMessage) => {
+    messages.push(message);
+    wake();
+  });
+  worker.on('error', (error) => {
+    failure = error;
+    wake();
+  });
+  // The worker only exits on its own when it crashed
+  worker.on('exit', (code) => {
+    failure = failure || new Error(`Scan worker stopped with exit code ${code}`);
+    wake();
+  });
+  signal?.addEventListener('abort', wake);
+
+  // The first message of one of the types, or an error. Batches keep coming while the
+  // worker processes one, so messages are taken out of order.
+  const receive = async <T extends ScanWorkerMessage['type']>(
+    ...types: T[]
+  ): Promise<Extract<ScanWorkerMessage, { type: T }> | null> => {
+    while (!signal?.aborted) {
+      const index = messages.findIndex(
+        (message) => message.type === 'error' || types.includes(message.type as T),
+      );
+
+      if (index >= 0) {
+        const [message] = messages.splice(index, 1);
+        if (message.type === 'error') {
+          throw new Error(message.error);
+        }
+        return message as Extract<ScanWorkerMessage, { type: T }>;
+      }
+      if (failure) {
+        throw failure;
+      }
+      await new Promise<void>((resolve) => (notify = resolve));
+    }
+
+    return null;
+  };
+
+  try {
+    for (;;) {
+      const message = await receive('batch', 'done');
+      if (!message || message.type === 'done') {
+        return;
+      }
+
+      for (const folder of message.failed) {
+        log.warn(`Could not read folder ${folder.path}: ${folder.error}`);
+      }
+
+      const { files, progress } = message;
+      const batch: ScanBatch = { files, progress };
+
+      if ((readMetadata || getStoredHashes) && files.length > 0) {
+        const [exif, storedHashes] = await Promise.all([
+          readMetadata ? readExif(files) : undefined,
+          getStoredHashes?.(files),
+        ]);
+        send({ type: 'process', files, exif: exif && Object.fromEntries(exif), storedHashes });
+
+        const processed = await receive('processed');
+        if (!processed) {
+          return;
+        }
+
+        for (const file of processed.failed) {
+          log.warn(
+            `Could not ${file.stage === 'hash' ? 'hash' : 'read metadata for'} ${file.path}:`,
+            file.error,
+          );
+        }
+
+        const { metadata, hashes, hashed } = processed;
+        Object.assign(batch, { metadata, hashes, hashed });
+      }
+
+      yield batch;
+      send({ type: 'ack' });
+    }
+  } catch (error) {
+    log.error(`Error scanning directory ${dirPath}:`, error);
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', wake);
+    worker.removeAllListeners();
+    void worker.terminate();
+  }
+}
+
+/**
+ * Scan a directory for files matching the given extensions
+ */
+export async function scanDirectoryForFiles(
+  dirPath: string,
+  fileTypes: string[] = supportedFormats,
+  recursive: boolean = false,
+  rules?: Partial<ScanRules>,
+): Promise<string[]> {
+  const results: string[] = [];
+
+  for await (const batch of scanDirectoryStream(dirPath, { fileTypes, recursive, rules })) {
+    results.push(...batch.files);
+  }
+
+  return results;
+}
+
+/**
+ * Collect file stats and EXIF data into a FileMetadata record
+ */
+export async function getFileMetadata(
+  filePath: string,
+  dateOptions: CaptureDateOptions = {},
+): Promise<FileMetadata> {
+  const exifData = await getExifData([filePath]);
+  return buildFileMetadata(filePath, exifData.get(filePath), dateOptions);
+}
+
+/**
+ * Collect the metadata of many files, reading their EXIF data in batches. Much faster
+ * than one getFileMetadata call per file for large folders.
+ * @returns Metadata by file path, files that could not be read are logged and left out
+ */
+export async function getFilesMetadata(
+  filePaths: string[],
+  dateOptions: CaptureDateOptions = {},
+): Promise<Map<string, FileMetadata>> {
+  const exifData = await getExifData(filePaths);
+  const results = new Map<string, FileMetadata>();
+
+  for (const filePath of filePaths) {
+    try {
+      results.set(filePath, await buildFileMetadata(filePath, exifData.get(filePath), dateOptions));
+    } catch (error) {
+      log.warn(`Could not read metadata for ${filePath}:`, error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Read the EXIF data of files with the shared exiftool processes
+ * @returns The relevant fields by file path, files without EXIF data are left out
+ */
+async function getExifData(filePaths: string[]): Promise<Map<string, Partial<FileMetadata>>> {
+  const results = new Map<string, Partial<FileMetadata>>();
+
+  for (const [filePath, exif] of await readExif(filePaths)) {
+    results.set(filePath, extractExifFields(exif));
+  }
+
+  return results;
+}
+
+/**
+ * Read ExifTool's output for files with the shared exiftool processes
+ * @returns The tags by file path, files without EXIF data are left out
+ */
+async function readExif(filePaths: string[]): Promise<Map<string, Record<string, unknown>>> {
+  // Without exiftool files get their basic metadata only
+  if (!filePaths.length || !(await exifToolManager.initialize())) {
+    return new Map();
+  }
+
+  return exifToolManager.readMetadata(filePaths);
+}
@@ -0,0 +1,156 @@
+import { FileMetadata } from '@common/types';
+import { getCaptureDate } from '@main/utils/file-metadata';
+
+/**
+ * Extra values available to pattern tokens that cannot be derived
+ * from a single file's metadata
+ */
+export interface PatternContext {
+  eventName?: string; // Name of the event the file belongs to (%e)
+}
+
+// Characters that are not allowed in file or folder names on common filesystems
+const ILLEGAL_PATH_CHARS = /[<>:"/\\|?*]/g;
+
+/**
+ * Make a single path segment safe to use as a file or folder name
+ */
+export function sanitizePathSegment(segment: string, fallback: string = 'Unknown'): string {
+  const sanitized = Array.from(segment)
+    // Drop control characters
+    .filter((char) => char.charCodeAt(0) >= 32)
+    .join('')
+    .replace(ILLEGAL_PATH_CHARS, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    // Windows does not allow trailing dots or spaces
+    .replace(/[. ]+$/, '');
+
+  return sanitized || fallback;
+}
+
+/**
+ * Folder name for the media type of a file (%t)
+ */
+export function getTypeFolderName(metadata: FileMetadata): string {
+  switch (metadata.type) {
+    case 'image':
+      return 'Photos';
+    case 'video':
+      return 'Videos';
+    default:
+      return 'Other';
+  }
+}
+
+/**
+ * Folder name for the camera that took a file (%c)
+ */
+export function getCameraFolderName(metadata: FileMetadata): string {
+  const make = (metadata.make || '').trim();
+  let model = (metadata.model || '').trim();
+
+  if (!model) {
+    return sanitizePathSegment(make, 'Unknown Camera');
+  }
+
+  // Most models already include the make ("Canon EOS R5"), avoid doubling it
+  if (make && !model.toLowerCase().startsWith(make.toLowerCase().split(' ')[0])) {
+    model = `${make} ${model}`;
+  }
+
+  return sanitizePathSegment(model, 'Unknown Camera');
+}
+
+// Shorter side in pixels each resolution class starts at, largest first
+const RESOLUTION_CLASSES: [number, string][] = [
+  [4320, '8K'],
+  [2160, '4K'],
+  [1440, '1440p'],
+  [1080, '1080p'],
+  [720, '720p'],
+];
+
+/**
+ * Folder name for the resolution of a file (%R). Classes go by the shorter side so
+ * portrait clips land next to their landscape equivalents.
+ */
+export function getResolutionFolderName(metadata: FileMetadata): string {
+  if (!metadata.width || !metadata.height) {
+    return 'Unknown Resolution';
+  }
+
+  const shortSide = Math.min(metadata.width, metadata.height);
+  const match = RESOLUTION_CLASSES.find(([minimum]) => shortSide >= minimum);
+
+  return match ? match[1] : 'SD';
+}
+
+/**
+ * Folder name for the video codec of a file (%V)
+ */
+export function getCodecFolderName(metadata: FileMetadata): string {
+  return sanitizePathSegment((metadata.video?.codec || '').toUpperCase(), 'Unknown Codec');
+}
+
+/**
+ * Folder names for the place a file was taken at: country (%C), region (%S) and
+ * city (%L). Files without a known place get placeholder names.
+ */
+export function getLocationFolderNames(metadata: FileMetadata): {
+  country: string;
+  region: string;
+  city: string;
+} {
+  const { location } = metadata;
+
+  return {
+    country: sanitizePathSegment(location?.country || '', 'Unknown Country'),
+    region: sanitizePathSegment(location?.region || '', 'Unknown Region'),
+    city: sanitizePathSegment(location?.city || '', 'Unknown City'),
+  };
+}
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Resolve an organization pattern such as "%Y/%m/%d" into a relative folder path
+ * for the given file. Unknown tokens are left untouched.
+ */
+export function resolvePattern(
+  pattern: string,
+  metadata: FileMetadata,
+  context: PatternContext = {},
+): string {
+  const date = getCaptureDate(metadata);
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+  const tokens: Record<string, () => string> = {
+    Y: () => date.getFullYear().toString(),
+    m: () => pad(date.getMonth() + 1),
+    d: () => pad(date.getDate()),
+    H: () => pad(date.getHours()),
+    M: () => pad(date.getMinutes()),
+    c: () => getCameraFolderName(metadata),
+    t: () => getTypeFolderName(metadata),
+    R: () => getResolutionFolderName(metadata),
+    V: () => getCodecFolderName(metadata),
+    C: () => getLocationFolderNames(metadata).country,
+    S: () => getLocationFolderNames(metadata).region,
+    L: () => getLocationFolderNames(metadata).city,
+    // Without event information every capture day is its own event
+    e: () => sanitizePathSegment(context.eventName || day),
+  };
+
+  return pattern
+    .split(/[\\/]+/)
+    .filter(Boolean)
+    .map((segment) =>
+      sanitizePathSegment(
+        segment.replace(/%([A-Za-z])/g, (match, token: string) =>
+          tokens[token] ? tokens[token]() : match,
+        ),
+      ),
+    )
+    .join('/');
+}
@@ -0,0 +1,127 @@
+/**
+ * Perceptual image hashes. Both hashes work on a small greyscale grid of the image and
+ * produce 64 bits, encoded as 16 hex characters, that change little when an image is
+ * resized, re-encoded or lightly edited.
+ */
+
+// Side length of the greyscale grid images are reduced to before hashing
+export const HASH_GRID_SIZE = 32;
+
+const HASH_BITS = 64;
+
+/**
+ * Shrink a greyscale image by averaging the source pixels that fall into each target cell
+ */
+export function downsample(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number,
+): Float64Array {
+  const result = new Float64Array(targetWidth * targetHeight);
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor((ty * height) / targetHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / targetHeight));
+
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor((tx * width) / targetWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / targetWidth));
+
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += pixels[y * width + x];
+        }
+      }
+
+      result[ty * targetWidth + tx] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Difference hash: compares each pixel with its right neighbour on a 9x8 grid
+ * @param grid HASH_GRID_SIZE x HASH_GRID_SIZE greyscale values
+ */
+export function computeDHash(grid: ArrayLike<number>): string {
+  const small = downsample(grid, HASH_GRID_SIZE, HASH_GRID_SIZE, 9, 8);
+  const bits: boolean[] = [];
+
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(small[y * 9 + x] < small[y * 9 + x + 1]);
+    }
+  }
+
+  return bitsToHex(bits);
+}
+
+/**
+ * DCT hash: thresholds the lowest 8x8 frequencies of the grid against their median
+ * @param grid HASH_GRID_SIZE x HASH_GRID_SIZE greyscale values
+ */
+export function computePHash(grid: ArrayLike<number>): string {
+  const n = HASH_GRID_SIZE;
+  const coefficients: number[] = [];
+
+  // Only the low frequencies are needed, so compute those 64 DCT-II terms directly
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) {
+        const cosY = Math.cos(((2 * y + 1) * v * Math.PI) / (2 * n));
+        for (let x = 0; x < n; x++) {
+          sum += grid[y * n + x] * Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n)) * cosY;
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only carries overall brightness, leave it out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+
+  return bitsToHex(coefficients.map((coefficient) => coefficient > median));
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+
+  // Compare 32 bits at a time to stay within integer bit operations
+  for (let i = 0; i < a.length; i += 8) {
+    let diff = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (diff) {
+      diff &= diff - 1;
+      distance++;
+    }
+  }
+
+  return distance;
+}
+
+/**
+ * Similarity of two images in percent, from the average distance of both hashes
+ */
+export function similarityPercent(distance: number): number {
+  return Math.round((1 - distance / HASH_BITS) * 100);
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble =
+      (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+
+  return hex;
+}
@@ -0,0 +1,191 @@
+import * as path from 'path';
+import { FileMetadata, RenameExtensionCase } from '@common/types';
+import { getCaptureDate } from '@main/utils/file-metadata';
+import { getCameraFolderName, sanitizePathSegment } from '@main/utils/organize-pattern';
+
+/**
+ * A token of a rename template, e.g. {seq:4} is { name: 'seq', arg: '4' }
+ */
+export interface RenameToken {
+  name: string;
+  arg?: string;
+}
+
+export type RenameTemplate = (string | RenameToken)[];
+
+/**
+ * Values that need I/O or run state, looked up by the organizer before rendering
+ */
+export interface RenameValues {
+  sequence?: number; // Global counter ({seq})
+  folderSequence?: number; // Counter of the destination folder ({folderseq})
+  hash?: string; // SHA-256 of the content ({hash})
+}
+
+const DEFAULT_SEQUENCE_WIDTH = 4;
+const DEFAULT_HASH_LENGTH = 8;
+
+// Characters that are not allowed in file names on common filesystems
+const ILLEGAL_NAME_CHARS = /[<>:"/\\|?*]/;
+
+// Device names Windows refuses as file names, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i;
+
+const pad = (value: number, width: number = 2): string => value.toString().padStart(width, '0');
+
+/**
+ * Tokens that only use the file's metadata
+ */
+const METADATA_TOKENS: Record<string, (metadata: FileMetadata, date: Date) => string> = {
+  YYYY: (_, date) => date.getFullYear().toString(),
+  YY: (_, date) => pad(date.getFullYear() % 100),
+  MM: (_, date) => pad(date.getMonth() + 1),
+  DD: (_, date) => pad(date.getDate()),
+  hh: (_, date) => pad(date.getHours()),
+  mm: (_, date) => pad(date.getMinutes()),
+  ss: (_, date) => pad(date.getSeconds()),
+  name: (metadata) => path.basename(metadata.name, path.extname(metadata.name)),
+  camera: (metadata) => getCameraFolderName(metadata),
+};
+
+// Tokens taking a numeric argument, with the allowed range of that argument
+const NUMERIC_TOKENS: Record<string, { min: number; max: number }> = {
+  seq: { min: 1, max: 10 },
+  folderseq: { min: 1, max: 10 },
+  hash: { min: 4, max: 64 },
+};
+
+/**
+ * Parse a file name template such as "{YYYY}{MM}{DD}_{seq:4}"
+ * @throws Error describing the first problem when the template is invalid
+ */
+export function parseRenameTemplate(template: string): RenameTemplate {
+  const parts: RenameTemplate = [];
+  const tokenPattern = /\{([^{}]*)\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const addLiteral = (literal: string) => {
+    if (/[{}]/.test(literal)) {
+      throw new Error(`Unbalanced braces in rename template "${template}"`);
+    }
+    if (ILLEGAL_NAME_CHARS.test(literal)) {
+      throw new Error(
+        `Rename template "${template}" contains characters not allowed in file names`,
+      );
+    }
+    if (literal) {
+      parts.push(literal);
+    }
+  };
+
+  while ((match = tokenPattern.exec(template)) !== null) {
+    addLiteral(template.slice(lastIndex, match.index));
+    parts.push(parseToken(match[1]));
+    lastIndex = tokenPattern.lastIndex;
+  }
+  addLiteral(template.slice(lastIndex));
+
+  if (parts.length === 0) {
+    throw new Error('Rename template is empty');
+  }
+
+  return parts;
+}
+
+const isOwnKey = (table: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(table, key);
+
+function parseToken(body: string): RenameToken {
+  const [name, arg, ...rest] = body.split(':');
+
+  if (isOwnKey(METADATA_TOKENS, name)) {
+    if (arg !== undefined) {
+      throw new Error(`Token {${name}} does not take an argument`);
+    }
+    return { name };
+  }
+
+  if (!isOwnKey(NUMERIC_TOKENS, name)) {
+    throw new Error(`Unknown rename token {${body}}`);
+  }
+
+  const range = NUMERIC_TOKENS[name];
+
+  if (arg !== undefined) {
+    const value = Number(arg);
+    if (rest.length > 0 || !Number.isInteger(value) || value < range.min || value > range.max) {
+      throw new Error(`Token {${name}} takes a number from ${range.min} to ${range.max}`);
+    }
+  }
+
+  return { name, arg };
+}
+
+/**
+ * Check whether a template contains a token
+ */
+export function usesRenameToken(template: RenameTemplate, name: string): boolean {
+  return template.some((part) => typeof part !== 'string' && part.name === name);
+}
+
+/**
+ * Build the new file name for a file, including its extension
+ */
+export function renderFileName(
+  template: RenameTemplate,
+  metadata: FileMetadata,
+  values: RenameValues,
+  extensionCase: RenameExtensionCase = 'keep',
+): string {
+  const date = getCaptureDate(metadata);
+  const originalExtension = path.extname(metadata.name);
+  const originalBase = path.basename(metadata.name, originalExtension);
+
+  const base = template
+    .map((part) => {
+      if (typeof part === 'string') {
+        return part;
+      }
+
+      const width = part.arg ? Number(part.arg) : undefined;
+      switch (part.name) {
+        case 'seq':
+          return pad(values.sequence ?? 0, width ?? DEFAULT_SEQUENCE_WIDTH);
+        case 'folderseq':
+          return pad(values.folderSequence ?? 0, width ?? DEFAULT_SEQUENCE_WIDTH);
+        case 'hash':
+          return (values.hash || '').slice(0, width ?? DEFAULT_HASH_LENGTH);
+        default:
+          return METADATA_TOKENS[part.name](metadata, date);
+      }
+    })
+    .join('');
+
+  // Token values such as camera models can still contain illegal characters
+  let safeBase = sanitizePathSegment(base, originalBase);
+  if (RESERVED_NAMES.test(safeBase)) {
+    safeBase = `${safeBase}_`;
+  }
+
+  let extension = originalExtension;
+  if (extensionCase === 'lower') {
+    extension = extension.toLowerCase();
+  } else if (extensionCase === 'upper') {
+    extension = extension.toUpperCase();
+  }
+
+  return `${safeBase}${extension}`;
+}
+
+/**
+ * Give a file name the extension its content calls for, in upper case when the extension
+ * it had was upper case. Names without an extension get one.
+ */
+export function replaceExtension(fileName: string, extension: string): string {
+  const current = path.extname(fileName);
+  const base = path.basename(fileName, current);
+  const upper = current.length > 1 && current === current.toUpperCase();
+
+  return `${base}.${upper ? extension.toUpperCase() : extension}`;
+}
@@ -0,0 +1,383 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Dir } from 'fs';
+import { MessagePort } from 'worker_threads';
+import { CustomMediaFormat, DirectoryScanProgress, FileMetadata, ScanRules } from '@common/types';
+import { IgnoreMatcher, readIgnoreFile } from '@main/utils/scan-rules';
+import { formatRegistry, isWantedFile } from '@main/utils/file-formats';
+import { buildFileMetadata, extractExifFields } from '@main/utils/file-metadata';
+import { hashFile } from '@main/utils/file-transfer';
+
+/**
+ * What the scan worker is started with
+ */
+export interface ScanWorkerData {
+  rootPath: string;
+  fileTypes: string[];
+  recursive: boolean;
+  rules: ScanRules;
+  customFormats: CustomMediaFormat[]; // The worker has its own format registry
+}
+
+/**
+ * A SHA-256 as the hash index stores it, valid while the file keeps its size and mtime
+ */
+export interface FileHash {
+  size: number;
+  mtime: number; // Whole milliseconds
+  sha256: string;
+}
+
+/**
+ * Files of a batch to take through the later scanning stages. Each stage runs when its
+ * input is given.
+ */
+export interface ProcessRequest {
+  files: string[];
+  exif?: Record<string, Record<string, unknown>>; // ExifTool's output by file, to build metadata
+  storedHashes?: Record<string, FileHash>; // The index's hashes by file, to hash the files
+}
+
+/**
+ * Results of the later scanning stages for a batch
+ */
+export interface ProcessResult {
+  metadata?: Record<string, FileMetadata>; // Without the raw EXIF tags, to keep it small
+  hashes?: Record<string, FileHash>; // Computed now, the stored hash was missing or outdated
+  hashed: number; // Files with a hash, stored or computed
+  failed: { path: string; stage: 'metadata' | 'hash'; error: string }[];
+}
+
+/**
+ * Messages the scan worker receives. Every batch has to be acknowledged with an 'ack'
+ * once its consumer is done with it. A batch can be handed back to be processed first,
+ * the worker answers with a 'processed' message.
+ */
+export type ScanWorkerRequest = { type: 'ack' } | ({ type: 'process' } & ProcessRequest);
+
+/**
+ * Messages the scan worker sends. Every batch has to be acknowledged with an 'ack'
+ * message before the worker runs too far ahead of its consumer.
+ */
+export type ScanWorkerMessage =
+  | {
+      type: 'batch';
+      files: string[];
+      failed: { path: string; error: string }[];
+      progress: DirectoryScanProgress;
+    }
+  | ({ type: 'processed' } & ProcessResult)
+  | { type: 'done'; progress: DirectoryScanProgress }
+  | { type: 'error'; error: string };
+
+// A batch is sent once this many files are found, or when the flush interval passes
+const BATCH_SIZE = 2000;
+const FLUSH_INTERVAL_MS = 250;
+
+// Folders read at the same time, which hides the latency of network shares
+const CONCURRENT_READS = 8;
+
+// Unacknowledged batches after which the walk waits for the consumer
+const MAX_PENDING_BATCHES = 4;
+
+// Files hashed at the same time within a batch
+const HASH_CONCURRENCY = 4;
+
+/**
+ * A folder waiting to be read
+ */
+interface QueuedFolder {
+  path: string;
+  relativePath: string; // Below the root with forward slashes, as ignore patterns see it
+  realPath: string; // With symlinks resolved, to visit every folder once
+  depth: number;
+  matcher: IgnoreMatcher; // Patterns of the parent folders
+}
+
+/**
+ * Walks a folder tree off the main thread and streams the matching files back in
+ * batches. Folders are opened as directory streams, so huge folders are never held
+ * in memory at once.
+ */
+class DirectoryWalker {
+  private readonly extensions: Set<string>;
+  private readonly queue: QueuedFolder[] = [];
+  private readonly visited = new Set<string>(); // Real paths of queued folders
+  private readonly progress: DirectoryScanProgress = {
+    currentFolder: '',
+    foldersScanned: 0,
+    filesFound: 0,
+    errors: 0,
+  };
+
+  private files: string[] = [];
+  private failed: { path: string; error: string }[] = [];
+  private changed = false; // Whether anything happened since the last batch
+  private pending = 0;
+  private wake: (() => void) | null = null; // Resumes the walk once the consumer caught up
+  private reading = 0; // Folders being read right now
+  private readonly idleReaders: (() => void)[] = [];
+
+  constructor(
+    private readonly options: ScanWorkerData,
+    private readonly post: (message: ScanWorkerMessage) => void,
+  ) {
+    this.extensions = new Set(options.fileTypes.map((type) => type.toLowerCase()));
+  }
+
+  public async run(): Promise<void> {
+    // An unreadable root fails the scan, unreadable subfolders are only reported
+    const { rootPath, rules } = this.options;
+    const root: QueuedFolder = {
+      path: rootPath,
+      relativePath: '',
+      realPath: await fs.realpath(rootPath),
+      depth: 0,
+      matcher: IgnoreMatcher.fromGlobs(rules.ignoreGlobs),
+    };
+    const rootDir = await fs.opendir(rootPath);
+    this.visited.add(root.realPath);
+
+    const timer = setInterval(() => {
+      if (this.changed && this.pending < MAX_PENDING_BATCHES) {
+        this.flush();
+      }
+    }, FLUSH_INTERVAL_MS);
+
+    try {
+      await this.readFolder(root, rootDir);
+      await Promise.all(Array.from({ length: CONCURRENT_READS }, () => this.readQueue()));
+    } finally {
+      clearInterval(timer);
+    }
+
+    this.flush();
+    this.post({ type: 'done', progress: { ...this.progress } });
+  }
+
+  /**
+   * Called when the consumer is done with a batch
+   */
+  public acknowledge(): void {
+    this.pending = Math.max(0, this.pending - 1);
+
+    if (this.pending < MAX_PENDING_BATCHES && this.wake) {
+      const wake = this.wake;
+      this.wake = null;
+      wake();
+    }
+  }
+
+  /**
+   * Reads queued folders until the queue is empty and no other reader can add to it
+   */
+  private async readQueue(): Promise<void> {
+    for (;;) {
+      const folder = this.queue.pop();
+
+      if (folder === undefined) {
+        if (this.reading === 0) {
+          this.wakeReaders();
+          return;
+        }
+
+        await new Promise<void>((resolve) => this.idleReaders.push(resolve));
+        continue;
+      }
+
+      this.reading++;
+      try {
+        await this.readFolder(folder, await fs.opendir(folder.path));
+      } catch (error) {
+        this.progress.errors++;
+        this.failed.push({ path: folder.path, error: (error as Error).message });
+        this.changed = true;
+      } finally {
+        this.reading--;
+        this.wakeReaders();
+      }
+    }
+  }
+
+  private async readFolder(folder: QueuedFolder, dir: Dir): Promise<void> {
+    const { recursive, rules } = this.options;
+    this.progress.currentFolder = folder.path;
+    this.changed = true;
+
+    let matcher = folder.matcher;
+    try {
+      matcher = matcher.extend(folder.relativePath, await readIgnoreFile(folder.path));
+    } catch (error) {
+      await dir.close();
+      throw error;
+    }
+
+    // The iterator closes the directory when it finishes or throws
+    for await (const entry of dir) {
+      if (!rules.includeHidden && entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const fullPath = path.join(folder.path, entry.name);
+      const relativePath = folder.relativePath
+        ? `${folder.relativePath}/${entry.name}`
+        : entry.name;
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+      let realPath = path.join(folder.realPath, entry.name);
+
+      if (entry.isSymbolicLink()) {
+        if (rules.symlinks === 'skip') {
+          continue;
+        }
+
+        // Broken links are left out like any other entry that is neither file nor folder
+        const target = await fs.stat(fullPath).catch(() => null);
+        isDirectory = Boolean(target?.isDirectory());
+        isFile = Boolean(target?.isFile());
+        if (isDirectory) {
+          realPath = await fs.realpath(fullPath);
+        }
+      }
+
+      if (!(isDirectory || isFile) || matcher.isIgnored(relativePath, isDirectory)) {
+        continue;
+      }
+
+      if (isDirectory) {
+        const depth = folder.depth + 1;
+
+        // A folder seen before is a link back up the tree or a second way to the same folder
+        if (
+          recursive &&
+          (rules.maxDepth === 0 || depth <= rules.maxDepth) &&
+          !this.visited.has(realPath)
+        ) {
+          this.visited.add(realPath);
+          this.queue.push({ path: fullPath, relativePath, realPath, depth, matcher });
+          this.idleReaders.shift()?.();
+        }
+      } else {
+        if (await isWantedFile(fullPath, this.extensions)) {
+          this.files.push(fullPath);
+          this.progress.filesFound++;
+
+          if (this.files.length >= BATCH_SIZE) {
+            await this.waitForConsumer();
+            this.flush();
+          }
+        }
+      }
+    }
+
+    this.progress.foldersScanned++;
+  }
+
+  private wakeReaders(): void {
+    this.idleReaders.splice(0).forEach((wake) => wake());
+  }
+
+  private waitForConsumer(): Promise<void> {
+    if (this.pending < MAX_PENDING_BATCHES) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const previous = this.wake;
+      this.wake = () => {
+        previous?.();
+        resolve();
+      };
+    });
+  }
+
+  private flush(): void {
+    const files = this.files;
+    const failed = this.failed;
+    this.files = [];
+    this.failed = [];
+    this.changed = false;
+    this.pending++;
+
+    this.post({ type: 'batch', files, failed, progress: { ...this.progress } });
+  }
+}
+
+/**
+ * Build the metadata of a batch's files and hash them into index entries, the two at the
+ * same time. Files that fail a stage are reported and left out of its results.
+ */
+export async function processFiles(request: ProcessRequest): Promise<ProcessResult> {
+  const { files, exif, storedHashes } = request;
+  const result: ProcessResult = { hashed: 0, failed: [] };
+
+  const buildMetadata = async (): Promise<void> => {
+    const metadata: Record<string, FileMetadata> = {};
+
+    for (const file of files) {
+      try {
+        const fileExif = exif?.[file];
+        const fileMetadata = await buildFileMetadata(file, fileExif && extractExifFields(fileExif));
+        metadata[file] = { ...fileMetadata, exif: undefined };
+      } catch (error) {
+        result.failed.push({ path: file, stage: 'metadata', error: (error as Error).message });
+      }
+    }
+
+    result.metadata = metadata;
+  };
+
+  const hashFiles = async (stored: Record<string, FileHash>): Promise<void> => {
+    const queue = [...files];
+    const hashes: Record<string, FileHash> = {};
+
+    const hashNext = async (): Promise<void> => {
+      while (queue.length > 0) {
+        const file = queue.shift()!;
+
+        try {
+          const stats = await fs.stat(file);
+          const mtime = Math.floor(stats.mtimeMs);
+          const known = stored[file];
+
+          if (!known || known.size !== stats.size || known.mtime !== mtime) {
+            hashes[file] = { size: stats.size, mtime, sha256: await hashFile(file) };
+          }
+          result.hashed++;
+        } catch (error) {
+          result.failed.push({ path: file, stage: 'hash', error: (error as Error).message });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: HASH_CONCURRENCY }, hashNext));
+    result.hashes = hashes;
+  };
+
+  await Promise.all([exif && buildMetadata(), storedHashes && hashFiles(storedHashes)]);
+  return result;
+}
+
+/**
+ * Serve a scan over a message port: walk the folder tree, and process the batches the
+ * consumer hands back. The scan worker runs this on its parent port.
+ */
+export function runScanWorker(data: ScanWorkerData, port: MessagePort): void {
+  formatRegistry.setCustomFormats(data.customFormats);
+
+  const post = (message: ScanWorkerMessage) => port.postMessage(message);
+  const walker = new DirectoryWalker(data, post);
+
+  port.on('message', (request: ScanWorkerRequest) => {
+    if (request.type === 'ack') {
+      walker.acknowledge();
+    } else if (request.type === 'process') {
+      processFiles(request)
+        .then((result) => post({ type: 'processed', ...result }))
+        .catch((error: Error) => post({ type: 'error', error: error.message }));
+    }
+  });
+
+  // The consumer terminates the worker once it is done or failed
+  walker.run().catch((error: Error) => post({ type: 'error', error: error.message }));
+}
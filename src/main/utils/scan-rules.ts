@@ -0,0 +1,265 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ScanRules } from '@common/types';
+
+// Ignore file a folder can hold to leave parts of itself out of scans, written like .gitignore
+export const IGNORE_FILE_NAME = '.mmignore';
+
+// Rules of scans that are not given any: everything but symlinks, as scans always worked
+export const DEFAULT_SCAN_RULES: ScanRules = {
+  ignoreGlobs: [],
+  symlinks: 'skip',
+  includeHidden: true,
+  maxDepth: 0,
+};
+
+// Names differ only in case on the default filesystems of these platforms
+const CASE_INSENSITIVE = process.platform === 'win32' || process.platform === 'darwin';
+
+/**
+ * A compiled line of an ignore file
+ */
+export interface IgnorePattern {
+  regex: RegExp; // Tested against the path below the folder the pattern comes from
+  negated: boolean; // "!pattern" includes a path again
+  directoryOnly: boolean; // "pattern/" only matches folders
+}
+
+/**
+ * Fill in the rules a caller left out
+ */
+export function resolveScanRules(rules?: Partial<ScanRules>): ScanRules {
+  return { ...DEFAULT_SCAN_RULES, ...rules };
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Translate a glob into a regular expression source. "*" and "?" stay within a folder,
+ * "**" spans folders when it makes up a whole path segment.
+ */
+function globToRegExp(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      const wholeSegment = (i === 0 || glob[i - 1] === '/') && glob[i + 1] === '*';
+
+      if (wholeSegment && glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (wholeSegment && i + 2 === glob.length) {
+        source += '.*';
+        i += 1;
+      } else {
+        source += '[^/]*';
+        while (glob[i + 1] === '*') {
+          i++;
+        }
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      const members = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += members.startsWith('!') ? `[^${members.slice(1)}]` : `[${members}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compile the lines of an ignore file, or of the ignore globs in settings. Patterns with
+ * a slash are relative to the folder they come from, others match names at any depth.
+ */
+export function parseIgnorePatterns(lines: string[]): IgnorePattern[] {
+  const patterns: IgnorePattern[] = [];
+
+  for (const rawLine of lines) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+      line = line.slice(1);
+    }
+
+    const directoryOnly = line.endsWith('/');
+    line = line.replace(/\/+$/, '');
+
+    const anchored = line.includes('/');
+    line = line.replace(/^\/+/, '');
+    if (!line) {
+      continue;
+    }
+
+    const body = globToRegExp(line);
+    patterns.push({
+      regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`, CASE_INSENSITIVE ? 'i' : ''),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return patterns;
+}
+
+/**
+ * Read the ignore file of a folder
+ * @returns Its patterns, none when the folder has no ignore file
+ */
+export async function readIgnoreFile(folder: string): Promise<IgnorePattern[]> {
+  try {
+    const content = await fs.readFile(path.join(folder, IGNORE_FILE_NAME), 'utf8');
+    return parseIgnorePatterns(content.split(/\r?\n/));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Ignore patterns in effect for a folder of a scan: the global globs followed by the
+ * ignore files of the folder and its parents, outermost first. As in .gitignore, the
+ * last matching pattern decides.
+ */
+export class IgnoreMatcher {
+  constructor(private readonly scopes: { base: string; patterns: IgnorePattern[] }[] = []) {}
+
+  /**
+   * Matcher for the global ignore globs, applied from the scan root down
+   */
+  public static fromGlobs(globs: string[]): IgnoreMatcher {
+    return new IgnoreMatcher().extend('', parseIgnorePatterns(globs));
+  }
+
+  /**
+   * Matcher for a subfolder with its own ignore file
+   * @param base Path of the subfolder below the scan root, with forward slashes
+   */
+  public extend(base: string, patterns: IgnorePattern[]): IgnoreMatcher {
+    return patterns.length > 0 ? new IgnoreMatcher([...this.scopes, { base, patterns }]) : this;
+  }
+
+  /**
+   * @param relativePath Path below the scan root, with forward slashes
+   */
+  public isIgnored(relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const { base, patterns } of this.scopes) {
+      const local = base ? relativePath.slice(base.length + 1) : relativePath;
+
+      for (const pattern of patterns) {
+        // Only patterns that could change the outcome are worth testing
+        if (pattern.negated === ignored && (isDirectory || !pattern.directoryOnly)) {
+          if (pattern.regex.test(local)) {
+            ignored = !pattern.negated;
+          }
+        }
+      }
+    }
+
+    return ignored;
+  }
+}
+
+/**
+ * Path of an entry below the scan root as ignore patterns see it
+ */
+export function toRelativePattern(rootPath: string, fullPath: string): string {
+  return path.relative(rootPath, fullPath).split(path.sep).join('/');
+}
+
+/**
+ * Applies the rules of a scan to single files, for callers that are handed files instead
+ * of walking the tree, such as watch folders. Ignore files are read once per folder.
+ */
+export class ScanRuleFilter {
+  private readonly rules: ScanRules;
+  private readonly matchers = new Map<string, Promise<IgnoreMatcher>>();
+
+  constructor(
+    private readonly rootPath: string,
+    rules?: Partial<ScanRules>,
+  ) {
+    this.rules = resolveScanRules(rules);
+  }
+
+  /**
+   * Whether a scan of the root would have left a file out. Files outside the root are
+   * never left out.
+   */
+  public async isExcluded(filePath: string): Promise<boolean> {
+    const relative = toRelativePattern(this.rootPath, filePath);
+    if (!relative || relative.split('/')[0] === '..' || path.isAbsolute(relative)) {
+      return false;
+    }
+
+    const segments = relative.split('/');
+    const { includeHidden, maxDepth, symlinks } = this.rules;
+
+    if (maxDepth > 0 && segments.length - 1 > maxDepth) {
+      return true;
+    }
+    if (!includeHidden && segments.some((segment) => segment.startsWith('.'))) {
+      return true;
+    }
+
+    for (let i = 0; i < segments.length; i++) {
+      const folder = segments.slice(0, i).join('/');
+      const matcher = await this.getMatcher(folder);
+
+      if (matcher.isIgnored(segments.slice(0, i + 1).join('/'), i < segments.length - 1)) {
+        return true;
+      }
+    }
+
+    if (symlinks === 'skip') {
+      return fs.lstat(filePath).then(
+        (stats) => stats.isSymbolicLink(),
+        () => false,
+      );
+    }
+
+    return false;
+  }
+
+  /**
+   * Matcher for the files of a folder
+   * @param folder Path below the root with forward slashes, empty for the root
+   */
+  private getMatcher(folder: string): Promise<IgnoreMatcher> {
+    let matcher = this.matchers.get(folder);
+
+    if (!matcher) {
+      const parent = folder
+        ? this.getMatcher(folder.split('/').slice(0, -1).join('/'))
+        : Promise.resolve(IgnoreMatcher.fromGlobs(this.rules.ignoreGlobs));
+
+      matcher = parent.then(async (parentMatcher) => {
+        const patterns = await readIgnoreFile(path.join(this.rootPath, ...folder.split('/'))).catch(
+          () => [],
+        );
+        return parentMatcher.extend(folder, patterns);
+      });
+      this.matchers.set(folder, matcher);
+    }
+
+    return matcher;
+  }
+}
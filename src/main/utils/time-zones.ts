@@ -0,0 +1,143 @@
+// Formatters are expensive to create, so one is kept per time zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parse a UTC offset such as "+03:00", "-0500" or "Z" into minutes east of UTC
+ * @returns The offset, or null when the value is not an offset
+ */
+export function parseUtcOffset(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed === 'Z') {
+    return 0;
+  }
+
+  const match = trimmed.match(/^(?:UTC|GMT)?([+-])(\d{1,2})(?::?(\d{2}))?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, hours, minutes = '0'] = match;
+  const offset = Number(hours) * 60 + Number(minutes);
+
+  return offset > 14 * 60 ? null : sign === '-' ? -offset : offset;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Offset of a time zone from UTC at a given moment, in minutes east of UTC
+ * @param timeZone IANA zone name such as "Europe/Istanbul", or a fixed offset like "+03:00"
+ * @returns The offset, or null for an unknown zone
+ */
+export function getTimeZoneOffset(timeZone: string, date: Date): number | null {
+  const fixed = parseUtcOffset(timeZone);
+  if (fixed !== null) {
+    return fixed;
+  }
+
+  try {
+    const parts = getFormatter(timeZone).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((item) => item.type === type)?.value);
+
+    const wallClock = Date.UTC(
+      part('year'),
+      part('month') - 1,
+      part('day'),
+      part('hour'),
+      part('minute'),
+      part('second'),
+    );
+
+    // The formatter drops milliseconds, so compare against the whole second
+    return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a value names a time zone or a UTC offset
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  return Boolean(timeZone.trim()) && getTimeZoneOffset(timeZone.trim(), new Date()) !== null;
+}
+
+/**
+ * The moment a wall-clock time in a time zone refers to. The wall-clock time is read
+ * from the local fields of the given date; without a zone it is taken as system time.
+ */
+export function fromWallClock(wallClock: Date, timeZone?: string): Date {
+  if (!timeZone) {
+    return new Date(wallClock);
+  }
+
+  const asUtc = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds(),
+    wallClock.getMilliseconds(),
+  );
+
+  // The offset at the guessed moment may differ across a DST change, so check it twice
+  const guess = getTimeZoneOffset(timeZone, new Date(asUtc));
+  if (guess === null) {
+    return new Date(wallClock);
+  }
+
+  const offset = getTimeZoneOffset(timeZone, new Date(asUtc - guess * 60000)) ?? guess;
+  return new Date(asUtc - offset * 60000);
+}
+
+/**
+ * What a clock in a time zone showed at a moment, as a Date whose local fields hold that
+ * wall-clock time. Without a zone the moment is shown in system time.
+ */
+export function toWallClock(date: Date, timeZone?: string): Date {
+  const offset = timeZone ? getTimeZoneOffset(timeZone, date) : null;
+  if (offset === null) {
+    return new Date(date);
+  }
+
+  const shifted = new Date(date.getTime() + offset * 60000);
+  return new Date(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth(),
+    shifted.getUTCDate(),
+    shifted.getUTCHours(),
+    shifted.getUTCMinutes(),
+    shifted.getUTCSeconds(),
+    shifted.getUTCMilliseconds(),
+  );
+}
+
+/**
+ * Fixed zone of the nautical time band a longitude falls in, used out at sea
+ */
+export function getNauticalTimeZone(longitude: number): string {
+  const hours = Math.round(longitude / 15);
+
+  // Etc zones have the POSIX sign: Etc/GMT-3 is three hours ahead of UTC
+  return hours === 0 ? 'Etc/UTC' : `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+}
@@ -0,0 +1,105 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+const MOUNTS_FILE = '/proc/self/mounts';
+const UUID_DIR = '/dev/disk/by-uuid';
+
+/**
+ * A mounted filesystem
+ */
+export interface MountEntry {
+  device: string;
+  mountPath: string;
+  fsType: string;
+}
+
+/**
+ * Undo the octal escapes /proc/self/mounts uses for spaces and other special characters
+ */
+function unescapeMountField(field: string): string {
+  return field.replace(/\\([0-7]{3})/g, (_match, octal: string) =>
+    String.fromCharCode(parseInt(octal, 8)),
+  );
+}
+
+/**
+ * List mounted filesystems. Only Linux exposes them this way, elsewhere the list is empty.
+ */
+export async function listMounts(): Promise<MountEntry[]> {
+  if (process.platform !== 'linux') {
+    return [];
+  }
+
+  const content = await fs.readFile(MOUNTS_FILE, 'utf8').catch(() => '');
+
+  return content
+    .split('\n')
+    .map((line) => line.split(' '))
+    .filter((fields) => fields.length >= 3)
+    .map(([device, mountPath, fsType]) => ({
+      device: unescapeMountField(device),
+      mountPath: unescapeMountField(mountPath),
+      fsType,
+    }));
+}
+
+/**
+ * The mount a path lives on, the one with the longest matching mount path
+ */
+export async function findMount(filePath: string): Promise<MountEntry | null> {
+  const resolved = path.resolve(filePath);
+  let best: MountEntry | null = null;
+
+  for (const mount of await listMounts()) {
+    const relative = path.relative(mount.mountPath, resolved);
+    const inside = !relative.startsWith('..') && !path.isAbsolute(relative);
+
+    if (inside && (!best || mount.mountPath.length > best.mountPath.length)) {
+      best = mount;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Filesystem UUID of a block device, the volume serial number on memory cards
+ */
+async function getFilesystemUuid(device: string): Promise<string | null> {
+  if (!device.startsWith('/dev/')) {
+    return null;
+  }
+
+  const target = await fs.realpath(device).catch(() => null);
+  const uuids = await fs.readdir(UUID_DIR).catch(() => [] as string[]);
+
+  for (const uuid of uuids) {
+    if ((await fs.realpath(path.join(UUID_DIR, uuid)).catch(() => null)) === target) {
+      return uuid;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Identifier that stays the same each time a volume is mounted, wherever it is mounted.
+ * Falls back to the volume label when the filesystem has no UUID.
+ */
+export async function getMountVolumeId(mount: MountEntry): Promise<string> {
+  const uuid = await getFilesystemUuid(mount.device);
+  return uuid ? `uuid:${uuid}` : `label:${path.basename(mount.mountPath)}`;
+}
+
+/**
+ * Identifier of the volume a folder is on, or of the folder itself when its mount is
+ * unknown or the root filesystem
+ */
+export async function getVolumeId(dirPath: string): Promise<string> {
+  const mount = await findMount(dirPath);
+  if (!mount || mount.mountPath === '/') {
+    return `path:${path.resolve(dirPath)}`;
+  }
+
+  return getMountVolumeId(mount);
+}
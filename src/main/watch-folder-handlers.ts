@@ -0,0 +1,91 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import log from 'electron-log';
+import { WatchFolder } from '@common/types';
+import { watchFolderService } from '@main/services/watch-folders';
+
+// Watch folder runs are not started from a window, so every window hears about them
+const broadcast = (channel: string, payload: unknown) =>
+  BrowserWindow.getAllWindows().forEach((window) => window.webContents.send(channel, payload));
+
+/**
+ * Sets up IPC handlers for watch folders
+ */
+export function registerWatchFolderHandlers(): void {
+  /**
+   * List watch folders with the state of their watchers
+   */
+  ipcMain.handle('watch:list', async () => {
+    try {
+      return { success: true, watches: watchFolderService.list() };
+    } catch (error) {
+      log.error('Error listing watch folders:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Add or update a watch folder
+   */
+  ipcMain.handle('watch:save', async (_event, watch: Omit<WatchFolder, 'id'> & { id?: string }) => {
+    try {
+      log.info(`Saving watch folder ${watch.path} -> ${watch.destinationPath}`);
+
+      const saved = await watchFolderService.save(watch);
+
+      return { success: true, watch: saved };
+    } catch (error) {
+      log.error('Error saving watch folder:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+
+  /**
+   * Stop watching a folder and remove it from the list
+   */
+  ipcMain.handle('watch:remove', async (_event, id: string) => {
+    try {
+      log.info(`Removing watch folder ${id}`);
+
+      await watchFolderService.remove(id);
+
+      return { success: true };
+    } catch (error) {
+      log.error('Error removing watch folder:', error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  });
+}
+
+/**
+ * Start the persisted watchers. Their runs report on the organize event channels, tagged
+ * with the id of the watch folder.
+ */
+export async function startWatchFolders(): Promise<void> {
+  try {
+    await watchFolderService.start({
+      onProgress: (watch, progress) =>
+        broadcast('files:progress', { ...progress, watchId: watch.id }),
+      onError: (watch, file, error) =>
+        broadcast('files:error', { file, error: error.message, watchId: watch.id }),
+      onComplete: (watch, result) => broadcast('files:complete', { ...result, watchId: watch.id }),
+    });
+  } catch (error) {
+    log.error('Failed to start watch folders:', error);
+  }
+}
+
+/**
+ * Stop all watchers
+ */
+export function cleanupWatchFolders(): void {
+  watchFolderService.stopAll();
+}
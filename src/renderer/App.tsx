@@ -14,6 +14,8 @@ import FaceRecognitionScreen from '@components/modules/facerecognition/FaceRecog
 import SocialSharingScreen from '@components/modules/sharing/SocialSharingScreen';
 import CloudStorageScreen from '@components/modules/cloud/CloudStorageScreen';
 import ExifEditScreen from '@components/modules/exifedit/ExifEditScreen';
+import DuplicatesScreen from '@components/modules/duplicates/DuplicatesScreen';
+import HistoryScreen from '@components/modules/history/HistoryScreen';
 
 const App: React.FC = () => {
   const { t } = useTranslation();
@@ -43,6 +45,8 @@ const App: React.FC = () => {
           <Route path="/categorize" element={<AiCategorizationScreen />} />
           <Route path="/facerecognition" element={<FaceRecognitionScreen />} />
           <Route path="/exifedit" element={<ExifEditScreen />} />
+          <Route path="/duplicates" element={<DuplicatesScreen />} />
+          <Route path="/history" element={<HistoryScreen />} />
           <Route path="/sharing" element={<SocialSharingScreen />} />
           <Route path="/cloud" element={<CloudStorageScreen />} />
           <Route path="/settings" element={<SettingsScreen />} />
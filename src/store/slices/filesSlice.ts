@@ -1,10 +1,16 @@
 import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
-import { FileMetadata } from '@common/types';
+import { RootState } from '@/store';
+import { FileMetadata, ScanOptions, ScanProgress, ScanSummary } from '@common/types';
 
 interface ScanDirectoryResult {
     files: string[];
+    metadata: Record<string, FileMetadata>;
+    summary: ScanSummary;
 }
 
+// Counts of the running scan, without the batch contents
+type ScanCounts = Omit<ScanProgress, 'scanId' | 'files' | 'metadata'>;
+
 interface GetMetadataResult {
     filePath: string;
     metadata: FileMetadata;
@@ -15,6 +21,9 @@ interface FilesState {
     selectedFile: string | null;
     metadata: Record<string, FileMetadata>;
     isScanning: boolean;
+    scanId: string | null;
+    scanProgress: ScanCounts | null;
+    scanSummary: ScanSummary | null;
     error: string | null;
 }
 
@@ -23,24 +32,78 @@ const initialState: FilesState = {
     selectedFile: null,
     metadata: {},
     isScanning: false,
+    scanId: null,
+    scanProgress: null,
+    scanSummary: null,
     error: null,
 };
 
 // Async thunks
+// Files arrive in batches while the scan runs. They are collected here and stored once the
+// scan is done, only the counts go through the store on the way.
 export const scanDirectory = createAsyncThunk<
-    string[],
-    { dirPath: string; options: { recursive: boolean; fileTypes?: string[] } }
+    ScanDirectoryResult,
+    { dirPath: string; options: Omit<ScanOptions, 'scanId'> },
+    { state: RootState }
 >(
     'files/scanDirectory',
-    async ({ dirPath, options }, { rejectWithValue }) => {
+    async ({ dirPath, options }, { getState, rejectWithValue, dispatch, requestId }) => {
+        const files: string[] = [];
+        const metadata: Record<string, FileMetadata> = {};
+
+        // The request id doubles as the token to cancel the scan with
+        const removeProgressListener = window.electronAPI.on('files:scanProgress', (progress: ScanProgress) => {
+            if (progress.scanId !== requestId) {
+                return;
+            }
+
+            files.push(...progress.files);
+            Object.assign(metadata, progress.metadata);
+            dispatch(updateScanProgress({
+                currentFolder: progress.currentFolder,
+                foldersScanned: progress.foldersScanned,
+                filesFound: progress.filesFound,
+                metadataRead: progress.metadataRead,
+                hashed: progress.hashed,
+                errors: progress.errors,
+            }));
+        });
+
         try {
-            const result = await window.electronAPI.scanDirectory(dirPath, options);
+            // Scans follow the ignore rules in settings unless the caller brings its own
+            const result = await window.electronAPI.scanDirectory(dirPath, {
+                scanRules: (getState() as RootState).settings.advancedSettings.scanRules,
+                ...options,
+                scanId: requestId,
+            });
 
-            if (!result.success) {
+            if (!result.success || !result.summary) {
                 return rejectWithValue(result.error || 'Failed to scan directory');
             }
 
-            return result.files || [];
+            return { files, metadata, summary: result.summary };
+        } catch (error) {
+            return rejectWithValue((error as Error).message);
+        } finally {
+            removeProgressListener();
+        }
+    }
+);
+
+export const cancelScan = createAsyncThunk<void, void, { state: RootState }>(
+    'files/cancelScan',
+    async (_, { getState, rejectWithValue }) => {
+        const { scanId } = (getState() as RootState).files;
+        if (!scanId) {
+            return;
+        }
+
+        try {
+            const result = await window.electronAPI.cancelScan(scanId);
+
+            if (!result.success) {
+                return rejectWithValue(result.error || 'Failed to cancel scan');
+            }
         } catch (error) {
             return rejectWithValue((error as Error).message);
         }
@@ -85,20 +148,35 @@ const filesSlice = createSlice({
         setMetadata: (state, action: PayloadAction<{ filePath: string; metadata: FileMetadata }>) => {
             state.metadata[action.payload.filePath] = action.payload.metadata;
         },
+        updateScanProgress: (state, action: PayloadAction<ScanCounts>) => {
+            state.scanProgress = action.payload;
+        },
     },
     extraReducers: (builder) => {
         builder
             // scanDirectory
-            .addCase(scanDirectory.pending, (state) => {
+            .addCase(scanDirectory.pending, (state, action) => {
                 state.isScanning = true;
+                state.scanId = action.meta.requestId;
+                state.scanProgress = null;
+                state.scanSummary = null;
                 state.error = null;
             })
             .addCase(scanDirectory.fulfilled, (state, action) => {
                 state.isScanning = false;
-                state.fileList = action.payload;
+                state.scanId = null;
+                state.fileList = action.payload.files;
+                state.metadata = { ...state.metadata, ...action.payload.metadata };
+                state.scanSummary = action.payload.summary;
             })
             .addCase(scanDirectory.rejected, (state, action) => {
                 state.isScanning = false;
+                state.scanId = null;
+                state.error = action.payload as string;
+            })
+
+            // cancelScan
+            .addCase(cancelScan.rejected, (state, action) => {
                 state.error = action.payload as string;
             })
 
@@ -115,6 +193,7 @@ export const {
     setSelectedFile,
     clearFiles,
     setMetadata,
+    updateScanProgress,
 } = filesSlice.actions;
 
 export default filesSlice.reducer;
\ No newline at end of file
@@ -1,13 +1,20 @@
 import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
 import { RootState } from '@/store';
-
-// Define the result type for more type safety
-interface OrganizeResult {
-    total: number;
-    succeeded: number;
-    skipped: number;
-    errors: number;
-}
+import { loadProfile } from '@store/slices/settingsSlice';
+import {
+    ConflictOptions,
+    ConflictStrategy,
+    EventClusteringOptions,
+    FilenameDateOptions,
+    ImportMatchMode,
+    OrganizeOptions,
+    OrganizeProfileSettings,
+    RenameExtensionCase,
+    OrganizeResult,
+    PlannedOperation,
+    TimeZoneOptions,
+    UndoResult,
+} from '@common/types';
 
 interface OrganizeState {
     sourcePath: string;
@@ -15,7 +22,8 @@ interface OrganizeState {
     operation: 'move' | 'copy';
     pattern: string;
     recursive: boolean;
-    conflicts: 'rename' | 'skip' | 'overwrite';
+    conflicts: ConflictStrategy;
+    conflictOptions: Required<ConflictOptions>;
     filters: {
         dateFrom: string;
         dateTo: string;
@@ -25,10 +33,18 @@ interface OrganizeState {
     options: {
         createBackup: boolean;
         skipDuplicates: boolean;
+        verifyCopies: boolean;
+        incrementalImport: boolean;
+        importMatch: ImportMatchMode;
         organizeByType: boolean;
         organizeByCamera: boolean;
         customRenamePattern: string;
+        renameExtensionCase: RenameExtensionCase;
+        fixExtensions: boolean;
     };
+    events: Required<EventClusteringOptions>;
+    filenameDates: FilenameDateOptions;
+    timeZones: TimeZoneOptions;
     progress: {
         isRunning: boolean;
         currentFile: string;
@@ -39,6 +55,19 @@ interface OrganizeState {
         skipped: number;
         errors: number;
     };
+    plan: {
+        entries: PlannedOperation[] | null; // null until a plan has been generated
+        isLoading: boolean;
+        processed: number;
+        total: number;
+        error: string | null;
+    };
+    lastTaskId: number | null; // Journal id of the last completed run
+    undo: {
+        isRunning: boolean;
+        result: UndoResult | null;
+        error: string | null;
+    };
 }
 
 const initialState: OrganizeState = {
@@ -48,6 +77,10 @@ const initialState: OrganizeState = {
     pattern: '%Y/%m/%d',
     recursive: false,
     conflicts: 'rename',
+    conflictOptions: {
+        renameTemplate: '{name}_{n}',
+        reviewFolder: '_Review',
+    },
     filters: {
         dateFrom: '',
         dateTo: '',
@@ -57,9 +90,28 @@ const initialState: OrganizeState = {
     options: {
         createBackup: false,
         skipDuplicates: true,
+        verifyCopies: false,
+        incrementalImport: false,
+        importMatch: 'name-size-date',
         organizeByType: false,
         organizeByCamera: false,
         customRenamePattern: '',
+        renameExtensionCase: 'keep',
+        fixExtensions: false,
+    },
+    events: {
+        gapHours: 4,
+        maxDistanceKm: 0,
+        name: '',
+    },
+    filenameDates: {
+        enabled: true,
+        parsers: ['whatsapp', 'pixel', 'android', 'screenshot', 'signal', 'telegram', 'generic'],
+        customPatterns: [],
+    },
+    timeZones: {
+        override: '',
+        inferFromGps: true,
     },
     progress: {
         isRunning: false,
@@ -71,27 +123,55 @@ const initialState: OrganizeState = {
         skipped: 0,
         errors: 0,
     },
+    plan: {
+        entries: null,
+        isLoading: false,
+        processed: 0,
+        total: 0,
+        error: null,
+    },
+    lastTaskId: null,
+    undo: {
+        isRunning: false,
+        result: null,
+        error: null,
+    },
 };
 
+// Organize settings saved with a settings profile, watch folders organize with these
+export const getOrganizeProfileSettings = (organize: OrganizeState): OrganizeProfileSettings => ({
+    operation: organize.operation,
+    pattern: organize.pattern,
+    recursive: organize.recursive,
+    conflicts: organize.conflicts,
+    conflictOptions: organize.conflictOptions,
+    filters: organize.filters,
+    options: organize.options,
+    events: organize.events,
+    filenameDates: organize.filenameDates,
+    timeZones: organize.timeZones,
+});
+
+// Build the options passed to the main process from the current state. Routing rules
+// and geo tagging belong to the settings profile rather than to a single run.
+const buildOrganizeOptions = ({ organize, settings }: RootState): OrganizeOptions => ({
+    ...getOrganizeProfileSettings(organize),
+    sourcePath: organize.sourcePath,
+    destinationPath: organize.destinationPath,
+    rules: settings.organizeRules,
+    geoTagging: settings.advancedSettings.enableGeoTagging,
+    scanRules: settings.advancedSettings.scanRules,
+});
+
 // Async thunks
 export const organizeFiles = createAsyncThunk<OrganizeResult, void, { state: RootState }>(
     'organize/organizeFiles',
     async (_, { getState, rejectWithValue }) => {
         try {
             const state = getState() as RootState;
-            const { organize } = state;
 
             // Call Electron API to organize files
-            const result = await window.electronAPI.organizeFiles({
-                sourcePath: organize.sourcePath,
-                destinationPath: organize.destinationPath,
-                operation: organize.operation,
-                pattern: organize.pattern,
-                recursive: organize.recursive,
-                conflicts: organize.conflicts,
-                filters: organize.filters,
-                options: organize.options,
-            });
+            const result = await window.electronAPI.organizeFiles(buildOrganizeOptions(state));
 
             if (!result.success) {
                 return rejectWithValue(result.error || 'Failed to organize files');
@@ -109,6 +189,49 @@ export const organizeFiles = createAsyncThunk<OrganizeResult, void, { state: Roo
     }
 );
 
+export const planOrganize = createAsyncThunk<PlannedOperation[], void, { state: RootState }>(
+    'organize/planOrganize',
+    async (_, { getState, rejectWithValue }) => {
+        try {
+            const state = getState() as RootState;
+
+            // Ask the main process for the dry-run plan
+            const result = await window.electronAPI.planOrganize(buildOrganizeOptions(state));
+
+            if (!result.success) {
+                return rejectWithValue(result.error || 'Failed to plan organize run');
+            }
+
+            return result.plan || [];
+        } catch (error) {
+            return rejectWithValue((error as Error).message);
+        }
+    }
+);
+
+export const undoLastRun = createAsyncThunk<UndoResult, void, { state: RootState }>(
+    'organize/undoLastRun',
+    async (_, { getState, rejectWithValue }) => {
+        try {
+            const { lastTaskId } = (getState() as RootState).organize;
+
+            if (lastTaskId === null) {
+                return rejectWithValue('No organize run to undo');
+            }
+
+            const result = await window.electronAPI.undoTask(lastTaskId);
+
+            if (!result.success || !result.result) {
+                return rejectWithValue(result.error || 'Failed to undo organize run');
+            }
+
+            return result.result;
+        } catch (error) {
+            return rejectWithValue((error as Error).message);
+        }
+    }
+);
+
 const organizeSlice = createSlice({
     name: 'organize',
     initialState,
@@ -128,21 +251,40 @@ const organizeSlice = createSlice({
         setRecursive: (state, action: PayloadAction<boolean>) => {
             state.recursive = action.payload;
         },
-        setConflicts: (state, action: PayloadAction<'rename' | 'skip' | 'overwrite'>) => {
+        setConflicts: (state, action: PayloadAction<ConflictStrategy>) => {
             state.conflicts = action.payload;
         },
+        setConflictOptions: (state, action: PayloadAction<Partial<ConflictOptions>>) => {
+            state.conflictOptions = { ...state.conflictOptions, ...action.payload };
+        },
         setFilters: (state, action: PayloadAction<Partial<OrganizeState['filters']>>) => {
             state.filters = { ...state.filters, ...action.payload };
         },
         setOptions: (state, action: PayloadAction<Partial<OrganizeState['options']>>) => {
             state.options = { ...state.options, ...action.payload };
         },
+        setEvents: (state, action: PayloadAction<Partial<EventClusteringOptions>>) => {
+            state.events = { ...state.events, ...action.payload };
+        },
+        setFilenameDates: (state, action: PayloadAction<Partial<FilenameDateOptions>>) => {
+            state.filenameDates = { ...state.filenameDates, ...action.payload };
+        },
+        setTimeZones: (state, action: PayloadAction<Partial<TimeZoneOptions>>) => {
+            state.timeZones = { ...state.timeZones, ...action.payload };
+        },
         updateProgress: (state, action: PayloadAction<Partial<OrganizeState['progress']>>) => {
             state.progress = { ...state.progress, ...action.payload };
         },
         resetProgress: (state) => {
             state.progress = initialState.progress;
         },
+        updatePlanProgress: (state, action: PayloadAction<{ processed: number; total: number }>) => {
+            state.plan.processed = action.payload.processed;
+            state.plan.total = action.payload.total;
+        },
+        clearPlan: (state) => {
+            state.plan = initialState.plan;
+        },
         resetAll: () => initialState,
     },
     extraReducers: (builder) => {
@@ -158,6 +300,8 @@ const organizeSlice = createSlice({
                     skipped: 0,
                     errors: 0,
                 };
+                state.lastTaskId = null;
+                state.undo = initialState.undo;
             })
             .addCase(organizeFiles.fulfilled, (state, action) => {
                 const result = action.payload;
@@ -170,9 +314,52 @@ const organizeSlice = createSlice({
                     errors: result.errors,
                     percentage: 100,
                 };
+                state.lastTaskId = result.taskId ?? null;
             })
             .addCase(organizeFiles.rejected, (state) => {
                 state.progress.isRunning = false;
+            })
+            .addCase(planOrganize.pending, (state) => {
+                state.plan = { ...initialState.plan, isLoading: true };
+            })
+            .addCase(planOrganize.fulfilled, (state, action) => {
+                state.plan.isLoading = false;
+                state.plan.entries = action.payload;
+            })
+            .addCase(planOrganize.rejected, (state, action) => {
+                state.plan.isLoading = false;
+                state.plan.error = action.payload as string;
+            })
+            .addCase(undoLastRun.pending, (state) => {
+                state.undo = { ...initialState.undo, isRunning: true };
+            })
+            .addCase(undoLastRun.fulfilled, (state, action) => {
+                state.undo.isRunning = false;
+                state.undo.result = action.payload;
+                state.lastTaskId = null;
+            })
+            .addCase(undoLastRun.rejected, (state, action) => {
+                state.undo.isRunning = false;
+                state.undo.error = action.payload as string;
+            })
+            .addCase(loadProfile.fulfilled, (state, action) => {
+                // Profiles saved before organize settings were stored keep the current ones
+                const settings: OrganizeProfileSettings | undefined =
+                    action.payload.config?.organizeSettings;
+                if (!settings) {
+                    return;
+                }
+
+                state.operation = settings.operation;
+                state.pattern = settings.pattern;
+                state.recursive = settings.recursive;
+                state.conflicts = settings.conflicts;
+                state.conflictOptions = { ...state.conflictOptions, ...settings.conflictOptions };
+                state.filters = { ...state.filters, ...settings.filters };
+                state.options = { ...state.options, ...settings.options };
+                state.events = { ...state.events, ...settings.events };
+                state.filenameDates = { ...state.filenameDates, ...settings.filenameDates };
+                state.timeZones = { ...state.timeZones, ...settings.timeZones };
             });
     },
 });
@@ -184,10 +371,16 @@ export const {
     setPattern,
     setRecursive,
     setConflicts,
+    setConflictOptions,
     setFilters,
     setOptions,
+    setEvents,
+    setFilenameDates,
+    setTimeZones,
     updateProgress,
     resetProgress,
+    updatePlanProgress,
+    clearPlan,
     resetAll,
 } = organizeSlice.actions;
 
@@ -1,4 +1,5 @@
 import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { CustomMediaFormat, RoutingRule, ScanRules } from '@common/types';
 
 interface AdvancedSettings {
   enableGeoTagging: boolean;
@@ -43,6 +44,8 @@ interface AdvancedSettings {
   enableEncryption: boolean;
   encryptionPassword: string;
   parallelJobs: number;
+  scanRules: ScanRules;
+  customFormats: CustomMediaFormat[];
   // Add these EXIF editing settings
   enableExifEdit: boolean;
   exifCreateBackup: boolean;
@@ -57,6 +60,7 @@ interface AdvancedSettings {
 
 interface ProfileConfig {
   advancedSettings?: AdvancedSettings;
+  organizeRules?: RoutingRule[];
 
   [key: string]: any;
 }
@@ -70,6 +74,7 @@ interface SettingsState {
   profiles: string[];
   currentProfile: string;
   advancedSettings: AdvancedSettings;
+  organizeRules: RoutingRule[];
   isLoading: boolean;
   error: string | null;
 }
@@ -125,9 +130,11 @@ const initialState: {
     enableEncryption: boolean;
     encryptionPassword: string;
     parallelJobs: number;
+    scanRules: ScanRules;
+    customFormats: CustomMediaFormat[];
     preserveDirectoryStructure: boolean;
     uploadAfterOrganizing: boolean
-  }; isLoading: boolean; error: null
+  }; organizeRules: RoutingRule[]; isLoading: boolean; error: null
 } = {
   profiles: [],
   currentProfile: 'default',
@@ -154,7 +161,7 @@ const initialState: {
     enableCloudUpload: false,
     cloudService: '',
     enableScheduling: false,
-    scheduleTime: '',
+    scheduleTime: '03:00',
     enableExifEdit: false,
     exifCreateBackup: true,
     exifBackupDir: '',
@@ -181,9 +188,26 @@ const initialState: {
     enableEncryption: false,
     encryptionPassword: '',
     parallelJobs: 1,
+    // Trash, thumbnail and catalog folders that NAS boxes, desktops and apps leave behind
+    scanRules: {
+      ignoreGlobs: [
+        '.Trash-*/',
+        '$RECYCLE.BIN/',
+        'System Volume Information/',
+        '@eaDir/',
+        '.thumbnails/',
+        'node_modules/',
+        '*.lrdata/',
+      ],
+      symlinks: 'skip',
+      includeHidden: false,
+      maxDepth: 0,
+    },
+    customFormats: [],
     preserveDirectoryStructure: true,
     uploadAfterOrganizing: false,
   },
+  organizeRules: [],
   isLoading: false,
   error: null,
 };
@@ -259,6 +283,9 @@ const settingsSlice = createSlice({
     resetAdvancedSettings: (state) => {
       state.advancedSettings = initialState.advancedSettings;
     },
+    setOrganizeRules: (state, action: PayloadAction<RoutingRule[]>) => {
+      state.organizeRules = action.payload;
+    },
     updateSocialSharingSettings: (state, action: PayloadAction<{
       enableSocialSharing?: boolean;
       socialPlatforms?: SocialPlatformConfig[];
@@ -304,6 +331,9 @@ const settingsSlice = createSlice({
             ...action.payload.config.advancedSettings,
           };
         }
+
+        // Profiles saved before routing rules existed have none
+        state.organizeRules = action.payload.config?.organizeRules || [];
       })
       .addCase(loadProfile.rejected, (state, action) => {
         state.isLoading = false;
@@ -334,6 +364,7 @@ export const {
   setCurrentProfile,
   updateAdvancedSettings,
   resetAdvancedSettings,
+  setOrganizeRules,
   updateSocialSharingSettings,
 } = settingsSlice.actions;
 
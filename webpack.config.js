@@ -8,11 +8,14 @@ const isDevelopment = process.env.NODE_ENV !== 'production';
 module.exports = [
   {
     mode: isDevelopment ? 'development' : 'production',
-    entry: './src/main/main.ts',
+    entry: {
+      main: './src/main/main.ts',
+      'scan-worker': './src/main/scan-worker.ts', // Loaded with worker_threads from next to main.js
+    },
     target: 'electron-main',
     output: {
       path: path.resolve(__dirname, 'dist/main'),
-      filename: 'main.js',
+      filename: '[name].js',
     },
     node: {
       __dirname: false,